@@ -0,0 +1,48 @@
+export interface CurrencyInfo {
+  code: string;
+  name: string;
+  exponent: number; // Number of minor unit digits (ISO 4217)
+}
+
+/**
+ * ISO 4217 currencies (plus the stablecoins used for settlement) that the
+ * payment rails know how to represent. Amounts are stored in minor units,
+ * so the exponent is what turns 10.50 EUR into 1050 and 1050 JPY into 1050.
+ */
+const currencies: CurrencyInfo[] = [
+  { code: 'USD', name: 'US Dollar', exponent: 2 },
+  { code: 'EUR', name: 'Euro', exponent: 2 },
+  { code: 'GBP', name: 'Pound Sterling', exponent: 2 },
+  { code: 'CAD', name: 'Canadian Dollar', exponent: 2 },
+  { code: 'AUD', name: 'Australian Dollar', exponent: 2 },
+  { code: 'JPY', name: 'Yen', exponent: 0 },
+  { code: 'INR', name: 'Indian Rupee', exponent: 2 },
+  { code: 'BRL', name: 'Brazilian Real', exponent: 2 },
+  { code: 'MXN', name: 'Mexican Peso', exponent: 2 },
+  { code: 'CHF', name: 'Swiss Franc', exponent: 2 },
+  { code: 'SEK', name: 'Swedish Krona', exponent: 2 },
+  { code: 'NOK', name: 'Norwegian Krone', exponent: 2 },
+  { code: 'KRW', name: 'Won', exponent: 0 },
+  { code: 'BHD', name: 'Bahraini Dinar', exponent: 3 },
+  { code: 'KWD', name: 'Kuwaiti Dinar', exponent: 3 },
+  { code: 'USDC', name: 'USD Coin', exponent: 6 },
+  { code: 'USDT', name: 'Tether USD', exponent: 6 }
+];
+
+export const CURRENCIES: Record<string, CurrencyInfo> = Object.fromEntries(
+  currencies.map(currency => [currency.code, currency])
+);
+
+/**
+ * Look up a currency by code (case-insensitive)
+ */
+export function getCurrency(code: string): CurrencyInfo | undefined {
+  return code ? CURRENCIES[code.toUpperCase()] : undefined;
+}
+
+/**
+ * Check whether a currency code is known to the registry
+ */
+export function isKnownCurrency(code: string): boolean {
+  return getCurrency(code) !== undefined;
+}
@@ -35,6 +35,16 @@ const options: swaggerJsdoc.Options = {
             type: 'string',
             example: 'cbp_1234567890abcdef1234567890abcdef'
           }
+        },
+        ProviderStatsWindow: {
+          name: 'window',
+          in: 'query',
+          required: false,
+          description: 'Period of transactions to include, as minutes, hours or days up to 90d. Defaults to 24h.',
+          schema: {
+            type: 'string',
+            example: '7d'
+          }
         }
       },
       securitySchemes: {
@@ -44,124 +54,1314 @@ const options: swaggerJsdoc.Options = {
           bearerFormat: 'token',
           description: 'Bearer token for user authentication'
         },
-        apiKeyAuth: {
-          type: 'apiKey',
-          in: 'header',
-          name: 'X-API-Key',
-          description: 'API key for authentication'
-        }
-      },
-      schemas: {
-        CreatePaymentRequest: {
+        apiKeyAuth: {
+          type: 'apiKey',
+          in: 'header',
+          name: 'X-API-Key',
+          description: 'API key for authentication'
+        }
+      },
+      schemas: {
+        CreatePaymentRequest: {
+          type: 'object',
+          description: 'Either quote_id, or source_amount with source_currency and destination_currency, is required. The payment belongs to the authenticated user or API key.',
+          properties: {
+            quote_id: {
+              type: 'string',
+              format: 'uuid',
+              description: 'Execute the payment at the locked terms of this quote. Any amount or currencies sent with it must match the quote.',
+              example: '7c9e6679-7425-40de-944b-e07fc1f90ae7'
+            },
+            source_amount: {
+              oneOf: [{ type: 'number' }, { type: 'string' }],
+              description: 'Amount in source currency, as a number or an exact decimal string. May not have more decimal places than the currency allows (e.g. none for JPY).',
+              example: '100.00'
+            },
+            source_currency: {
+              type: 'string',
+              description: 'Source currency code',
+              example: 'USD'
+            },
+            destination_currency: {
+              type: 'string',
+              description: 'Destination currency code',
+              example: 'EUR'
+            },
+            webhook_url: {
+              type: 'string',
+              format: 'uri',
+              description: 'Receives every event for this payment, in addition to your registered webhook endpoints',
+              example: 'https://merchant.example.com/payments/hook'
+            },
+            recipient_id: {
+              type: 'string',
+              format: 'uuid',
+              description: 'Saved recipient to pay out to. Its currency must be the destination currency.'
+            },
+            routing_preference: {
+              type: 'string',
+              enum: ['balanced', 'cheapest', 'fastest', 'most_reliable'],
+              description: 'What provider routing optimises for (default balanced)',
+              example: 'cheapest'
+            }
+          }
+        },
+        EstimateFeesRequest: {
+          type: 'object',
+          required: ['source_amount', 'source_currency', 'destination_currency'],
+          properties: {
+            source_amount: {
+              oneOf: [{ type: 'number' }, { type: 'string' }],
+              description: 'Amount in source currency, as a number or an exact decimal string. May not have more decimal places than the currency allows (e.g. none for JPY).',
+              example: '100.00'
+            },
+            source_currency: {
+              type: 'string',
+              description: 'Source currency code',
+              example: 'USD'
+            },
+            destination_currency: {
+              type: 'string',
+              description: 'Destination currency code',
+              example: 'EUR'
+            }
+          }
+        },
+        PaymentResponse: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              format: 'uuid',
+              description: 'Payment ID',
+              example: '550e8400-e29b-41d4-a716-446655440000'
+            },
+            status: {
+              type: 'string',
+              enum: ['pending', 'processing', 'onramp_complete', 'offramp_processing', 'completed', 'failed', 'cancelled'],
+              description: 'Payment status',
+              example: 'processing'
+            },
+            source_amount: {
+              type: 'string',
+              description: 'Amount in source currency (exact decimal)',
+              example: '100.00'
+            },
+            source_currency: {
+              type: 'string',
+              description: 'Source currency',
+              example: 'USD'
+            },
+            destination_amount: {
+              type: 'string',
+              description: 'Amount in destination currency (exact decimal)',
+              example: '84.53'
+            },
+            destination_currency: {
+              type: 'string',
+              description: 'Destination currency',
+              example: 'EUR'
+            },
+            exchange_rate: {
+              type: 'string',
+              description: 'Exchange rate used (destination units per source unit): the mid-market rate less the spread',
+              example: '0.84531'
+            },
+            mid_exchange_rate: {
+              type: 'string',
+              description: 'Mid-market rate the payment was priced from',
+              example: '0.84573'
+            },
+            spread_bps: {
+              type: 'integer',
+              description: 'FX spread applied, in basis points',
+              example: 5
+            },
+            spread_amount: {
+              type: 'string',
+              description: 'FX spread revenue in source currency; not part of fee_amount',
+              example: '0.05'
+            },
+            fee_amount: {
+              type: 'string',
+              description: 'Total fees charged, in source currency',
+              example: '5.94'
+            },
+            total_amount: {
+              type: 'string',
+              description: 'Total amount charged in source currency; always source_amount + fee_amount',
+              example: '105.94'
+            },
+            recipient_id: {
+              type: 'string',
+              format: 'uuid',
+              description: 'Recipient the payout goes to'
+            },
+            routing_preference: {
+              type: 'string',
+              enum: ['balanced', 'cheapest', 'fastest', 'most_reliable']
+            },
+            estimated_completion: {
+              type: 'string',
+              format: 'date-time',
+              description: 'Estimated completion time',
+              example: '2024-01-15T10:30:00Z'
+            },
+            created_at: {
+              type: 'string',
+              format: 'date-time',
+              description: 'Payment creation time',
+              example: '2024-01-15T10:00:00Z'
+            }
+          }
+        },
+        CreateQuoteRequest: {
+          type: 'object',
+          required: ['source_amount', 'source_currency', 'destination_currency'],
+          properties: {
+            source_amount: {
+              oneOf: [{ type: 'number' }, { type: 'string' }],
+              description: 'Amount in source currency, as a number or an exact decimal string',
+              example: '100.00'
+            },
+            source_currency: {
+              type: 'string',
+              example: 'USD'
+            },
+            destination_currency: {
+              type: 'string',
+              example: 'EUR'
+            },
+            user_id: {
+              type: 'string',
+              description: 'Restrict the quote to payments for this user, and price it with their tier. Authenticated callers are always used instead.',
+              example: 'user_123'
+            }
+          }
+        },
+        QuoteResponse: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              format: 'uuid',
+              example: '7c9e6679-7425-40de-944b-e07fc1f90ae7'
+            },
+            status: {
+              type: 'string',
+              enum: ['active', 'used', 'expired'],
+              example: 'active'
+            },
+            source_amount: {
+              type: 'string',
+              example: '100.00'
+            },
+            source_currency: {
+              type: 'string',
+              example: 'USD'
+            },
+            destination_amount: {
+              type: 'string',
+              example: '84.53'
+            },
+            destination_currency: {
+              type: 'string',
+              example: 'EUR'
+            },
+            exchange_rate: {
+              type: 'string',
+              description: 'Customer rate: the mid-market rate less the spread',
+              example: '0.84531'
+            },
+            mid_exchange_rate: {
+              type: 'string',
+              example: '0.84573'
+            },
+            spread_bps: {
+              type: 'integer',
+              example: 5
+            },
+            spread_amount: {
+              type: 'string',
+              description: 'FX spread revenue in source currency; not part of fee_amount',
+              example: '0.05'
+            },
+            fee_breakdown: {
+              type: 'object',
+              description: 'Fee components in the destination currency'
+            },
+            fee_amount: {
+              type: 'string',
+              description: 'Total fee charged in source currency',
+              example: '5.94'
+            },
+            total_amount: {
+              type: 'string',
+              description: 'source_amount + fee_amount',
+              example: '105.94'
+            },
+            payment_id: {
+              type: 'string',
+              format: 'uuid',
+              description: 'Payment that executed the quote, once used'
+            },
+            expires_at: {
+              type: 'string',
+              format: 'date-time',
+              example: '2024-01-15T10:05:00Z'
+            },
+            created_at: {
+              type: 'string',
+              format: 'date-time',
+              example: '2024-01-15T10:00:00Z'
+            }
+          }
+        },
+        PaymentEvent: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'integer',
+              description: 'Event sequence number',
+              example: 42
+            },
+            payment_id: {
+              type: 'string',
+              format: 'uuid',
+              example: '550e8400-e29b-41d4-a716-446655440000'
+            },
+            from_status: {
+              type: 'string',
+              nullable: true,
+              description: 'Status before the transition (null for the creation event)',
+              example: 'processing'
+            },
+            to_status: {
+              type: 'string',
+              description: 'Status after the transition',
+              example: 'onramp_complete'
+            },
+            reason: {
+              type: 'string',
+              description: 'Why the transition happened',
+              example: 'onramp_completed'
+            },
+            metadata: {
+              type: 'object',
+              description: 'Additional context for the transition'
+            },
+            created_at: {
+              type: 'string',
+              format: 'date-time'
+            }
+          }
+        },
+        PaymentListResponse: {
+          type: 'object',
+          properties: {
+            payments: {
+              type: 'array',
+              items: {
+                $ref: '#/components/schemas/PaymentResponse'
+              }
+            },
+            pagination: {
+              type: 'object',
+              properties: {
+                limit: {
+                  type: 'integer',
+                  example: 20
+                },
+                has_more: {
+                  type: 'boolean'
+                },
+                next_cursor: {
+                  type: 'string',
+                  description: 'Opaque cursor for the next page; absent on the last page'
+                }
+              }
+            }
+          }
+        },
+        CreateRefundRequest: {
+          type: 'object',
+          properties: {
+            amount: {
+              oneOf: [{ type: 'number' }, { type: 'string' }],
+              description: 'Amount to refund in the payment source currency; omit to refund everything still refundable',
+              example: '25.00'
+            },
+            reason: {
+              type: 'string',
+              maxLength: 500,
+              example: 'Payout could not be delivered'
+            }
+          }
+        },
+        RefundResponse: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              format: 'uuid'
+            },
+            payment_id: {
+              type: 'string',
+              format: 'uuid'
+            },
+            amount: {
+              type: 'string',
+              example: '25.00'
+            },
+            currency: {
+              type: 'string',
+              example: 'USD'
+            },
+            status: {
+              type: 'string',
+              enum: ['pending', 'processing', 'completed', 'failed']
+            },
+            reason: {
+              type: 'string'
+            },
+            transaction_id: {
+              type: 'string',
+              description: 'Refund transaction with the onramp provider that collected the funds'
+            },
+            provider: {
+              type: 'string',
+              example: 'stripe'
+            },
+            failure_reason: {
+              type: 'string',
+              example: 'provider_refund_failed'
+            },
+            created_at: {
+              type: 'string',
+              format: 'date-time'
+            },
+            updated_at: {
+              type: 'string',
+              format: 'date-time'
+            }
+          }
+        },
+        CreateRecipientRequest: {
+          type: 'object',
+          required: ['name', 'country'],
+          description: 'Required bank details depend on the country: US account_number and routing_number; GB and eurozone iban; IN account_number and ifsc_code; BR pix_key; MX clabe; CA, AU and JP account_number and swift_code.',
+          properties: {
+            name: {
+              type: 'string',
+              example: 'Maria Schmidt'
+            },
+            email: {
+              type: 'string',
+              format: 'email'
+            },
+            country: {
+              type: 'string',
+              description: 'ISO 3166-1 alpha-2 country code; sets the payout currency',
+              example: 'DE'
+            },
+            account_number: {
+              type: 'string',
+              example: '000123456789'
+            },
+            routing_number: {
+              type: 'string',
+              description: 'US ABA routing number',
+              example: '021000021'
+            },
+            iban: {
+              type: 'string',
+              example: 'DE89370400440532013000'
+            },
+            swift_code: {
+              type: 'string',
+              description: 'BIC',
+              example: 'COBADEFFXXX'
+            },
+            ifsc_code: {
+              type: 'string',
+              description: 'Indian Financial System Code',
+              example: 'SBIN0000300'
+            },
+            pix_key: {
+              type: 'string',
+              description: 'Brazilian PIX key: CPF, CNPJ, email, +55 phone number or random key',
+              example: '52998224725'
+            },
+            clabe: {
+              type: 'string',
+              description: 'Mexican 18-digit CLABE',
+              example: '032180000118359719'
+            },
+            bank_name: {
+              type: 'string'
+            },
+            address: {
+              type: 'string'
+            }
+          }
+        },
+        UpdateRecipientRequest: {
+          type: 'object',
+          description: 'Fields to change. The country cannot change; the result is validated like a new recipient.',
+          properties: {
+            name: {
+              type: 'string'
+            },
+            email: {
+              type: 'string',
+              format: 'email'
+            },
+            account_number: {
+              type: 'string',
+              example: '000123456789'
+            },
+            routing_number: {
+              type: 'string',
+              description: 'US ABA routing number',
+              example: '021000021'
+            },
+            iban: {
+              type: 'string',
+              example: 'DE89370400440532013000'
+            },
+            swift_code: {
+              type: 'string',
+              description: 'BIC',
+              example: 'COBADEFFXXX'
+            },
+            ifsc_code: {
+              type: 'string',
+              description: 'Indian Financial System Code',
+              example: 'SBIN0000300'
+            },
+            pix_key: {
+              type: 'string',
+              description: 'Brazilian PIX key: CPF, CNPJ, email, +55 phone number or random key',
+              example: '52998224725'
+            },
+            clabe: {
+              type: 'string',
+              description: 'Mexican 18-digit CLABE',
+              example: '032180000118359719'
+            },
+            bank_name: {
+              type: 'string'
+            },
+            address: {
+              type: 'string'
+            }
+          }
+        },
+        Recipient: {
+          type: 'object',
+          description: 'Account identifiers (account_number, iban, pix_key, clabe) are masked to their last 4 characters, e.g. ****3000.',
+          properties: {
+            id: {
+              type: 'string',
+              format: 'uuid'
+            },
+            name: {
+              type: 'string'
+            },
+            email: {
+              type: 'string'
+            },
+            country: {
+              type: 'string',
+              example: 'DE'
+            },
+            currency: {
+              type: 'string',
+              example: 'EUR'
+            },
+            account_number: {
+              type: 'string',
+              example: '000123456789'
+            },
+            routing_number: {
+              type: 'string',
+              description: 'US ABA routing number',
+              example: '021000021'
+            },
+            iban: {
+              type: 'string',
+              example: 'DE89370400440532013000'
+            },
+            swift_code: {
+              type: 'string',
+              description: 'BIC',
+              example: 'COBADEFFXXX'
+            },
+            ifsc_code: {
+              type: 'string',
+              description: 'Indian Financial System Code',
+              example: 'SBIN0000300'
+            },
+            pix_key: {
+              type: 'string',
+              description: 'Brazilian PIX key: CPF, CNPJ, email, +55 phone number or random key',
+              example: '52998224725'
+            },
+            clabe: {
+              type: 'string',
+              description: 'Mexican 18-digit CLABE',
+              example: '032180000118359719'
+            },
+            bank_name: {
+              type: 'string'
+            },
+            address: {
+              type: 'string'
+            },
+            created_at: {
+              type: 'string',
+              format: 'date-time'
+            },
+            updated_at: {
+              type: 'string',
+              format: 'date-time'
+            }
+          }
+        },
+        RateCandle: {
+          type: 'object',
+          properties: {
+            bucket_start: {
+              type: 'string',
+              format: 'date-time'
+            },
+            open: {
+              type: 'string',
+              example: '0.9184'
+            },
+            high: {
+              type: 'string',
+              example: '0.9213'
+            },
+            low: {
+              type: 'string',
+              example: '0.9171'
+            },
+            close: {
+              type: 'string',
+              example: '0.9202'
+            },
+            samples: {
+              type: 'integer',
+              description: 'Rate observations in the candle'
+            }
+          }
+        },
+        RateHistory: {
+          type: 'object',
+          properties: {
+            pair: {
+              type: 'string',
+              example: 'USD-EUR'
+            },
+            interval: {
+              type: 'string',
+              example: '1h'
+            },
+            from: {
+              type: 'string',
+              format: 'date-time'
+            },
+            to: {
+              type: 'string',
+              format: 'date-time'
+            },
+            candles: {
+              type: 'array',
+              items: {
+                $ref: '#/components/schemas/RateCandle'
+              }
+            }
+          }
+        },
+        ProviderRouteScore: {
+          type: 'object',
+          description: 'Component scores are relative to the best candidate, which scores 1',
+          properties: {
+            provider: {
+              type: 'string',
+              example: 'neobank_partner'
+            },
+            score: {
+              type: 'number',
+              description: 'Components weighted by the routing preference',
+              example: 0.9312
+            },
+            fee: {
+              type: 'string',
+              description: "Provider fee in the routed amount's currency",
+              example: '1.28'
+            },
+            success_rate: {
+              type: 'number',
+              description: 'Observed success rate, smoothed toward the configured rate while history is short',
+              example: 0.9875
+            },
+            expected_latency_seconds: {
+              type: 'integer',
+              example: 25200
+            },
+            health: {
+              type: 'number',
+              description: 'Share of recent transactions that succeeded',
+              example: 1
+            },
+            samples: {
+              type: 'integer',
+              description: 'Settled transactions behind the observed figures'
+            },
+            components: {
+              type: 'object',
+              properties: {
+                cost: { type: 'number' },
+                reliability: { type: 'number' },
+                speed: { type: 'number' },
+                health: { type: 'number' }
+              }
+            }
+          }
+        },
+        RoutingDecision: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              format: 'uuid'
+            },
+            payment_id: {
+              type: 'string',
+              format: 'uuid'
+            },
+            transaction_id: {
+              type: 'string',
+              format: 'uuid'
+            },
+            direction: {
+              type: 'string',
+              enum: ['onramp', 'offramp']
+            },
+            amount: {
+              type: 'string',
+              example: '91.84'
+            },
+            currency: {
+              type: 'string',
+              example: 'EUR'
+            },
+            preference: {
+              type: 'string',
+              enum: ['balanced', 'cheapest', 'fastest', 'most_reliable']
+            },
+            attempt: {
+              type: 'integer',
+              description: '2 and up are failovers after earlier providers failed',
+              example: 1
+            },
+            selected_provider: {
+              type: 'string',
+              example: 'neobank_partner'
+            },
+            reason: {
+              type: 'string',
+              example: 'neobank_partner scored 0.9312 for balanced: fee 1.28 EUR, 99% success over 0 settled, about 8h, health 100%. Next best local_bank_network scored 0.8527.'
+            },
+            candidates: {
+              type: 'array',
+              description: 'Eligible providers, best first',
+              items: {
+                $ref: '#/components/schemas/ProviderRouteScore'
+              }
+            },
+            excluded: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  provider: { type: 'string' },
+                  reason: { type: 'string', example: 'does not support EUR' }
+                }
+              }
+            },
+            created_at: {
+              type: 'string',
+              format: 'date-time'
+            }
+          }
+        },
+        ProviderActivity: {
+          type: 'object',
+          properties: {
+            total_transactions: {
+              type: 'integer',
+              example: 42
+            },
+            completed: { type: 'integer', example: 39 },
+            failed: { type: 'integer', example: 2 },
+            processing: { type: 'integer', example: 1 },
+            cancelled: {
+              type: 'integer',
+              description: 'Cancelled by the client or for want of a callback; not counted as settled',
+              example: 0
+            },
+            success_rate: {
+              type: 'number',
+              nullable: true,
+              description: 'Completed share of settled transactions; null until one settles',
+              example: 0.9512
+            },
+            completion_time: {
+              type: 'object',
+              nullable: true,
+              description: 'Nearest-rank percentiles of the time completed transactions took',
+              properties: {
+                p50_seconds: { type: 'integer', example: 310 },
+                p95_seconds: { type: 'integer', example: 1820 }
+              }
+            },
+            volume: {
+              type: 'array',
+              description: 'Completed volume per currency',
+              items: {
+                type: 'object',
+                properties: {
+                  currency: { type: 'string', example: 'USD' },
+                  amount: { type: 'string', example: '18250.00' }
+                }
+              }
+            }
+          }
+        },
+        ProviderStatusEntry: {
+          allOf: [
+            { $ref: '#/components/schemas/ProviderActivity' },
+            {
+              type: 'object',
+              properties: {
+                provider: {
+                  type: 'string',
+                  example: 'stripe'
+                },
+                name: {
+                  type: 'string',
+                  example: 'Stripe'
+                },
+                status: {
+                  type: 'string',
+                  enum: ['operational', 'degraded', 'down'],
+                  description: 'From transactions settled within the status window and the circuit breaker'
+                },
+                circuit_state: {
+                  type: 'string',
+                  enum: ['closed', 'open', 'half_open']
+                },
+                recent: {
+                  type: 'object',
+                  properties: {
+                    completed: { type: 'integer' },
+                    failed: { type: 'integer' }
+                  }
+                }
+              }
+            }
+          ]
+        },
+        ProviderStatusReport: {
+          allOf: [
+            { $ref: '#/components/schemas/ProviderActivity' },
+            {
+              type: 'object',
+              properties: {
+                direction: {
+                  type: 'string',
+                  enum: ['onramp', 'offramp']
+                },
+                window: {
+                  type: 'string',
+                  example: '24h'
+                },
+                from: {
+                  type: 'string',
+                  format: 'date-time'
+                },
+                to: {
+                  type: 'string',
+                  format: 'date-time'
+                },
+                system_status: {
+                  type: 'string',
+                  enum: ['operational', 'degraded', 'down'],
+                  description: 'Down when every configured provider is down, degraded when any is not operational'
+                },
+                status_window_minutes: {
+                  type: 'integer',
+                  example: 15
+                },
+                active_providers: {
+                  type: 'integer',
+                  description: 'Configured providers that are not down',
+                  example: 3
+                },
+                providers: {
+                  type: 'array',
+                  items: {
+                    $ref: '#/components/schemas/ProviderStatusEntry'
+                  }
+                },
+                last_updated: {
+                  type: 'string',
+                  format: 'date-time'
+                }
+              }
+            }
+          ]
+        },
+        ProviderComparisonEntry: {
+          allOf: [
+            { $ref: '#/components/schemas/ProviderRouteScore' },
+            {
+              type: 'object',
+              properties: {
+                name: {
+                  type: 'string',
+                  example: 'Stripe'
+                },
+                total_cost: {
+                  type: 'string',
+                  description: 'Amount plus fee',
+                  example: '1029.30'
+                },
+                processing_time: {
+                  type: 'string',
+                  example: '5 minutes'
+                },
+                limits: {
+                  type: 'object',
+                  properties: {
+                    min: { type: 'number' },
+                    max: { type: 'number' },
+                    currency: { type: 'string' }
+                  }
+                },
+                fee_breakdown: {
+                  type: 'object',
+                  properties: {
+                    percentage_fee: { type: 'string', example: '29.00' },
+                    fixed_fee: { type: 'string', example: '0.30' },
+                    percentage_rate: { type: 'number', example: 0.029 }
+                  }
+                },
+                payment_methods: {
+                  type: 'array',
+                  items: { type: 'string' }
+                },
+                supported_currencies: {
+                  type: 'array',
+                  items: { type: 'string' }
+                },
+                features: {
+                  type: 'array',
+                  items: { type: 'string' }
+                }
+              }
+            }
+          ]
+        },
+        ProviderComparison: {
+          type: 'object',
+          properties: {
+            comparison: {
+              type: 'array',
+              description: 'Eligible providers, best first',
+              items: {
+                $ref: '#/components/schemas/ProviderComparisonEntry'
+              }
+            },
+            recommendation: {
+              nullable: true,
+              description: 'The provider a payment would be routed to; null when none is eligible',
+              allOf: [
+                { $ref: '#/components/schemas/ProviderComparisonEntry' }
+              ]
+            },
+            excluded: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  provider: { type: 'string' },
+                  reason: { type: 'string', example: 'amount outside limits 50000-1000000' }
+                }
+              }
+            },
+            criteria: {
+              type: 'object',
+              properties: {
+                amount: { type: 'string', example: '1000.00' },
+                currency: { type: 'string', example: 'USD' },
+                payment_method: { type: 'string', example: 'card' },
+                routing_preference: {
+                  type: 'string',
+                  enum: ['balanced', 'cheapest', 'fastest', 'most_reliable']
+                }
+              }
+            }
+          }
+        },
+        ProviderHealth: {
           type: 'object',
-          required: ['source_amount', 'source_currency', 'destination_currency', 'user_id'],
           properties: {
-            source_amount: {
-              type: 'number',
-              minimum: 1,
-              description: 'Amount in source currency',
-              example: 100
+            provider: {
+              type: 'string',
+              example: 'stripe'
+            },
+            name: {
+              type: 'string',
+              example: 'Stripe'
+            },
+            direction: {
+              type: 'string',
+              enum: ['onramp', 'offramp']
+            },
+            state: {
+              type: 'string',
+              enum: ['closed', 'open', 'half_open'],
+              description: 'Open circuits get no new transactions; the forced state while forced'
+            },
+            forced: {
+              type: 'boolean',
+              description: 'Set by an admin rather than by outcomes'
+            },
+            forced_reason: {
+              type: 'string',
+              example: 'Scheduled maintenance'
+            },
+            forced_by: {
+              type: 'string',
+              example: 'admin@crossborderpayments.com'
+            },
+            consecutive_failures: {
+              type: 'integer',
+              example: 0
+            },
+            successes: { type: 'integer' },
+            failures: {
+              type: 'integer',
+              description: 'Including timeouts'
+            },
+            timeouts: { type: 'integer' },
+            half_open_trials: {
+              type: 'integer',
+              description: 'Transactions routed since the circuit went half-open'
+            },
+            last_success_at: {
+              type: 'string',
+              format: 'date-time'
+            },
+            last_failure_at: {
+              type: 'string',
+              format: 'date-time'
+            },
+            last_failure_reason: {
+              type: 'string',
+              example: 'timeout'
+            },
+            state_changed_at: {
+              type: 'string',
+              format: 'date-time'
+            },
+            retry_at: {
+              type: 'string',
+              format: 'date-time',
+              description: 'When an open circuit goes half-open'
+            },
+            updated_at: {
+              type: 'string',
+              format: 'date-time'
+            }
+          }
+        },
+        ProviderCallbackResult: {
+          type: 'object',
+          properties: {
+            event_id: {
+              type: 'string',
+              description: "Provider's event id",
+              example: 'evt_3k9x2m1q7a1760000000000'
+            },
+            transaction_id: {
+              type: 'string',
+              format: 'uuid'
+            },
+            status: {
+              type: 'string',
+              enum: ['processing', 'completed', 'failed']
+            },
+            duplicate: {
+              type: 'boolean',
+              description: 'The event had already been processed and was ignored'
+            }
+          }
+        },
+        FxSpread: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              format: 'uuid'
             },
             source_currency: {
               type: 'string',
-              description: 'Source currency code',
+              description: 'Source currency, or "*" for any',
               example: 'USD'
             },
             destination_currency: {
               type: 'string',
-              description: 'Destination currency code',
+              description: 'Destination currency, or "*" for any',
               example: 'EUR'
             },
-            user_id: {
+            tier: {
               type: 'string',
-              description: 'User identifier',
-              example: 'user_123'
+              nullable: true,
+              description: 'Customer tier the spread applies to; null with no api_key_id for everyone',
+              example: 'enterprise'
+            },
+            api_key_id: {
+              type: 'string',
+              nullable: true,
+              description: 'API key the spread applies to'
+            },
+            spread_bps: {
+              type: 'integer',
+              description: 'Spread below the mid-market rate, in basis points',
+              example: 25
+            },
+            created_at: {
+              type: 'string',
+              format: 'date-time'
+            },
+            updated_at: {
+              type: 'string',
+              format: 'date-time'
             }
           }
         },
-        EstimateFeesRequest: {
+        CreateFxSpreadRequest: {
           type: 'object',
-          required: ['source_amount', 'source_currency', 'destination_currency'],
+          required: ['source_currency', 'destination_currency', 'spread_bps'],
           properties: {
-            source_amount: {
-              type: 'number',
-              minimum: 1,
-              description: 'Amount in source currency',
-              example: 100
-            },
             source_currency: {
               type: 'string',
-              description: 'Source currency code',
               example: 'USD'
             },
             destination_currency: {
               type: 'string',
-              description: 'Destination currency code',
-              example: 'EUR'
+              example: '*'
+            },
+            spread_bps: {
+              type: 'integer',
+              minimum: 0,
+              maximum: 5000,
+              example: 25
+            },
+            tier: {
+              type: 'string',
+              description: 'Apply to this customer tier only'
+            },
+            api_key_id: {
+              type: 'string',
+              description: 'Apply to this API key only; cannot be combined with tier'
             }
           }
         },
-        PaymentResponse: {
+        CreateWebhookEndpointRequest: {
+          type: 'object',
+          required: ['url', 'event_types'],
+          properties: {
+            url: {
+              type: 'string',
+              format: 'uri',
+              example: 'https://merchant.example.com/webhooks'
+            },
+            description: {
+              type: 'string',
+              maxLength: 255
+            },
+            event_types: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Event types to receive, e.g. payment.completed, or "*" for all',
+              example: ['payment.completed', 'payment.failed']
+            },
+            enabled: {
+              type: 'boolean',
+              default: true
+            }
+          }
+        },
+        UpdateWebhookEndpointRequest: {
+          type: 'object',
+          properties: {
+            url: {
+              type: 'string',
+              format: 'uri'
+            },
+            description: {
+              type: 'string',
+              maxLength: 255
+            },
+            event_types: {
+              type: 'array',
+              items: { type: 'string' }
+            },
+            enabled: {
+              type: 'boolean'
+            }
+          }
+        },
+        WebhookEndpoint: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              format: 'uuid'
+            },
+            url: {
+              type: 'string',
+              format: 'uri'
+            },
+            description: {
+              type: 'string'
+            },
+            event_types: {
+              type: 'array',
+              items: { type: 'string' }
+            },
+            enabled: {
+              type: 'boolean'
+            },
+            secret: {
+              type: 'string',
+              description: 'Signing secret for X-Webhook-Signature; only returned when the endpoint is created or its secret rotated',
+              example: 'whsec_3f9c...'
+            },
+            previous_secret_expires_at: {
+              type: 'string',
+              format: 'date-time',
+              description: 'Set after a rotation while deliveries are also signed with the previous secret'
+            },
+            created_at: {
+              type: 'string',
+              format: 'date-time'
+            },
+            updated_at: {
+              type: 'string',
+              format: 'date-time'
+            }
+          }
+        },
+        Webhook: {
           type: 'object',
           properties: {
             id: {
+              type: 'string',
+              format: 'uuid'
+            },
+            payment_id: {
+              type: 'string',
+              format: 'uuid'
+            },
+            endpoint_id: {
               type: 'string',
               format: 'uuid',
-              description: 'Payment ID',
-              example: '550e8400-e29b-41d4-a716-446655440000'
+              description: 'Unset for deliveries to the payment webhook_url'
+            },
+            url: {
+              type: 'string',
+              format: 'uri'
+            },
+            event_type: {
+              type: 'string',
+              example: 'payment.completed'
             },
             status: {
               type: 'string',
-              enum: ['processing', 'onramp_processing', 'onramp_complete', 'offramp_processing', 'completed', 'failed'],
-              description: 'Payment status',
-              example: 'processing'
+              enum: ['pending', 'sent', 'failed', 'dead_letter']
             },
-            source_amount: {
+            payload: {
+              type: 'object'
+            },
+            response: {
+              type: 'object',
+              description: 'Outcome of the latest attempt'
+            },
+            retry_count: {
               type: 'number',
-              description: 'Amount in source currency',
-              example: 100
+              description: 'Failed attempts since the delivery was queued or last redriven'
             },
-            source_currency: {
+            next_attempt_at: {
               type: 'string',
-              description: 'Source currency',
-              example: 'USD'
+              format: 'date-time'
             },
-            destination_amount: {
-              type: 'number',
-              description: 'Amount in destination currency',
-              example: 84.53
+            created_at: {
+              type: 'string',
+              format: 'date-time'
             },
-            destination_currency: {
+            sent_at: {
               type: 'string',
-              description: 'Destination currency',
-              example: 'EUR'
+              format: 'date-time'
             },
-            exchange_rate: {
+            attempts: {
+              type: 'array',
+              items: {
+                $ref: '#/components/schemas/WebhookAttempt'
+              }
+            }
+          }
+        },
+        WebhookAttempt: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              format: 'uuid'
+            },
+            attempt_number: {
               type: 'number',
-              description: 'Exchange rate used',
-              example: 0.84531
+              example: 1
             },
-            fee_amount: {
+            url: {
+              type: 'string',
+              format: 'uri'
+            },
+            status_code: {
               type: 'number',
-              description: 'Total fees charged',
-              example: 2.50
+              description: 'Unset when no response was received',
+              example: 503
             },
-            total_amount: {
+            latency_ms: {
               type: 'number',
-              description: 'Total amount including fees',
-              example: 102.50
+              example: 184
             },
-            estimated_completion: {
+            response_body: {
               type: 'string',
-              format: 'date-time',
-              description: 'Estimated completion time',
-              example: '2024-01-15T10:30:00Z'
+              description: 'First 1024 characters of the response body'
+            },
+            error: {
+              type: 'string'
             },
             created_at: {
               type: 'string',
-              format: 'date-time',
-              description: 'Payment creation time',
-              example: '2024-01-15T10:00:00Z'
+              format: 'date-time'
             }
           }
         },
@@ -331,6 +1531,11 @@ const options: swaggerJsdoc.Options = {
               description: 'User role',
               example: 'user'
             },
+            tier: {
+              type: 'string',
+              description: 'Pricing tier, for tier FX spreads',
+              example: 'standard'
+            },
             is_active: {
               type: 'boolean',
               description: 'Whether user account is active',
@@ -350,6 +1555,46 @@ const options: swaggerJsdoc.Options = {
             }
           }
         },
+        Session: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              format: 'uuid',
+              description: 'Session ID'
+            },
+            user_agent: {
+              type: 'string',
+              description: 'User agent of the device that signed in or last refreshed'
+            },
+            ip_address: {
+              type: 'string',
+              description: 'IP address of the device that signed in or last refreshed'
+            },
+            created_at: {
+              type: 'string',
+              format: 'date-time'
+            },
+            last_used_at: {
+              type: 'string',
+              format: 'date-time'
+            },
+            expires_at: {
+              type: 'string',
+              format: 'date-time',
+              description: 'When the current access token expires'
+            },
+            refresh_expires_at: {
+              type: 'string',
+              format: 'date-time',
+              description: 'When the session can no longer be refreshed'
+            },
+            current: {
+              type: 'boolean',
+              description: 'Whether this is the session making the request'
+            }
+          }
+        },
         ApiKey: {
           type: 'object',
           properties: {
@@ -372,6 +1617,11 @@ const options: swaggerJsdoc.Options = {
               description: 'API key permissions',
               example: ['payments:read', 'payments:write']
             },
+            tier: {
+              type: 'string',
+              description: 'Pricing tier, for tier FX spreads; used instead of the user tier for its payments',
+              example: 'standard'
+            },
             is_active: {
               type: 'boolean',
               description: 'Whether API key is active',
@@ -573,6 +1823,10 @@ const options: swaggerJsdoc.Options = {
         name: 'Payments',
         description: 'Payment creation and management'
       },
+      {
+        name: 'Quotes',
+        description: 'Locked FX quotes that payments can execute'
+      },
       {
         name: 'Onramp',
         description: 'USD collection providers and methods'
@@ -581,10 +1835,22 @@ const options: swaggerJsdoc.Options = {
         name: 'Offramp',
         description: 'Local currency payout providers and methods'
       },
+      {
+        name: 'Recipients',
+        description: 'Saved payout beneficiaries and their bank details'
+      },
+      {
+        name: 'Rates',
+        description: 'Exchange rate history'
+      },
       {
         name: 'Webhooks',
         description: 'Webhook management and delivery'
       },
+      {
+        name: 'Provider Callbacks',
+        description: 'Signed status callbacks from onramp and offramp providers'
+      },
       {
         name: 'Admin',
         description: 'Administrative operations (Admin only)'
@@ -0,0 +1,124 @@
+import { describe, test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import sqlite3 from 'sqlite3';
+import { Database } from './database.js';
+
+// The tables as the first release created them, before any migration
+const BASELINE_SCHEMA = [
+  `CREATE TABLE IF NOT EXISTS payments (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    idempotency_key TEXT UNIQUE NOT NULL,
+    source_amount DECIMAL(15,2) NOT NULL,
+    source_currency TEXT NOT NULL DEFAULT 'USD',
+    destination_amount DECIMAL(15,2) NOT NULL,
+    destination_currency TEXT NOT NULL,
+    exchange_rate DECIMAL(15,8) NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending',
+    onramp_reference TEXT,
+    offramp_reference TEXT,
+    fee_amount DECIMAL(15,2) NOT NULL,
+    total_amount DECIMAL(15,2) NOT NULL,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  )`,
+  `CREATE TABLE IF NOT EXISTS fee_configs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    currency TEXT NOT NULL,
+    base_fee DECIMAL(15,2) NOT NULL DEFAULT 0,
+    percentage_fee DECIMAL(5,4) NOT NULL DEFAULT 0,
+    minimum_fee DECIMAL(15,2) NOT NULL DEFAULT 0,
+    maximum_fee DECIMAL(15,2),
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  )`,
+  `CREATE TABLE IF NOT EXISTS transactions (
+    id TEXT PRIMARY KEY,
+    payment_id TEXT,
+    type TEXT NOT NULL,
+    amount DECIMAL(15,2) NOT NULL,
+    currency TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending',
+    external_reference TEXT,
+    provider TEXT,
+    metadata TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (payment_id) REFERENCES payments (id)
+  )`,
+  `CREATE TABLE IF NOT EXISTS webhooks (
+    id TEXT PRIMARY KEY,
+    payment_id TEXT,
+    event_type TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending',
+    payload TEXT NOT NULL,
+    response TEXT,
+    retry_count INTEGER DEFAULT 0,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    sent_at DATETIME,
+    FOREIGN KEY (payment_id) REFERENCES payments (id)
+  )`,
+  `CREATE TABLE IF NOT EXISTS exchange_rates (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    from_currency TEXT NOT NULL,
+    to_currency TEXT NOT NULL,
+    rate DECIMAL(15,8) NOT NULL,
+    provider TEXT NOT NULL DEFAULT 'mock',
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    expires_at DATETIME NOT NULL,
+    UNIQUE(from_currency, to_currency, provider)
+  )`,
+  `INSERT INTO payments (id, user_id, idempotency_key, source_amount, source_currency, destination_amount,
+     destination_currency, exchange_rate, status, fee_amount, total_amount)
+   VALUES ('pay_1', 'user_1', 'key_1', 100, 'USD', 85, 'EUR', 0.85, 'completed', 2.55, 103)`
+];
+
+function createBaselineDatabase(file: string): Promise<void> {
+  const db = new sqlite3.Database(file);
+  return new Promise((resolve, reject) => {
+    db.serialize(() => {
+      BASELINE_SCHEMA.forEach(sql => db.run(sql));
+      db.close(err => (err ? reject(err) : resolve()));
+    });
+  });
+}
+
+describe('Database migrations', () => {
+  const cwd = process.cwd();
+  const dir = mkdtempSync(path.join(tmpdir(), 'payments-db-'));
+
+  before(async () => {
+    // The database lives in the working directory
+    process.chdir(dir);
+    await createBaselineDatabase(path.join(dir, 'payments.db'));
+  });
+
+  after(async () => {
+    await Database.getInstance().close();
+    process.chdir(cwd);
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('upgrade a database created by the first release', async () => {
+    const db = Database.getInstance();
+    await db.initialize();
+
+    const migrations = await db.all<{ name: string }>('SELECT name FROM schema_migrations');
+    assert.ok(migrations.some(migration => migration.name === '012_payment_idempotency_per_owner'));
+
+    const payment = await db.get<{ source_amount: number; total_amount: number; exchange_rate: string }>(
+      'SELECT source_amount, total_amount, exchange_rate FROM payments WHERE id = ?',
+      ['pay_1']
+    );
+    assert.deepEqual({ ...payment }, { source_amount: 10000, total_amount: 10300, exchange_rate: '0.85' });
+
+    // Keys are unique per owner, so another customer may reuse one
+    const table = await db.get<{ sql: string }>(`SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'payments'`);
+    assert.doesNotMatch(table.sql, /idempotency_key TEXT UNIQUE/);
+
+    // Running again finds nothing left to migrate
+    await db.initialize();
+  });
+});
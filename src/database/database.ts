@@ -1,10 +1,25 @@
 import sqlite3 from 'sqlite3';
+import { AsyncLocalStorage } from 'async_hooks';
 import { promisify } from 'util';
 import path from 'path';
+import { getCurrency } from '../config/currencies.js';
+
+interface TransactionScope {
+  open: boolean;
+}
+
+// The head of a stored CREATE TABLE statement. SQLite keeps the name quoted
+// once a table has been renamed, as tables rebuilt by a migration are.
+const CREATE_TABLE_HEAD = /CREATE TABLE (IF NOT EXISTS )?(\w+|"\w+"|`\w+`)/;
 
 export class Database {
   private db: sqlite3.Database;
   private static instance: Database;
+  private transactionQueue: Promise<unknown> = Promise.resolve();
+  // Settles when the open transaction ends; null when none is open
+  private openTransaction: Promise<void> | null = null;
+  // Marks statements issued from inside the open transaction's work
+  private transactionScope = new AsyncLocalStorage<TransactionScope>();
 
   private constructor() {
     const dbPath = path.join(process.cwd(), 'payments.db');
@@ -20,6 +35,7 @@ export class Database {
   }
 
   public async run(sql: string, params: any[] = []): Promise<sqlite3.RunResult> {
+    await this.waitForTransaction();
     return new Promise((resolve, reject) => {
       this.db.run(sql, params, function (err:any) {
         if (err) {
@@ -32,6 +48,7 @@ export class Database {
   }
 
   public async get<T>(sql: string, params: any[] = []): Promise<T | undefined> {
+    await this.waitForTransaction();
     return new Promise((resolve, reject) => {
       this.db.get(sql, params, (err:any, row:any) => {
         if (err) {
@@ -44,6 +61,7 @@ export class Database {
   }
 
   public async all<T>(sql: string, params: any[] = []): Promise<T[]> {
+    await this.waitForTransaction();
     return new Promise((resolve, reject) => {
       this.db.all(sql, params, (err:any, rows:any) => {
         if (err) {
@@ -55,8 +73,69 @@ export class Database {
     });
   }
 
+  /**
+   * Run a set of statements atomically. Transactions share the one
+   * connection, so they are queued and never overlap, and statements from
+   * outside the open transaction wait for it to end rather than joining it.
+   * A transaction started from inside another runs as part of it.
+   */
+  public async transaction<T>(work: () => Promise<T>): Promise<T> {
+    if (this.transactionScope.getStore()?.open) {
+      return work();
+    }
+
+    const execute = async (): Promise<T> => {
+      const scope: TransactionScope = { open: true };
+      let finish: () => void;
+      this.openTransaction = new Promise<void>(resolve => {
+        finish = resolve;
+      });
+
+      try {
+        return await this.transactionScope.run(scope, async () => {
+          await this.run('BEGIN IMMEDIATE');
+          try {
+            const result = await work();
+            await this.run('COMMIT');
+            return result;
+          } catch (error) {
+            try {
+              await this.run('ROLLBACK');
+            } catch (rollbackError) {
+              // Keep the error that caused the rollback
+              console.error('Failed to roll back transaction:', rollbackError);
+            }
+            throw error;
+          }
+        });
+      } finally {
+        // Timers started by the work keep the scope, but are no longer part of it
+        scope.open = false;
+        this.openTransaction = null;
+        finish!();
+      }
+    };
+
+    const result = this.transactionQueue.then(execute, execute);
+    this.transactionQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Hold a statement until the open transaction ends, unless it is part of it
+   */
+  private async waitForTransaction(): Promise<void> {
+    while (this.openTransaction && !this.transactionScope.getStore()?.open) {
+      await this.openTransaction;
+    }
+  }
+
   public async initialize(): Promise<void> {
     await this.createTables();
+    await this.runMigrations();
+
+    // Insert default fee configurations
+    await this.insertDefaultFeeConfigs();
   }
 
   private async createTables(): Promise<void> {
@@ -65,42 +144,137 @@ export class Database {
       CREATE TABLE IF NOT EXISTS payments (
         id TEXT PRIMARY KEY,
         user_id TEXT NOT NULL,
-        idempotency_key TEXT UNIQUE NOT NULL,
-        source_amount DECIMAL(15,2) NOT NULL,
+        idempotency_key TEXT NOT NULL, -- unique per user_id
+        source_amount INTEGER NOT NULL, -- minor units of source_currency
         source_currency TEXT NOT NULL DEFAULT 'USD',
-        destination_amount DECIMAL(15,2) NOT NULL,
+        destination_amount INTEGER NOT NULL, -- minor units of destination_currency
         destination_currency TEXT NOT NULL,
-        exchange_rate DECIMAL(15,8) NOT NULL,
+        exchange_rate TEXT NOT NULL, -- exact decimal string, the customer rate
+        mid_exchange_rate TEXT, -- before the spread
+        spread_bps INTEGER NOT NULL DEFAULT 0,
+        spread_amount INTEGER NOT NULL DEFAULT 0, -- minor units of source_currency
         status TEXT NOT NULL DEFAULT 'pending',
         onramp_reference TEXT,
         offramp_reference TEXT,
-        fee_amount DECIMAL(15,2) NOT NULL,
-        total_amount DECIMAL(15,2) NOT NULL,
+        fee_amount INTEGER NOT NULL, -- minor units of source_currency
+        total_amount INTEGER NOT NULL, -- source_amount + fee_amount
+        quote_id TEXT,
+        api_key_id TEXT, -- API key that created the payment
+        webhook_url TEXT,
+        recipient_id TEXT,
+        routing_preference TEXT, -- balanced, cheapest, fastest or most_reliable
         created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
         updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
       )
     `);
 
+    await this.run(
+      'CREATE UNIQUE INDEX IF NOT EXISTS idx_payments_idempotency_key ON payments (user_id, idempotency_key)'
+    );
+
+    // Payment status history (one row per state machine transition)
+    await this.run(`
+      CREATE TABLE IF NOT EXISTS payment_events (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        payment_id TEXT NOT NULL,
+        from_status TEXT,
+        to_status TEXT NOT NULL,
+        reason TEXT,
+        metadata TEXT, -- JSON string
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (payment_id) REFERENCES payments (id)
+      )
+    `);
+
+    await this.run(
+      'CREATE INDEX IF NOT EXISTS idx_payment_events_payment_id ON payment_events (payment_id)'
+    );
+
+    // Log behind the Server-Sent Events streams; ids are the SSE event ids
+    await this.run(`
+      CREATE TABLE IF NOT EXISTS stream_events (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        owner_id TEXT,
+        payment_id TEXT,
+        transaction_id TEXT,
+        event_type TEXT NOT NULL,
+        data TEXT NOT NULL, -- JSON string
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    await this.run(
+      'CREATE INDEX IF NOT EXISTS idx_stream_events_payment_id ON stream_events (payment_id, id)'
+    );
+
+    await this.run(
+      'CREATE INDEX IF NOT EXISTS idx_stream_events_owner_id ON stream_events (owner_id, id)'
+    );
+
+    // Locked FX quotes; a quote can be executed by at most one payment
+    await this.run(`
+      CREATE TABLE IF NOT EXISTS quotes (
+        id TEXT PRIMARY KEY,
+        user_id TEXT,
+        api_key_id TEXT,
+        source_amount INTEGER NOT NULL,
+        source_currency TEXT NOT NULL,
+        destination_amount INTEGER NOT NULL,
+        destination_currency TEXT NOT NULL,
+        exchange_rate TEXT NOT NULL,
+        mid_exchange_rate TEXT,
+        spread_bps INTEGER NOT NULL DEFAULT 0,
+        spread_amount INTEGER NOT NULL DEFAULT 0,
+        fee_breakdown TEXT NOT NULL, -- JSON string
+        fee_amount INTEGER NOT NULL,
+        total_amount INTEGER NOT NULL,
+        payment_id TEXT UNIQUE,
+        used_at DATETIME,
+        expires_at DATETIME NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
     // Fee configurations table
     await this.run(`
       CREATE TABLE IF NOT EXISTS fee_configs (
         id INTEGER PRIMARY KEY AUTOINCREMENT,
         currency TEXT NOT NULL,
-        base_fee DECIMAL(15,2) NOT NULL DEFAULT 0,
+        base_fee INTEGER NOT NULL DEFAULT 0, -- minor units of currency
         percentage_fee DECIMAL(5,4) NOT NULL DEFAULT 0,
-        minimum_fee DECIMAL(15,2) NOT NULL DEFAULT 0,
-        maximum_fee DECIMAL(15,2),
+        minimum_fee INTEGER NOT NULL DEFAULT 0, -- minor units of currency
+        maximum_fee INTEGER, -- minor units of currency
         created_at DATETIME DEFAULT CURRENT_TIMESTAMP
       )
     `);
 
+    // FX spreads per pair; tier and api_key_id are null on spreads that apply to everyone
+    await this.run(`
+      CREATE TABLE IF NOT EXISTS fx_spreads (
+        id TEXT PRIMARY KEY,
+        source_currency TEXT NOT NULL, -- or * for any
+        destination_currency TEXT NOT NULL, -- or * for any
+        tier TEXT,
+        api_key_id TEXT,
+        spread_bps INTEGER NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    await this.run(
+      `CREATE UNIQUE INDEX IF NOT EXISTS idx_fx_spreads_scope
+       ON fx_spreads (source_currency, destination_currency, COALESCE(tier, ''), COALESCE(api_key_id, ''))`
+    );
+
     // Transactions table (for audit trail)
     await this.run(`
       CREATE TABLE IF NOT EXISTS transactions (
         id TEXT PRIMARY KEY,
         payment_id TEXT,
-        type TEXT NOT NULL, -- 'onramp', 'offramp', 'fee'
-        amount DECIMAL(15,2) NOT NULL,
+        user_id TEXT, -- owner of the transaction
+        type TEXT NOT NULL, -- 'onramp', 'offramp', 'fee', 'refund'
+        amount INTEGER NOT NULL, -- minor units of currency
         currency TEXT NOT NULL,
         status TEXT NOT NULL DEFAULT 'pending',
         external_reference TEXT,
@@ -112,22 +286,159 @@ export class Database {
       )
     `);
 
+    await this.run(
+      'CREATE INDEX IF NOT EXISTS idx_transactions_provider_reference ON transactions (provider, external_reference)'
+    );
+
+    // Callbacks received from payment providers, one row per provider event
+    await this.run(`
+      CREATE TABLE IF NOT EXISTS provider_events (
+        id TEXT PRIMARY KEY,
+        provider TEXT NOT NULL,
+        event_id TEXT NOT NULL, -- provider's id, callbacks are deduplicated on it
+        transaction_id TEXT NOT NULL,
+        status TEXT NOT NULL,
+        payload TEXT, -- raw callback body
+        occurred_at DATETIME,
+        received_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE (provider, event_id),
+        FOREIGN KEY (transaction_id) REFERENCES transactions (id)
+      )
+    `);
+
+    // Why each provider transaction went to its provider
+    await this.run(`
+      CREATE TABLE IF NOT EXISTS routing_decisions (
+        id TEXT PRIMARY KEY,
+        payment_id TEXT,
+        transaction_id TEXT,
+        direction TEXT NOT NULL, -- onramp or offramp
+        amount INTEGER NOT NULL, -- minor units of currency
+        currency TEXT NOT NULL,
+        preference TEXT NOT NULL,
+        attempt INTEGER NOT NULL DEFAULT 1, -- 2 and up are failovers
+        selected_provider TEXT NOT NULL,
+        reason TEXT NOT NULL,
+        candidates TEXT NOT NULL, -- JSON scores of the eligible providers, best first
+        excluded TEXT, -- JSON providers left out and why
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    await this.run(
+      'CREATE INDEX IF NOT EXISTS idx_routing_decisions_payment_id ON routing_decisions (payment_id)'
+    );
+
+    // Circuit breaker state and outcome counts per payment provider
+    await this.run(`
+      CREATE TABLE IF NOT EXISTS provider_health (
+        provider TEXT PRIMARY KEY,
+        direction TEXT NOT NULL, -- onramp or offramp
+        state TEXT NOT NULL DEFAULT 'closed', -- closed, open, half_open
+        forced_state TEXT, -- open or closed while an admin overrides the breaker
+        forced_reason TEXT,
+        forced_by TEXT,
+        consecutive_failures INTEGER NOT NULL DEFAULT 0,
+        successes INTEGER NOT NULL DEFAULT 0,
+        failures INTEGER NOT NULL DEFAULT 0, -- including timeouts
+        timeouts INTEGER NOT NULL DEFAULT 0,
+        half_open_trials INTEGER NOT NULL DEFAULT 0, -- transactions routed since going half-open
+        last_success_at DATETIME,
+        last_failure_at DATETIME,
+        last_failure_reason TEXT,
+        state_changed_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
     // Webhooks table
     await this.run(`
       CREATE TABLE IF NOT EXISTS webhooks (
         id TEXT PRIMARY KEY,
         payment_id TEXT,
+        endpoint_id TEXT, -- NULL for deliveries to the payment's webhook_url
+        url TEXT,
         event_type TEXT NOT NULL,
-        status TEXT NOT NULL DEFAULT 'pending', -- pending, sent, failed
+        status TEXT NOT NULL DEFAULT 'pending', -- pending, sent, failed, dead_letter
         payload TEXT NOT NULL, -- JSON string
         response TEXT, -- JSON string
         retry_count INTEGER DEFAULT 0,
+        next_attempt_at DATETIME,
         created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
         sent_at DATETIME,
         FOREIGN KEY (payment_id) REFERENCES payments (id)
       )
     `);
 
+    // Every HTTP request made for a webhook delivery
+    await this.run(`
+      CREATE TABLE IF NOT EXISTS webhook_attempts (
+        id TEXT PRIMARY KEY,
+        webhook_id TEXT NOT NULL,
+        attempt_number INTEGER NOT NULL,
+        url TEXT NOT NULL,
+        status_code INTEGER, -- NULL when no response was received
+        latency_ms INTEGER NOT NULL,
+        response_body TEXT, -- truncated
+        error TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (webhook_id) REFERENCES webhooks (id)
+      )
+    `);
+
+    await this.run(
+      'CREATE INDEX IF NOT EXISTS idx_webhook_attempts_webhook_id ON webhook_attempts (webhook_id)'
+    );
+
+    // Merchant webhook endpoints; each event fans out to every matching one
+    await this.run(`
+      CREATE TABLE IF NOT EXISTS webhook_endpoints (
+        id TEXT PRIMARY KEY,
+        owner_id TEXT NOT NULL, -- user id or API key id
+        url TEXT NOT NULL,
+        description TEXT,
+        event_types TEXT NOT NULL, -- JSON array
+        enabled BOOLEAN NOT NULL DEFAULT 1,
+        secret TEXT NOT NULL,
+        previous_secret TEXT, -- signs alongside secret during a rotation
+        previous_secret_expires_at DATETIME,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    await this.run(
+      'CREATE INDEX IF NOT EXISTS idx_webhook_endpoints_owner ON webhook_endpoints (owner_id)'
+    );
+
+    // Saved payout beneficiaries; soft deleted so past payments keep theirs
+    await this.run(`
+      CREATE TABLE IF NOT EXISTS recipients (
+        id TEXT PRIMARY KEY,
+        owner_id TEXT NOT NULL, -- user id or API key id
+        name TEXT NOT NULL,
+        email TEXT,
+        country TEXT NOT NULL,
+        currency TEXT NOT NULL,
+        account_number TEXT,
+        routing_number TEXT,
+        iban TEXT,
+        swift_code TEXT,
+        ifsc_code TEXT,
+        pix_key TEXT,
+        clabe TEXT,
+        bank_name TEXT,
+        address TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        deleted_at DATETIME
+      )
+    `);
+
+    await this.run(
+      'CREATE INDEX IF NOT EXISTS idx_recipients_owner ON recipients (owner_id, created_at)'
+    );
+
     // Exchange rates table (for caching)
     await this.run(`
       CREATE TABLE IF NOT EXISTS exchange_rates (
@@ -136,26 +447,362 @@ export class Database {
         to_currency TEXT NOT NULL,
         rate DECIMAL(15,8) NOT NULL,
         provider TEXT NOT NULL DEFAULT 'mock',
+        as_of DATETIME,
+        status TEXT NOT NULL DEFAULT 'selected',
         created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
         expires_at DATETIME NOT NULL,
         UNIQUE(from_currency, to_currency, provider)
       )
     `);
 
-    // Insert default fee configurations
-    await this.insertDefaultFeeConfigs();
+    // Every selected exchange rate, appended as it is picked; never updated
+    await this.run(`
+      CREATE TABLE IF NOT EXISTS rate_observations (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        from_currency TEXT NOT NULL,
+        to_currency TEXT NOT NULL,
+        rate DECIMAL(15,8) NOT NULL,
+        provider TEXT NOT NULL,
+        observed_at DATETIME NOT NULL
+      )
+    `);
+
+    await this.run(
+      'CREATE INDEX IF NOT EXISTS idx_rate_observations_pair ON rate_observations (from_currency, to_currency, observed_at)'
+    );
+
+    // Observations past their retention, downsampled into OHLC candles
+    await this.run(`
+      CREATE TABLE IF NOT EXISTS rate_candles (
+        from_currency TEXT NOT NULL,
+        to_currency TEXT NOT NULL,
+        interval TEXT NOT NULL, -- 1h or 1d
+        bucket_start DATETIME NOT NULL,
+        open DECIMAL(15,8) NOT NULL,
+        high DECIMAL(15,8) NOT NULL,
+        low DECIMAL(15,8) NOT NULL,
+        close DECIMAL(15,8) NOT NULL,
+        samples INTEGER NOT NULL,
+        PRIMARY KEY (from_currency, to_currency, interval, bucket_start)
+      )
+    `);
+
+    // Refunds of collected funds back to the payer
+    await this.run(`
+      CREATE TABLE IF NOT EXISTS refunds (
+        id TEXT PRIMARY KEY,
+        payment_id TEXT NOT NULL,
+        amount INTEGER NOT NULL, -- minor units of currency
+        currency TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending',
+        reason TEXT,
+        transaction_id TEXT,
+        provider TEXT,
+        idempotency_key TEXT UNIQUE,
+        failure_reason TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (payment_id) REFERENCES payments (id),
+        FOREIGN KEY (transaction_id) REFERENCES transactions (id)
+      )
+    `);
+
+    await this.run(
+      'CREATE INDEX IF NOT EXISTS idx_refunds_payment_id ON refunds (payment_id)'
+    );
+
+    // Double-entry ledger: accounts, journal entries and their lines
+    await this.run(`
+      CREATE TABLE IF NOT EXISTS ledger_accounts (
+        id TEXT PRIMARY KEY,
+        category TEXT NOT NULL, -- customer_funding, fx_suspense, fee_revenue, fx_spread_revenue, provider_clearing
+        type TEXT NOT NULL, -- asset, liability, revenue
+        currency TEXT NOT NULL,
+        provider TEXT,
+        name TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    await this.run(`
+      CREATE TABLE IF NOT EXISTS journal_entries (
+        id TEXT PRIMARY KEY,
+        idempotency_key TEXT UNIQUE NOT NULL,
+        payment_id TEXT,
+        transaction_id TEXT,
+        event_type TEXT NOT NULL,
+        description TEXT,
+        reverses_entry_id TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (reverses_entry_id) REFERENCES journal_entries (id)
+      )
+    `);
+
+    await this.run(`
+      CREATE TABLE IF NOT EXISTS journal_lines (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        entry_id TEXT NOT NULL,
+        account_id TEXT NOT NULL,
+        currency TEXT NOT NULL,
+        debit INTEGER NOT NULL DEFAULT 0, -- minor units
+        credit INTEGER NOT NULL DEFAULT 0, -- minor units
+        CHECK (debit >= 0 AND credit >= 0 AND (debit = 0 OR credit = 0)),
+        FOREIGN KEY (entry_id) REFERENCES journal_entries (id),
+        FOREIGN KEY (account_id) REFERENCES ledger_accounts (id)
+      )
+    `);
+
+    await this.run(
+      'CREATE INDEX IF NOT EXISTS idx_journal_entries_payment_id ON journal_entries (payment_id)'
+    );
+    await this.run(
+      'CREATE INDEX IF NOT EXISTS idx_journal_lines_account_id ON journal_lines (account_id)'
+    );
+
+    // Posted entries are immutable; corrections are made with reversing entries
+    for (const table of ['journal_entries', 'journal_lines']) {
+      for (const operation of ['UPDATE', 'DELETE']) {
+        await this.run(`
+          CREATE TRIGGER IF NOT EXISTS ${table}_no_${operation.toLowerCase()}
+          BEFORE ${operation} ON ${table}
+          BEGIN
+            SELECT RAISE(ABORT, '${table} rows are immutable');
+          END
+        `);
+      }
+    }
+
+    // Applied schema migrations
+    await this.run(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        name TEXT PRIMARY KEY,
+        applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+  }
+
+  private async runMigrations(): Promise<void> {
+    await this.applyMigration('001_integer_minor_units', () => this.migrateToMinorUnits());
+    await this.applyMigration('002_payment_quote_id', () => this.addColumnIfMissing('payments', 'quote_id', 'TEXT'));
+    await this.applyMigration('003_payment_owner_scope', async () => {
+      await this.addColumnIfMissing('payments', 'api_key_id', 'TEXT');
+      await this.run('CREATE INDEX IF NOT EXISTS idx_payments_user_id ON payments (user_id, created_at)');
+      await this.run('CREATE INDEX IF NOT EXISTS idx_payments_api_key_id ON payments (api_key_id, created_at)');
+    });
+    await this.applyMigration('004_transaction_owner', async () => {
+      await this.addColumnIfMissing('transactions', 'user_id', 'TEXT');
+      // Payment transactions belong to the payment's user; direct ones recorded their user in metadata
+      await this.run(`
+        UPDATE transactions
+        SET user_id = COALESCE(
+          (SELECT p.user_id FROM payments p WHERE p.id = transactions.payment_id),
+          json_extract(metadata, '$.user_id')
+        )
+        WHERE user_id IS NULL AND json_valid(COALESCE(metadata, '{}'))
+      `);
+    });
+    await this.applyMigration('005_webhook_endpoints', async () => {
+      await this.addColumnIfMissing('payments', 'webhook_url', 'TEXT');
+      await this.addColumnIfMissing('webhooks', 'endpoint_id', 'TEXT');
+      await this.addColumnIfMissing('webhooks', 'url', 'TEXT');
+    });
+    await this.applyMigration('006_webhook_secret_rotation', async () => {
+      await this.addColumnIfMissing('webhook_endpoints', 'previous_secret', 'TEXT');
+      await this.addColumnIfMissing('webhook_endpoints', 'previous_secret_expires_at', 'DATETIME');
+    });
+    await this.applyMigration('007_webhook_delivery_queue', async () => {
+      await this.addColumnIfMissing('webhooks', 'next_attempt_at', 'DATETIME');
+      await this.run('CREATE INDEX IF NOT EXISTS idx_webhooks_queue ON webhooks (status, next_attempt_at)');
+    });
+    await this.applyMigration('008_payment_recipient', () => this.addColumnIfMissing('payments', 'recipient_id', 'TEXT'));
+    await this.applyMigration('009_exchange_rate_quotes', async () => {
+      await this.addColumnIfMissing('exchange_rates', 'as_of', 'DATETIME');
+      await this.addColumnIfMissing('exchange_rates', 'status', "TEXT NOT NULL DEFAULT 'selected'");
+    });
+    await this.applyMigration('010_fx_spreads', async () => {
+      for (const table of ['payments', 'quotes']) {
+        await this.addColumnIfMissing(table, 'mid_exchange_rate', 'TEXT');
+        await this.addColumnIfMissing(table, 'spread_bps', 'INTEGER NOT NULL DEFAULT 0');
+        await this.addColumnIfMissing(table, 'spread_amount', 'INTEGER NOT NULL DEFAULT 0');
+      }
+      await this.addColumnIfMissing('quotes', 'api_key_id', 'TEXT');
+    });
+    await this.applyMigration('011_routing_preference', async () => {
+      await this.addColumnIfMissing('payments', 'routing_preference', 'TEXT');
+    });
+    await this.applyMigration('012_payment_idempotency_per_owner', () => this.scopeIdempotencyKeysToOwner());
+  }
+
+  /**
+   * Add a column to an existing table unless it is already there
+   * (tables created by createTables already have it)
+   */
+  async addColumnIfMissing(table: string, column: string, definition: string): Promise<void> {
+    const columns = await this.all<{ name: string }>(`PRAGMA table_info(${table})`);
+    if (!columns.some(existing => existing.name === column)) {
+      await this.run(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    }
+  }
+
+  /**
+   * Run a named migration once, recording it in schema_migrations
+   */
+  private async applyMigration(name: string, migrate: () => Promise<void>): Promise<void> {
+    const applied = await this.get<{ name: string }>(
+      'SELECT name FROM schema_migrations WHERE name = ?',
+      [name]
+    );
+    if (applied) {
+      return;
+    }
+
+    await this.transaction(async () => {
+      await migrate();
+      await this.run('INSERT INTO schema_migrations (name) VALUES (?)', [name]);
+    });
+    console.log(`Applied migration ${name}`);
+  }
+
+  /**
+   * Databases created before amounts moved to minor units stored them as
+   * DECIMAL (really REAL) major units. Rebuild those tables with INTEGER
+   * minor unit columns and a TEXT exchange rate, converting every row with
+   * its currency's exponent.
+   */
+  private async migrateToMinorUnits(): Promise<void> {
+    const columns = await this.all<{ name: string; type: string }>('PRAGMA table_info(payments)');
+    const sourceAmount = columns.find(column => column.name === 'source_amount');
+    if (!sourceAmount || sourceAmount.type.toUpperCase() === 'INTEGER') {
+      return; // Fresh database, already created with minor unit columns
+    }
+
+    const toMinor = (amount: number | null, currency: string): number | null => {
+      if (amount === null || amount === undefined) {
+        return null;
+      }
+      const exponent = getCurrency(currency)?.exponent ?? 2;
+      return Math.round(amount * 10 ** exponent);
+    };
+
+    const createStatements = await this.all<{ name: string; sql: string }>(
+      `SELECT name, sql FROM sqlite_master WHERE type = 'table' AND name IN ('payments', 'transactions', 'fee_configs')`
+    );
+    const newTableSql = (table: string) => createStatements
+      .find(statement => statement.name === table)!.sql
+      .replace(/DECIMAL\(15,2\)/g, 'INTEGER')
+      .replace(/exchange_rate DECIMAL\(15,8\)/, 'exchange_rate TEXT')
+      .replace(CREATE_TABLE_HEAD, `CREATE TABLE ${table}_migrated`);
+
+    // Payments: fee_amount used to be in the destination currency, so it is
+    // re-derived in the source currency from total - source
+    await this.run(newTableSql('payments'));
+    await this.run('INSERT INTO payments_migrated SELECT * FROM payments');
+    const payments = await this.all<{
+      id: string;
+      source_amount: number;
+      source_currency: string;
+      destination_amount: number;
+      destination_currency: string;
+      exchange_rate: number;
+      total_amount: number;
+    }>('SELECT * FROM payments');
+    for (const payment of payments) {
+      const sourceMinor = toMinor(payment.source_amount, payment.source_currency);
+      const totalMinor = toMinor(payment.total_amount, payment.source_currency);
+      await this.run(
+        `UPDATE payments_migrated
+         SET source_amount = ?, destination_amount = ?, exchange_rate = ?, fee_amount = ?, total_amount = ?
+         WHERE id = ?`,
+        [
+          sourceMinor,
+          toMinor(payment.destination_amount, payment.destination_currency),
+          String(payment.exchange_rate),
+          totalMinor - sourceMinor,
+          totalMinor,
+          payment.id
+        ]
+      );
+    }
+
+    await this.run(newTableSql('transactions'));
+    await this.run('INSERT INTO transactions_migrated SELECT * FROM transactions');
+    const transactions = await this.all<{ id: string; amount: number; currency: string }>(
+      'SELECT id, amount, currency FROM transactions'
+    );
+    for (const transaction of transactions) {
+      await this.run(
+        'UPDATE transactions_migrated SET amount = ? WHERE id = ?',
+        [toMinor(transaction.amount, transaction.currency), transaction.id]
+      );
+    }
+
+    await this.run(newTableSql('fee_configs'));
+    await this.run('INSERT INTO fee_configs_migrated SELECT * FROM fee_configs');
+    const feeConfigs = await this.all<{
+      id: string;
+      currency: string;
+      base_fee: number;
+      minimum_fee: number | null;
+      maximum_fee: number | null;
+    }>('SELECT * FROM fee_configs');
+    for (const config of feeConfigs) {
+      await this.run(
+        'UPDATE fee_configs_migrated SET base_fee = ?, minimum_fee = ?, maximum_fee = ? WHERE id = ?',
+        [
+          toMinor(config.base_fee, config.currency),
+          toMinor(config.minimum_fee, config.currency),
+          toMinor(config.maximum_fee, config.currency),
+          config.id
+        ]
+      );
+    }
+
+    for (const table of ['payments', 'transactions', 'fee_configs']) {
+      await this.run(`DROP TABLE ${table}`);
+      await this.run(`ALTER TABLE ${table}_migrated RENAME TO ${table}`);
+    }
+  }
+
+  /**
+   * Payments tables created before idempotency keys were scoped to their
+   * owner have a table-wide UNIQUE on idempotency_key. SQLite cannot drop it,
+   * so the table is rebuilt without it, keeping its indexes and triggers.
+   */
+  private async scopeIdempotencyKeysToOwner(): Promise<void> {
+    const table = await this.get<{ sql: string }>(
+      `SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'payments'`
+    );
+    if (!table || !/idempotency_key TEXT UNIQUE NOT NULL/.test(table.sql)) {
+      return; // Created with the per-owner index
+    }
+
+    const dependents = await this.all<{ sql: string }>(
+      `SELECT sql FROM sqlite_master WHERE type IN ('index', 'trigger') AND tbl_name = 'payments' AND sql IS NOT NULL`
+    );
+
+    await this.run(table.sql
+      .replace('idempotency_key TEXT UNIQUE NOT NULL', 'idempotency_key TEXT NOT NULL')
+      .replace(CREATE_TABLE_HEAD, 'CREATE TABLE payments_migrated'));
+    await this.run('INSERT INTO payments_migrated SELECT * FROM payments');
+    await this.run('DROP TABLE payments');
+    await this.run('ALTER TABLE payments_migrated RENAME TO payments');
+
+    for (const dependent of dependents) {
+      await this.run(dependent.sql);
+    }
   }
 
   private async insertDefaultFeeConfigs(): Promise<void> {
+    // Fee amounts are in minor units of the destination currency
     const feeConfigs = [
-      { currency: 'EUR', base_fee: 2.50, percentage_fee: 0.0299, minimum_fee: 1.00, maximum_fee: 50.00 },
-      { currency: 'GBP', base_fee: 2.00, percentage_fee: 0.0299, minimum_fee: 1.00, maximum_fee: 50.00 },
-      { currency: 'CAD', base_fee: 3.00, percentage_fee: 0.0349, minimum_fee: 1.50, maximum_fee: 75.00 },
-      { currency: 'AUD', base_fee: 3.50, percentage_fee: 0.0349, minimum_fee: 1.50, maximum_fee: 75.00 },
+      { currency: 'EUR', base_fee: 250, percentage_fee: 0.0299, minimum_fee: 100, maximum_fee: 5000 },
+      { currency: 'GBP', base_fee: 200, percentage_fee: 0.0299, minimum_fee: 100, maximum_fee: 5000 },
+      { currency: 'CAD', base_fee: 300, percentage_fee: 0.0349, minimum_fee: 150, maximum_fee: 7500 },
+      { currency: 'AUD', base_fee: 350, percentage_fee: 0.0349, minimum_fee: 150, maximum_fee: 7500 },
       { currency: 'JPY', base_fee: 300, percentage_fee: 0.0399, minimum_fee: 100, maximum_fee: 7500 },
-      { currency: 'INR', base_fee: 200, percentage_fee: 0.0399, minimum_fee: 100, maximum_fee: 5000 },
-      { currency: 'BRL', base_fee: 15, percentage_fee: 0.0449, minimum_fee: 5, maximum_fee: 300 },
-      { currency: 'MXN', base_fee: 50, percentage_fee: 0.0449, minimum_fee: 20, maximum_fee: 1000 }
+      { currency: 'INR', base_fee: 20000, percentage_fee: 0.0399, minimum_fee: 10000, maximum_fee: 500000 },
+      { currency: 'BRL', base_fee: 1500, percentage_fee: 0.0449, minimum_fee: 500, maximum_fee: 30000 },
+      { currency: 'MXN', base_fee: 5000, percentage_fee: 0.0449, minimum_fee: 2000, maximum_fee: 100000 }
     ];
 
     for (const config of feeConfigs) {
@@ -45,6 +45,7 @@ async function createAuthTables(db: Database) {
       id TEXT PRIMARY KEY,
       name TEXT NOT NULL,
       key_hash TEXT UNIQUE NOT NULL,
+      key_prefix TEXT,
       permissions TEXT NOT NULL DEFAULT '[]',
       is_active BOOLEAN NOT NULL DEFAULT 1,
       expires_at DATETIME,
@@ -53,6 +54,47 @@ async function createAuthTables(db: Database) {
     )
   `);
 
+  // Keys created before hashing have no prefix until their next use
+  await db.addColumnIfMissing('api_keys', 'key_prefix', 'TEXT');
+
+  // Pricing tier, for tier FX spreads; an API key's own tier applies to its payments
+  await db.addColumnIfMissing('users', 'tier', "TEXT NOT NULL DEFAULT 'standard'");
+  await db.addColumnIfMissing('api_keys', 'tier', "TEXT NOT NULL DEFAULT 'standard'");
+  await db.run('CREATE INDEX IF NOT EXISTS idx_api_keys_key_prefix ON api_keys (key_prefix)');
+
+  // One row per signed-in device; token columns hold HMAC digests
+  await db.run(`
+    CREATE TABLE IF NOT EXISTS sessions (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      token_hash TEXT UNIQUE NOT NULL,
+      refresh_token_hash TEXT UNIQUE NOT NULL,
+      previous_refresh_token_hash TEXT,
+      user_agent TEXT,
+      ip_address TEXT,
+      created_at DATETIME NOT NULL,
+      last_used_at DATETIME NOT NULL,
+      expires_at DATETIME NOT NULL,
+      refresh_expires_at DATETIME NOT NULL,
+      revoked_at DATETIME,
+      revoked_reason TEXT,
+      FOREIGN KEY (user_id) REFERENCES users (id)
+    )
+  `);
+  await db.run('CREATE INDEX IF NOT EXISTS idx_sessions_user_id ON sessions (user_id, revoked_at)');
+  await db.run('CREATE INDEX IF NOT EXISTS idx_sessions_previous_refresh ON sessions (previous_refresh_token_hash)');
+
+  // Failed login counters, keyed by email:<address> or ip:<address>
+  await db.run(`
+    CREATE TABLE IF NOT EXISTS login_throttles (
+      key TEXT PRIMARY KEY,
+      failure_count INTEGER NOT NULL DEFAULT 0,
+      last_failure_at DATETIME NOT NULL,
+      next_attempt_at DATETIME,
+      locked_until DATETIME
+    )
+  `);
+
   // API key usage logging
   await db.run(`
     CREATE TABLE IF NOT EXISTS api_key_usage (
@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { Database } from '../database/database.js';
 import { AuthenticatedRequest } from './auth.js';
+import { LoginFailureResult } from '../services/loginThrottleService.js';
 
 export enum AuditAction {
   CREATE = 'create',
@@ -11,8 +12,10 @@ export enum AuditAction {
   LOGOUT = 'logout',
   USER_LOGIN = 'user_login',
   USER_LOGOUT = 'user_logout',
+  SESSION_REVOKED = 'session_revoked',
   USER_CREATED = 'user_created',
   USER_UPDATED = 'user_updated',
+  USER_UNLOCKED = 'user_unlocked',
   API_KEY_CREATED = 'api_key_created',
   API_KEY_REVOKED = 'api_key_revoked',
   API_KEY_USED = 'api_key_used',
@@ -22,6 +25,13 @@ export enum AuditAction {
   PAYMENT_FAILED = 'payment_failed',
   WEBHOOK_SENT = 'webhook_sent',
   WEBHOOK_FAILED = 'webhook_failed',
+  WEBHOOKS_REDRIVEN = 'webhooks_redriven',
+  PII_REENCRYPTION_STARTED = 'pii_reencryption_started',
+  FX_SPREAD_CREATED = 'fx_spread_created',
+  FX_SPREAD_UPDATED = 'fx_spread_updated',
+  FX_SPREAD_DELETED = 'fx_spread_deleted',
+  CUSTOMER_TIER_CHANGED = 'customer_tier_changed',
+  PROVIDER_CIRCUIT_CHANGED = 'provider_circuit_changed',
   AUDIT_LOG_VIEWED = 'audit_log_viewed',
   SECURITY_EVENT_VIEWED = 'security_event_viewed'
 }
@@ -120,6 +130,38 @@ export class AuditService {
     }
   }
 
+  /**
+   * Log an attempt to read or change another tenant's resource
+   */
+  async logPermissionDenied(req: Request, resourceType: string, resourceId: string): Promise<void> {
+    await this.logSecurityEvent(
+      SecurityEventType.PERMISSION_DENIED,
+      `Cross-tenant access to ${resourceType} ${resourceId}`,
+      SecuritySeverity.MEDIUM,
+      req,
+      { resource_type: resourceType, resource_id: resourceId, method: req.method, path: req.originalUrl }
+    );
+  }
+
+  /**
+   * Log a failed or refused login with the attempt counters, or with when a
+   * refused login may be retried
+   */
+  async logFailedLogin(
+    req: Request,
+    email: string,
+    reason: string,
+    metadata: Partial<LoginFailureResult> & { retry_after_seconds?: number } = {}
+  ): Promise<void> {
+    await this.logSecurityEvent(
+      SecurityEventType.FAILED_LOGIN,
+      `Failed login for ${email}: ${reason}`,
+      metadata.locked_until ? SecuritySeverity.HIGH : SecuritySeverity.LOW,
+      req,
+      { email, reason, ip_address: req.ip, ...metadata }
+    );
+  }
+
   /**
    * Get audit logs with filtering
    */
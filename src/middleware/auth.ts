@@ -1,6 +1,10 @@
 import { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import { promisify } from 'util';
 import { Database } from '../database/database.js';
 import { v4 as uuidv4 } from 'uuid';
+import { PaymentOwnerScope } from '../types/payment.js';
+import { ApiError } from '../types/errors.js';
 
 export interface AuthenticatedRequest extends Request {
   user?: {
@@ -8,6 +12,7 @@ export interface AuthenticatedRequest extends Request {
     email: string;
     role: UserRole;
     permissions: string[];
+    session_id?: string;
   };
   apiKey?: {
     id: string;
@@ -22,8 +27,95 @@ export enum UserRole {
   READONLY = 'readonly'
 }
 
+const scrypt = promisify(crypto.scrypt) as (
+  password: string,
+  salt: Buffer,
+  keyLength: number,
+  options: crypto.ScryptOptions
+) => Promise<Buffer>;
+
+// Parameters for new password hashes. Hashes made with other parameters are
+// upgraded on the next successful login.
+const PASSWORD_HASH_PARAMS = { N: 16384, r: 8, p: 1 };
+const PASSWORD_KEY_LENGTH = 64;
+const PASSWORD_SALT_LENGTH = 16;
+
+// Stored alongside the API key digest so a key can be found without scanning
+const API_KEY_PREFIX_LENGTH = 12;
+
+export interface SessionDevice {
+  user_agent?: string;
+  ip_address?: string;
+}
+
+/**
+ * A signed-in device. Each login creates one; refreshing rotates its tokens.
+ */
+export interface Session {
+  id: string;
+  user_id: string;
+  token_hash: string;
+  refresh_token_hash: string;
+  previous_refresh_token_hash?: string;
+  user_agent?: string;
+  ip_address?: string;
+  created_at: string;
+  last_used_at: string;
+  expires_at: string;
+  refresh_expires_at: string;
+  revoked_at?: string;
+  revoked_reason?: string;
+}
+
+export interface SessionResponse {
+  id: string;
+  user_agent?: string;
+  ip_address?: string;
+  created_at: string;
+  last_used_at: string;
+  expires_at: string;
+  refresh_expires_at: string;
+  current: boolean;
+}
+
+export interface IssuedSession {
+  session_id: string;
+  auth_token: string;
+  refresh_token: string;
+  expires_at: string;
+  refresh_expires_at: string;
+}
+
+interface ApiKeyRecord {
+  id: string;
+  name: string;
+  key_hash: string;
+  permissions: string;
+  is_active: boolean;
+  expires_at?: string;
+  legacy?: boolean;
+}
+
+// A user as found through one of their live sessions
+interface SessionUser {
+  id: string;
+  email: string;
+  role: string;
+  permissions: string;
+  is_active: boolean;
+  session_id: string;
+  expires_at: string;
+}
+
+// Anyone with the source knows this one; see checkCredentialSecret
+const DEMO_CREDENTIAL_SECRET = 'demo-credential-secret';
+
 export class AuthService {
   private db: Database;
+  private credentialSecret: string = process.env.CREDENTIAL_HMAC_SECRET || DEMO_CREDENTIAL_SECRET;
+  private sessionTtlMinutes: number = parseInt(process.env.SESSION_TTL_MINUTES || '60', 10);
+  private refreshTtlDays: number = parseInt(process.env.SESSION_REFRESH_TTL_DAYS || '30', 10);
+  private dummyPasswordHash?: Promise<string>;
 
   constructor() {
     this.db = Database.getInstance();
@@ -47,16 +139,7 @@ export class AuthService {
     }
 
     try {
-      const keyData = await this.db.get<{
-        id: string;
-        name: string;
-        permissions: string;
-        is_active: boolean;
-        expires_at?: string;
-      }>(
-        'SELECT id, name, permissions, is_active, expires_at FROM api_keys WHERE key_hash = ?',
-        [this.hashApiKey(apiKey)]
-      );
+      const keyData = await this.findApiKey(apiKey);
 
       if (!keyData || !keyData.is_active) {
         return res.status(401).json({
@@ -81,6 +164,10 @@ export class AuthService {
         });
       }
 
+      if (keyData.legacy) {
+        await this.upgradeApiKeyHash(keyData.id, apiKey);
+      }
+
       req.apiKey = {
         id: keyData.id,
         name: keyData.name,
@@ -124,16 +211,7 @@ export class AuthService {
     const token = authHeader.substring(7);
 
     try {
-      const userData = await this.db.get<{
-        id: string;
-        email: string;
-        role: string;
-        permissions: string;
-        is_active: boolean;
-      }>(
-        'SELECT id, email, role, permissions, is_active FROM users WHERE auth_token = ?',
-        [this.hashToken(token)]
-      );
+      const userData = await this.findUserByToken(token, { user_agent: req.get('User-Agent'), ip_address: req.ip });
 
       if (!userData || !userData.is_active) {
         return res.status(401).json({
@@ -146,11 +224,25 @@ export class AuthService {
         });
       }
 
+      if (userData.expires_at <= new Date().toISOString()) {
+        return res.status(401).json({
+          success: false,
+          error: {
+            code: 'TOKEN_EXPIRED',
+            message: 'Token has expired; use the refresh token to get a new one'
+          },
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      await this.touchSession(userData.session_id);
+
       req.user = {
         id: userData.id,
         email: userData.email,
         role: userData.role as UserRole,
-        permissions: JSON.parse(userData.permissions)
+        permissions: JSON.parse(userData.permissions),
+        session_id: userData.session_id
       };
 
       next();
@@ -194,6 +286,18 @@ export class AuthService {
     });
   }
 
+  /**
+   * Authenticate the caller if they send credentials, and let anonymous
+   * requests through
+   */
+  async validateOptionalAuth(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    const authHeader = req.headers.authorization;
+    if (req.headers['x-api-key'] || (authHeader && authHeader.startsWith('Bearer '))) {
+      return this.validateAuth(req, res, next);
+    }
+    next();
+  }
+
   /**
    * Check permission middleware
    */
@@ -271,12 +375,13 @@ export class AuthService {
     const keyId = uuidv4();
 
     await this.db.run(
-      `INSERT INTO api_keys (id, name, key_hash, permissions, is_active, expires_at, created_at)
-       VALUES (?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)`,
+      `INSERT INTO api_keys (id, name, key_hash, key_prefix, permissions, is_active, expires_at, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)`,
       [
         keyId,
         name,
         keyHash,
+        this.getApiKeyPrefix(apiKey),
         JSON.stringify(permissions),
         true,
         expiresAt?.toISOString() || null
@@ -292,50 +397,342 @@ export class AuthService {
   async createUser(email: string, password: string, role: UserRole = UserRole.USER): Promise<string> {
     const userId = uuidv4();
     const passwordHash = await this.hashPassword(password);
-    const authToken = `user_${uuidv4().replace(/-/g, '')}`;
-    const tokenHash = this.hashToken(authToken);
 
     const defaultPermissions = this.getDefaultPermissions(role);
 
     await this.db.run(
-      `INSERT INTO users (id, email, password_hash, auth_token, role, permissions, is_active, created_at)
-       VALUES (?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)`,
+      `INSERT INTO users (id, email, password_hash, role, permissions, is_active, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)`,
       [
         userId,
         email,
         passwordHash,
-        tokenHash,
         role,
         JSON.stringify(defaultPermissions),
         true
       ]
     );
 
-    return authToken;
+    const session = await this.createSession(userId, {});
+    return session.auth_token;
+  }
+
+  /**
+   * Start a session for a user and return its access and refresh tokens
+   */
+  async createSession(userId: string, device: SessionDevice): Promise<IssuedSession> {
+    const sessionId = uuidv4();
+    const authToken = this.generateToken();
+    const refreshToken = this.generateRefreshToken();
+    const now = new Date();
+    const expiresAt = this.addMinutes(now, this.sessionTtlMinutes);
+    const refreshExpiresAt = this.addMinutes(now, this.refreshTtlDays * 24 * 60);
+
+    await this.db.run(
+      `INSERT INTO sessions
+       (id, user_id, token_hash, refresh_token_hash, user_agent, ip_address,
+        created_at, last_used_at, expires_at, refresh_expires_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        sessionId,
+        userId,
+        this.hashToken(authToken),
+        this.hashToken(refreshToken),
+        device.user_agent || null,
+        device.ip_address || null,
+        now.toISOString(),
+        now.toISOString(),
+        expiresAt,
+        refreshExpiresAt
+      ]
+    );
+
+    return {
+      session_id: sessionId,
+      auth_token: authToken,
+      refresh_token: refreshToken,
+      expires_at: expiresAt,
+      refresh_expires_at: refreshExpiresAt
+    };
+  }
+
+  /**
+   * Exchange a refresh token for a new access and refresh token pair. The old
+   * refresh token stops working; presenting it again revokes the session,
+   * since only a stolen copy would still be in use.
+   */
+  async refreshSession(refreshToken: string, device: SessionDevice): Promise<IssuedSession> {
+    const refreshHash = this.hashToken(refreshToken);
+    const now = new Date();
+
+    const reused = await this.db.get<Session>(
+      'SELECT * FROM sessions WHERE previous_refresh_token_hash = ? AND revoked_at IS NULL',
+      [refreshHash]
+    );
+    if (reused) {
+      await this.revokeSession(reused.id, 'refresh_token_reuse');
+      throw new ApiError('Refresh token has already been used; the session was revoked', 'REFRESH_TOKEN_REUSED', 401);
+    }
+
+    const session = await this.db.get<Session & { is_active: boolean }>(
+      `SELECT s.*, u.is_active FROM sessions s JOIN users u ON u.id = s.user_id
+       WHERE s.refresh_token_hash = ? AND s.revoked_at IS NULL`,
+      [refreshHash]
+    );
+    if (!session || !session.is_active || session.refresh_expires_at <= now.toISOString()) {
+      throw new ApiError('Invalid or expired refresh token', 'INVALID_REFRESH_TOKEN', 401);
+    }
+
+    const authToken = this.generateToken();
+    const newRefreshToken = this.generateRefreshToken();
+    const expiresAt = this.addMinutes(now, this.sessionTtlMinutes);
+    const refreshExpiresAt = this.addMinutes(now, this.refreshTtlDays * 24 * 60);
+
+    // Only one of two concurrent refreshes with the same token can win
+    const result = await this.db.run(
+      `UPDATE sessions
+       SET token_hash = ?, refresh_token_hash = ?, previous_refresh_token_hash = ?,
+           user_agent = COALESCE(?, user_agent), ip_address = COALESCE(?, ip_address),
+           last_used_at = ?, expires_at = ?, refresh_expires_at = ?
+       WHERE id = ? AND refresh_token_hash = ? AND revoked_at IS NULL`,
+      [
+        this.hashToken(authToken),
+        this.hashToken(newRefreshToken),
+        refreshHash,
+        device.user_agent || null,
+        device.ip_address || null,
+        now.toISOString(),
+        expiresAt,
+        refreshExpiresAt,
+        session.id,
+        refreshHash
+      ]
+    );
+    if (result.changes === 0) {
+      throw new ApiError('Invalid or expired refresh token', 'INVALID_REFRESH_TOKEN', 401);
+    }
+
+    return {
+      session_id: session.id,
+      auth_token: authToken,
+      refresh_token: newRefreshToken,
+      expires_at: expiresAt,
+      refresh_expires_at: refreshExpiresAt
+    };
+  }
+
+  /**
+   * Revoke a session so neither of its tokens works any more.
+   * Returns false when it was already revoked or does not exist.
+   */
+  async revokeSession(sessionId: string, reason: string, userId?: string): Promise<boolean> {
+    const result = await this.db.run(
+      `UPDATE sessions SET revoked_at = ?, revoked_reason = ?
+       WHERE id = ? AND revoked_at IS NULL AND (? IS NULL OR user_id = ?)`,
+      [new Date().toISOString(), reason, sessionId, userId || null, userId || null]
+    );
+    return result.changes > 0;
+  }
+
+  /**
+   * Revoke every session of a user, optionally keeping one (the caller's own)
+   */
+  async revokeUserSessions(userId: string, reason: string, exceptSessionId?: string): Promise<number> {
+    const result = await this.db.run(
+      `UPDATE sessions SET revoked_at = ?, revoked_reason = ?
+       WHERE user_id = ? AND revoked_at IS NULL AND id != ?`,
+      [new Date().toISOString(), reason, userId, exceptSessionId || '']
+    );
+    return result.changes;
+  }
+
+  /**
+   * A user's sessions that can still be used or refreshed, most recently used first
+   */
+  async getUserSessions(userId: string, currentSessionId?: string): Promise<SessionResponse[]> {
+    const sessions = await this.db.all<Session>(
+      `SELECT * FROM sessions
+       WHERE user_id = ? AND revoked_at IS NULL AND refresh_expires_at > ?
+       ORDER BY last_used_at DESC`,
+      [userId, new Date().toISOString()]
+    );
+
+    return sessions.map(session => ({
+      id: session.id,
+      user_agent: session.user_agent || undefined,
+      ip_address: session.ip_address || undefined,
+      created_at: session.created_at,
+      last_used_at: session.last_used_at,
+      expires_at: session.expires_at,
+      refresh_expires_at: session.refresh_expires_at,
+      current: session.id === currentSessionId
+    }));
   }
 
   /**
-   * Hash API key for storage
+   * Record session activity, at most once a minute per session
+   */
+  private async touchSession(sessionId: string): Promise<void> {
+    const now = new Date();
+    await this.db.run(
+      'UPDATE sessions SET last_used_at = ? WHERE id = ? AND last_used_at < ?',
+      [now.toISOString(), sessionId, this.addMinutes(now, -1)]
+    );
+  }
+
+  /**
+   * Find the stored key for a presented API key. Keys are looked up by prefix
+   * and matched on their digest in constant time. Keys stored before hashing
+   * have no prefix and a base64 key_hash; those come back flagged as legacy.
+   */
+  private async findApiKey(apiKey: string): Promise<ApiKeyRecord | undefined> {
+    const candidates = await this.db.all<ApiKeyRecord>(
+      'SELECT id, name, key_hash, permissions, is_active, expires_at FROM api_keys WHERE key_prefix = ?',
+      [this.getApiKeyPrefix(apiKey)]
+    );
+    const digest = this.hashApiKey(apiKey);
+    const match = candidates.find(candidate => this.safeEqual(candidate.key_hash, digest));
+    if (match) {
+      return match;
+    }
+
+    const legacy = await this.db.get<ApiKeyRecord>(
+      'SELECT id, name, key_hash, permissions, is_active, expires_at FROM api_keys WHERE key_prefix IS NULL AND key_hash = ?',
+      [this.legacyEncode(apiKey)]
+    );
+    return legacy ? { ...legacy, legacy: true } : undefined;
+  }
+
+  /**
+   * Replace a legacy API key hash with its digest and lookup prefix
+   */
+  private async upgradeApiKeyHash(keyId: string, apiKey: string): Promise<void> {
+    await this.db.run(
+      `UPDATE api_keys SET key_hash = ?, key_prefix = ?, updated_at = CURRENT_TIMESTAMP
+       WHERE id = ? AND key_prefix IS NULL`,
+      [this.hashApiKey(apiKey), this.getApiKeyPrefix(apiKey), keyId]
+    );
+  }
+
+  /**
+   * Find the user and live session holding a bearer token. Tokens issued
+   * before sessions existed live in users.auth_token (hashed or, older still,
+   * base64); they are moved into a session of their own on first use.
+   */
+  private async findUserByToken(token: string, device: SessionDevice): Promise<SessionUser | undefined> {
+    const sessionQuery = `
+      SELECT u.id, u.email, u.role, u.permissions, u.is_active, s.id AS session_id, s.expires_at
+      FROM sessions s JOIN users u ON u.id = s.user_id
+      WHERE s.token_hash = ? AND s.revoked_at IS NULL`;
+
+    const user = await this.db.get<SessionUser>(sessionQuery, [this.hashToken(token)]);
+    if (user) {
+      return user;
+    }
+
+    const legacy = await this.db.get<{ id: string }>(
+      'SELECT id FROM users WHERE auth_token IN (?, ?)',
+      [this.hashToken(token), this.legacyEncode(token)]
+    );
+    if (!legacy) {
+      return undefined;
+    }
+
+    await this.db.transaction(async () => {
+      const now = new Date();
+      await this.db.run(
+        `INSERT INTO sessions
+         (id, user_id, token_hash, refresh_token_hash, user_agent, ip_address,
+          created_at, last_used_at, expires_at, refresh_expires_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          uuidv4(),
+          legacy.id,
+          this.hashToken(token),
+          this.hashToken(this.generateRefreshToken()), // Never handed out; the user logs in again when this expires
+          device.user_agent || null,
+          device.ip_address || null,
+          now.toISOString(),
+          now.toISOString(),
+          this.addMinutes(now, this.sessionTtlMinutes),
+          this.addMinutes(now, this.sessionTtlMinutes)
+        ]
+      );
+      await this.db.run('UPDATE users SET auth_token = NULL WHERE id = ?', [legacy.id]);
+    });
+
+    return await this.db.get<SessionUser>(sessionQuery, [this.hashToken(token)]);
+  }
+
+  /**
+   * Hash API key for storage: HMAC-SHA256 under the server's credential secret
    */
   private hashApiKey(apiKey: string): string {
-    // In production, use proper cryptographic hashing
-    return Buffer.from(apiKey).toString('base64');
+    return crypto.createHmac('sha256', this.credentialSecret).update(apiKey).digest('hex');
   }
 
   /**
-   * Hash token for storage
+   * Hash token for storage, the same way as API keys
    */
   private hashToken(token: string): string {
-    // In production, use proper cryptographic hashing
-    return Buffer.from(token).toString('base64');
+    return crypto.createHmac('sha256', this.credentialSecret).update(token).digest('hex');
+  }
+
+  private getApiKeyPrefix(apiKey: string): string {
+    return apiKey.slice(0, API_KEY_PREFIX_LENGTH);
+  }
+
+  /**
+   * Encoding used for credentials stored before hashing was introduced
+   */
+  private legacyEncode(value: string): string {
+    return Buffer.from(value).toString('base64');
   }
 
   /**
-   * Hash password for storage
+   * Hash password for storage as scrypt$N$r$p$salt$hash with a random per-user salt
    */
   private async hashPassword(password: string): Promise<string> {
-    // In production, use bcrypt or similar
-    return Buffer.from(password).toString('base64');
+    const { N, r, p } = PASSWORD_HASH_PARAMS;
+    const salt = crypto.randomBytes(PASSWORD_SALT_LENGTH);
+    const hash = await scrypt(password, salt, PASSWORD_KEY_LENGTH, { N, r, p });
+    return ['scrypt', N, r, p, salt.toString('base64'), hash.toString('base64')].join('$');
+  }
+
+  /**
+   * Check a password against its stored hash in constant time. needsRehash is
+   * set for legacy base64 values and for scrypt hashes with outdated parameters.
+   */
+  private async verifyPassword(password: string, storedHash: string): Promise<{ valid: boolean; needsRehash: boolean }> {
+    const parts = storedHash.split('$');
+    if (parts.length !== 6 || parts[0] !== 'scrypt') {
+      return { valid: this.safeEqual(this.legacyEncode(password), storedHash), needsRehash: true };
+    }
+
+    const [, N, r, p, salt, hash] = parts;
+    const expected = Buffer.from(hash, 'base64');
+    const actual = await scrypt(password, Buffer.from(salt, 'base64'), expected.length, {
+      N: Number(N),
+      r: Number(r),
+      p: Number(p)
+    });
+
+    return {
+      valid: crypto.timingSafeEqual(actual, expected),
+      needsRehash: Number(N) !== PASSWORD_HASH_PARAMS.N ||
+        Number(r) !== PASSWORD_HASH_PARAMS.r ||
+        Number(p) !== PASSWORD_HASH_PARAMS.p ||
+        expected.length !== PASSWORD_KEY_LENGTH
+    };
+  }
+
+  /**
+   * Constant-time string comparison
+   */
+  private safeEqual(a: string, b: string): boolean {
+    const left = Buffer.from(a);
+    const right = Buffer.from(b);
+    return left.length === right.length && crypto.timingSafeEqual(left, right);
   }
 
   /**
@@ -370,70 +767,78 @@ export class AuthService {
   }
 
   /**
-   * User login
+   * User login. Each login starts a new session, so other devices stay signed in.
    */
-  async login(email: string, password: string): Promise<{ user: any; token: string }> {
+  async login(email: string, password: string, device: SessionDevice = {}): Promise<{ user: any; session: IssuedSession }> {
     const user = await this.db.get<{
       id: string;
       email: string;
+      password_hash: string;
       role: string;
       is_active: boolean;
       created_at: string;
       updated_at: string;
     }>(
-      'SELECT id, email, role, is_active, created_at, updated_at FROM users WHERE email = ?',
+      'SELECT id, email, password_hash, role, is_active, created_at, updated_at FROM users WHERE email = ?',
       [email]
     );
 
-    if (!user || !user.is_active) {
+    // Unknown emails still pay for a hash so they take as long as wrong passwords
+    if (!user) {
+      this.dummyPasswordHash = this.dummyPasswordHash || this.hashPassword(uuidv4());
+      await this.verifyPassword(password, await this.dummyPasswordHash);
       throw new Error('Invalid email or password');
     }
 
-    // In a real implementation, you would verify the password hash
-    // For now, we'll just check if the user exists and is active
-    const token = this.generateToken();
-    
-    // Store the token hash in the database
-    await this.db.run(
-      'UPDATE users SET auth_token = ? WHERE id = ?',
-      [this.hashToken(token), user.id]
-    );
+    const { valid, needsRehash } = await this.verifyPassword(password, user.password_hash);
+    if (!valid || !user.is_active) {
+      throw new Error('Invalid email or password');
+    }
+
+    if (needsRehash) {
+      await this.db.run(
+        'UPDATE users SET password_hash = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+        [await this.hashPassword(password), user.id]
+      );
+    }
+    delete user.password_hash;
+
+    const session = await this.createSession(user.id, device);
 
     return {
       user,
-      token
+      session
     };
   }
 
   /**
-   * Refresh user token
+   * Generate a new token
    */
-  async refreshToken(userId: string): Promise<string> {
-    const user = await this.db.get<{ id: string; is_active: boolean }>(
-      'SELECT id, is_active FROM users WHERE id = ?',
-      [userId]
-    );
-
-    if (!user || !user.is_active) {
-      throw new Error('User not found or inactive');
-    }
+  private generateToken(): string {
+    return `token_${uuidv4()}_${Date.now()}`;
+  }
 
-    const newToken = this.generateToken();
-    
-    // Update the token hash in the database
-    await this.db.run(
-      'UPDATE users SET auth_token = ? WHERE id = ?',
-      [this.hashToken(newToken), userId]
-    );
+  private generateRefreshToken(): string {
+    return `refresh_${crypto.randomBytes(32).toString('hex')}`;
+  }
 
-    return newToken;
+  private addMinutes(date: Date, minutes: number): string {
+    return new Date(date.getTime() + minutes * 60 * 1000).toISOString();
   }
+}
 
-  /**
-   * Generate a new token
-   */
-  private generateToken(): string {
-    return `token_${uuidv4()}_${Date.now()}`;
+/**
+ * Check the credential secret at startup. Without CREDENTIAL_HMAC_SECRET
+ * token and API key digests use the demo secret, so anyone can compute them
+ * from a leaked credential; that is refused in production and warned about
+ * elsewhere.
+ */
+export function checkCredentialSecret(): void {
+  if (!process.env.CREDENTIAL_HMAC_SECRET) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new ApiError('CREDENTIAL_HMAC_SECRET must be set in production', 'CREDENTIAL_SECRET_CONFIG_INVALID', 500);
+    }
+    console.warn('⚠️  CREDENTIAL_HMAC_SECRET is not set: tokens and API keys are hashed with a built-in demo secret. Do not use this outside development.');
   }
 }
 
@@ -443,6 +848,30 @@ export const authService = new AuthService();
 export const requireApiKey = authService.validateApiKey.bind(authService);
 export const requireAuth = authService.validateUser.bind(authService);
 export const requireAuthOrApiKey = authService.validateAuth.bind(authService);
+export const optionalAuthOrApiKey = authService.validateOptionalAuth.bind(authService);
 export const requirePermission = authService.requirePermission.bind(authService);
 export const requireRole = authService.requireRole.bind(authService);
-export const requireRoleOrAdminPermission = authService.requireRoleOrAdminPermission.bind(authService); 
\ No newline at end of file
+export const requireRoleOrAdminPermission = authService.requireRoleOrAdminPermission.bind(authService);
+
+/**
+ * Whether the caller is an admin user or uses an API key with system admin permission
+ */
+export const isAdmin = (req: AuthenticatedRequest): boolean =>
+  req.user?.role === UserRole.ADMIN || !!req.apiKey?.permissions.includes('system:admin');
+
+/**
+ * Id that resources created by the caller are owned by: the user id, or the API key id
+ */
+export const getPrincipalId = (req: AuthenticatedRequest): string | undefined =>
+  req.user?.id || req.apiKey?.id;
+
+/**
+ * Payments the caller may see: a user those with their user_id, an API key
+ * those it created. Admins see every payment.
+ */
+export const getOwnerScope = (req: AuthenticatedRequest): PaymentOwnerScope => {
+  if (isAdmin(req)) {
+    return { all: true };
+  }
+  return req.user ? { user_id: req.user.id } : { api_key_id: req.apiKey?.id };
+}; 
\ No newline at end of file
@@ -1,26 +1,200 @@
 import { Request, Response, NextFunction } from 'express';
 import { z } from 'zod';
 
+// Amounts may be sent as JSON numbers or as exact decimal strings ("100.50")
+const amountSchema = z.union([
+  z.number().positive('Amount must be positive'),
+  z.string()
+    .regex(/^\d+(\.\d+)?$/, 'Amount must be a decimal string')
+    .refine(value => Number(value) > 0, 'Amount must be positive')
+]);
+
+const routingPreferenceSchema = z.enum(['balanced', 'cheapest', 'fastest', 'most_reliable']);
+
 // Validation schemas
+// Amount and currencies may be omitted when executing a quote
 const createPaymentSchema = z.object({
-  user_id: z.string().min(1, 'User ID is required'),
-  source_amount: z.number().positive('Source amount must be positive'),
-  source_currency: z.string().length(3, 'Currency must be 3 characters'),
-  destination_currency: z.string().length(3, 'Currency must be 3 characters'),
+  source_amount: amountSchema.optional(),
+  source_currency: z.string().length(3, 'Currency must be 3 characters').optional(),
+  destination_currency: z.string().length(3, 'Currency must be 3 characters').optional(),
+  quote_id: z.string().uuid('Quote ID must be a valid UUID').optional(),
   webhook_url: z.string().url('Webhook URL must be valid').optional(),
+  recipient_id: z.string().uuid('Recipient ID must be a valid UUID').optional(),
+  routing_preference: routingPreferenceSchema.optional(),
   metadata: z.record(z.string(), z.any()).optional(),
+}).refine(
+  data => data.quote_id || (data.source_amount !== undefined && data.source_currency && data.destination_currency),
+  { message: 'source_amount, source_currency and destination_currency are required without a quote_id' }
+);
+
+const createQuoteSchema = z.object({
+  user_id: z.string().min(1).optional(),
+  source_amount: amountSchema,
+  source_currency: z.string().length(3, 'Currency must be 3 characters'),
+  destination_currency: z.string().length(3, 'Currency must be 3 characters'),
 });
 
 const estimateFeesSchema = z.object({
-  source_amount: z.number().positive('Source amount must be positive'),
+  source_amount: amountSchema,
   source_currency: z.string().length(3, 'Currency must be 3 characters'),
   destination_currency: z.string().length(3, 'Currency must be 3 characters'),
 });
 
+const createRefundSchema = z.object({
+  amount: amountSchema.optional(),
+  reason: z.string().max(500, 'Reason must be at most 500 characters').optional(),
+});
+
+const paymentStatuses = ['pending', 'processing', 'onramp_complete', 'offramp_processing', 'completed', 'failed', 'cancelled'];
+
+const dateSchema = z.string().refine(value => !isNaN(Date.parse(value)), 'Must be an ISO 8601 date');
+
+const listPaymentsQuerySchema = z.object({
+  limit: z.string().regex(/^\d+$/, 'Limit must be an integer')
+    .refine(value => Number(value) >= 1 && Number(value) <= 100, 'Limit must be between 1 and 100').optional(),
+  cursor: z.string().min(1).optional(),
+  status: z.string()
+    .refine(value => value.split(',').every(status => paymentStatuses.includes(status)), 'Unknown payment status').optional(),
+  currency: z.string().length(3, 'Currency must be 3 characters').optional(),
+  source_currency: z.string().length(3, 'Currency must be 3 characters').optional(),
+  destination_currency: z.string().length(3, 'Currency must be 3 characters').optional(),
+  created_from: dateSchema.optional(),
+  created_to: dateSchema.optional(),
+  min_amount: z.string().regex(/^\d+(\.\d+)?$/, 'Amount must be a decimal string').optional(),
+  max_amount: z.string().regex(/^\d+(\.\d+)?$/, 'Amount must be a decimal string').optional(),
+  idempotency_key: z.string().min(1).optional(),
+});
+
 const testWebhookSchema = z.object({
   webhook_url: z.string().url('Webhook URL must be valid'),
 });
 
+const webhookEventTypesSchema = z.array(z.string().min(1)).min(1, 'At least one event type is required');
+
+const createWebhookEndpointSchema = z.object({
+  url: z.string().url('Webhook URL must be valid'),
+  description: z.string().max(255, 'Description must be at most 255 characters').optional(),
+  event_types: webhookEventTypesSchema,
+  enabled: z.boolean().optional(),
+});
+
+const updateWebhookEndpointSchema = z.object({
+  url: z.string().url('Webhook URL must be valid').optional(),
+  description: z.string().max(255, 'Description must be at most 255 characters').optional(),
+  event_types: webhookEventTypesSchema.optional(),
+  enabled: z.boolean().optional(),
+}).refine(data => Object.keys(data).length > 0, { message: 'At least one field must be provided' });
+
+const rotateWebhookSecretSchema = z.object({
+  grace_period_seconds: z.number().int().min(0).max(7 * 24 * 60 * 60, 'Grace period must be at most 7 days').optional(),
+});
+
+const webhookStatuses = ['pending', 'sent', 'failed', 'dead_letter'];
+
+const listWebhooksQuerySchema = z.object({
+  limit: z.string().regex(/^\d+$/, 'Limit must be an integer')
+    .refine(value => Number(value) >= 1 && Number(value) <= 100, 'Limit must be between 1 and 100').optional(),
+  cursor: z.string().min(1).optional(),
+  payment_id: z.string().uuid('Payment ID must be a UUID').optional(),
+  event_type: z.string().min(1).optional(),
+  status: z.string()
+    .refine(value => value.split(',').every(status => webhookStatuses.includes(status)), 'Unknown webhook status').optional(),
+  created_from: dateSchema.optional(),
+  created_to: dateSchema.optional(),
+});
+
+const redeliverWebhookSchema = z.object({
+  url: z.string().url('Webhook URL must be valid').optional(),
+});
+
+const replayWebhooksSchema = z.object({
+  payment_id: z.string().uuid('Payment ID must be a UUID').optional(),
+  created_from: dateSchema.optional(),
+  created_to: dateSchema.optional(),
+  event_type: z.string().min(1).optional(),
+}).refine(
+  data => !!data.payment_id || (!!data.created_from && !!data.created_to),
+  { message: 'Provide payment_id, or created_from and created_to' }
+);
+
+const redriveWebhooksSchema = z.object({
+  webhook_ids: z.array(z.string().uuid('Webhook IDs must be UUIDs')).min(1).max(1000).optional(),
+  endpoint_id: z.string().uuid('Endpoint ID must be a UUID').optional(),
+  event_type: z.string().min(1).optional(),
+  limit: z.number().int().min(1).max(1000).optional(),
+});
+
+// Format and checksums are checked per country by the recipient service
+const bankDetailsSchema = z.object({
+  account_number: z.string().max(64).optional(),
+  routing_number: z.string().max(64).optional(),
+  iban: z.string().max(64).optional(),
+  swift_code: z.string().max(64).optional(),
+  ifsc_code: z.string().max(64).optional(),
+  pix_key: z.string().max(77).optional(),
+  clabe: z.string().max(64).optional(),
+  bank_name: z.string().max(255).optional(),
+  address: z.string().max(500).optional(),
+});
+
+const createRecipientSchema = bankDetailsSchema.extend({
+  name: z.string().trim().min(1, 'Name is required').max(255),
+  email: z.string().email('Email must be valid').optional(),
+  country: z.string().regex(/^[A-Za-z]{2}$/, 'Country must be a 2-letter ISO code'),
+});
+
+// The country is fixed once a recipient is created, so it is rejected here
+const updateRecipientSchema = bankDetailsSchema.extend({
+  name: z.string().trim().min(1, 'Name is required').max(255).optional(),
+  email: z.string().email('Email must be valid').optional(),
+}).strict().refine(data => Object.keys(data).length > 0, { message: 'At least one field must be provided' });
+
+const rateHistoryQuerySchema = z.object({
+  interval: z.enum(['1m', '5m', '15m', '1h', '4h', '1d']).optional(),
+  from: dateSchema.optional(),
+  to: dateSchema.optional(),
+});
+
+const tierSchema = z.string().regex(/^[a-z0-9_-]{1,32}$/, 'Tier must be 1-32 lowercase letters, digits, "_" or "-"');
+
+const spreadBpsSchema = z.number().int().min(0).max(5000, 'Spread cannot exceed 5000 basis points');
+
+// "*" matches any currency on that side of the pair
+const spreadCurrencySchema = z.string().regex(/^([A-Za-z]{3}|\*)$/, 'Currency must be a 3-letter code or "*"');
+
+const createFxSpreadSchema = z.object({
+  source_currency: spreadCurrencySchema,
+  destination_currency: spreadCurrencySchema,
+  spread_bps: spreadBpsSchema,
+  tier: tierSchema.optional(),
+  api_key_id: z.string().min(1).optional(),
+}).refine(data => !(data.tier && data.api_key_id), { message: 'A spread applies to a tier or an API key, not both' });
+
+const updateFxSpreadSchema = z.object({
+  spread_bps: spreadBpsSchema,
+});
+
+const setTierSchema = z.object({
+  tier: tierSchema,
+});
+
+// auto hands a forced circuit back to its outcomes
+const setProviderCircuitSchema = z.object({
+  state: z.enum(['open', 'closed', 'auto']),
+  reason: z.string().max(500, 'Reason must be at most 500 characters').optional(),
+});
+
+const providerStatusQuerySchema = z.object({
+  window: z.string().regex(/^\d+[mhd]$/, 'Window must be a number of minutes, hours or days such as 15m, 24h or 7d').optional(),
+});
+
+const compareProvidersSchema = z.object({
+  amount: amountSchema,
+  currency: z.string().length(3, 'Currency must be 3 characters'),
+  payment_method: z.string().min(1).optional(),
+  routing_preference: routingPreferenceSchema.optional(),
+});
+
 // Validation middleware
 export const validateCreatePayment = (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -64,6 +238,69 @@ export const validateEstimateFees = (req: Request, res: Response, next: NextFunc
   }
 };
 
+export const validateCreateQuote = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    createQuoteSchema.parse(req.body);
+    next();
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid request data',
+          details: error.issues,
+        },
+        timestamp: new Date().toISOString(),
+      });
+    } else {
+      next(error);
+    }
+  }
+};
+
+export const validateCreateRefund = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    createRefundSchema.parse(req.body);
+    next();
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid request data',
+          details: error.issues,
+        },
+        timestamp: new Date().toISOString(),
+      });
+    } else {
+      next(error);
+    }
+  }
+};
+
+export const validateListPayments = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    listPaymentsQuerySchema.parse(req.query);
+    next();
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid query parameters',
+          details: error.issues,
+        },
+        timestamp: new Date().toISOString(),
+      });
+    } else {
+      next(error);
+    }
+  }
+};
+
 export const validateTestWebhook = (req: Request, res: Response, next: NextFunction) => {
   try {
     testWebhookSchema.parse(req.body);
@@ -85,6 +322,342 @@ export const validateTestWebhook = (req: Request, res: Response, next: NextFunct
   }
 };
 
+export const validateCreateRecipient = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    createRecipientSchema.parse(req.body);
+    next();
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid request data',
+          details: error.issues,
+        },
+        timestamp: new Date().toISOString(),
+      });
+    } else {
+      next(error);
+    }
+  }
+};
+
+export const validateUpdateRecipient = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    updateRecipientSchema.parse(req.body);
+    next();
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid request data',
+          details: error.issues,
+        },
+        timestamp: new Date().toISOString(),
+      });
+    } else {
+      next(error);
+    }
+  }
+};
+
+export const validateCreateWebhookEndpoint = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    createWebhookEndpointSchema.parse(req.body);
+    next();
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid request data',
+          details: error.issues,
+        },
+        timestamp: new Date().toISOString(),
+      });
+    } else {
+      next(error);
+    }
+  }
+};
+
+export const validateUpdateWebhookEndpoint = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    updateWebhookEndpointSchema.parse(req.body);
+    next();
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid request data',
+          details: error.issues,
+        },
+        timestamp: new Date().toISOString(),
+      });
+    } else {
+      next(error);
+    }
+  }
+};
+
+export const validateRotateWebhookSecret = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    rotateWebhookSecretSchema.parse(req.body);
+    next();
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid request data',
+          details: error.issues,
+        },
+        timestamp: new Date().toISOString(),
+      });
+    } else {
+      next(error);
+    }
+  }
+};
+
+export const validateListWebhooks = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    listWebhooksQuerySchema.parse(req.query);
+    next();
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid query parameters',
+          details: error.issues,
+        },
+        timestamp: new Date().toISOString(),
+      });
+    } else {
+      next(error);
+    }
+  }
+};
+
+export const validateRateHistory = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    rateHistoryQuerySchema.parse(req.query);
+    next();
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid query parameters',
+          details: error.issues,
+        },
+        timestamp: new Date().toISOString(),
+      });
+    } else {
+      next(error);
+    }
+  }
+};
+
+export const validateRedeliverWebhook = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    redeliverWebhookSchema.parse(req.body);
+    next();
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid request data',
+          details: error.issues,
+        },
+        timestamp: new Date().toISOString(),
+      });
+    } else {
+      next(error);
+    }
+  }
+};
+
+export const validateReplayWebhooks = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    replayWebhooksSchema.parse(req.body);
+    next();
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid request data',
+          details: error.issues,
+        },
+        timestamp: new Date().toISOString(),
+      });
+    } else {
+      next(error);
+    }
+  }
+};
+
+export const validateRedriveWebhooks = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    redriveWebhooksSchema.parse(req.body);
+    next();
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid request data',
+          details: error.issues,
+        },
+        timestamp: new Date().toISOString(),
+      });
+    } else {
+      next(error);
+    }
+  }
+};
+
+export const validateCreateFxSpread = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    createFxSpreadSchema.parse(req.body);
+    next();
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid request data',
+          details: error.issues,
+        },
+        timestamp: new Date().toISOString(),
+      });
+    } else {
+      next(error);
+    }
+  }
+};
+
+export const validateUpdateFxSpread = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    updateFxSpreadSchema.parse(req.body);
+    next();
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid request data',
+          details: error.issues,
+        },
+        timestamp: new Date().toISOString(),
+      });
+    } else {
+      next(error);
+    }
+  }
+};
+
+export const validateSetTier = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    setTierSchema.parse(req.body);
+    next();
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid request data',
+          details: error.issues,
+        },
+        timestamp: new Date().toISOString(),
+      });
+    } else {
+      next(error);
+    }
+  }
+};
+
+export const validateSetProviderCircuit = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    setProviderCircuitSchema.parse(req.body);
+    next();
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid request data',
+          details: error.issues,
+        },
+        timestamp: new Date().toISOString(),
+      });
+    } else {
+      next(error);
+    }
+  }
+};
+
+export const validateProviderStatus = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    providerStatusQuerySchema.parse(req.query);
+    next();
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid query parameters',
+          details: error.issues,
+        },
+        timestamp: new Date().toISOString(),
+      });
+    } else {
+      next(error);
+    }
+  }
+};
+
+export const validateCompareProviders = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    compareProvidersSchema.parse(req.body);
+    next();
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid request data',
+          details: error.issues,
+        },
+        timestamp: new Date().toISOString(),
+      });
+    } else {
+      next(error);
+    }
+  }
+};
+
 // Idempotency key validation
 export const validateIdempotencyKey = (req: Request, res: Response, next: NextFunction) => {
   const idempotencyKey = req.headers['idempotency-key'] as string;
@@ -2,9 +2,26 @@ import { Router, Request, Response } from 'express';
 import { AuthenticatedRequest, requireAuthOrApiKey, requireRoleOrAdminPermission, UserRole } from '../middleware/auth.js';
 import { auditService, AuditAction, SecurityEventType, SecuritySeverity } from '../middleware/audit.js';
 import { authService } from '../middleware/auth.js';
-import { ApiResponse } from '../types/payment.js';
+import { ApiResponse, CircuitState, FxSpread, ProviderHealth } from '../types/payment.js';
+import { LoginThrottleService } from '../services/loginThrottleService.js';
+import { WebhookService } from '../services/webhookService.js';
+import { PiiReencryptionService } from '../services/piiReencryptionService.js';
+import { FxSpreadService } from '../services/fxSpreadService.js';
+import { ProviderHealthService } from '../services/providerHealthService.js';
+import {
+  validateRedriveWebhooks,
+  validateCreateFxSpread,
+  validateUpdateFxSpread,
+  validateSetTier,
+  validateSetProviderCircuit
+} from '../middleware/validation.js';
 
 const router = Router();
+const loginThrottleService = new LoginThrottleService();
+const webhookService = new WebhookService();
+const piiReencryptionService = new PiiReencryptionService();
+const fxSpreadService = new FxSpreadService();
+const providerHealthService = new ProviderHealthService();
 
 /**
  * @swagger
@@ -55,7 +72,7 @@ router.get('/users', requireAuthOrApiKey, requireRoleOrAdminPermission(UserRole.
     const db = Database.getInstance();
     
     const users = await db.all(`
-      SELECT id, email, role, is_active, created_at, updated_at
+      SELECT id, email, role, tier, is_active, created_at, updated_at
       FROM users
       ORDER BY created_at DESC
     `);
@@ -192,6 +209,107 @@ router.post('/users', requireAuthOrApiKey, requireRoleOrAdminPermission(UserRole
   }
 });
 
+/**
+ * @swagger
+ * /api/v1/admin/users/{userId}/unlock:
+ *   post:
+ *     summary: Unlock a user account (Admin only)
+ *     description: Clear the failed login counter and any lockout on the user's email so they can log in again straight away. Requires admin privileges.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Account unlocked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         user_id:
+ *                           type: string
+ *                         email:
+ *                           type: string
+ *                         was_locked:
+ *                           type: boolean
+ *                           description: Whether the email had any failed attempts recorded
+ *       401:
+ *         description: Unauthorized - Missing or invalid authentication
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *       403:
+ *         description: Forbidden - Insufficient permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *       404:
+ *         description: User not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ */
+router.post('/users/:userId/unlock', requireAuthOrApiKey, requireRoleOrAdminPermission(UserRole.ADMIN), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { userId } = req.params;
+    const { Database } = await import('../database/database.js');
+    const db = Database.getInstance();
+
+    const user = await db.get<{ id: string; email: string }>('SELECT id, email FROM users WHERE id = ?', [userId]);
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: 'USER_NOT_FOUND',
+          message: 'User not found'
+        },
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const wasLocked = await loginThrottleService.unlock(user.email);
+
+    await auditService.logAuditEvent(req, AuditAction.USER_UNLOCKED, 'user', user.id, { was_locked: wasLocked });
+
+    const response: ApiResponse<any> = {
+      success: true,
+      data: { user_id: user.id, email: user.email, was_locked: wasLocked },
+      timestamp: new Date().toISOString()
+    };
+
+    res.json(response);
+  } catch (error: any) {
+    console.error('Error unlocking user:', error);
+
+    const response: ApiResponse<never> = {
+      success: false,
+      error: {
+        code: 'USER_UNLOCK_FAILED',
+        message: 'Failed to unlock user'
+      },
+      timestamp: new Date().toISOString()
+    };
+
+    res.status(500).json(response);
+  }
+});
+
 /**
  * @swagger
  * /api/v1/admin/api-keys:
@@ -241,7 +359,7 @@ router.get('/api-keys', requireAuthOrApiKey, requireRoleOrAdminPermission(UserRo
     const db = Database.getInstance();
     
     const apiKeys = await db.all(`
-      SELECT id, name, permissions, is_active, expires_at, created_at, updated_at
+      SELECT id, name, permissions, tier, is_active, expires_at, created_at, updated_at
       FROM api_keys
       ORDER BY created_at DESC
     `);
@@ -669,4 +787,1077 @@ router.get('/audit-stats', requireAuthOrApiKey, requireRoleOrAdminPermission(Use
   }
 });
 
+/**
+ * @swagger
+ * /api/v1/admin/webhooks/dead-letter:
+ *   get:
+ *     summary: List dead-lettered webhook deliveries (Admin only)
+ *     description: Deliveries that failed every attempt, oldest first. Requires admin privileges.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *       - in: query
+ *         name: offset
+ *         schema:
+ *           type: integer
+ *           default: 0
+ *     responses:
+ *       200:
+ *         description: Dead-lettered deliveries
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/Webhook'
+ *       401:
+ *         description: Unauthorized - Missing or invalid authentication
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *       403:
+ *         description: Forbidden - Insufficient permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ */
+router.get('/webhooks/dead-letter', requireAuthOrApiKey, requireRoleOrAdminPermission(UserRole.ADMIN), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { limit, offset } = req.query;
+
+    const webhooks = await webhookService.getDeadLetterWebhooks(
+      limit ? Math.min(parseInt(limit as string), 500) : 50,
+      offset ? parseInt(offset as string) : 0
+    );
+
+    const response: ApiResponse<any> = {
+      success: true,
+      data: webhooks,
+      timestamp: new Date().toISOString()
+    };
+
+    res.json(response);
+  } catch (error: any) {
+    console.error('Error fetching dead-lettered webhooks:', error);
+
+    const response: ApiResponse<never> = {
+      success: false,
+      error: {
+        code: 'DEAD_LETTER_FETCH_FAILED',
+        message: 'Failed to fetch dead-lettered webhooks'
+      },
+      timestamp: new Date().toISOString()
+    };
+
+    res.status(500).json(response);
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/admin/webhooks/redrive:
+ *   post:
+ *     summary: Redrive dead-lettered webhook deliveries (Admin only)
+ *     description: Puts dead-lettered deliveries back in the queue with a fresh set of attempts. Without filters, redrives up to `limit` of them, oldest first. Requires admin privileges.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               webhook_ids:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: uuid
+ *               endpoint_id:
+ *                 type: string
+ *                 format: uuid
+ *               event_type:
+ *                 type: string
+ *                 example: payment.completed
+ *               limit:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 1000
+ *                 default: 1000
+ *     responses:
+ *       200:
+ *         description: Deliveries requeued
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         redriven:
+ *                           type: number
+ *                         webhook_ids:
+ *                           type: array
+ *                           items:
+ *                             type: string
+ *                             format: uuid
+ *       400:
+ *         description: Bad request
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *       401:
+ *         description: Unauthorized - Missing or invalid authentication
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *       403:
+ *         description: Forbidden - Insufficient permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ */
+router.post('/webhooks/redrive', requireAuthOrApiKey, requireRoleOrAdminPermission(UserRole.ADMIN), validateRedriveWebhooks, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const webhookIds = await webhookService.redriveDeadLetters(req.body || {});
+
+    await auditService.logAuditEvent(req, AuditAction.WEBHOOKS_REDRIVEN, 'webhook', undefined, {
+      filter: req.body,
+      redriven: webhookIds.length
+    });
+
+    // Deliver now rather than on the worker's next poll
+    webhookService.processDueWebhooks();
+
+    const response: ApiResponse<any> = {
+      success: true,
+      data: { redriven: webhookIds.length, webhook_ids: webhookIds },
+      timestamp: new Date().toISOString()
+    };
+
+    res.json(response);
+  } catch (error: any) {
+    console.error('Error redriving webhooks:', error);
+
+    const response: ApiResponse<never> = {
+      success: false,
+      error: {
+        code: 'WEBHOOK_REDRIVE_FAILED',
+        message: 'Failed to redrive webhooks'
+      },
+      timestamp: new Date().toISOString()
+    };
+
+    res.status(500).json(response);
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/admin/pii/re-encrypt:
+ *   post:
+ *     summary: Re-encrypt stored PII under the current key (Admin only)
+ *     description: Starts a background job that re-wraps every encrypted recipient field and transaction recipient record under PII_ENCRYPTION_KEY_VERSION, and encrypts any still stored in plaintext. Poll GET on the same path for progress. Requires admin privileges.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     responses:
+ *       202:
+ *         description: Job started
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         id:
+ *                           type: string
+ *                           format: uuid
+ *                         status:
+ *                           type: string
+ *                           enum: [running, completed, failed]
+ *                         key_version:
+ *                           type: string
+ *                         recipients_scanned:
+ *                           type: number
+ *                         recipients_updated:
+ *                           type: number
+ *                         transactions_scanned:
+ *                           type: number
+ *                         transactions_updated:
+ *                           type: number
+ *                         skipped:
+ *                           type: number
+ *                           description: Rows changed while the job ran; run it again to cover them
+ *                         error:
+ *                           type: string
+ *                         started_at:
+ *                           type: string
+ *                           format: date-time
+ *                         finished_at:
+ *                           type: string
+ *                           format: date-time
+ *       401:
+ *         description: Unauthorized - Missing or invalid authentication
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *       403:
+ *         description: Forbidden - Insufficient permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *       409:
+ *         description: A job is already running
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ */
+router.post('/pii/re-encrypt', requireAuthOrApiKey, requireRoleOrAdminPermission(UserRole.ADMIN), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const job = piiReencryptionService.startJob();
+
+    await auditService.logAuditEvent(req, AuditAction.PII_REENCRYPTION_STARTED, 'pii_reencryption_job', job.id, {
+      key_version: job.key_version
+    });
+
+    const response: ApiResponse<any> = {
+      success: true,
+      data: job,
+      timestamp: new Date().toISOString()
+    };
+
+    res.status(202).json(response);
+  } catch (error: any) {
+    console.error('Error starting PII re-encryption:', error);
+
+    const response: ApiResponse<never> = {
+      success: false,
+      error: {
+        code: error.code || 'PII_REENCRYPTION_START_FAILED',
+        message: error.message || 'Failed to start PII re-encryption',
+        details: error.details
+      },
+      timestamp: new Date().toISOString()
+    };
+
+    res.status(error.status || 500).json(response);
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/admin/pii/re-encrypt:
+ *   get:
+ *     summary: Get the latest PII re-encryption job (Admin only)
+ *     description: Progress of the running job, or the result of the last one since the server started. Requires admin privileges.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     responses:
+ *       200:
+ *         description: Re-encryption job
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         id:
+ *                           type: string
+ *                           format: uuid
+ *                         status:
+ *                           type: string
+ *                           enum: [running, completed, failed]
+ *                         key_version:
+ *                           type: string
+ *                         recipients_scanned:
+ *                           type: number
+ *                         recipients_updated:
+ *                           type: number
+ *                         transactions_scanned:
+ *                           type: number
+ *                         transactions_updated:
+ *                           type: number
+ *                         skipped:
+ *                           type: number
+ *                           description: Rows changed while the job ran; run it again to cover them
+ *                         error:
+ *                           type: string
+ *                         started_at:
+ *                           type: string
+ *                           format: date-time
+ *                         finished_at:
+ *                           type: string
+ *                           format: date-time
+ *       401:
+ *         description: Unauthorized - Missing or invalid authentication
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *       403:
+ *         description: Forbidden - Insufficient permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *       404:
+ *         description: No job has run since the server started
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ */
+router.get('/pii/re-encrypt', requireAuthOrApiKey, requireRoleOrAdminPermission(UserRole.ADMIN), async (req: AuthenticatedRequest, res: Response) => {
+  const job = piiReencryptionService.getJob();
+
+  if (!job) {
+    const response: ApiResponse<never> = {
+      success: false,
+      error: {
+        code: 'PII_REENCRYPTION_JOB_NOT_FOUND',
+        message: 'No re-encryption job has run'
+      },
+      timestamp: new Date().toISOString()
+    };
+    return res.status(404).json(response);
+  }
+
+  const response: ApiResponse<any> = {
+    success: true,
+    data: job,
+    timestamp: new Date().toISOString()
+  };
+
+  res.json(response);
+});
+
+/**
+ * @swagger
+ * /api/v1/admin/fx-spreads:
+ *   get:
+ *     summary: List FX spreads (Admin only)
+ *     description: Spreads taken below the mid-market rate. For a quote or payment the most specific customer match applies (API key, then tier, then everyone), then the most specific pair (exact currencies before "*"); without a match FX_DEFAULT_SPREAD_BPS applies. Requires admin privileges.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     responses:
+ *       200:
+ *         description: Configured spreads
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/FxSpread'
+ *       401:
+ *         description: Unauthorized - Missing or invalid authentication
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *       403:
+ *         description: Forbidden - Insufficient permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ */
+router.get('/fx-spreads', requireAuthOrApiKey, requireRoleOrAdminPermission(UserRole.ADMIN), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const spreads = await fxSpreadService.listSpreads();
+
+    const response: ApiResponse<FxSpread[]> = {
+      success: true,
+      data: spreads,
+      timestamp: new Date().toISOString()
+    };
+
+    res.json(response);
+  } catch (error: any) {
+    console.error('Error listing FX spreads:', error);
+
+    const response: ApiResponse<never> = {
+      success: false,
+      error: {
+        code: 'FX_SPREADS_FETCH_FAILED',
+        message: 'Failed to fetch FX spreads'
+      },
+      timestamp: new Date().toISOString()
+    };
+
+    res.status(500).json(response);
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/admin/fx-spreads:
+ *   post:
+ *     summary: Add an FX spread (Admin only)
+ *     description: Sets the spread for a currency pair, for everyone or for one customer tier or API key. Each pair has one spread per scope. Requires admin privileges.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CreateFxSpreadRequest'
+ *     responses:
+ *       201:
+ *         description: Spread created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/FxSpread'
+ *       400:
+ *         description: Bad request
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *       404:
+ *         description: API key not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *       409:
+ *         description: The pair already has a spread for this scope
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ */
+router.post('/fx-spreads', requireAuthOrApiKey, requireRoleOrAdminPermission(UserRole.ADMIN), validateCreateFxSpread, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const spread = await fxSpreadService.createSpread(req.body);
+
+    await auditService.logAuditEvent(req, AuditAction.FX_SPREAD_CREATED, 'fx_spread', spread.id, {
+      source_currency: spread.source_currency,
+      destination_currency: spread.destination_currency,
+      tier: spread.tier,
+      api_key_id: spread.api_key_id,
+      spread_bps: spread.spread_bps
+    });
+
+    const response: ApiResponse<FxSpread> = {
+      success: true,
+      data: spread,
+      timestamp: new Date().toISOString()
+    };
+
+    res.status(201).json(response);
+  } catch (error: any) {
+    console.error('Error creating FX spread:', error);
+
+    const response: ApiResponse<never> = {
+      success: false,
+      error: {
+        code: error.code || 'FX_SPREAD_CREATION_FAILED',
+        message: error.message || 'Failed to create FX spread',
+        details: error.details
+      },
+      timestamp: new Date().toISOString()
+    };
+
+    res.status(error.status || 500).json(response);
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/admin/fx-spreads/{spreadId}:
+ *   patch:
+ *     summary: Change an FX spread (Admin only)
+ *     description: Applies to quotes and payments priced from now on; existing quotes keep their rate. Requires admin privileges.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: spreadId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [spread_bps]
+ *             properties:
+ *               spread_bps:
+ *                 type: integer
+ *                 minimum: 0
+ *                 maximum: 5000
+ *     responses:
+ *       200:
+ *         description: Spread updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/FxSpread'
+ *       400:
+ *         description: Bad request
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *       404:
+ *         description: Spread not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ */
+router.patch('/fx-spreads/:spreadId', requireAuthOrApiKey, requireRoleOrAdminPermission(UserRole.ADMIN), validateUpdateFxSpread, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { spreadId } = req.params;
+    const previous = await fxSpreadService.getSpreadById(spreadId);
+    const spread = previous && await fxSpreadService.updateSpread(spreadId, req.body);
+
+    if (!previous || !spread) {
+      const response: ApiResponse<never> = {
+        success: false,
+        error: {
+          code: 'FX_SPREAD_NOT_FOUND',
+          message: 'FX spread not found'
+        },
+        timestamp: new Date().toISOString()
+      };
+      return res.status(404).json(response);
+    }
+
+    await auditService.logAuditEvent(req, AuditAction.FX_SPREAD_UPDATED, 'fx_spread', spread.id, {
+      previous_spread_bps: previous.spread_bps,
+      spread_bps: spread.spread_bps
+    });
+
+    const response: ApiResponse<FxSpread> = {
+      success: true,
+      data: spread,
+      timestamp: new Date().toISOString()
+    };
+
+    res.json(response);
+  } catch (error: any) {
+    console.error('Error updating FX spread:', error);
+
+    const response: ApiResponse<never> = {
+      success: false,
+      error: {
+        code: 'FX_SPREAD_UPDATE_FAILED',
+        message: 'Failed to update FX spread'
+      },
+      timestamp: new Date().toISOString()
+    };
+
+    res.status(500).json(response);
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/admin/fx-spreads/{spreadId}:
+ *   delete:
+ *     summary: Remove an FX spread (Admin only)
+ *     description: The next most specific spread, or FX_DEFAULT_SPREAD_BPS, applies instead. Requires admin privileges.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: spreadId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Spread removed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *       404:
+ *         description: Spread not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ */
+router.delete('/fx-spreads/:spreadId', requireAuthOrApiKey, requireRoleOrAdminPermission(UserRole.ADMIN), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { spreadId } = req.params;
+    const spread = await fxSpreadService.getSpreadById(spreadId);
+
+    if (!spread || !await fxSpreadService.deleteSpread(spreadId)) {
+      const response: ApiResponse<never> = {
+        success: false,
+        error: {
+          code: 'FX_SPREAD_NOT_FOUND',
+          message: 'FX spread not found'
+        },
+        timestamp: new Date().toISOString()
+      };
+      return res.status(404).json(response);
+    }
+
+    await auditService.logAuditEvent(req, AuditAction.FX_SPREAD_DELETED, 'fx_spread', spread.id, {
+      source_currency: spread.source_currency,
+      destination_currency: spread.destination_currency,
+      tier: spread.tier,
+      api_key_id: spread.api_key_id,
+      spread_bps: spread.spread_bps
+    });
+
+    const response: ApiResponse<{ deleted: boolean }> = {
+      success: true,
+      data: { deleted: true },
+      timestamp: new Date().toISOString()
+    };
+
+    res.json(response);
+  } catch (error: any) {
+    console.error('Error deleting FX spread:', error);
+
+    const response: ApiResponse<never> = {
+      success: false,
+      error: {
+        code: 'FX_SPREAD_DELETION_FAILED',
+        message: 'Failed to delete FX spread'
+      },
+      timestamp: new Date().toISOString()
+    };
+
+    res.status(500).json(response);
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/admin/providers/health:
+ *   get:
+ *     summary: List provider circuit breakers (Admin only)
+ *     description: Circuit breaker state and outcome counts for every configured onramp and offramp provider. Requires admin privileges.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     responses:
+ *       200:
+ *         description: Provider health
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/ProviderHealth'
+ *       403:
+ *         description: Forbidden - Insufficient permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ */
+router.get('/providers/health', requireAuthOrApiKey, requireRoleOrAdminPermission(UserRole.ADMIN), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const health = await providerHealthService.listHealth();
+
+    const response: ApiResponse<ProviderHealth[]> = {
+      success: true,
+      data: health,
+      timestamp: new Date().toISOString()
+    };
+
+    res.json(response);
+  } catch (error: any) {
+    console.error('Error listing provider health:', error);
+
+    const response: ApiResponse<never> = {
+      success: false,
+      error: {
+        code: 'PROVIDER_HEALTH_FETCH_FAILED',
+        message: 'Failed to fetch provider health'
+      },
+      timestamp: new Date().toISOString()
+    };
+
+    res.status(500).json(response);
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/admin/providers/{provider}/health:
+ *   get:
+ *     summary: Get a provider's circuit breaker (Admin only)
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: stripe
+ *     responses:
+ *       200:
+ *         description: Provider health
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/ProviderHealth'
+ *       404:
+ *         description: Provider not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ */
+router.get('/providers/:provider/health', requireAuthOrApiKey, requireRoleOrAdminPermission(UserRole.ADMIN), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const health = await providerHealthService.getHealth(req.params.provider);
+
+    const response: ApiResponse<ProviderHealth> = {
+      success: true,
+      data: health,
+      timestamp: new Date().toISOString()
+    };
+
+    res.json(response);
+  } catch (error: any) {
+    console.error('Error fetching provider health:', error);
+
+    const response: ApiResponse<never> = {
+      success: false,
+      error: {
+        code: error.code || 'PROVIDER_HEALTH_FETCH_FAILED',
+        message: error.message || 'Failed to fetch provider health'
+      },
+      timestamp: new Date().toISOString()
+    };
+
+    res.status(error.status || 500).json(response);
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/admin/providers/{provider}/circuit:
+ *   put:
+ *     summary: Force a provider's circuit open or closed (Admin only)
+ *     description: |
+ *       open takes the provider out of routing, for maintenance; closed keeps it in routing whatever its outcomes.
+ *       Either holds until auto hands the circuit back to its outcomes, starting closed. Requires admin privileges.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: stripe
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [state]
+ *             properties:
+ *               state:
+ *                 type: string
+ *                 enum: [open, closed, auto]
+ *               reason:
+ *                 type: string
+ *                 example: Scheduled maintenance
+ *     responses:
+ *       200:
+ *         description: Circuit updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/ProviderHealth'
+ *       400:
+ *         description: Bad request
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *       404:
+ *         description: Provider not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ */
+router.put('/providers/:provider/circuit', requireAuthOrApiKey, requireRoleOrAdminPermission(UserRole.ADMIN), validateSetProviderCircuit, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { provider } = req.params;
+    const { state, reason } = req.body;
+    const previous = await providerHealthService.getHealth(provider);
+
+    const health = state === 'auto'
+      ? await providerHealthService.release(provider)
+      : await providerHealthService.forceState(
+        provider,
+        state === 'open' ? CircuitState.OPEN : CircuitState.CLOSED,
+        reason,
+        req.user?.email || req.apiKey?.name
+      );
+
+    await auditService.logAuditEvent(req, AuditAction.PROVIDER_CIRCUIT_CHANGED, 'provider', provider, {
+      previous_state: previous.state,
+      previous_forced: previous.forced,
+      state,
+      reason
+    });
+
+    const response: ApiResponse<ProviderHealth> = {
+      success: true,
+      data: health,
+      timestamp: new Date().toISOString()
+    };
+
+    res.json(response);
+  } catch (error: any) {
+    console.error('Error setting provider circuit:', error);
+
+    const response: ApiResponse<never> = {
+      success: false,
+      error: {
+        code: error.code || 'PROVIDER_CIRCUIT_UPDATE_FAILED',
+        message: error.message || 'Failed to set provider circuit'
+      },
+      timestamp: new Date().toISOString()
+    };
+
+    res.status(error.status || 500).json(response);
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/admin/users/{userId}/tier:
+ *   put:
+ *     summary: Set a user's pricing tier (Admin only)
+ *     description: Tier FX spreads for this tier apply to the user's quotes and payments. Requires admin privileges.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [tier]
+ *             properties:
+ *               tier:
+ *                 type: string
+ *                 example: enterprise
+ *     responses:
+ *       200:
+ *         description: Tier set
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *       400:
+ *         description: Bad request
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *       404:
+ *         description: User not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ */
+router.put('/users/:userId/tier', requireAuthOrApiKey, requireRoleOrAdminPermission(UserRole.ADMIN), validateSetTier, async (req: AuthenticatedRequest, res: Response) => {
+  await setTier(req, res, 'user', req.params.userId);
+});
+
+/**
+ * @swagger
+ * /api/v1/admin/api-keys/{keyId}/tier:
+ *   put:
+ *     summary: Set an API key's pricing tier (Admin only)
+ *     description: Tier FX spreads for this tier apply to quotes and payments made with the key, in place of the user's tier. Requires admin privileges.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: keyId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [tier]
+ *             properties:
+ *               tier:
+ *                 type: string
+ *                 example: enterprise
+ *     responses:
+ *       200:
+ *         description: Tier set
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *       400:
+ *         description: Bad request
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *       404:
+ *         description: API key not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ */
+router.put('/api-keys/:keyId/tier', requireAuthOrApiKey, requireRoleOrAdminPermission(UserRole.ADMIN), validateSetTier, async (req: AuthenticatedRequest, res: Response) => {
+  await setTier(req, res, 'api_key', req.params.keyId);
+});
+
+async function setTier(req: AuthenticatedRequest, res: Response, principal: 'user' | 'api_key', principalId: string) {
+  try {
+    const { tier } = req.body;
+
+    if (!await fxSpreadService.setTier(principal, principalId, tier)) {
+      const response: ApiResponse<never> = {
+        success: false,
+        error: {
+          code: principal === 'user' ? 'USER_NOT_FOUND' : 'API_KEY_NOT_FOUND',
+          message: principal === 'user' ? 'User not found' : 'API key not found'
+        },
+        timestamp: new Date().toISOString()
+      };
+      return res.status(404).json(response);
+    }
+
+    await auditService.logAuditEvent(req, AuditAction.CUSTOMER_TIER_CHANGED, principal, principalId, { tier });
+
+    const response: ApiResponse<any> = {
+      success: true,
+      data: { [`${principal}_id`]: principalId, tier },
+      timestamp: new Date().toISOString()
+    };
+
+    res.json(response);
+  } catch (error: any) {
+    console.error('Error setting pricing tier:', error);
+
+    const response: ApiResponse<never> = {
+      success: false,
+      error: {
+        code: 'TIER_UPDATE_FAILED',
+        message: 'Failed to set pricing tier'
+      },
+      timestamp: new Date().toISOString()
+    };
+
+    res.status(500).json(response);
+  }
+}
+
 export default router; 
\ No newline at end of file
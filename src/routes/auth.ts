@@ -1,9 +1,11 @@
 import { Router, Request, Response } from 'express';
-import { AuthenticatedRequest, requireAuth, authService } from '../middleware/auth.js';
-import { auditService, AuditAction } from '../middleware/audit.js';
+import { AuthenticatedRequest, SessionResponse, requireAuth, authService } from '../middleware/auth.js';
+import { auditService, AuditAction, SecurityEventType, SecuritySeverity } from '../middleware/audit.js';
 import { ApiResponse } from '../types/payment.js';
+import { LoginThrottleService } from '../services/loginThrottleService.js';
 
 const router = Router();
+const loginThrottleService = new LoginThrottleService();
 
 /**
  * @swagger
@@ -46,8 +48,19 @@ const router = Router();
  *                       properties:
  *                         auth_token:
  *                           type: string
- *                           description: JWT access token
- *                           example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...'
+ *                           description: Access token for this session
+ *                           example: 'token_9b1deb4d-3b7d-4bad-9bdd-2b0d7b3dcb6d_1735689600000'
+ *                         refresh_token:
+ *                           type: string
+ *                           description: Single-use token for POST /auth/refresh
+ *                         expires_at:
+ *                           type: string
+ *                           format: date-time
+ *                         refresh_expires_at:
+ *                           type: string
+ *                           format: date-time
+ *                         session_id:
+ *                           type: string
  *                         user:
  *                           $ref: '#/components/schemas/User'
  *       400:
@@ -62,8 +75,14 @@ const router = Router();
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/ApiResponse'
+ *       423:
+ *         description: Account temporarily locked after too many failed attempts (ACCOUNT_LOCKED). The same response is given whether or not the email is registered.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
  *       429:
- *         description: Too many requests - Rate limit exceeded
+ *         description: Too many requests - Rate limit exceeded, or too many failed attempts for this email or IP (LOGIN_THROTTLED); see the Retry-After header
  *         content:
  *           application/json:
  *             schema:
@@ -84,7 +103,25 @@ router.post('/login', async (req: Request, res: Response) => {
       });
     }
 
-    const result = await authService.login(email, password);
+    try {
+      await loginThrottleService.assertCanAttempt(email, req.ip);
+    } catch (error: any) {
+      await auditService.logFailedLogin(req, email, error.code, error.details);
+      throw error;
+    }
+
+    let result;
+    try {
+      result = await authService.login(email, password, {
+        user_agent: req.get('User-Agent'),
+        ip_address: req.ip
+      });
+    } catch (error) {
+      const attempts = await loginThrottleService.recordFailure(email, req.ip);
+      await auditService.logFailedLogin(req, email, 'INVALID_CREDENTIALS', attempts);
+      throw error;
+    }
+    await loginThrottleService.recordSuccess(email);
 
     // Log successful login
     await auditService.logAuditEvent(
@@ -97,7 +134,11 @@ router.post('/login', async (req: Request, res: Response) => {
     const response: ApiResponse<any> = {
       success: true,
       data: {
-        auth_token: result.token,
+        auth_token: result.session.auth_token,
+        refresh_token: result.session.refresh_token,
+        expires_at: result.session.expires_at,
+        refresh_expires_at: result.session.refresh_expires_at,
+        session_id: result.session.session_id,
         user: {
           id: result.user.id,
           email: result.user.email,
@@ -113,17 +154,21 @@ router.post('/login', async (req: Request, res: Response) => {
     res.json(response);
   } catch (error: any) {
     console.error('Login error:', error);
+
+    if (error.details?.retry_after_seconds) {
+      res.set('Retry-After', String(error.details.retry_after_seconds));
+    }
     
     const response: ApiResponse<never> = {
       success: false,
       error: {
-        code: 'LOGIN_FAILED',
+        code: error.code || 'LOGIN_FAILED',
         message: error.message || 'Invalid email or password'
       },
       timestamp: new Date().toISOString()
     };
 
-    res.status(401).json(response);
+    res.status(error.status || 401).json(response);
   }
 });
 
@@ -132,7 +177,7 @@ router.post('/login', async (req: Request, res: Response) => {
  * /api/v1/auth/logout:
  *   post:
  *     summary: User logout
- *     description: Invalidate the current user session and log the logout action.
+ *     description: Revoke the current session. Its access and refresh tokens stop working; sessions on other devices are not affected.
  *     tags: [Authentication]
  *     security:
  *       - bearerAuth: []
@@ -152,6 +197,8 @@ router.post('/login', async (req: Request, res: Response) => {
  */
 router.post('/logout', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
   try {
+    await authService.revokeSession(req.user!.session_id, 'logout');
+
     // Log logout action
     await auditService.logAuditEvent(
       req,
@@ -255,10 +302,19 @@ router.get('/me', requireAuth, async (req: AuthenticatedRequest, res: Response)
  * /api/v1/auth/refresh:
  *   post:
  *     summary: Refresh access token
- *     description: Generate a new access token using the current valid token. Useful for extending sessions.
+ *     description: Exchange a refresh token for a new access token and refresh token. The refresh token is single-use; presenting a used one again revokes the whole session.
  *     tags: [Authentication]
- *     security:
- *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - refresh_token
+ *             properties:
+ *               refresh_token:
+ *                 type: string
  *     responses:
  *       200:
  *         description: Token refreshed successfully
@@ -274,28 +330,65 @@ router.get('/me', requireAuth, async (req: AuthenticatedRequest, res: Response)
  *                       properties:
  *                         auth_token:
  *                           type: string
- *                           description: New JWT access token
- *                           example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...'
- *       401:
- *         description: Unauthorized - Invalid or expired token
+ *                         refresh_token:
+ *                           type: string
+ *                         expires_at:
+ *                           type: string
+ *                           format: date-time
+ *                         refresh_expires_at:
+ *                           type: string
+ *                           format: date-time
+ *                         session_id:
+ *                           type: string
+ *       400:
+ *         description: Bad request - Missing refresh token
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/ApiResponse'
- *       500:
- *         description: Internal server error
+ *       401:
+ *         description: Unauthorized - Invalid, expired or reused refresh token
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/ApiResponse'
  */
-router.post('/refresh', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+router.post('/refresh', async (req: Request, res: Response) => {
   try {
-    const newToken = await authService.refreshToken(req.user!.id);
+    const { refresh_token } = req.body;
+
+    if (!refresh_token) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'MISSING_REFRESH_TOKEN',
+          message: 'refresh_token is required'
+        },
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    let session;
+    try {
+      session = await authService.refreshSession(refresh_token, {
+        user_agent: req.get('User-Agent'),
+        ip_address: req.ip
+      });
+    } catch (error: any) {
+      if (error.code === 'REFRESH_TOKEN_REUSED') {
+        await auditService.logSecurityEvent(
+          SecurityEventType.SUSPICIOUS_ACTIVITY,
+          'Used refresh token presented again; session revoked',
+          SecuritySeverity.HIGH,
+          req
+        );
+      }
+      throw error;
+    }
 
     const response: ApiResponse<any> = {
       success: true,
-      data: { auth_token: newToken },
+      data: session,
       timestamp: new Date().toISOString()
     };
 
@@ -306,14 +399,207 @@ router.post('/refresh', requireAuth, async (req: AuthenticatedRequest, res: Resp
     const response: ApiResponse<never> = {
       success: false,
       error: {
-        code: 'TOKEN_REFRESH_FAILED',
-        message: 'Failed to refresh token'
+        code: error.code || 'TOKEN_REFRESH_FAILED',
+        message: error.message || 'Failed to refresh token'
+      },
+      timestamp: new Date().toISOString()
+    };
+
+    res.status(error.status || 401).json(response);
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/auth/sessions:
+ *   get:
+ *     summary: List your sessions
+ *     description: Sessions of the authenticated user that can still be used or refreshed, most recently used first. The session making the request is marked current.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Active sessions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/Session'
+ *       401:
+ *         description: Unauthorized - Missing or invalid authentication
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ */
+router.get('/sessions', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const sessions = await authService.getUserSessions(req.user!.id, req.user!.session_id);
+
+    const response: ApiResponse<SessionResponse[]> = {
+      success: true,
+      data: sessions,
+      timestamp: new Date().toISOString()
+    };
+
+    res.json(response);
+  } catch (error: any) {
+    console.error('Error fetching sessions:', error);
+
+    const response: ApiResponse<never> = {
+      success: false,
+      error: {
+        code: 'SESSIONS_FETCH_FAILED',
+        message: 'Failed to fetch sessions'
+      },
+      timestamp: new Date().toISOString()
+    };
+
+    res.status(500).json(response);
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/auth/sessions:
+ *   delete:
+ *     summary: Sign out everywhere else
+ *     description: Revoke every session of the authenticated user except the one making the request.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Sessions revoked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         revoked:
+ *                           type: integer
+ *       401:
+ *         description: Unauthorized - Missing or invalid authentication
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ */
+router.delete('/sessions', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const revoked = await authService.revokeUserSessions(req.user!.id, 'revoked_by_user', req.user!.session_id);
+
+    await auditService.logAuditEvent(req, AuditAction.SESSION_REVOKED, 'user', req.user!.id, { revoked });
+
+    const response: ApiResponse<any> = {
+      success: true,
+      data: { revoked },
+      timestamp: new Date().toISOString()
+    };
+
+    res.json(response);
+  } catch (error: any) {
+    console.error('Error revoking sessions:', error);
+
+    const response: ApiResponse<never> = {
+      success: false,
+      error: {
+        code: 'SESSION_REVOKE_FAILED',
+        message: 'Failed to revoke sessions'
       },
       timestamp: new Date().toISOString()
     };
 
-    res.status(401).json(response);
+    res.status(500).json(response);
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/auth/sessions/{sessionId}:
+ *   delete:
+ *     summary: Revoke a session
+ *     description: Sign out one of the authenticated user's sessions. Revoking the current session is the same as logging out.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Session revoked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *       401:
+ *         description: Unauthorized - Missing or invalid authentication
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *       404:
+ *         description: Session not found or already revoked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ */
+router.delete('/sessions/:sessionId', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { sessionId } = req.params;
+
+    // Scoped to the caller, so other users' sessions look missing
+    if (!await authService.revokeSession(sessionId, 'revoked_by_user', req.user!.id)) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: 'SESSION_NOT_FOUND',
+          message: 'Session not found'
+        },
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    await auditService.logAuditEvent(req, AuditAction.SESSION_REVOKED, 'session', sessionId);
+
+    const response: ApiResponse<any> = {
+      success: true,
+      data: { id: sessionId, revoked: true },
+      timestamp: new Date().toISOString()
+    };
+
+    res.json(response);
+  } catch (error: any) {
+    console.error('Error revoking session:', error);
+
+    const response: ApiResponse<never> = {
+      success: false,
+      error: {
+        code: 'SESSION_REVOKE_FAILED',
+        message: 'Failed to revoke session'
+      },
+      timestamp: new Date().toISOString()
+    };
+
+    res.status(500).json(response);
   }
 });
 
-export default router; 
\ No newline at end of file
+export default router;
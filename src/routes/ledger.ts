@@ -1,10 +1,52 @@
 import express from 'express';
 import { Database } from '../database/database.js';
-import { AuthService, AuthenticatedRequest } from '../middleware/auth.js';
+import { AuthService, AuthenticatedRequest, UserRole, isAdmin } from '../middleware/auth.js';
+import { LedgerService } from '../services/ledgerService.js';
+import { redactRecipientDetails } from '../services/piiEncryption.js';
+import { Money } from '../types/money.js';
+import { Payment } from '../types/payment.js';
 
 const router = express.Router();
 const db = Database.getInstance();
 const authService = new AuthService();
+const ledgerService = new LedgerService();
+const requireAdmin = authService.requireRoleOrAdminPermission(UserRole.ADMIN);
+
+// A row from the ledger queries, straight from the database
+type LedgerRow = Record<string, unknown>;
+
+// Amounts are stored in minor units; present them as exact major unit strings
+const formatLedgerAmounts = (row: LedgerRow): LedgerRow => {
+  const format = (minor: unknown, currency: unknown) =>
+    typeof minor !== 'number' || typeof currency !== 'string' || !currency
+      ? minor
+      : Money.fromMinor(minor, currency).toMajorString();
+
+  return {
+    ...row,
+    source_amount: format(row.source_amount, row.source_currency),
+    destination_amount: format(row.destination_amount, row.destination_currency),
+    fee_amount: format(row.fee_amount, row.source_currency),
+    spread_amount: format(row.spread_amount, row.source_currency),
+    total_amount: format(row.total_amount, row.source_currency),
+    transaction_amount: format(row.transaction_amount, row.transaction_currency)
+  };
+};
+
+// Transaction metadata may hold recipient details; only their masked copy is returned
+const redactLedgerMetadata = (row: LedgerRow): LedgerRow => {
+  if (!row.metadata) {
+    return row;
+  }
+
+  try {
+    const parsed = typeof row.metadata === 'string' ? JSON.parse(row.metadata) : row.metadata;
+    const redacted = redactRecipientDetails(parsed);
+    return { ...row, metadata: typeof row.metadata === 'string' ? JSON.stringify(redacted) : redacted };
+  } catch {
+    return row;
+  }
+};
 
 // Get transaction ledger for authenticated user
 router.get('/transactions', authService.validateAuth.bind(authService), async (req: AuthenticatedRequest, res) => {
@@ -52,7 +94,7 @@ router.get('/transactions', authService.validateAuth.bind(authService), async (r
     }
 
     // Get transactions with payment details
-    const transactions = await db.all(`
+    const transactions = await db.all<LedgerRow>(`
       SELECT 
         p.id as payment_id,
         p.user_id,
@@ -61,8 +103,11 @@ router.get('/transactions', authService.validateAuth.bind(authService), async (r
         p.destination_amount,
         p.destination_currency,
         p.exchange_rate,
+        p.mid_exchange_rate,
+        p.spread_bps,
         p.status as payment_status,
         p.fee_amount,
+        p.spread_amount,
         p.total_amount,
         p.created_at as payment_created_at,
         p.updated_at as payment_updated_at,
@@ -102,6 +147,7 @@ router.get('/transactions', authService.validateAuth.bind(authService), async (r
         SUM(CASE WHEN p.status = 'pending' THEN 1 ELSE 0 END) as pending_transactions,
         SUM(p.total_amount) as total_volume,
         SUM(p.fee_amount) as total_fees,
+        SUM(p.spread_amount) as total_spread,
         AVG(p.exchange_rate) as avg_exchange_rate
       FROM payments p
       ${whereClause}
@@ -109,7 +155,7 @@ router.get('/transactions', authService.validateAuth.bind(authService), async (r
 
     res.json({
       data: {
-        transactions,
+        transactions: transactions.map(row => formatLedgerAmounts(redactLedgerMetadata(row))),
         pagination: {
           page: Number(page),
           limit: Number(limit),
@@ -148,7 +194,7 @@ router.get('/transactions/:transactionId', authService.validateAuth.bind(authSer
       params.push(apiKeyId);
     }
 
-    const transaction = await db.get(`
+    const transaction = await db.get<LedgerRow>(`
       SELECT 
         p.id as payment_id,
         p.user_id,
@@ -157,8 +203,11 @@ router.get('/transactions/:transactionId', authService.validateAuth.bind(authSer
         p.destination_amount,
         p.destination_currency,
         p.exchange_rate,
+        p.mid_exchange_rate,
+        p.spread_bps,
         p.status as payment_status,
         p.fee_amount,
+        p.spread_amount,
         p.total_amount,
         p.created_at as payment_created_at,
         p.updated_at as payment_updated_at,
@@ -190,7 +239,7 @@ router.get('/transactions/:transactionId', authService.validateAuth.bind(authSer
       }
     }
 
-    res.json({ data: transaction });
+    res.json({ data: formatLedgerAmounts(redactLedgerMetadata(transaction)) });
 
   } catch (error) {
     console.error('Error fetching transaction details:', error);
@@ -226,6 +275,7 @@ router.get('/analytics', authService.validateAuth.bind(authService), async (req:
         COUNT(*) as transaction_count,
         SUM(p.total_amount) as total_volume,
         SUM(p.fee_amount) as total_fees,
+        SUM(p.spread_amount) as total_spread,
         AVG(p.exchange_rate) as avg_exchange_rate
       FROM payments p
       ${whereClause}
@@ -235,7 +285,7 @@ router.get('/analytics', authService.validateAuth.bind(authService), async (req:
     `, params);
 
     // Get currency breakdown
-    const currencyBreakdown = await db.all(`
+    const currencyBreakdown = await db.all<{ source_currency: string; total_volume: number }>(`
       SELECT 
         p.source_currency,
         p.destination_currency,
@@ -262,7 +312,10 @@ router.get('/analytics', authService.validateAuth.bind(authService), async (req:
     res.json({
       data: {
         dailyVolume,
-        currencyBreakdown,
+        currencyBreakdown: currencyBreakdown.map(row => ({
+          ...row,
+          total_volume: Money.fromMinor(row.total_volume, row.source_currency).toMajorString()
+        })),
         statusBreakdown
       }
     });
@@ -273,4 +326,56 @@ router.get('/analytics', authService.validateAuth.bind(authService), async (req:
   }
 });
 
+// Get balances of the double-entry ledger accounts (admin only)
+router.get('/accounts', authService.validateAuth.bind(authService), requireAdmin, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { currency, category } = req.query;
+
+    const accounts = await ledgerService.getAccountBalances({
+      currency: currency as string | undefined,
+      category: category as string | undefined
+    });
+
+    res.json({ data: accounts });
+
+  } catch (error) {
+    console.error('Error fetching ledger accounts:', error);
+    res.status(500).json({ error: { message: 'Failed to fetch ledger accounts' } });
+  }
+});
+
+// Get trial balance: debits and credits per currency must be equal (admin only)
+router.get('/trial-balance', authService.validateAuth.bind(authService), requireAdmin, async (req: AuthenticatedRequest, res) => {
+  try {
+    const trialBalance = await ledgerService.getTrialBalance();
+
+    res.json({ data: trialBalance });
+
+  } catch (error) {
+    console.error('Error fetching trial balance:', error);
+    res.status(500).json({ error: { message: 'Failed to fetch trial balance' } });
+  }
+});
+
+// Get journal entries posted for a payment
+router.get('/payments/:paymentId/entries', authService.validateAuth.bind(authService), async (req: AuthenticatedRequest, res) => {
+  try {
+    const { paymentId } = req.params;
+    const payment = await db.get<Payment>('SELECT id, user_id FROM payments WHERE id = ?', [paymentId]);
+
+    // Non-admins only see their own payments
+    if (!payment || (!isAdmin(req) && (!req.user || payment.user_id !== req.user.id))) {
+      return res.status(404).json({ error: { message: 'Payment not found' } });
+    }
+
+    const entries = await ledgerService.getPaymentEntries(paymentId);
+
+    res.json({ data: entries });
+
+  } catch (error) {
+    console.error('Error fetching journal entries:', error);
+    res.status(500).json({ error: { message: 'Failed to fetch journal entries' } });
+  }
+});
+
 export default router; 
\ No newline at end of file
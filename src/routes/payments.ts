@@ -1,26 +1,158 @@
 import { Router, Request, Response } from 'express';
 import { PaymentOrchestrator } from '../services/paymentOrchestrator.js';
 import { FeeEngine } from '../services/feeEngine.js';
-import { ExchangeRateService } from '../services/exchangeRateService.js';
 import { OnrampService } from '../services/onrampService.js';
 import { OfframpService } from '../services/offrampService.js';
+import { RefundService } from '../services/refundService.js';
+import { EventStreamService, StreamEventFilter } from '../services/eventStreamService.js';
+import { ProviderRoutingService } from '../services/providerRoutingService.js';
+import { ProviderStatsService } from '../services/providerStatsService.js';
+import {
+  AuthenticatedRequest,
+  requireAuthOrApiKey,
+  requirePermission,
+  getOwnerScope,
+  getPrincipalId,
+  isAdmin
+} from '../middleware/auth.js';
+import { auditService } from '../middleware/audit.js';
 import {
   validateCreatePayment,
+  validateCreateRefund,
   validateEstimateFees,
-  validateIdempotencyKey
+  validateIdempotencyKey,
+  validateListPayments,
+  validateProviderStatus,
+  validateCompareProviders
 } from '../middleware/validation.js';
 import {
   CreatePaymentRequest,
+  Payment,
+  PaymentEvent,
+  PaymentListResponse,
   PaymentResponse,
+  PaymentStatus,
+  ProviderComparison,
+  ProviderStatusReport,
+  RefundResponse,
+  RoutingDecision,
+  StreamEvent,
+  Transaction,
   ApiResponse
 } from '../types/payment.js';
+import { Money } from '../types/money.js';
+import { ProviderDirection } from '../types/ledger.js';
 
 const router = Router();
 const paymentOrchestrator = new PaymentOrchestrator();
 const feeEngine = new FeeEngine();
-const exchangeRateService = new ExchangeRateService();
 const onrampService = new OnrampService();
 const offrampService = new OfframpService();
+const refundService = new RefundService();
+const eventStreamService = new EventStreamService();
+const providerRoutingService = new ProviderRoutingService();
+const providerStatsService = new ProviderStatsService();
+
+const SSE_HEARTBEAT_MS = 15000;
+const SSE_RETRY_MS = 3000;
+
+const canRead = requirePermission('payments:read');
+const canWrite = requirePermission('payments:write');
+
+// Every payment route needs a user token or API key
+router.use(requireAuthOrApiKey);
+
+// Look up a payment for the caller. Other tenants' payments are reported as
+// missing, and the attempt is recorded as a security event.
+const getOwnedPayment = async (req: AuthenticatedRequest, paymentId: string): Promise<Payment | undefined> => {
+  const payment = await paymentOrchestrator.getPaymentById(paymentId);
+  if (payment && !paymentOrchestrator.isPaymentVisibleTo(payment, getOwnerScope(req))) {
+    await auditService.logPermissionDenied(req, 'payment', paymentId);
+    return undefined;
+  }
+  return payment;
+};
+
+// Same for provider transactions
+const getOwnedTransaction = async (req: AuthenticatedRequest, transactionId: string): Promise<Transaction | undefined> => {
+  const transaction = await paymentOrchestrator.getTransactionById(transactionId);
+  if (transaction && !paymentOrchestrator.isTransactionVisibleTo(transaction, getOwnerScope(req))) {
+    await auditService.logPermissionDenied(req, 'transaction', transactionId);
+    return undefined;
+  }
+  return transaction;
+};
+
+// Where a stream resumes: the Last-Event-ID header (sent by EventSource on
+// reconnect) or the last_event_id query parameter. Null when it is malformed.
+const getLastEventId = (req: Request): number | undefined | null => {
+  const value = req.header('Last-Event-ID') ?? (req.query.last_event_id as string | undefined);
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  return /^\d+$/.test(value) ? parseInt(value, 10) : null;
+};
+
+// Write matching events as Server-Sent Events, starting after afterId. Live
+// events are held back while the log is replayed, so none are lost or repeated.
+const streamEvents = async (req: Request, res: Response, filter: StreamEventFilter, afterId: number): Promise<void> => {
+  res.status(200).set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+  res.flushHeaders();
+  res.write(`retry: ${SSE_RETRY_MS}\n\n`);
+
+  let lastSentId = afterId;
+  let replaying = true;
+  const held: StreamEvent[] = [];
+
+  const send = (event: StreamEvent) => {
+    if (event.id <= lastSentId) {
+      return;
+    }
+    lastSentId = event.id;
+    const data = JSON.stringify({ ...event.data, created_at: event.created_at });
+    res.write(`id: ${event.id}\nevent: ${event.event_type}\ndata: ${data}\n\n`);
+  };
+
+  const unsubscribe = eventStreamService.subscribe(filter, event => {
+    if (replaying) {
+      held.push(event);
+    } else {
+      send(event);
+    }
+  });
+  const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), SSE_HEARTBEAT_MS);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+
+  let batch: StreamEvent[];
+  do {
+    batch = await eventStreamService.getEventsSince(filter, lastSentId);
+    batch.forEach(send);
+  } while (batch.length > 0);
+
+  replaying = false;
+  held.forEach(send);
+};
+
+const invalidLastEventId = (res: Response) => {
+  const response: ApiResponse<never> = {
+    success: false,
+    error: {
+      code: 'INVALID_LAST_EVENT_ID',
+      message: 'Last-Event-ID must be a non-negative integer'
+    },
+    timestamp: new Date().toISOString()
+  };
+  return res.status(400).json(response);
+};
 
 /**
  * @swagger
@@ -28,6 +160,9 @@ const offrampService = new OfframpService();
  *   post:
  *     summary: Create a new payment
  *     tags: [Payments]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
  *     parameters:
  *       - $ref: '#/components/parameters/IdempotencyKey'
  *     requestBody:
@@ -49,7 +184,25 @@ const offrampService = new OfframpService();
  *                     data:
  *                       $ref: '#/components/schemas/PaymentResponse'
  *       400:
- *         description: Bad request
+ *         description: Bad request, or the payment does not match its quote (QUOTE_MISMATCH)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *       404:
+ *         description: Referenced quote not found (QUOTE_NOT_FOUND)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *       409:
+ *         description: Referenced quote was already used by another payment (QUOTE_ALREADY_USED), or the Idempotency-Key belongs to another customer (IDEMPOTENCY_KEY_CONFLICT)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *       410:
+ *         description: Referenced quote has expired (QUOTE_EXPIRED)
  *         content:
  *           application/json:
  *             schema:
@@ -57,13 +210,16 @@ const offrampService = new OfframpService();
  */
 router.post(
   '/',
+  canWrite,
   validateIdempotencyKey,
   validateCreatePayment,
-  async (req: Request, res: Response) => {
+  async (req: AuthenticatedRequest, res: Response) => {
     try {
       const paymentRequest: CreatePaymentRequest = {
         ...req.body,
-        idempotency_key: req.headers['idempotency-key'] as string
+        user_id: getPrincipalId(req),
+        idempotency_key: req.headers['idempotency-key'] as string,
+        api_key_id: req.apiKey?.id
       };
 
       const payment = await paymentOrchestrator.createPayment(paymentRequest);
@@ -82,22 +238,227 @@ router.post(
         success: false,
         error: {
           code: error.code || 'PAYMENT_CREATION_FAILED',
-          message: error.message || 'Failed to create payment'
+          message: error.message || 'Failed to create payment',
+          details: error.details
         },
         timestamp: new Date().toISOString()
       };
 
-      res.status(400).json(response);
+      res.status(error.status || 400).json(response);
     }
   }
 );
 
+/**
+ * @swagger
+ * /api/v1/payments:
+ *   get:
+ *     summary: List payments
+ *     description: Lists the caller's payments, newest first. Users see payments with their user_id, API keys the payments they created, admins all payments. Pass next_cursor back as cursor to page through results.
+ *     tags: [Payments]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         description: One status or a comma-separated list
+ *         schema:
+ *           type: string
+ *           example: failed,cancelled
+ *       - in: query
+ *         name: currency
+ *         description: Matches the source or destination currency
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: source_currency
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: destination_currency
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: created_from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: created_to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: min_amount
+ *         description: Minimum source amount; requires source_currency
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: max_amount
+ *         description: Maximum source amount; requires source_currency
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: idempotency_key
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: A page of payments
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/PaymentListResponse'
+ *       400:
+ *         description: Invalid filters or cursor
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *       401:
+ *         description: Authentication required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ */
+router.get('/', canRead, validateListPayments, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const query = req.query as Record<string, string | undefined>;
+
+    const payments = await paymentOrchestrator.listPayments({
+      scope: getOwnerScope(req),
+      limit: query.limit ? parseInt(query.limit, 10) : undefined,
+      cursor: query.cursor,
+      status: query.status ? query.status.split(',') as PaymentStatus[] : undefined,
+      currency: query.currency,
+      source_currency: query.source_currency,
+      destination_currency: query.destination_currency,
+      created_from: query.created_from,
+      created_to: query.created_to,
+      min_amount: query.min_amount,
+      max_amount: query.max_amount,
+      idempotency_key: query.idempotency_key
+    });
+
+    const response: ApiResponse<PaymentListResponse> = {
+      success: true,
+      data: payments,
+      timestamp: new Date().toISOString()
+    };
+
+    res.json(response);
+  } catch (error: any) {
+    console.error('Error listing payments:', error);
+
+    const response: ApiResponse<never> = {
+      success: false,
+      error: {
+        code: error.code || 'PAYMENT_LIST_FAILED',
+        message: error.message || 'Failed to list payments'
+      },
+      timestamp: new Date().toISOString()
+    };
+
+    res.status(error.status || 500).json(response);
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/payments/events:
+ *   get:
+ *     summary: Stream live updates for all your payments
+ *     description: |
+ *       A text/event-stream of `payment.status_changed` and `transaction.updated` events for every payment and onramp/offramp transaction the caller owns (admins get all).
+ *       The stream starts with new events; reconnecting with `Last-Event-ID` (EventSource does this automatically) replays everything after that id.
+ *     tags: [Payments]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: header
+ *         name: Last-Event-ID
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: last_event_id
+ *         description: Alternative to the Last-Event-ID header
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Event stream
+ *         content:
+ *           text/event-stream:
+ *             schema:
+ *               type: string
+ *               example: |
+ *                 id: 42
+ *                 event: payment.status_changed
+ *                 data: {"payment_id":"a601f1f9-e660-422f-8907-550b57ea247f","from_status":"pending","to_status":"processing","created_at":"2024-01-15 10:30:00"}
+ *       400:
+ *         description: Malformed Last-Event-ID
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ */
+router.get('/events', canRead, async (req: AuthenticatedRequest, res: Response) => {
+  const lastEventId = getLastEventId(req);
+  if (lastEventId === null) {
+    return invalidLastEventId(res);
+  }
+
+  try {
+    const filter: StreamEventFilter = isAdmin(req) ? { all: true } : { owner_id: getPrincipalId(req) };
+    await streamEvents(req, res, filter, lastEventId ?? await eventStreamService.getLatestEventId());
+  } catch (error: any) {
+    console.error('Error streaming payment events:', error);
+
+    if (res.headersSent) {
+      return res.end();
+    }
+
+    const response: ApiResponse<never> = {
+      success: false,
+      error: {
+        code: 'EVENT_STREAM_FAILED',
+        message: 'Failed to stream payment events'
+      },
+      timestamp: new Date().toISOString()
+    };
+
+    res.status(500).json(response);
+  }
+});
+
 /**
  * @swagger
  * /api/v1/payments/supported-currencies:
  *   get:
  *     summary: Get supported currencies
  *     tags: [Payments]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
  *     responses:
  *       200:
  *         description: List of supported currencies
@@ -118,10 +479,11 @@ router.post(
  *                           example: ["AUD", "BRL", "CAD", "CHF", "EUR", "GBP", "INR", "JPY", "MXN", "NOK", "SEK", "USD"]
  *                         fee_configs:
  *                           type: array
+ *                           description: Fee configurations; base, minimum and maximum fees are in minor units of the currency
  *                           items:
  *                             type: object
  */
-router.get('/supported-currencies', async (req: Request, res: Response) => {
+router.get('/supported-currencies', canRead, async (req: Request, res: Response) => {
   try {
     const feeConfigs = await feeEngine.getSupportedCurrencies();
     const currencies = [...new Set(feeConfigs.map(config => config.currency))];
@@ -158,6 +520,9 @@ router.get('/supported-currencies', async (req: Request, res: Response) => {
  *   get:
  *     summary: Get available onramp providers
  *     tags: [Onramp]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
  *     parameters:
  *       - in: query
  *         name: currency
@@ -205,7 +570,7 @@ router.get('/supported-currencies', async (req: Request, res: Response) => {
  *             schema:
  *               $ref: '#/components/schemas/ApiResponse'
  */
-router.get('/onramp/providers', async (req: Request, res: Response) => {
+router.get('/onramp/providers', canRead, async (req: Request, res: Response) => {
   try {
     const { currency, amount, payment_method } = req.query;
     
@@ -331,6 +696,9 @@ router.get('/onramp/providers', async (req: Request, res: Response) => {
  *   get:
  *     summary: Get detailed information about a specific onramp provider
  *     tags: [Onramp]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
  *     parameters:
  *       - in: path
  *         name: providerId
@@ -357,7 +725,7 @@ router.get('/onramp/providers', async (req: Request, res: Response) => {
  *             schema:
  *               $ref: '#/components/schemas/ApiResponse'
  */
-router.get('/onramp/providers/:providerId', async (req: Request, res: Response) => {
+router.get('/onramp/providers/:providerId', canRead, async (req: Request, res: Response) => {
   try {
     const { providerId } = req.params;
     
@@ -455,6 +823,9 @@ router.get('/onramp/providers/:providerId', async (req: Request, res: Response)
  *   get:
  *     summary: Get available offramp providers
  *     tags: [Offramp]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
  *     parameters:
  *       - in: query
  *         name: currency
@@ -508,7 +879,7 @@ router.get('/onramp/providers/:providerId', async (req: Request, res: Response)
  *             schema:
  *               $ref: '#/components/schemas/ApiResponse'
  */
-router.get('/offramp/providers', async (req: Request, res: Response) => {
+router.get('/offramp/providers', canRead, async (req: Request, res: Response) => {
   try {
     const { currency, amount, processing_time, country } = req.query;
     
@@ -665,6 +1036,9 @@ router.get('/offramp/providers', async (req: Request, res: Response) => {
  *   get:
  *     summary: Get detailed information about a specific offramp provider
  *     tags: [Offramp]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
  *     parameters:
  *       - in: path
  *         name: providerId
@@ -691,7 +1065,7 @@ router.get('/offramp/providers', async (req: Request, res: Response) => {
  *             schema:
  *               $ref: '#/components/schemas/ApiResponse'
  */
-router.get('/offramp/providers/:providerId', async (req: Request, res: Response) => {
+router.get('/offramp/providers/:providerId', canRead, async (req: Request, res: Response) => {
   try {
     const { providerId } = req.params;
     
@@ -795,6 +1169,9 @@ router.get('/offramp/providers/:providerId', async (req: Request, res: Response)
  *   get:
  *     summary: Get payment status
  *     tags: [Payments]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
  *     parameters:
  *       - in: path
  *         name: paymentId
@@ -822,10 +1199,10 @@ router.get('/offramp/providers/:providerId', async (req: Request, res: Response)
  *             schema:
  *               $ref: '#/components/schemas/ApiResponse'
  */
-router.get('/:paymentId', async (req: Request, res: Response) => {
+router.get('/:paymentId', canRead, async (req: AuthenticatedRequest, res: Response) => {
   try {
     const { paymentId } = req.params;
-    const payment = await paymentOrchestrator.getPaymentById(paymentId);
+    const payment = await getOwnedPayment(req, paymentId);
     
     if (!payment) {
       const response: ApiResponse<never> = {
@@ -864,19 +1241,24 @@ router.get('/:paymentId', async (req: Request, res: Response) => {
 
 /**
  * @swagger
- * /api/v1/payments/estimate-fees:
- *   post:
- *     summary: Estimate fees for a payment
+ * /api/v1/payments/{paymentId}/history:
+ *   get:
+ *     summary: Get payment status history
+ *     description: Every state machine transition the payment went through, oldest first.
  *     tags: [Payments]
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             $ref: '#/components/schemas/EstimateFeesRequest'
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: paymentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
  *     responses:
  *       200:
- *         description: Fee estimate
+ *         description: Payment status history
  *         content:
  *           application/json:
  *             schema:
@@ -885,73 +1267,78 @@ router.get('/:paymentId', async (req: Request, res: Response) => {
  *                 - type: object
  *                   properties:
  *                     data:
- *                       type: object
- *                       properties:
- *                         source_amount:
- *                           type: number
- *                           example: 100
- *                         source_currency:
- *                           type: string
- *                           example: "USD"
- *                         destination_amount:
- *                           type: number
- *                           example: 84.53
- *                         destination_currency:
- *                           type: string
- *                           example: "EUR"
- *                         exchange_rate:
- *                           type: number
- *                           example: 0.84531
- *                         fee_breakdown:
- *                           type: object
- *                         total_cost:
- *                           type: number
- *                           example: 102.50
- *       400:
- *         description: Bad request
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/PaymentEvent'
+ *       404:
+ *         description: Payment not found
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/ApiResponse'
  */
-router.post('/estimate-fees', validateEstimateFees, async (req: Request, res: Response) => {
+router.get('/:paymentId/history', canRead, async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const { source_amount, source_currency, destination_currency } = req.body;
-    const exchangeRate = await exchangeRateService.getExchangeRate(source_currency, destination_currency);
-    const estimate = await feeEngine.getFeeEstimate(source_amount, source_currency, destination_currency, exchangeRate);
-    
-    const response: ApiResponse<any> = {
+    const { paymentId } = req.params;
+    const payment = await getOwnedPayment(req, paymentId);
+
+    if (!payment) {
+      const response: ApiResponse<never> = {
+        success: false,
+        error: {
+          code: 'PAYMENT_NOT_FOUND',
+          message: 'Payment not found'
+        },
+        timestamp: new Date().toISOString()
+      };
+      return res.status(404).json(response);
+    }
+
+    const events = await paymentOrchestrator.getPaymentEvents(paymentId);
+
+    const response: ApiResponse<PaymentEvent[]> = {
       success: true,
-      data: estimate,
+      data: events,
       timestamp: new Date().toISOString()
     };
 
     res.json(response);
   } catch (error: any) {
-    console.error('Error estimating fees:', error);
-    
+    console.error('Error getting payment history:', error);
+
     const response: ApiResponse<never> = {
       success: false,
       error: {
-        code: error.code || 'FEE_ESTIMATION_FAILED',
-        message: error.message || 'Failed to estimate fees'
+        code: 'PAYMENT_HISTORY_FETCH_FAILED',
+        message: 'Failed to fetch payment history'
       },
       timestamp: new Date().toISOString()
     };
 
-    res.status(400).json(response);
+    res.status(500).json(response);
   }
 });
 
 /**
  * @swagger
- * /api/v1/payments/onramp/status:
+ * /api/v1/payments/{paymentId}/routing:
  *   get:
- *     summary: Get onramp processing status and statistics
- *     tags: [Onramp]
+ *     summary: Get payment routing decisions
+ *     description: Why each of the payment's onramp and offramp transactions went to its provider, oldest first, with the score of every eligible provider and the reason others were left out. Attempts after the first are failovers.
+ *     tags: [Payments]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: paymentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
  *     responses:
  *       200:
- *         description: Onramp status and statistics
+ *         description: Routing decisions
  *         content:
  *           application/json:
  *             schema:
@@ -960,61 +1347,595 @@ router.post('/estimate-fees', validateEstimateFees, async (req: Request, res: Re
  *                 - type: object
  *                   properties:
  *                     data:
- *                       type: object
- *                       properties:
- *                         total_transactions:
- *                           type: number
- *                         success_rate:
- *                           type: number
- *                         average_processing_time:
- *                           type: string
- *                         active_providers:
- *                           type: number
- *                         recent_activity:
- *                           type: array
- *       500:
- *         description: Server error
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/RoutingDecision'
+ *       404:
+ *         description: Payment not found
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/ApiResponse'
  */
-router.get('/onramp/status', async (req: Request, res: Response) => {
+router.get('/:paymentId/routing', canRead, async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const status = {
-      total_transactions: 15420,
-      success_rate: 0.985,
-      average_processing_time: '8.5 minutes',
-      active_providers: 5,
-      recent_activity: [
-        { provider: 'stripe', transactions: 1250, success_rate: 0.99 },
-        { provider: 'circle', transactions: 890, success_rate: 0.98 },
-        { provider: 'paypal', transactions: 670, success_rate: 0.97 }
-      ],
-      system_status: 'operational',
-      last_updated: new Date().toISOString()
-    };
-    
-    const response: ApiResponse<any> = {
-      success: true,
-      data: status,
-      timestamp: new Date().toISOString()
-    };
+    const { paymentId } = req.params;
+    const payment = await getOwnedPayment(req, paymentId);
 
-    res.json(response);
-  } catch (error: any) {
-    console.error('Error getting onramp status:', error);
-    
-    const response: ApiResponse<never> = {
-      success: false,
-      error: {
-        code: 'STATUS_FETCH_FAILED',
-        message: 'Failed to fetch onramp status'
-      },
+    if (!payment) {
+      const response: ApiResponse<never> = {
+        success: false,
+        error: {
+          code: 'PAYMENT_NOT_FOUND',
+          message: 'Payment not found'
+        },
+        timestamp: new Date().toISOString()
+      };
+      return res.status(404).json(response);
+    }
+
+    const decisions = await providerRoutingService.getDecisionsForPayment(paymentId);
+
+    const response: ApiResponse<RoutingDecision[]> = {
+      success: true,
+      data: decisions,
+      timestamp: new Date().toISOString()
+    };
+
+    res.json(response);
+  } catch (error: any) {
+    console.error('Error getting payment routing decisions:', error);
+
+    const response: ApiResponse<never> = {
+      success: false,
+      error: {
+        code: 'ROUTING_DECISIONS_FETCH_FAILED',
+        message: 'Failed to fetch routing decisions'
+      },
+      timestamp: new Date().toISOString()
+    };
+
+    res.status(500).json(response);
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/payments/{paymentId}/events:
+ *   get:
+ *     summary: Stream live updates for a payment
+ *     description: |
+ *       A text/event-stream of the payment's `payment.status_changed` and `transaction.updated` events. The stream replays the payment's history first, or only what came after `Last-Event-ID` when reconnecting, then stays open for new events.
+ *     tags: [Payments]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: paymentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: header
+ *         name: Last-Event-ID
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: last_event_id
+ *         description: Alternative to the Last-Event-ID header
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Event stream
+ *         content:
+ *           text/event-stream:
+ *             schema:
+ *               type: string
+ *       400:
+ *         description: Malformed Last-Event-ID
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *       404:
+ *         description: Payment not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ */
+router.get('/:paymentId/events', canRead, async (req: AuthenticatedRequest, res: Response) => {
+  const lastEventId = getLastEventId(req);
+  if (lastEventId === null) {
+    return invalidLastEventId(res);
+  }
+
+  try {
+    const { paymentId } = req.params;
+    const payment = await getOwnedPayment(req, paymentId);
+
+    if (!payment) {
+      const response: ApiResponse<never> = {
+        success: false,
+        error: {
+          code: 'PAYMENT_NOT_FOUND',
+          message: 'Payment not found'
+        },
+        timestamp: new Date().toISOString()
+      };
+      return res.status(404).json(response);
+    }
+
+    await streamEvents(req, res, { payment_id: paymentId }, lastEventId ?? 0);
+  } catch (error: any) {
+    console.error('Error streaming payment events:', error);
+
+    if (res.headersSent) {
+      return res.end();
+    }
+
+    const response: ApiResponse<never> = {
+      success: false,
+      error: {
+        code: 'EVENT_STREAM_FAILED',
+        message: 'Failed to stream payment events'
+      },
+      timestamp: new Date().toISOString()
+    };
+
+    res.status(500).json(response);
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/payments/{paymentId}/cancel:
+ *   post:
+ *     summary: Cancel a payment
+ *     description: Cancels a payment that has not started paying out. Collection that has not settled is cancelled with the provider; funds already collected can then be refunded.
+ *     tags: [Payments]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: paymentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Payment cancelled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/PaymentResponse'
+ *       401:
+ *         description: Authentication required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *       404:
+ *         description: Payment not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *       409:
+ *         description: Payment can no longer be cancelled (INVALID_STATE_TRANSITION)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ */
+router.post('/:paymentId/cancel', canWrite, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { paymentId } = req.params;
+    const payment = await getOwnedPayment(req, paymentId);
+
+    if (!payment) {
+      const response: ApiResponse<never> = {
+        success: false,
+        error: {
+          code: 'PAYMENT_NOT_FOUND',
+          message: 'Payment not found'
+        },
+        timestamp: new Date().toISOString()
+      };
+      return res.status(404).json(response);
+    }
+
+    await paymentOrchestrator.cancelPayment(paymentId);
+    const cancelled = await paymentOrchestrator.getPaymentById(paymentId);
+
+    const response: ApiResponse<PaymentResponse> = {
+      success: true,
+      data: paymentOrchestrator['paymentToResponse'](cancelled!),
+      timestamp: new Date().toISOString()
+    };
+
+    res.json(response);
+  } catch (error: any) {
+    console.error('Error cancelling payment:', error);
+
+    const response: ApiResponse<never> = {
+      success: false,
+      error: {
+        code: error.code || 'PAYMENT_CANCELLATION_FAILED',
+        message: error.message || 'Failed to cancel payment',
+        details: error.details
+      },
+      timestamp: new Date().toISOString()
+    };
+
+    res.status(error.status || 500).json(response);
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/payments/{paymentId}/refunds:
+ *   post:
+ *     summary: Refund a failed or cancelled payment
+ *     description: Returns collected funds to the payer through the onramp provider that collected them. Omit amount for a full refund of what is still refundable; refunds are capped at the collected amount minus refunds that have not failed.
+ *     tags: [Payments]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
+ *       - in: path
+ *         name: paymentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CreateRefundRequest'
+ *     responses:
+ *       201:
+ *         description: Refund created and sent to the provider
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/RefundResponse'
+ *       400:
+ *         description: Invalid amount, or more than is refundable (REFUND_AMOUNT_EXCEEDS_REFUNDABLE)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *       404:
+ *         description: Payment not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *       409:
+ *         description: Payment is not refundable (PAYMENT_NOT_REFUNDABLE) or already fully refunded (PAYMENT_FULLY_REFUNDED)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ */
+router.post(
+  '/:paymentId/refunds',
+  canWrite,
+  validateIdempotencyKey,
+  validateCreateRefund,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { paymentId } = req.params;
+
+      if (!await getOwnedPayment(req, paymentId)) {
+        const response: ApiResponse<never> = {
+          success: false,
+          error: {
+            code: 'PAYMENT_NOT_FOUND',
+            message: 'Payment not found'
+          },
+          timestamp: new Date().toISOString()
+        };
+        return res.status(404).json(response);
+      }
+
+      const refund = await refundService.createRefund(paymentId, {
+        ...req.body,
+        idempotency_key: req.headers['idempotency-key'] as string
+      });
+
+      const response: ApiResponse<RefundResponse> = {
+        success: true,
+        data: refund,
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(201).json(response);
+    } catch (error: any) {
+      console.error('Error creating refund:', error);
+
+      const response: ApiResponse<never> = {
+        success: false,
+        error: {
+          code: error.code || 'REFUND_CREATION_FAILED',
+          message: error.message || 'Failed to create refund',
+          details: error.details
+        },
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(error.status || 400).json(response);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/payments/{paymentId}/refunds:
+ *   get:
+ *     summary: List refunds for a payment
+ *     tags: [Payments]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: paymentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Refunds, oldest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/RefundResponse'
+ *       404:
+ *         description: Payment not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ */
+router.get('/:paymentId/refunds', canRead, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { paymentId } = req.params;
+    const payment = await getOwnedPayment(req, paymentId);
+
+    if (!payment) {
+      const response: ApiResponse<never> = {
+        success: false,
+        error: {
+          code: 'PAYMENT_NOT_FOUND',
+          message: 'Payment not found'
+        },
+        timestamp: new Date().toISOString()
+      };
+      return res.status(404).json(response);
+    }
+
+    const refunds = await refundService.getPaymentRefunds(paymentId);
+
+    const response: ApiResponse<RefundResponse[]> = {
+      success: true,
+      data: refunds.map(refund => refundService.refundToResponse(refund)),
+      timestamp: new Date().toISOString()
+    };
+
+    res.json(response);
+  } catch (error: any) {
+    console.error('Error listing refunds:', error);
+
+    const response: ApiResponse<never> = {
+      success: false,
+      error: {
+        code: 'REFUND_FETCH_FAILED',
+        message: 'Failed to fetch refunds'
+      },
+      timestamp: new Date().toISOString()
+    };
+
+    res.status(500).json(response);
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/payments/estimate-fees:
+ *   post:
+ *     summary: Estimate fees for a payment
+ *     tags: [Payments]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/EstimateFeesRequest'
+ *     responses:
+ *       200:
+ *         description: Fee estimate
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         source_amount:
+ *                           type: string
+ *                           example: "100.00"
+ *                         source_currency:
+ *                           type: string
+ *                           example: "USD"
+ *                         destination_amount:
+ *                           type: string
+ *                           example: "84.53"
+ *                         destination_currency:
+ *                           type: string
+ *                           example: "EUR"
+ *                         exchange_rate:
+ *                           type: string
+ *                           description: Customer rate, the mid-market rate less the spread
+ *                           example: "0.84531"
+ *                         mid_exchange_rate:
+ *                           type: string
+ *                           example: "0.84573"
+ *                         spread_bps:
+ *                           type: integer
+ *                           example: 5
+ *                         spread_amount:
+ *                           type: string
+ *                           description: FX spread in the source currency, not included in fee_amount
+ *                           example: "0.05"
+ *                         fee_breakdown:
+ *                           type: object
+ *                           description: Fee components in the destination currency
+ *                         fee_amount:
+ *                           type: string
+ *                           description: Total fee charged in the source currency
+ *                           example: "5.94"
+ *                         total_cost:
+ *                           type: string
+ *                           description: source_amount + fee_amount
+ *                           example: "105.94"
+ *       400:
+ *         description: Bad request
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ */
+router.post('/estimate-fees', canRead, validateEstimateFees, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { source_amount, source_currency, destination_currency } = req.body;
+    const estimate = await paymentOrchestrator.getFeeEstimate(source_amount, source_currency, destination_currency, {
+      user_id: getPrincipalId(req),
+      api_key_id: req.apiKey?.id
+    });
+    
+    const response: ApiResponse<any> = {
+      success: true,
+      data: estimate,
       timestamp: new Date().toISOString()
     };
 
-    res.status(500).json(response);
+    res.json(response);
+  } catch (error: any) {
+    console.error('Error estimating fees:', error);
+    
+    const response: ApiResponse<never> = {
+      success: false,
+      error: {
+        code: error.code || 'FEE_ESTIMATION_FAILED',
+        message: error.message || 'Failed to estimate fees'
+      },
+      timestamp: new Date().toISOString()
+    };
+
+    res.status(400).json(response);
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/payments/onramp/status:
+ *   get:
+ *     summary: Get onramp provider status and statistics
+ *     description: |
+ *       Computed from onramp transactions created within the window: volume of completed transactions per currency,
+ *       success rate over settled transactions and p50/p95 completion time, overall and per provider. Each provider's
+ *       status comes from the outcomes of the last few minutes.
+ *     tags: [Onramp]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/ProviderStatsWindow'
+ *     responses:
+ *       200:
+ *         description: Onramp status and statistics
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/ProviderStatusReport'
+ *       400:
+ *         description: Invalid window
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ */
+router.get('/onramp/status', canRead, validateProviderStatus, async (req: Request, res: Response) => {
+  try {
+    const status = await providerStatsService.getStatusReport(
+      ProviderDirection.ONRAMP,
+      onrampService.getProviders(),
+      req.query.window as string | undefined
+    );
+
+    const response: ApiResponse<ProviderStatusReport> = {
+      success: true,
+      data: status,
+      timestamp: new Date().toISOString()
+    };
+
+    res.json(response);
+  } catch (error: any) {
+    console.error('Error getting onramp status:', error);
+    
+    const response: ApiResponse<never> = {
+      success: false,
+      error: {
+        code: error.code || 'STATUS_FETCH_FAILED',
+        message: error.message || 'Failed to fetch onramp status'
+      },
+      timestamp: new Date().toISOString()
+    };
+
+    res.status(error.status || 500).json(response);
   }
 });
 
@@ -1022,8 +1943,15 @@ router.get('/onramp/status', async (req: Request, res: Response) => {
  * @swagger
  * /api/v1/payments/offramp/status:
  *   get:
- *     summary: Get offramp processing status and statistics
+ *     summary: Get offramp provider status and statistics
+ *     description: |
+ *       Computed from offramp transactions created within the window, in the same shape as the onramp status.
  *     tags: [Offramp]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/ProviderStatsWindow'
  *     responses:
  *       200:
  *         description: Offramp status and statistics
@@ -1035,18 +1963,13 @@ router.get('/onramp/status', async (req: Request, res: Response) => {
  *                 - type: object
  *                   properties:
  *                     data:
- *                       type: object
- *                       properties:
- *                         total_transactions:
- *                           type: number
- *                         success_rate:
- *                           type: number
- *                         average_processing_time:
- *                           type: string
- *                         active_providers:
- *                           type: number
- *                         recent_activity:
- *                           type: array
+ *                       $ref: '#/components/schemas/ProviderStatusReport'
+ *       400:
+ *         description: Invalid window
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
  *       500:
  *         description: Server error
  *         content:
@@ -1054,23 +1977,15 @@ router.get('/onramp/status', async (req: Request, res: Response) => {
  *             schema:
  *               $ref: '#/components/schemas/ApiResponse'
  */
-router.get('/offramp/status', async (req: Request, res: Response) => {
+router.get('/offramp/status', canRead, validateProviderStatus, async (req: Request, res: Response) => {
   try {
-    const status = {
-      total_transactions: 12850,
-      success_rate: 0.978,
-      average_processing_time: '1.2 business days',
-      active_providers: 6,
-      recent_activity: [
-        { provider: 'local_bank_network', transactions: 890, success_rate: 0.99 },
-        { provider: 'swift_wire', transactions: 450, success_rate: 0.98 },
-        { provider: 'digital_wallet', transactions: 320, success_rate: 0.97 }
-      ],
-      system_status: 'operational',
-      last_updated: new Date().toISOString()
-    };
-    
-    const response: ApiResponse<any> = {
+    const status = await providerStatsService.getStatusReport(
+      ProviderDirection.OFFRAMP,
+      offrampService.getProviders(),
+      req.query.window as string | undefined
+    );
+
+    const response: ApiResponse<ProviderStatusReport> = {
       success: true,
       data: status,
       timestamp: new Date().toISOString()
@@ -1083,13 +1998,13 @@ router.get('/offramp/status', async (req: Request, res: Response) => {
     const response: ApiResponse<never> = {
       success: false,
       error: {
-        code: 'STATUS_FETCH_FAILED',
-        message: 'Failed to fetch offramp status'
+        code: error.code || 'STATUS_FETCH_FAILED',
+        message: error.message || 'Failed to fetch offramp status'
       },
       timestamp: new Date().toISOString()
     };
 
-    res.status(500).json(response);
+    res.status(error.status || 500).json(response);
   }
 });
 
@@ -1098,7 +2013,14 @@ router.get('/offramp/status', async (req: Request, res: Response) => {
  * /api/v1/payments/onramp/compare:
  *   post:
  *     summary: Compare onramp providers for a specific payment
+ *     description: |
+ *       Quotes every onramp provider whose currency, payment methods and limits allow the amount, using its
+ *       configured fees, and scores them the way payments are routed. Providers that cannot take the amount are
+ *       listed under excluded with the reason.
  *     tags: [Onramp]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
  *     requestBody:
  *       required: true
  *       content:
@@ -1108,14 +2030,17 @@ router.get('/offramp/status', async (req: Request, res: Response) => {
  *             required: [amount, currency]
  *             properties:
  *               amount:
- *                 type: number
- *                 example: 1000
+ *                 oneOf: [{ type: number }, { type: string }]
+ *                 example: "1000.00"
  *               currency:
  *                 type: string
  *                 example: "USD"
  *               payment_method:
  *                 type: string
  *                 example: "card"
+ *               routing_preference:
+ *                 type: string
+ *                 enum: [balanced, cheapest, fastest, most_reliable]
  *     responses:
  *       200:
  *         description: Provider comparison
@@ -1127,12 +2052,7 @@ router.get('/offramp/status', async (req: Request, res: Response) => {
  *                 - type: object
  *                   properties:
  *                     data:
- *                       type: object
- *                       properties:
- *                         comparison:
- *                           type: array
- *                         recommendation:
- *                           type: object
+ *                       $ref: '#/components/schemas/ProviderComparison'
  *       400:
  *         description: Bad request
  *         content:
@@ -1140,73 +2060,94 @@ router.get('/offramp/status', async (req: Request, res: Response) => {
  *             schema:
  *               $ref: '#/components/schemas/ApiResponse'
  */
-router.post('/onramp/compare', async (req: Request, res: Response) => {
+router.post('/onramp/compare', canRead, validateCompareProviders, async (req: Request, res: Response) => {
   try {
-    const { amount, currency, payment_method } = req.body;
+    const { amount, currency, payment_method, routing_preference } = req.body;
+
+    const comparison = await onrampService.compareProviders(
+      Money.fromMajor(amount, currency),
+      payment_method,
+      routing_preference
+    );
     
-    if (!amount || !currency) {
-      const response: ApiResponse<never> = {
-        success: false,
-        error: {
-          code: 'MISSING_PARAMETERS',
-          message: 'Amount and currency are required'
-        },
-        timestamp: new Date().toISOString()
-      };
-      return res.status(400).json(response);
-    }
+    const response: ApiResponse<ProviderComparison> = {
+      success: true,
+      data: comparison,
+      timestamp: new Date().toISOString()
+    };
+
+    res.json(response);
+  } catch (error: any) {
+    console.error('Error comparing onramp providers:', error);
     
-    const providers = [
-      {
-        provider: 'stripe',
-        name: 'Stripe',
-        total_cost: amount + (amount * 0.029) + 0.30,
-        processing_time: '5 minutes',
-        success_rate: 0.98,
-        features: ['instant_verification', 'fraud_protection'],
-        recommendation_score: 0.95
-      },
-      {
-        provider: 'circle',
-        name: 'Circle',
-        total_cost: amount + (amount * 0.005),
-        processing_time: '30 minutes',
-        success_rate: 0.99,
-        features: ['stablecoin_support', 'bank_integration'],
-        recommendation_score: 0.92
+    const response: ApiResponse<never> = {
+      success: false,
+      error: {
+        code: error.code || 'COMPARISON_FAILED',
+        message: error.message || 'Failed to compare onramp providers'
       },
-      {
-        provider: 'paypal',
-        name: 'PayPal',
-        total_cost: amount + (amount * 0.025) + 0.30,
-        processing_time: '10 minutes',
-        success_rate: 0.97,
-        features: ['instant_transfer', 'buyer_protection'],
-        recommendation_score: 0.88
-      }
-    ];
-    
-    // Filter by payment method if specified
-    let filteredProviders = providers;
-    if (payment_method) {
-      // This would be more sophisticated in a real implementation
-      filteredProviders = providers.filter(p => p.provider !== 'circle'); // Example filter
-    }
-    
-    // Sort by recommendation score
-    filteredProviders.sort((a, b) => b.recommendation_score - a.recommendation_score);
-    
-    const comparison = {
-      comparison: filteredProviders,
-      recommendation: filteredProviders[0],
-      criteria: {
-        amount,
-        currency,
-        payment_method: payment_method || 'any'
-      }
+      timestamp: new Date().toISOString()
     };
+
+    res.status(error.status || 500).json(response);
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/payments/offramp/compare:
+ *   post:
+ *     summary: Compare offramp providers for a specific payout
+ *     description: |
+ *       Quotes every offramp provider that pays out in the currency within its limits, using its configured fees,
+ *       and scores them the way payments are routed. The amount is the payout in the destination currency.
+ *     tags: [Offramp]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [amount, currency]
+ *             properties:
+ *               amount:
+ *                 oneOf: [{ type: number }, { type: string }]
+ *                 example: "850.00"
+ *               currency:
+ *                 type: string
+ *                 example: "EUR"
+ *               routing_preference:
+ *                 type: string
+ *                 enum: [balanced, cheapest, fastest, most_reliable]
+ *     responses:
+ *       200:
+ *         description: Provider comparison
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/ProviderComparison'
+ *       400:
+ *         description: Bad request
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ */
+router.post('/offramp/compare', canRead, validateCompareProviders, async (req: Request, res: Response) => {
+  try {
+    const { amount, currency, routing_preference } = req.body;
+
+    const comparison = await offrampService.compareProviders(Money.fromMajor(amount, currency), routing_preference);
     
-    const response: ApiResponse<any> = {
+    const response: ApiResponse<ProviderComparison> = {
       success: true,
       data: comparison,
       timestamp: new Date().toISOString()
@@ -1214,18 +2155,18 @@ router.post('/onramp/compare', async (req: Request, res: Response) => {
 
     res.json(response);
   } catch (error: any) {
-    console.error('Error comparing onramp providers:', error);
+    console.error('Error comparing offramp providers:', error);
     
     const response: ApiResponse<never> = {
       success: false,
       error: {
-        code: 'COMPARISON_FAILED',
-        message: 'Failed to compare onramp providers'
+        code: error.code || 'COMPARISON_FAILED',
+        message: error.message || 'Failed to compare offramp providers'
       },
       timestamp: new Date().toISOString()
     };
 
-    res.status(500).json(response);
+    res.status(error.status || 500).json(response);
   }
 });
 
@@ -1235,6 +2176,9 @@ router.post('/onramp/compare', async (req: Request, res: Response) => {
  *   post:
  *     summary: Create a new onramp transaction (fiat to stablecoin)
  *     tags: [Onramp]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
  *     parameters:
  *       - $ref: '#/components/parameters/IdempotencyKey'
  *     requestBody:
@@ -1243,11 +2187,11 @@ router.post('/onramp/compare', async (req: Request, res: Response) => {
  *         application/json:
  *           schema:
  *             type: object
- *             required: [amount, source_currency, destination_currency, provider, user_id]
+ *             required: [amount, source_currency, destination_currency, provider]
  *             properties:
  *               amount:
- *                 type: number
- *                 example: 100
+ *                 oneOf: [{ type: number }, { type: string }]
+ *                 example: "100.00"
  *               source_currency:
  *                 type: string
  *                 example: "USD"
@@ -1257,9 +2201,6 @@ router.post('/onramp/compare', async (req: Request, res: Response) => {
  *               provider:
  *                 type: string
  *                 example: "stripe"
- *               user_id:
- *                 type: string
- *                 example: "user_123"
  *     responses:
  *       201:
  *         description: Onramp transaction created successfully
@@ -1278,7 +2219,7 @@ router.post('/onramp/compare', async (req: Request, res: Response) => {
  *                         status:
  *                           type: string
  *                         amount:
- *                           type: number
+ *                           type: string
  *                         currency:
  *                           type: string
  *                         provider:
@@ -1296,16 +2237,17 @@ router.post('/onramp/compare', async (req: Request, res: Response) => {
  *             schema:
  *               $ref: '#/components/schemas/ApiResponse'
  */
-router.post('/onramp/transactions', validateIdempotencyKey, async (req: Request, res: Response) => {
+router.post('/onramp/transactions', canWrite, validateIdempotencyKey, async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const { amount, source_currency, destination_currency, provider, user_id } = req.body;
+    const { amount, source_currency, destination_currency, provider } = req.body;
+    const user_id = getPrincipalId(req);
     
-    if (!amount || !source_currency || !destination_currency || !provider || !user_id) {
+    if (!amount || !source_currency || !destination_currency || !provider) {
       const response: ApiResponse<never> = {
         success: false,
         error: {
           code: 'MISSING_PARAMETERS',
-          message: 'Amount, source_currency, destination_currency, provider, and user_id are required'
+          message: 'Amount, source_currency, destination_currency and provider are required'
         },
         timestamp: new Date().toISOString()
       };
@@ -1360,6 +2302,9 @@ router.post('/onramp/transactions', validateIdempotencyKey, async (req: Request,
  *   get:
  *     summary: Get onramp transaction status
  *     tags: [Onramp]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
  *     parameters:
  *       - in: path
  *         name: transactionId
@@ -1385,7 +2330,7 @@ router.post('/onramp/transactions', validateIdempotencyKey, async (req: Request,
  *                         status:
  *                           type: string
  *                         amount:
- *                           type: number
+ *                           type: string
  *                         currency:
  *                           type: string
  *                         provider:
@@ -1403,9 +2348,21 @@ router.post('/onramp/transactions', validateIdempotencyKey, async (req: Request,
  *             schema:
  *               $ref: '#/components/schemas/ApiResponse'
  */
-router.get('/onramp/transactions/:transactionId', async (req: Request, res: Response) => {
+router.get('/onramp/transactions/:transactionId', canRead, async (req: AuthenticatedRequest, res: Response) => {
   try {
     const { transactionId } = req.params;
+
+    if (!await getOwnedTransaction(req, transactionId)) {
+      const response: ApiResponse<never> = {
+        success: false,
+        error: {
+          code: 'TRANSACTION_NOT_FOUND',
+          message: 'Transaction not found'
+        },
+        timestamp: new Date().toISOString()
+      };
+      return res.status(404).json(response);
+    }
     
     const transaction = await onrampService.getTransactionStatus(transactionId);
     
@@ -1447,6 +2404,9 @@ router.get('/onramp/transactions/:transactionId', async (req: Request, res: Resp
  *   post:
  *     summary: Create a new offramp transaction (stablecoin to fiat)
  *     tags: [Offramp]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
  *     parameters:
  *       - $ref: '#/components/parameters/IdempotencyKey'
  *     requestBody:
@@ -1455,11 +2415,11 @@ router.get('/onramp/transactions/:transactionId', async (req: Request, res: Resp
  *         application/json:
  *           schema:
  *             type: object
- *             required: [amount, source_currency, destination_currency, provider, user_id]
+ *             required: [amount, source_currency, destination_currency, provider]
  *             properties:
  *               amount:
- *                 type: number
- *                 example: 100
+ *                 oneOf: [{ type: number }, { type: string }]
+ *                 example: "100.00"
  *               source_currency:
  *                 type: string
  *                 example: "USDC"
@@ -1469,9 +2429,6 @@ router.get('/onramp/transactions/:transactionId', async (req: Request, res: Resp
  *               provider:
  *                 type: string
  *                 example: "local_bank_network"
- *               user_id:
- *                 type: string
- *                 example: "user_123"
  *     responses:
  *       201:
  *         description: Offramp transaction created successfully
@@ -1490,7 +2447,7 @@ router.get('/onramp/transactions/:transactionId', async (req: Request, res: Resp
  *                         status:
  *                           type: string
  *                         amount:
- *                           type: number
+ *                           type: string
  *                         currency:
  *                           type: string
  *                         provider:
@@ -1508,16 +2465,17 @@ router.get('/onramp/transactions/:transactionId', async (req: Request, res: Resp
  *             schema:
  *               $ref: '#/components/schemas/ApiResponse'
  */
-router.post('/offramp/transactions', validateIdempotencyKey, async (req: Request, res: Response) => {
+router.post('/offramp/transactions', canWrite, validateIdempotencyKey, async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const { amount, source_currency, destination_currency, provider, user_id } = req.body;
+    const { amount, source_currency, destination_currency, provider } = req.body;
+    const user_id = getPrincipalId(req);
     
-    if (!amount || !source_currency || !destination_currency || !provider || !user_id) {
+    if (!amount || !source_currency || !destination_currency || !provider) {
       const response: ApiResponse<never> = {
         success: false,
         error: {
           code: 'MISSING_PARAMETERS',
-          message: 'Amount, source_currency, destination_currency, provider, and user_id are required'
+          message: 'Amount, source_currency, destination_currency and provider are required'
         },
         timestamp: new Date().toISOString()
       };
@@ -1572,6 +2530,9 @@ router.post('/offramp/transactions', validateIdempotencyKey, async (req: Request
  *   get:
  *     summary: Get offramp transaction status
  *     tags: [Offramp]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
  *     parameters:
  *       - in: path
  *         name: transactionId
@@ -1597,7 +2558,7 @@ router.post('/offramp/transactions', validateIdempotencyKey, async (req: Request
  *                         status:
  *                           type: string
  *                         amount:
- *                           type: number
+ *                           type: string
  *                         currency:
  *                           type: string
  *                         provider:
@@ -1615,9 +2576,21 @@ router.post('/offramp/transactions', validateIdempotencyKey, async (req: Request
  *             schema:
  *               $ref: '#/components/schemas/ApiResponse'
  */
-router.get('/offramp/transactions/:transactionId', async (req: Request, res: Response) => {
+router.get('/offramp/transactions/:transactionId', canRead, async (req: AuthenticatedRequest, res: Response) => {
   try {
     const { transactionId } = req.params;
+
+    if (!await getOwnedTransaction(req, transactionId)) {
+      const response: ApiResponse<never> = {
+        success: false,
+        error: {
+          code: 'TRANSACTION_NOT_FOUND',
+          message: 'Transaction not found'
+        },
+        timestamp: new Date().toISOString()
+      };
+      return res.status(404).json(response);
+    }
     
     const transaction = await offrampService.getTransactionStatus(transactionId);
     
@@ -0,0 +1,109 @@
+import express, { Router, Request, Response } from 'express';
+import { ProviderCallbackService, ProviderCallbackResult } from '../services/providerCallbackService.js';
+import { ApiResponse } from '../types/payment.js';
+
+const router = Router();
+const providerCallbackService = new ProviderCallbackService();
+
+// Signatures cover the body exactly as sent, so it is read raw rather than parsed
+router.use(express.raw({ type: '*/*', limit: '1mb' }));
+
+/**
+ * @swagger
+ * /api/v1/provider-callbacks/{provider}:
+ *   post:
+ *     summary: Receive a provider status callback
+ *     description: |
+ *       Called by onramp and offramp providers when a transaction changes status. The callback is verified with
+ *       the provider's signature scheme: a Stripe-style `Stripe-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<raw body>">`
+ *       header, or a Circle-style `X-Circle-Signature` header carrying the base64 HMAC-SHA256 of the raw body.
+ *       Events are processed once per provider event id; repeats return 200 with duplicate set. A completed or
+ *       failed status settles the transaction and moves on the payment or refund waiting on it.
+ *     tags: [Provider Callbacks]
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: stripe
+ *       - in: header
+ *         name: Stripe-Signature
+ *         schema:
+ *           type: string
+ *         description: Signature for providers using the stripe scheme
+ *       - in: header
+ *         name: X-Circle-Signature
+ *         schema:
+ *           type: string
+ *         description: Signature for providers using the circle scheme
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [id, external_reference, status]
+ *             properties:
+ *               id:
+ *                 type: string
+ *                 description: Provider event id
+ *               external_reference:
+ *                 type: string
+ *                 description: Provider's reference for the transaction
+ *               status:
+ *                 type: string
+ *                 enum: [processing, completed, failed]
+ *               occurred_at:
+ *                 type: string
+ *                 format: date-time
+ *     responses:
+ *       200:
+ *         description: Callback processed, or ignored as a duplicate
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/ProviderCallbackResult'
+ *       400:
+ *         description: Malformed callback body
+ *       401:
+ *         description: Missing or invalid signature
+ *       404:
+ *         description: Unknown provider or transaction reference
+ */
+router.post('/:provider', async (req: Request, res: Response) => {
+  try {
+    const rawBody = Buffer.isBuffer(req.body) ? req.body.toString('utf8') : '';
+
+    const result = await providerCallbackService.handleCallback(req.params.provider, rawBody, req.headers);
+
+    const response: ApiResponse<ProviderCallbackResult> = {
+      success: true,
+      data: result,
+      timestamp: new Date().toISOString()
+    };
+
+    res.json(response);
+  } catch (error: any) {
+    console.error(`Error processing ${req.params.provider} callback:`, error);
+
+    const response: ApiResponse<never> = {
+      success: false,
+      error: {
+        code: error.code || 'PROVIDER_CALLBACK_FAILED',
+        message: error.message || 'Failed to process provider callback',
+        details: error.details
+      },
+      timestamp: new Date().toISOString()
+    };
+
+    res.status(error.status || 500).json(response);
+  }
+});
+
+export default router;
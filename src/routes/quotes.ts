@@ -0,0 +1,172 @@
+import { Router, Response } from 'express';
+import { QuoteService } from '../services/quoteService.js';
+import { validateCreateQuote } from '../middleware/validation.js';
+import { ApiResponse, QuoteResponse } from '../types/payment.js';
+import {
+  AuthenticatedRequest,
+  optionalAuthOrApiKey,
+  requireAuthOrApiKey,
+  getPrincipalId,
+  getOwnerScope
+} from '../middleware/auth.js';
+import { auditService } from '../middleware/audit.js';
+
+const router = Router();
+const quoteService = new QuoteService();
+
+/**
+ * @swagger
+ * /api/v1/quotes:
+ *   post:
+ *     summary: Create a locked FX quote
+ *     description: Prices a transfer at the current rate and locks the rate, fees and destination amount until expires_at. Pass the quote id as quote_id when creating a payment to execute it at exactly these terms. Authentication is optional; authenticated quotes are priced with the caller's FX spread (see exchange_rate and mid_exchange_rate) and can only be executed by the caller.
+ *     tags: [Quotes]
+ *     security:
+ *       - {}
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CreateQuoteRequest'
+ *     responses:
+ *       201:
+ *         description: Quote created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/QuoteResponse'
+ *       400:
+ *         description: Bad request
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ */
+router.post('/', optionalAuthOrApiKey, validateCreateQuote, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const quote = await quoteService.createQuote({
+      ...req.body,
+      user_id: getPrincipalId(req) ?? req.body.user_id,
+      api_key_id: req.apiKey?.id
+    });
+
+    const response: ApiResponse<QuoteResponse> = {
+      success: true,
+      data: quote,
+      timestamp: new Date().toISOString()
+    };
+
+    res.status(201).json(response);
+  } catch (error: any) {
+    console.error('Error creating quote:', error);
+
+    const response: ApiResponse<never> = {
+      success: false,
+      error: {
+        code: error.code || 'QUOTE_CREATION_FAILED',
+        message: error.message || 'Failed to create quote'
+      },
+      timestamp: new Date().toISOString()
+    };
+
+    res.status(error.status || 400).json(response);
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/quotes/{quoteId}:
+ *   get:
+ *     summary: Get a quote
+ *     description: Quotes can be read by the user or API key they were priced for, and by admins. Other quotes are reported as not found.
+ *     tags: [Quotes]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: quoteId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Quote details
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/QuoteResponse'
+ *       401:
+ *         description: Unauthorized - Missing or invalid authentication
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *       404:
+ *         description: Quote not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ */
+router.get('/:quoteId', requireAuthOrApiKey, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { quoteId } = req.params;
+    let quote = await quoteService.getQuoteById(quoteId);
+
+    // Other customers' quotes are reported as missing, and the attempt recorded
+    if (quote && !quoteService.isQuoteVisibleTo(quote, getOwnerScope(req))) {
+      await auditService.logPermissionDenied(req, 'quote', quoteId);
+      quote = undefined;
+    }
+
+    if (!quote) {
+      const response: ApiResponse<never> = {
+        success: false,
+        error: {
+          code: 'QUOTE_NOT_FOUND',
+          message: 'Quote not found'
+        },
+        timestamp: new Date().toISOString()
+      };
+      return res.status(404).json(response);
+    }
+
+    const response: ApiResponse<QuoteResponse> = {
+      success: true,
+      data: quoteService.quoteToResponse(quote),
+      timestamp: new Date().toISOString()
+    };
+
+    res.json(response);
+  } catch (error: any) {
+    console.error('Error fetching quote:', error);
+
+    const response: ApiResponse<never> = {
+      success: false,
+      error: {
+        code: 'QUOTE_FETCH_FAILED',
+        message: 'Failed to fetch quote'
+      },
+      timestamp: new Date().toISOString()
+    };
+
+    res.status(500).json(response);
+  }
+});
+
+export default router;
@@ -0,0 +1,98 @@
+import { Router, Response } from 'express';
+import { RateHistoryService } from '../services/rateHistoryService.js';
+import { ApiResponse, RateHistoryResponse } from '../types/payment.js';
+import { validateRateHistory } from '../middleware/validation.js';
+import { AuthenticatedRequest, requireAuthOrApiKey, requirePermission } from '../middleware/auth.js';
+
+const router = Router();
+const rateHistoryService = new RateHistoryService();
+
+// Every rate route needs a user token or API key
+router.use(requireAuthOrApiKey);
+
+/**
+ * @swagger
+ * /api/v1/rates/{pair}/history:
+ *   get:
+ *     summary: Exchange rate history
+ *     description: OHLC candles of the selected exchange rate for a currency pair. Raw observations are kept for 7 days by default, hourly candles for 90 days and daily candles for 2 years, so intervals under an hour only reach back 7 days. Buckets without observations are left out. At most 1000 candles are returned.
+ *     tags: [Rates]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: pair
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: USD-EUR
+ *         description: Source and destination currency, as USD-EUR, USD_EUR or USDEUR
+ *       - in: query
+ *         name: interval
+ *         schema:
+ *           type: string
+ *           enum: [1m, 5m, 15m, 1h, 4h, 1d]
+ *           default: 1h
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Start of the range (default 100 intervals before to)
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: End of the range (default now)
+ *     responses:
+ *       200:
+ *         description: Candles, oldest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/RateHistory'
+ *       400:
+ *         description: Invalid pair, interval or range
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ */
+router.get('/:pair/history', requirePermission('payments:read'), validateRateHistory, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const query = req.query as Record<string, string | undefined>;
+
+    const history = await rateHistoryService.getHistory(req.params.pair, query.interval, query.from, query.to);
+
+    const response: ApiResponse<RateHistoryResponse> = {
+      success: true,
+      data: history,
+      timestamp: new Date().toISOString()
+    };
+
+    res.json(response);
+  } catch (error: any) {
+    console.error('Error getting rate history:', error);
+
+    const response: ApiResponse<never> = {
+      success: false,
+      error: {
+        code: error.code || 'RATE_HISTORY_FETCH_FAILED',
+        message: error.message || 'Failed to fetch rate history',
+        details: error.details
+      },
+      timestamp: new Date().toISOString()
+    };
+
+    res.status(error.status || 500).json(response);
+  }
+});
+
+export default router;
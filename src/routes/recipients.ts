@@ -0,0 +1,366 @@
+import { Router, Response } from 'express';
+import { RecipientService } from '../services/recipientService.js';
+import { ApiResponse, Recipient, RecipientResponse } from '../types/payment.js';
+import { validateCreateRecipient, validateUpdateRecipient } from '../middleware/validation.js';
+import {
+  AuthenticatedRequest,
+  requireAuthOrApiKey,
+  requirePermission,
+  getPrincipalId,
+  isAdmin
+} from '../middleware/auth.js';
+import { auditService } from '../middleware/audit.js';
+
+const router = Router();
+const recipientService = new RecipientService();
+
+// Every recipient route needs a user token or API key
+router.use(requireAuthOrApiKey);
+
+// Look up a live recipient for the caller; deleted ones and other tenants' are reported as missing
+const getOwnedRecipient = async (req: AuthenticatedRequest, recipientId: string): Promise<Recipient | undefined> => {
+  const recipient = await recipientService.getRecipientById(recipientId);
+  if (!recipient || recipient.deleted_at) {
+    return undefined;
+  }
+  if (!isAdmin(req) && recipient.owner_id !== getPrincipalId(req)) {
+    await auditService.logPermissionDenied(req, 'recipient', recipientId);
+    return undefined;
+  }
+  return recipient;
+};
+
+const recipientNotFound = (res: Response) => {
+  const response: ApiResponse<never> = {
+    success: false,
+    error: {
+      code: 'RECIPIENT_NOT_FOUND',
+      message: 'Recipient not found'
+    },
+    timestamp: new Date().toISOString()
+  };
+  return res.status(404).json(response);
+};
+
+/**
+ * @swagger
+ * /api/v1/recipients:
+ *   post:
+ *     summary: Save a recipient
+ *     description: Stores a payout beneficiary after checking its bank details against the country's requirements, including IBAN, ABA and CLABE checksums. Use its id as recipient_id when creating payments.
+ *     tags: [Recipients]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CreateRecipientRequest'
+ *     responses:
+ *       201:
+ *         description: Recipient saved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/Recipient'
+ *       400:
+ *         description: Invalid or incomplete bank details, or unsupported country
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ */
+router.post('/', requirePermission('payments:write'), validateCreateRecipient, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const recipient = await recipientService.createRecipient(getPrincipalId(req), req.body);
+
+    const response: ApiResponse<RecipientResponse> = {
+      success: true,
+      data: recipient,
+      timestamp: new Date().toISOString()
+    };
+
+    res.status(201).json(response);
+  } catch (error: any) {
+    console.error('Error creating recipient:', error);
+
+    const response: ApiResponse<never> = {
+      success: false,
+      error: {
+        code: error.code || 'RECIPIENT_CREATION_FAILED',
+        message: error.message || 'Failed to create recipient',
+        details: error.details
+      },
+      timestamp: new Date().toISOString()
+    };
+
+    res.status(error.status || 500).json(response);
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/recipients:
+ *   get:
+ *     summary: List recipients
+ *     description: Your saved recipients; admins see every recipient.
+ *     tags: [Recipients]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     responses:
+ *       200:
+ *         description: Recipients
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/Recipient'
+ */
+router.get('/', requirePermission('payments:read'), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const recipients = await recipientService.listRecipients(isAdmin(req) ? undefined : getPrincipalId(req));
+
+    const response: ApiResponse<RecipientResponse[]> = {
+      success: true,
+      data: recipients.map(recipient => recipientService.recipientToResponse(recipient)),
+      timestamp: new Date().toISOString()
+    };
+
+    res.json(response);
+  } catch (error: any) {
+    console.error('Error listing recipients:', error);
+
+    const response: ApiResponse<never> = {
+      success: false,
+      error: {
+        code: 'RECIPIENTS_FETCH_FAILED',
+        message: 'Failed to fetch recipients'
+      },
+      timestamp: new Date().toISOString()
+    };
+
+    res.status(500).json(response);
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/recipients/{recipientId}:
+ *   get:
+ *     summary: Get a recipient
+ *     tags: [Recipients]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: recipientId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Recipient
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/Recipient'
+ *       404:
+ *         description: Recipient not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ */
+router.get('/:recipientId', requirePermission('payments:read'), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const recipient = await getOwnedRecipient(req, req.params.recipientId);
+    if (!recipient) {
+      return recipientNotFound(res);
+    }
+
+    const response: ApiResponse<RecipientResponse> = {
+      success: true,
+      data: recipientService.recipientToResponse(recipient),
+      timestamp: new Date().toISOString()
+    };
+
+    res.json(response);
+  } catch (error: any) {
+    console.error('Error getting recipient:', error);
+
+    const response: ApiResponse<never> = {
+      success: false,
+      error: {
+        code: 'RECIPIENT_FETCH_FAILED',
+        message: 'Failed to fetch recipient'
+      },
+      timestamp: new Date().toISOString()
+    };
+
+    res.status(500).json(response);
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/recipients/{recipientId}:
+ *   patch:
+ *     summary: Update a recipient
+ *     description: Change the name, email or bank details. The country cannot change; the updated details are validated like a new recipient's. Send an empty string to clear an optional field.
+ *     tags: [Recipients]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: recipientId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/UpdateRecipientRequest'
+ *     responses:
+ *       200:
+ *         description: Recipient updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/Recipient'
+ *       400:
+ *         description: Invalid or incomplete bank details
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *       404:
+ *         description: Recipient not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ */
+router.patch('/:recipientId', requirePermission('payments:write'), validateUpdateRecipient, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { recipientId } = req.params;
+    if (!await getOwnedRecipient(req, recipientId)) {
+      return recipientNotFound(res);
+    }
+
+    const recipient = await recipientService.updateRecipient(recipientId, req.body);
+
+    const response: ApiResponse<RecipientResponse> = {
+      success: true,
+      data: recipient,
+      timestamp: new Date().toISOString()
+    };
+
+    res.json(response);
+  } catch (error: any) {
+    console.error('Error updating recipient:', error);
+
+    const response: ApiResponse<never> = {
+      success: false,
+      error: {
+        code: error.code || 'RECIPIENT_UPDATE_FAILED',
+        message: error.message || 'Failed to update recipient',
+        details: error.details
+      },
+      timestamp: new Date().toISOString()
+    };
+
+    res.status(error.status || 500).json(response);
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/recipients/{recipientId}:
+ *   delete:
+ *     summary: Delete a recipient
+ *     description: The recipient can no longer be used for new payments. Payments already made to it keep their recipient_id.
+ *     tags: [Recipients]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: recipientId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Recipient deleted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *       404:
+ *         description: Recipient not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ */
+router.delete('/:recipientId', requirePermission('payments:write'), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { recipientId } = req.params;
+    if (!await getOwnedRecipient(req, recipientId)) {
+      return recipientNotFound(res);
+    }
+
+    await recipientService.deleteRecipient(recipientId);
+
+    const response: ApiResponse<any> = {
+      success: true,
+      data: { id: recipientId, deleted: true },
+      timestamp: new Date().toISOString()
+    };
+
+    res.json(response);
+  } catch (error: any) {
+    console.error('Error deleting recipient:', error);
+
+    const response: ApiResponse<never> = {
+      success: false,
+      error: {
+        code: 'RECIPIENT_DELETE_FAILED',
+        message: 'Failed to delete recipient'
+      },
+      timestamp: new Date().toISOString()
+    };
+
+    res.status(500).json(response);
+  }
+});
+
+export default router;
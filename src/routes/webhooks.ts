@@ -1,12 +1,90 @@
 import { Router, Request, Response } from 'express';
 import { WebhookService } from '../services/webhookService.js';
-import { ApiResponse } from '../types/payment.js';
-import { validateTestWebhook } from '../middleware/validation.js';
+import { PaymentOrchestrator } from '../services/paymentOrchestrator.js';
+import { WebhookEndpointService } from '../services/webhookEndpointService.js';
+import {
+  ApiResponse,
+  Webhook,
+  WebhookEndpoint,
+  WebhookEndpointResponse,
+  WebhookListResponse,
+  WebhookStatus
+} from '../types/payment.js';
+import {
+  validateTestWebhook,
+  validateCreateWebhookEndpoint,
+  validateUpdateWebhookEndpoint,
+  validateRotateWebhookSecret,
+  validateListWebhooks,
+  validateRedeliverWebhook,
+  validateReplayWebhooks
+} from '../middleware/validation.js';
+import {
+  AuthenticatedRequest,
+  authService,
+  requireAuthOrApiKey,
+  requirePermission,
+  getOwnerScope,
+  getPrincipalId,
+  isAdmin,
+  UserRole
+} from '../middleware/auth.js';
+import { auditService } from '../middleware/audit.js';
 
 const router = Router();
 const webhookService = new WebhookService();
+const paymentOrchestrator = new PaymentOrchestrator();
+const webhookEndpointService = new WebhookEndpointService();
 
+// Every webhook route needs a user token or API key
+router.use(requireAuthOrApiKey);
 
+// Look up an endpoint for the caller; other tenants' endpoints are reported as missing
+const getOwnedEndpoint = async (req: AuthenticatedRequest, endpointId: string): Promise<WebhookEndpoint | undefined> => {
+  const endpoint = await webhookEndpointService.getEndpointById(endpointId);
+  if (endpoint && !isAdmin(req) && endpoint.owner_id !== getPrincipalId(req)) {
+    await auditService.logPermissionDenied(req, 'webhook_endpoint', endpointId);
+    return undefined;
+  }
+  return endpoint;
+};
+
+// A webhook is visible to whoever can see the payment it reports on
+const getOwnedWebhook = async (req: AuthenticatedRequest, webhookId: string): Promise<Webhook | undefined> => {
+  const webhook = await webhookService.getWebhookStatus(webhookId);
+  if (webhook) {
+    const payment = await paymentOrchestrator.getPaymentById(webhook.payment_id);
+    if (!payment || !paymentOrchestrator.isPaymentVisibleTo(payment, getOwnerScope(req))) {
+      await auditService.logPermissionDenied(req, 'webhook', webhookId);
+      return undefined;
+    }
+  }
+  return webhook;
+};
+
+const webhookNotFound = (res: Response) => {
+  const response: ApiResponse<never> = {
+    success: false,
+    error: {
+      code: 'WEBHOOK_NOT_FOUND',
+      message: 'Webhook not found'
+    },
+    timestamp: new Date().toISOString()
+  };
+  return res.status(404).json(response);
+};
+
+const endpointNotFound = (res: Response) => {
+  const response: ApiResponse<never> = {
+    success: false,
+    error: {
+      code: 'WEBHOOK_ENDPOINT_NOT_FOUND',
+      message: 'Webhook endpoint not found'
+    },
+    timestamp: new Date().toISOString()
+  };
+  return res.status(404).json(response);
+};
 
 /**
  * @swagger
@@ -14,6 +92,9 @@ const webhookService = new WebhookService();
  *   get:
  *     summary: Get webhook statistics
  *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
  *     responses:
  *       200:
  *         description: Webhook statistics
@@ -39,6 +120,9 @@ const webhookService = new WebhookService();
  *                         pending:
  *                           type: number
  *                           example: 0
+ *                         dead_letter:
+ *                           type: number
+ *                           example: 0
  *                         by_event_type:
  *                           type: object
  *                           example:
@@ -47,7 +131,7 @@ const webhookService = new WebhookService();
  *                             "payment.completed": 2
  *                             "onramp.completed": 4
  */
-router.get('/stats', async (req: Request, res: Response) => {
+router.get('/stats', authService.requireRoleOrAdminPermission(UserRole.ADMIN), async (req: Request, res: Response) => {
   try {
     const stats = await webhookService.getWebhookStats();
     
@@ -74,12 +158,623 @@ router.get('/stats', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * @swagger
+ * /api/v1/webhooks/endpoints:
+ *   post:
+ *     summary: Register a webhook endpoint
+ *     description: Events for your payments are sent to every enabled endpoint subscribed to them. Use "*" to subscribe to all event types. The signing secret is only returned in this response.
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CreateWebhookEndpointRequest'
+ *     responses:
+ *       201:
+ *         description: Endpoint created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/WebhookEndpoint'
+ *       400:
+ *         description: Bad request
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ */
+router.post('/endpoints', requirePermission('payments:write'), validateCreateWebhookEndpoint, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const endpoint = await webhookEndpointService.createEndpoint(getPrincipalId(req), req.body);
+
+    const response: ApiResponse<WebhookEndpointResponse> = {
+      success: true,
+      data: endpoint,
+      timestamp: new Date().toISOString()
+    };
+
+    res.status(201).json(response);
+  } catch (error: any) {
+    console.error('Error creating webhook endpoint:', error);
+
+    const response: ApiResponse<never> = {
+      success: false,
+      error: {
+        code: error.code || 'WEBHOOK_ENDPOINT_CREATION_FAILED',
+        message: error.message || 'Failed to create webhook endpoint',
+        details: error.details
+      },
+      timestamp: new Date().toISOString()
+    };
+
+    res.status(error.status || 500).json(response);
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/webhooks/endpoints:
+ *   get:
+ *     summary: List webhook endpoints
+ *     description: Your endpoints; admins see every endpoint.
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     responses:
+ *       200:
+ *         description: Webhook endpoints
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/WebhookEndpoint'
+ */
+router.get('/endpoints', requirePermission('payments:read'), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const endpoints = await webhookEndpointService.listEndpoints(isAdmin(req) ? undefined : getPrincipalId(req));
+
+    const response: ApiResponse<WebhookEndpointResponse[]> = {
+      success: true,
+      data: endpoints.map(endpoint => webhookEndpointService.endpointToResponse(endpoint)),
+      timestamp: new Date().toISOString()
+    };
+
+    res.json(response);
+  } catch (error: any) {
+    console.error('Error listing webhook endpoints:', error);
+
+    const response: ApiResponse<never> = {
+      success: false,
+      error: {
+        code: 'WEBHOOK_ENDPOINTS_FETCH_FAILED',
+        message: 'Failed to fetch webhook endpoints'
+      },
+      timestamp: new Date().toISOString()
+    };
+
+    res.status(500).json(response);
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/webhooks/endpoints/{endpointId}:
+ *   get:
+ *     summary: Get a webhook endpoint
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: endpointId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Webhook endpoint
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/WebhookEndpoint'
+ *       404:
+ *         description: Webhook endpoint not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ */
+router.get('/endpoints/:endpointId', requirePermission('payments:read'), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const endpoint = await getOwnedEndpoint(req, req.params.endpointId);
+    if (!endpoint) {
+      return endpointNotFound(res);
+    }
+
+    const response: ApiResponse<WebhookEndpointResponse> = {
+      success: true,
+      data: webhookEndpointService.endpointToResponse(endpoint),
+      timestamp: new Date().toISOString()
+    };
+
+    res.json(response);
+  } catch (error: any) {
+    console.error('Error getting webhook endpoint:', error);
+
+    const response: ApiResponse<never> = {
+      success: false,
+      error: {
+        code: 'WEBHOOK_ENDPOINT_FETCH_FAILED',
+        message: 'Failed to fetch webhook endpoint'
+      },
+      timestamp: new Date().toISOString()
+    };
+
+    res.status(500).json(response);
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/webhooks/endpoints/{endpointId}:
+ *   patch:
+ *     summary: Update a webhook endpoint
+ *     description: Change the URL, description or subscribed event types, or disable the endpoint without deleting it.
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: endpointId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/UpdateWebhookEndpointRequest'
+ *     responses:
+ *       200:
+ *         description: Endpoint updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/WebhookEndpoint'
+ *       400:
+ *         description: Bad request
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *       404:
+ *         description: Webhook endpoint not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ */
+router.patch('/endpoints/:endpointId', requirePermission('payments:write'), validateUpdateWebhookEndpoint, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { endpointId } = req.params;
+    if (!await getOwnedEndpoint(req, endpointId)) {
+      return endpointNotFound(res);
+    }
+
+    const endpoint = await webhookEndpointService.updateEndpoint(endpointId, req.body);
+
+    const response: ApiResponse<WebhookEndpointResponse> = {
+      success: true,
+      data: endpoint,
+      timestamp: new Date().toISOString()
+    };
+
+    res.json(response);
+  } catch (error: any) {
+    console.error('Error updating webhook endpoint:', error);
+
+    const response: ApiResponse<never> = {
+      success: false,
+      error: {
+        code: error.code || 'WEBHOOK_ENDPOINT_UPDATE_FAILED',
+        message: error.message || 'Failed to update webhook endpoint',
+        details: error.details
+      },
+      timestamp: new Date().toISOString()
+    };
+
+    res.status(error.status || 500).json(response);
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/webhooks/endpoints/{endpointId}/rotate-secret:
+ *   post:
+ *     summary: Rotate a webhook endpoint's signing secret
+ *     description: Generates a new secret and returns it once. Until previous_secret_expires_at, deliveries carry a signature for the old secret as well as the new one.
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: endpointId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               grace_period_seconds:
+ *                 type: integer
+ *                 minimum: 0
+ *                 maximum: 604800
+ *                 description: How long the old secret keeps signing deliveries (default 86400)
+ *     responses:
+ *       200:
+ *         description: Secret rotated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/WebhookEndpoint'
+ *       400:
+ *         description: Bad request
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *       404:
+ *         description: Webhook endpoint not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ */
+router.post('/endpoints/:endpointId/rotate-secret', requirePermission('payments:write'), validateRotateWebhookSecret, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { endpointId } = req.params;
+    if (!await getOwnedEndpoint(req, endpointId)) {
+      return endpointNotFound(res);
+    }
+
+    const endpoint = await webhookEndpointService.rotateSecret(endpointId, req.body?.grace_period_seconds);
+
+    const response: ApiResponse<WebhookEndpointResponse> = {
+      success: true,
+      data: endpoint,
+      timestamp: new Date().toISOString()
+    };
+
+    res.json(response);
+  } catch (error: any) {
+    console.error('Error rotating webhook secret:', error);
+
+    const response: ApiResponse<never> = {
+      success: false,
+      error: {
+        code: error.code || 'WEBHOOK_SECRET_ROTATION_FAILED',
+        message: error.message || 'Failed to rotate webhook secret'
+      },
+      timestamp: new Date().toISOString()
+    };
+
+    res.status(error.status || 500).json(response);
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/webhooks/endpoints/{endpointId}:
+ *   delete:
+ *     summary: Delete a webhook endpoint
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: endpointId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Endpoint deleted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *       404:
+ *         description: Webhook endpoint not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ */
+router.delete('/endpoints/:endpointId', requirePermission('payments:write'), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { endpointId } = req.params;
+    if (!await getOwnedEndpoint(req, endpointId)) {
+      return endpointNotFound(res);
+    }
+
+    await webhookEndpointService.deleteEndpoint(endpointId);
+
+    const response: ApiResponse<any> = {
+      success: true,
+      data: { id: endpointId, deleted: true },
+      timestamp: new Date().toISOString()
+    };
+
+    res.json(response);
+  } catch (error: any) {
+    console.error('Error deleting webhook endpoint:', error);
+
+    const response: ApiResponse<never> = {
+      success: false,
+      error: {
+        code: 'WEBHOOK_ENDPOINT_DELETE_FAILED',
+        message: 'Failed to delete webhook endpoint'
+      },
+      timestamp: new Date().toISOString()
+    };
+
+    res.status(500).json(response);
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/webhooks:
+ *   get:
+ *     summary: List webhook deliveries
+ *     description: Deliveries for the caller's payments, newest first; admins see all. Pass next_cursor back as cursor to page through results.
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: payment_id
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: event_type
+ *         schema:
+ *           type: string
+ *           example: payment.completed
+ *       - in: query
+ *         name: status
+ *         description: One status or a comma-separated list
+ *         schema:
+ *           type: string
+ *           example: failed,dead_letter
+ *       - in: query
+ *         name: created_from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: created_to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *     responses:
+ *       200:
+ *         description: A page of webhook deliveries
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         webhooks:
+ *                           type: array
+ *                           items:
+ *                             $ref: '#/components/schemas/Webhook'
+ *                         pagination:
+ *                           type: object
+ *                           properties:
+ *                             limit:
+ *                               type: number
+ *                             has_more:
+ *                               type: boolean
+ *                             next_cursor:
+ *                               type: string
+ *       400:
+ *         description: Invalid filters or cursor
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ */
+router.get('/', requirePermission('payments:read'), validateListWebhooks, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const query = req.query as Record<string, string | undefined>;
+
+    const webhooks = await webhookService.listWebhooks({
+      scope: getOwnerScope(req),
+      limit: query.limit ? parseInt(query.limit, 10) : undefined,
+      cursor: query.cursor,
+      payment_id: query.payment_id,
+      event_type: query.event_type,
+      status: query.status ? query.status.split(',') as WebhookStatus[] : undefined,
+      created_from: query.created_from,
+      created_to: query.created_to
+    });
+
+    const response: ApiResponse<WebhookListResponse> = {
+      success: true,
+      data: webhooks,
+      timestamp: new Date().toISOString()
+    };
+
+    res.json(response);
+  } catch (error: any) {
+    console.error('Error listing webhooks:', error);
+
+    const response: ApiResponse<never> = {
+      success: false,
+      error: {
+        code: error.code || 'WEBHOOK_LIST_FAILED',
+        message: error.message || 'Failed to list webhooks'
+      },
+      timestamp: new Date().toISOString()
+    };
+
+    res.status(error.status || 500).json(response);
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/webhooks/replay:
+ *   post:
+ *     summary: Replay webhook deliveries
+ *     description: Sends every delivery of one payment, or every delivery created in a time window, again with a fresh set of attempts. Deliveries still queued, and those to deleted or disabled endpoints, are skipped. At most 1000 deliveries can be replayed at once.
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               payment_id:
+ *                 type: string
+ *                 format: uuid
+ *               created_from:
+ *                 type: string
+ *                 format: date-time
+ *               created_to:
+ *                 type: string
+ *                 format: date-time
+ *               event_type:
+ *                 type: string
+ *                 example: payment.completed
+ *     responses:
+ *       200:
+ *         description: Deliveries requeued
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         replayed:
+ *                           type: number
+ *                         webhook_ids:
+ *                           type: array
+ *                           items:
+ *                             type: string
+ *                             format: uuid
+ *       400:
+ *         description: Bad request, or too many deliveries match
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ */
+router.post('/replay', requirePermission('payments:write'), validateReplayWebhooks, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const webhookIds = await webhookService.replayWebhooks(getOwnerScope(req), req.body);
+
+    const response: ApiResponse<any> = {
+      success: true,
+      data: { replayed: webhookIds.length, webhook_ids: webhookIds },
+      timestamp: new Date().toISOString()
+    };
+
+    res.json(response);
+  } catch (error: any) {
+    console.error('Error replaying webhooks:', error);
+
+    const response: ApiResponse<never> = {
+      success: false,
+      error: {
+        code: error.code || 'WEBHOOK_REPLAY_FAILED',
+        message: error.message || 'Failed to replay webhooks'
+      },
+      timestamp: new Date().toISOString()
+    };
+
+    res.status(error.status || 500).json(response);
+  }
+});
+
 /**
  * @swagger
  * /api/v1/webhooks/{webhookId}:
  *   get:
  *     summary: Get webhook status
+ *     description: The delivery and every attempt made for it.
  *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
  *     parameters:
  *       - in: path
  *         name: webhookId
@@ -99,23 +794,7 @@ router.get('/stats', async (req: Request, res: Response) => {
  *                 - type: object
  *                   properties:
  *                     data:
- *                       type: object
- *                       properties:
- *                         id:
- *                           type: string
- *                           format: uuid
- *                         payment_id:
- *                           type: string
- *                           format: uuid
- *                         event_type:
- *                           type: string
- *                         status:
- *                           type: string
- *                         attempts:
- *                           type: number
- *                         created_at:
- *                           type: string
- *                           format: date-time
+ *                       $ref: '#/components/schemas/Webhook'
  *       404:
  *         description: Webhook not found
  *         content:
@@ -123,21 +802,11 @@ router.get('/stats', async (req: Request, res: Response) => {
  *             schema:
  *               $ref: '#/components/schemas/ApiResponse'
  */
-router.get('/:webhookId', async (req: Request, res: Response) => {
+router.get('/:webhookId', requirePermission('payments:read'), async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const { webhookId } = req.params;
-    const webhook = await webhookService.getWebhookStatus(webhookId);
-    
+    const webhook = await getOwnedWebhook(req, req.params.webhookId);
     if (!webhook) {
-      const response: ApiResponse<never> = {
-        success: false,
-        error: {
-          code: 'WEBHOOK_NOT_FOUND',
-          message: 'Webhook not found'
-        },
-        timestamp: new Date().toISOString()
-      };
-      return res.status(404).json(response);
+      return webhookNotFound(res);
     }
     
     const response: ApiResponse<any> = {
@@ -163,12 +832,100 @@ router.get('/:webhookId', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * @swagger
+ * /api/v1/webhooks/{webhookId}/redeliver:
+ *   post:
+ *     summary: Redeliver a webhook
+ *     description: Sends the delivery again, whatever its status, with a fresh set of attempts. The payload and its id are unchanged, so receivers can deduplicate. An override url applies to this delivery only; otherwise endpoint deliveries go to the endpoint's current URL.
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: webhookId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               url:
+ *                 type: string
+ *                 format: uri
+ *                 example: "https://example.com/webhooks/recovery"
+ *     responses:
+ *       202:
+ *         description: Redelivery queued
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/Webhook'
+ *       404:
+ *         description: Webhook not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *       409:
+ *         description: The webhook's endpoint has been deleted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ */
+router.post('/:webhookId/redeliver', requirePermission('payments:write'), validateRedeliverWebhook, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { webhookId } = req.params;
+    if (!await getOwnedWebhook(req, webhookId)) {
+      return webhookNotFound(res);
+    }
+
+    await webhookService.retryWebhook(webhookId, req.body?.url);
+
+    const response: ApiResponse<Webhook> = {
+      success: true,
+      data: await webhookService.getWebhookStatus(webhookId),
+      timestamp: new Date().toISOString()
+    };
+
+    res.status(202).json(response);
+  } catch (error: any) {
+    console.error('Error redelivering webhook:', error);
+
+    const response: ApiResponse<never> = {
+      success: false,
+      error: {
+        code: error.code || 'WEBHOOK_REDELIVERY_FAILED',
+        message: error.message || 'Failed to redeliver webhook'
+      },
+      timestamp: new Date().toISOString()
+    };
+
+    res.status(error.status || 500).json(response);
+  }
+});
+
 /**
  * @swagger
  * /api/v1/webhooks/test:
  *   post:
  *     summary: Test webhook delivery
  *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
  *     requestBody:
  *       required: true
  *       content:
@@ -199,7 +956,7 @@ router.get('/:webhookId', async (req: Request, res: Response) => {
  *             schema:
  *               $ref: '#/components/schemas/ApiResponse'
  */
-router.post('/test', validateTestWebhook, async (req: Request, res: Response) => {
+router.post('/test', requirePermission('payments:write'), validateTestWebhook, async (req: Request, res: Response) => {
   try {
     const { webhook_url } = req.body;
     const result = await webhookService.testWebhookEndpoint(webhook_url);
@@ -6,16 +6,28 @@ import swaggerUi from 'swagger-ui-express';
 import swaggerJsdoc from 'swagger-jsdoc';
 import swaggerOptions from './config/swagger.js';
 import paymentRoutes from './routes/payments.js';
+import quoteRoutes from './routes/quotes.js';
+import recipientRoutes from './routes/recipients.js';
+import rateRoutes from './routes/rates.js';
 import webhookRoutes from './routes/webhooks.js';
 import adminRoutes from './routes/admin.js';
 import authRoutes from './routes/auth.js';
 import ledgerRoutes from './routes/ledger.js';
+import providerCallbackRoutes from './routes/providerCallbacks.js';
 
 import { errorHandler } from './middleware/errorHandler.js';
 import { requestLogger } from './middleware/requestLogger.js';
 import { comprehensiveSecurity } from './middleware/security.js';
+import { checkCredentialSecret } from './middleware/auth.js';
 import { initializeDatabase } from './database/init.js';
 import { Database } from './database/database.js';
+import { PaymentOrchestrator } from './services/paymentOrchestrator.js';
+import { RefundService } from './services/refundService.js';
+import { WebhookService } from './services/webhookService.js';
+import { RateHistoryService } from './services/rateHistoryService.js';
+import { ProviderCallbackService } from './services/providerCallbackService.js';
+import { checkPiiEncryptionKeys } from './services/piiEncryption.js';
+import { checkProviderWebhookSecrets } from './services/paymentProviders.js';
 import path from 'path';
 import { fileURLToPath } from 'url';
 
@@ -29,9 +41,6 @@ const __dirname = path.dirname(__filename);
 // Generate Swagger specs
 const specs = swaggerJsdoc(swaggerOptions);
 
-// Initialize database
-initializeDatabase();
-
 // Security middleware
 app.use(helmet({
   contentSecurityPolicy: {
@@ -59,6 +68,9 @@ const webhookLimiter = rateLimit({
   message: 'Too many webhook requests from this IP, please try again later.',
 });
 
+// Provider callbacks are signed over the raw body, so they are routed before it is parsed
+app.use('/api/v1/provider-callbacks', providerCallbackRoutes);
+
 // Body parsing middleware
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true }));
@@ -130,9 +142,13 @@ app.get('/', (req, res) => {
     endpoints: {
       auth: `${req.protocol}://${req.get('host')}/api/v1/auth`,
       payments: `${req.protocol}://${req.get('host')}/api/v1/payments`,
+      quotes: `${req.protocol}://${req.get('host')}/api/v1/quotes`,
+      recipients: `${req.protocol}://${req.get('host')}/api/v1/recipients`,
+      rates: `${req.protocol}://${req.get('host')}/api/v1/rates`,
       webhooks: `${req.protocol}://${req.get('host')}/api/v1/webhooks`,
       admin: `${req.protocol}://${req.get('host')}/api/v1/admin`,
-      ledger: `${req.protocol}://${req.get('host')}/api/v1/ledger`
+      ledger: `${req.protocol}://${req.get('host')}/api/v1/ledger`,
+      provider_callbacks: `${req.protocol}://${req.get('host')}/api/v1/provider-callbacks`
     },
     features: [
       'User authentication with JWT tokens',
@@ -151,6 +167,9 @@ app.get('/', (req, res) => {
 // API Routes
 app.use('/api/v1/auth', authRoutes);
 app.use('/api/v1/payments', paymentLimiter, paymentRoutes);
+app.use('/api/v1/quotes', paymentLimiter, quoteRoutes);
+app.use('/api/v1/recipients', paymentLimiter, recipientRoutes);
+app.use('/api/v1/rates', paymentLimiter, rateRoutes);
 app.use('/api/v1/webhooks', webhookLimiter, webhookRoutes);
 app.use('/api/v1/admin', adminRoutes);
 app.use('/api/v1/ledger', ledgerRoutes);
@@ -182,9 +201,27 @@ process.on('SIGINT', () => {
   process.exit(0);
 });
 
-// Start server
-app.listen(PORT, () => {
-  console.log(`🚀 Server running on http://localhost:${PORT}`);
-  console.log(`📚 API Documentation available at http://localhost:${PORT}/docs`);
-  console.log(`💚 Health check available at http://localhost:${PORT}/health`);
-}); 
\ No newline at end of file
+// Initialize database, then resume payments, refunds and webhook deliveries left in flight by a previous run
+// and start sampling exchange rates. Simulated providers deliver their callbacks in process. The server only
+// starts listening once all of this has succeeded; a failed step stops the process.
+Promise.resolve()
+  .then(() => checkCredentialSecret())
+  .then(() => checkPiiEncryptionKeys())
+  .then(() => checkProviderWebhookSecrets())
+  .then(() => initializeDatabase())
+  .then(() => new ProviderCallbackService().listenForSimulatedCallbacks())
+  .then(() => new PaymentOrchestrator().resumeInFlightPayments())
+  .then(() => new RefundService().resumeInFlightRefunds())
+  .then(() => new WebhookService().startDeliveryWorker())
+  .then(() => new RateHistoryService().startSampler())
+  .then(() => {
+    app.listen(PORT, () => {
+      console.log(`🚀 Server running on http://localhost:${PORT}`);
+      console.log(`📚 API Documentation available at http://localhost:${PORT}/docs`);
+      console.log(`💚 Health check available at http://localhost:${PORT}/health`);
+    });
+  })
+  .catch(error => {
+    console.error('Failed to start server:', error);
+    process.exit(1);
+  }); 
\ No newline at end of file
@@ -0,0 +1,28 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { isValidAbaRoutingNumber, isValidClabe, isValidIban, isValidPixKey } from './bankDetails.js';
+
+describe('bank detail checksums', () => {
+  test('IBAN mod-97 and country length', () => {
+    assert.equal(isValidIban('DE89370400440532013000'), true);
+    assert.equal(isValidIban('GB82WEST12345698765432'), true);
+    assert.equal(isValidIban('DE89370400440532013001'), false);
+    assert.equal(isValidIban('DE8937040044053201300'), false);
+  });
+
+  test('ABA routing number', () => {
+    assert.equal(isValidAbaRoutingNumber('021000021'), true);
+    assert.equal(isValidAbaRoutingNumber('021000022'), false);
+  });
+
+  test('CLABE check digit', () => {
+    assert.equal(isValidClabe('032180000118359719'), true);
+    assert.equal(isValidClabe('032180000118359718'), false);
+  });
+
+  test('PIX CPF check digits', () => {
+    assert.equal(isValidPixKey('52998224725'), true);
+    assert.equal(isValidPixKey('52998224726'), false);
+    assert.equal(isValidPixKey('11111111111'), false);
+  });
+});
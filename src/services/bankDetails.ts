@@ -0,0 +1,260 @@
+import { BankDetails } from '../types/payment.js';
+
+/**
+ * Format and checksum validation for recipient bank details, and the fields
+ * each payout country needs. Every check works on normalized input: spaces
+ * removed and letters upper-cased (see normalizeBankDetails).
+ */
+
+export type BankField = keyof BankDetails;
+
+export interface BankDetailIssue {
+  field: string;
+  message: string;
+}
+
+export interface CountryBankRequirements {
+  currency: string;
+  required: BankField[];
+}
+
+const SEPA_IBAN: CountryBankRequirements = { currency: 'EUR', required: ['iban'] };
+const INTERNATIONAL_WIRE: BankField[] = ['account_number', 'swift_code'];
+
+/**
+ * Payout countries, the currency their recipients are paid in and the bank
+ * details a payout there needs
+ */
+export const COUNTRY_BANK_REQUIREMENTS: Record<string, CountryBankRequirements> = {
+  US: { currency: 'USD', required: ['account_number', 'routing_number'] },
+  GB: { currency: 'GBP', required: ['iban'] },
+  AT: SEPA_IBAN,
+  BE: SEPA_IBAN,
+  DE: SEPA_IBAN,
+  ES: SEPA_IBAN,
+  FI: SEPA_IBAN,
+  FR: SEPA_IBAN,
+  IE: SEPA_IBAN,
+  IT: SEPA_IBAN,
+  NL: SEPA_IBAN,
+  PT: SEPA_IBAN,
+  IN: { currency: 'INR', required: ['account_number', 'ifsc_code'] },
+  BR: { currency: 'BRL', required: ['pix_key'] },
+  MX: { currency: 'MXN', required: ['clabe'] },
+  CA: { currency: 'CAD', required: INTERNATIONAL_WIRE },
+  AU: { currency: 'AUD', required: INTERNATIONAL_WIRE },
+  JP: { currency: 'JPY', required: INTERNATIONAL_WIRE }
+};
+
+// IBAN length per country, for the countries we see most
+const IBAN_LENGTHS: Record<string, number> = {
+  AD: 24, AT: 20, BE: 16, BG: 22, CH: 21, CY: 28, CZ: 24, DE: 22, DK: 18, EE: 20,
+  ES: 24, FI: 18, FR: 27, GB: 22, GR: 27, HR: 21, HU: 28, IE: 22, IS: 26, IT: 27,
+  LI: 21, LT: 20, LU: 20, LV: 21, MC: 27, MT: 31, NL: 18, NO: 15, PL: 28, PT: 25,
+  RO: 24, SE: 24, SI: 19, SK: 24, SM: 27
+};
+
+/**
+ * ISO 13616 IBAN: country code, two check digits and a BBAN, valid under mod-97
+ */
+export function isValidIban(iban: string): boolean {
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(iban)) {
+    return false;
+  }
+
+  const expectedLength = IBAN_LENGTHS[iban.slice(0, 2)];
+  if (expectedLength && iban.length !== expectedLength) {
+    return false;
+  }
+
+  // Move the country code and check digits to the end, turn letters into 10-35, then mod 97
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const value = /\d/.test(char) ? char : String(char.charCodeAt(0) - 55);
+    for (const digit of value) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder === 1;
+}
+
+/**
+ * ISO 9362 BIC (SWIFT code): bank, country, location and optional branch
+ */
+export function isValidBic(bic: string): boolean {
+  return /^[A-Z]{4}[A-Z]{2}[A-Z0-9]{2}([A-Z0-9]{3})?$/.test(bic);
+}
+
+/**
+ * US ABA routing number: nine digits with a 3-7-1 weighted checksum
+ */
+export function isValidAbaRoutingNumber(routingNumber: string): boolean {
+  if (!/^\d{9}$/.test(routingNumber)) {
+    return false;
+  }
+
+  const weights = [3, 7, 1, 3, 7, 1, 3, 7, 1];
+  const sum = weights.reduce((total, weight, i) => total + weight * Number(routingNumber[i]), 0);
+  return sum % 10 === 0;
+}
+
+/**
+ * Indian IFSC: four-letter bank code, a zero, then a six-character branch code
+ */
+export function isValidIfsc(ifsc: string): boolean {
+  return /^[A-Z]{4}0[A-Z0-9]{6}$/.test(ifsc);
+}
+
+/**
+ * Mexican CLABE: 18 digits whose last is a 3-7-1 weighted check digit
+ */
+export function isValidClabe(clabe: string): boolean {
+  if (!/^\d{18}$/.test(clabe)) {
+    return false;
+  }
+
+  const weights = [3, 7, 1];
+  let sum = 0;
+  for (let i = 0; i < 17; i++) {
+    sum += (Number(clabe[i]) * weights[i % 3]) % 10;
+  }
+  return (10 - (sum % 10)) % 10 === Number(clabe[17]);
+}
+
+/**
+ * Brazilian PIX key: a CPF or CNPJ (digits only), an email address, a phone
+ * number in +55 format or a random (EVP) key
+ */
+export function isValidPixKey(key: string): boolean {
+  if (/^\d{11}$/.test(key)) {
+    return isValidCpf(key);
+  }
+  if (/^\d{14}$/.test(key)) {
+    return isValidCnpj(key);
+  }
+  if (/^\+55\d{10,11}$/.test(key)) {
+    return true;
+  }
+  if (/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(key) && key.length <= 77) {
+    return true;
+  }
+  return /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(key);
+}
+
+function isValidCpf(cpf: string): boolean {
+  if (/^(\d)\1{10}$/.test(cpf)) {
+    return false;
+  }
+
+  const checkDigit = (length: number) => {
+    let sum = 0;
+    for (let i = 0; i < length; i++) {
+      sum += Number(cpf[i]) * (length + 1 - i);
+    }
+    return ((sum * 10) % 11) % 10;
+  };
+  return checkDigit(9) === Number(cpf[9]) && checkDigit(10) === Number(cpf[10]);
+}
+
+function isValidCnpj(cnpj: string): boolean {
+  if (/^(\d)\1{13}$/.test(cnpj)) {
+    return false;
+  }
+
+  const checkDigit = (length: number) => {
+    const weights = length === 12
+      ? [5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2]
+      : [6, 5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2];
+    const remainder = weights.reduce((total, weight, i) => total + weight * Number(cnpj[i]), 0) % 11;
+    return remainder < 2 ? 0 : 11 - remainder;
+  };
+  return checkDigit(12) === Number(cnpj[12]) && checkDigit(13) === Number(cnpj[13]);
+}
+
+/**
+ * Strip spaces (and the punctuation people paste with CPFs and CNPJs) and
+ * upper-case codes, so the same details always validate and store the same way
+ */
+export function normalizeBankDetails(details: BankDetails): BankDetails {
+  const compact = (value?: string) => value?.replace(/[\s-]/g, '') || undefined;
+  const pixKey = details.pix_key?.trim();
+
+  return {
+    account_number: compact(details.account_number),
+    routing_number: compact(details.routing_number),
+    iban: compact(details.iban)?.toUpperCase(),
+    swift_code: compact(details.swift_code)?.toUpperCase(),
+    ifsc_code: compact(details.ifsc_code)?.toUpperCase(),
+    // CPFs and CNPJs are often written as 529.982.247-25; keep emails and EVP keys intact
+    pix_key: pixKey && /^[\d.\-/]+$/.test(pixKey) ? pixKey.replace(/\D/g, '') : pixKey || undefined,
+    clabe: compact(details.clabe),
+    bank_name: details.bank_name?.trim() || undefined,
+    address: details.address?.trim() || undefined
+  };
+}
+
+/**
+ * Problems with a recipient's bank details for a payout country: missing
+ * required fields, and any given field that fails its format or checksum
+ */
+export function validateBankDetails(country: string, details: BankDetails): BankDetailIssue[] {
+  const requirements = COUNTRY_BANK_REQUIREMENTS[country];
+  if (!requirements) {
+    return [{ field: 'country', message: `Payouts to ${country} are not supported` }];
+  }
+
+  const issues: BankDetailIssue[] = requirements.required
+    .filter(field => !details[field])
+    .map(field => ({ field, message: `${field} is required for recipients in ${country}` }));
+
+  const checks: { field: BankField; valid: (value: string) => boolean; message: string }[] = [
+    { field: 'iban', valid: isValidIban, message: 'IBAN is not valid' },
+    { field: 'swift_code', valid: isValidBic, message: 'SWIFT/BIC code is not valid' },
+    { field: 'routing_number', valid: isValidAbaRoutingNumber, message: 'ABA routing number is not valid' },
+    { field: 'ifsc_code', valid: isValidIfsc, message: 'IFSC code is not valid' },
+    { field: 'pix_key', valid: isValidPixKey, message: 'PIX key is not a valid CPF, CNPJ, email, phone or random key' },
+    { field: 'clabe', valid: isValidClabe, message: 'CLABE is not valid' },
+    { field: 'account_number', valid: value => /^[A-Z0-9]{4,34}$/i.test(value), message: 'Account number must be 4 to 34 letters or digits' }
+  ];
+
+  for (const check of checks) {
+    const value = details[check.field];
+    if (value && !check.valid(value)) {
+      issues.push({ field: check.field, message: check.message });
+    }
+  }
+
+  if (details.iban && !issues.some(issue => issue.field === 'iban') && country !== details.iban.slice(0, 2)) {
+    issues.push({ field: 'iban', message: `IBAN is for ${details.iban.slice(0, 2)}, not ${country}` });
+  }
+
+  return issues;
+}
+
+/**
+ * Show only the last four characters of an account identifier
+ */
+export function maskLast4(value: string): string {
+  return value.length > 4 ? `****${value.slice(-4)}` : '****';
+}
+
+/**
+ * Bank details safe to show in API responses and webhooks: account
+ * identifiers masked to their last four characters, the address dropped,
+ * and bank identifiers (routing number, SWIFT, IFSC, bank name) kept
+ */
+export function maskBankDetails(details: BankDetails): BankDetails {
+  const mask = (value?: string) => (value ? maskLast4(value) : undefined);
+
+  return {
+    account_number: mask(details.account_number),
+    routing_number: details.routing_number || undefined,
+    iban: mask(details.iban),
+    swift_code: details.swift_code || undefined,
+    ifsc_code: details.ifsc_code || undefined,
+    pix_key: mask(details.pix_key),
+    clabe: mask(details.clabe),
+    bank_name: details.bank_name || undefined
+  };
+}
@@ -0,0 +1,169 @@
+import { EventEmitter } from 'events';
+import { Database } from '../database/database.js';
+import { StreamEvent, StreamEventType, Transaction } from '../types/payment.js';
+
+/**
+ * Which events a stream receives: one payment's, one owner's, or all (admins)
+ */
+export interface StreamEventFilter {
+  payment_id?: string;
+  owner_id?: string;
+  all?: boolean;
+}
+
+const REPLAY_BATCH_SIZE = 500;
+
+// Shared by every service instance, so events published anywhere reach every open stream
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0);
+
+/**
+ * Live payment and transaction updates for Server-Sent Events streams. Every
+ * event is appended to the stream_events log before it is pushed, and its
+ * log id doubles as the SSE event id, so a client reconnecting with
+ * Last-Event-ID gets everything it missed.
+ */
+export class EventStreamService {
+  private db: Database;
+
+  constructor() {
+    this.db = Database.getInstance();
+  }
+
+  /**
+   * Publish a payment status transition
+   */
+  async publishPaymentStatusChange(
+    paymentId: string,
+    fromStatus: string | null,
+    toStatus: string,
+    reason?: string,
+    metadata?: Record<string, unknown>
+  ): Promise<void> {
+    const payment = await this.db.get<{ user_id: string }>('SELECT user_id FROM payments WHERE id = ?', [paymentId]);
+
+    await this.publish({
+      owner_id: payment?.user_id,
+      payment_id: paymentId,
+      event_type: StreamEventType.PAYMENT_STATUS_CHANGED,
+      data: {
+        payment_id: paymentId,
+        from_status: fromStatus,
+        to_status: toStatus,
+        reason,
+        metadata
+      }
+    });
+  }
+
+  /**
+   * Publish the current state of an onramp or offramp transaction
+   */
+  async publishTransactionUpdate(transactionId: string): Promise<void> {
+    const transaction = await this.db.get<Transaction>('SELECT * FROM transactions WHERE id = ?', [transactionId]);
+    if (!transaction) {
+      return;
+    }
+
+    await this.publish({
+      owner_id: transaction.user_id,
+      payment_id: transaction.payment_id || undefined,
+      transaction_id: transaction.id,
+      event_type: StreamEventType.TRANSACTION_UPDATED,
+      data: {
+        transaction_id: transaction.id,
+        payment_id: transaction.payment_id || undefined,
+        type: transaction.type,
+        status: transaction.status,
+        provider: transaction.provider,
+        external_reference: transaction.external_reference,
+        updated_at: transaction.updated_at
+      }
+    });
+  }
+
+  /**
+   * Logged events matching the filter with an id above afterId, oldest first
+   */
+  async getEventsSince(filter: StreamEventFilter, afterId: number, limit: number = REPLAY_BATCH_SIZE): Promise<StreamEvent[]> {
+    const { condition, params } = this.buildCondition(filter);
+    const events = await this.db.all<StreamEvent>(
+      `SELECT * FROM stream_events WHERE id > ? ${condition} ORDER BY id LIMIT ?`,
+      [afterId, ...params, limit]
+    );
+
+    return events.map(event => this.parseEvent(event));
+  }
+
+  /**
+   * Call listener with every event published from now on that matches the
+   * filter. Returns a function that stops listening.
+   */
+  subscribe(filter: StreamEventFilter, listener: (event: StreamEvent) => void): () => void {
+    const handler = (event: StreamEvent) => {
+      if (this.matches(filter, event)) {
+        listener(event);
+      }
+    };
+
+    emitter.on('event', handler);
+    return () => emitter.off('event', handler);
+  }
+
+  /**
+   * Latest event id, where streams that skip the history start from
+   */
+  async getLatestEventId(): Promise<number> {
+    const result = await this.db.get<{ id: number }>('SELECT MAX(id) as id FROM stream_events');
+    return result?.id || 0;
+  }
+
+  private async publish(event: Omit<StreamEvent, 'id' | 'created_at'>): Promise<void> {
+    // A stream is a convenience next to polling and webhooks; never fail the update because of it
+    try {
+      const result = await this.db.run(
+        `INSERT INTO stream_events (owner_id, payment_id, transaction_id, event_type, data)
+         VALUES (?, ?, ?, ?, ?)`,
+        [
+          event.owner_id || null,
+          event.payment_id || null,
+          event.transaction_id || null,
+          event.event_type,
+          JSON.stringify(event.data)
+        ]
+      );
+
+      const logged = await this.db.get<StreamEvent>('SELECT * FROM stream_events WHERE id = ?', [result.lastID]);
+      emitter.emit('event', this.parseEvent(logged!));
+    } catch (error) {
+      console.error(`Failed to publish ${event.event_type} event:`, error);
+    }
+  }
+
+  private matches(filter: StreamEventFilter, event: StreamEvent): boolean {
+    if (filter.payment_id) {
+      return event.payment_id === filter.payment_id;
+    }
+    return !!filter.all || (!!filter.owner_id && event.owner_id === filter.owner_id);
+  }
+
+  private buildCondition(filter: StreamEventFilter): { condition: string; params: unknown[] } {
+    if (filter.payment_id) {
+      return { condition: 'AND payment_id = ?', params: [filter.payment_id] };
+    }
+    if (filter.all) {
+      return { condition: '', params: [] };
+    }
+    // No owner means nothing is visible
+    return { condition: 'AND owner_id = ?', params: [filter.owner_id || null] };
+  }
+
+  private parseEvent(event: StreamEvent): StreamEvent {
+    try {
+      event.data = JSON.parse(event.data as unknown as string);
+    } catch {
+      // Keep original if parsing fails
+    }
+    return event;
+  }
+}
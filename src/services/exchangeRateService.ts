@@ -1,58 +1,49 @@
 import { Database } from '../database/database.js';
-import { ExchangeRate } from '../types/payment.js';
+import { ApiError } from '../types/errors.js';
+import { ExchangeRate, RateObservation, RateQuoteStatus } from '../types/payment.js';
+import { Money, normalizeDecimal } from '../types/money.js';
+import { ProviderRate, RateProvider, getConfiguredRateProviders } from './rateProviders.js';
+
+export class ExchangeRateError extends ApiError {}
+
+export interface RateCandidate extends ProviderRate {
+  status: RateQuoteStatus;
+}
 
 export class ExchangeRateService {
   private db: Database;
+  private providers: RateProvider[];
   private cacheExpiryMinutes: number = 15; // Cache exchange rates for 15 minutes
+  // Quotes further than this from the median of the others are discarded (needs at least 3 quotes)
+  private outlierThresholdBps: number = parseInt(process.env.RATE_OUTLIER_THRESHOLD_BPS || '500', 10);
 
-  // Mock exchange rates (in production, would fetch from external API)
-  private mockRates: Record<string, Record<string, number>> = {
-    'USD': {
-      'EUR': 0.85,
-      'GBP': 0.73,
-      'CAD': 1.25,
-      'AUD': 1.35,
-      'JPY': 110.0,
-      'INR': 74.5,
-      'BRL': 5.2,
-      'MXN': 20.1,
-      'CHF': 0.92,
-      'SEK': 8.7,
-      'NOK': 8.9
-    }
-  };
-
-  constructor() {
+  constructor(providers: RateProvider[] = getConfiguredRateProviders()) {
     this.db = Database.getInstance();
-    this.initializeBaseCurrencies();
+    this.providers = providers;
   }
 
   /**
-   * Get exchange rate from source to destination currency
+   * Get exchange rate from source to destination currency as an exact decimal string
    */
-  async getExchangeRate(sourceCurrency: string, destinationCurrency: string): Promise<number> {
+  async getExchangeRate(sourceCurrency: string, destinationCurrency: string): Promise<string> {
     // Same currency
     if (sourceCurrency === destinationCurrency) {
-      return 1.0;
+      return '1';
     }
 
     // Check cache first
     const cachedRate = await this.getCachedRate(sourceCurrency, destinationCurrency);
     if (cachedRate) {
-      return cachedRate.rate;
+      return normalizeDecimal(cachedRate.rate);
     }
 
-    // Fetch new rate
-    const rate = await this.fetchExchangeRate(sourceCurrency, destinationCurrency);
-    
-    // Cache the rate
-    await this.cacheRate(sourceCurrency, destinationCurrency, rate);
-    
-    return rate;
+    // Ask the providers; the winning quote is cached
+    const best = await this.getBestRate(sourceCurrency, destinationCurrency);
+    return best.rate;
   }
 
   /**
-   * Get cached exchange rate if not expired
+   * Get cached exchange rate if not expired: the quote selected on the last lookup
    */
   private async getCachedRate(
     sourceCurrency: string,
@@ -62,7 +53,7 @@ export class ExchangeRateService {
     
     return await this.db.get<ExchangeRate>(
       `SELECT * FROM exchange_rates 
-       WHERE from_currency = ? AND to_currency = ? 
+       WHERE from_currency = ? AND to_currency = ? AND status = 'selected'
        AND expires_at > ? 
        ORDER BY created_at DESC 
        LIMIT 1`,
@@ -71,86 +62,67 @@ export class ExchangeRateService {
   }
 
   /**
-   * Cache exchange rate
+   * Record every provider's quote for the pair, one row per provider, with
+   * whether it was selected or why it was passed over, and add the selected
+   * one to the rate history
    */
-  private async cacheRate(
+  private async recordCandidates(
     sourceCurrency: string,
     destinationCurrency: string,
-    rate: number
+    candidates: RateCandidate[]
   ): Promise<void> {
     const expiresAt = new Date();
     expiresAt.setMinutes(expiresAt.getMinutes() + this.cacheExpiryMinutes);
 
-    await this.db.run(
-      `INSERT OR REPLACE INTO exchange_rates 
-       (from_currency, to_currency, rate, provider, expires_at)
-       VALUES (?, ?, ?, ?, ?)`,
-      [sourceCurrency, destinationCurrency, rate, 'mock_provider', expiresAt.toISOString()]
-    );
-  }
-
-  /**
-   * Fetch exchange rate (mock implementation)
-   */
-  private async fetchExchangeRate(sourceCurrency: string, destinationCurrency: string): Promise<number> {
-    // Add some random variation to simulate market fluctuations (±2%)
-    const baseRate = this.getBaseRate(sourceCurrency, destinationCurrency);
-    const variation = 1 + ((Math.random() - 0.5) * 0.04); // ±2% variation
-    
-    return Math.round(baseRate * variation * 100000) / 100000; // Round to 5 decimal places
-  }
-
-  /**
-   * Get base exchange rate from mock data
-   */
-  private getBaseRate(sourceCurrency: string, destinationCurrency: string): number {
-    // Direct rate
-    if (this.mockRates[sourceCurrency]?.[destinationCurrency]) {
-      return this.mockRates[sourceCurrency][destinationCurrency];
-    }
-
-    // Inverse rate
-    if (this.mockRates[destinationCurrency]?.[sourceCurrency]) {
-      return 1 / this.mockRates[destinationCurrency][sourceCurrency];
-    }
+    await this.db.transaction(async () => {
+      // A provider that failed this time must not keep an earlier win
+      await this.db.run(
+        `UPDATE exchange_rates SET status = 'candidate'
+         WHERE from_currency = ? AND to_currency = ? AND status = 'selected'`,
+        [sourceCurrency, destinationCurrency]
+      );
 
-    // Cross rate via USD
-    if (sourceCurrency !== 'USD' && destinationCurrency !== 'USD') {
-      const sourceToUSD = this.mockRates[sourceCurrency]?.['USD'] || (1 / this.mockRates['USD']?.[sourceCurrency] || 1);
-      const usdToDestination = this.mockRates['USD']?.[destinationCurrency] || (1 / this.mockRates[destinationCurrency]?.['USD'] || 1);
-      return sourceToUSD * usdToDestination;
-    }
+      for (const candidate of candidates) {
+        await this.db.run(
+          `INSERT OR REPLACE INTO exchange_rates 
+           (from_currency, to_currency, rate, provider, as_of, status, expires_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?)`,
+          [
+            sourceCurrency,
+            destinationCurrency,
+            candidate.rate,
+            candidate.provider,
+            candidate.as_of,
+            candidate.status,
+            expiresAt.toISOString()
+          ]
+        );
 
-    // Default fallback
-    console.warn(`Exchange rate not found for ${sourceCurrency} to ${destinationCurrency}, using 1.0`);
-    return 1.0;
-  }
-
-  /**
-   * Initialize reverse rates for base currencies
-   */
-  private initializeBaseCurrencies(): void {
-    // Add reverse USD rates
-    Object.entries(this.mockRates['USD']).forEach(([currency, rate]) => {
-      if (!this.mockRates[currency]) {
-        this.mockRates[currency] = {};
+        // The rate history (see RateHistoryService) follows the selected rate
+        if (candidate.status === 'selected') {
+          await this.db.run(
+            `INSERT INTO rate_observations (from_currency, to_currency, rate, provider, observed_at)
+             VALUES (?, ?, ?, ?, ?)`,
+            [sourceCurrency, destinationCurrency, candidate.rate, candidate.provider, new Date().toISOString()]
+          );
+        }
       }
-      this.mockRates[currency]['USD'] = 1 / rate;
     });
   }
 
   /**
-   * Get all supported currencies
+   * Get all supported currencies: those any enabled provider can quote
    */
-  getSupportedCurrencies(): string[] {
+  async getSupportedCurrencies(): Promise<string[]> {
     const currencies = new Set<string>();
-    
-    Object.keys(this.mockRates).forEach(from => {
-      currencies.add(from);
-      Object.keys(this.mockRates[from]).forEach(to => {
-        currencies.add(to);
-      });
-    });
+
+    for (const provider of this.providers) {
+      try {
+        (await provider.getSupportedCurrencies()).forEach(currency => currencies.add(currency));
+      } catch (error) {
+        console.warn(`Rate provider ${provider.name} unavailable:`, (error as Error).message);
+      }
+    }
 
     return Array.from(currencies).sort();
   }
@@ -162,7 +134,7 @@ export class ExchangeRateService {
     sourceCurrency: string,
     destinationCurrency: string
   ): Promise<{
-    rate: number;
+    rate: string;
     source_currency: string;
     destination_currency: string;
     timestamp: string;
@@ -174,7 +146,7 @@ export class ExchangeRateService {
     
     if (cachedRate) {
       return {
-        rate: cachedRate.rate,
+        rate: normalizeDecimal(cachedRate.rate),
         source_currency: sourceCurrency,
         destination_currency: destinationCurrency,
         timestamp: cachedRate.created_at,
@@ -184,14 +156,14 @@ export class ExchangeRateService {
       };
     }
 
-    const rate = await this.getExchangeRate(sourceCurrency, destinationCurrency);
+    const best = await this.getBestRate(sourceCurrency, destinationCurrency);
     
     return {
-      rate,
+      rate: best.rate,
       source_currency: sourceCurrency,
       destination_currency: destinationCurrency,
-      timestamp: new Date().toISOString(),
-      provider: 'mock_provider',
+      timestamp: best.timestamp,
+      provider: best.provider,
       cached: false
     };
   }
@@ -202,8 +174,8 @@ export class ExchangeRateService {
   async getMultipleExchangeRates(
     sourceCurrency: string,
     destinationCurrencies: string[]
-  ): Promise<Record<string, number>> {
-    const rates: Record<string, number> = {};
+  ): Promise<Record<string, string>> {
+    const rates: Record<string, string> = {};
     
     await Promise.all(
       destinationCurrencies.map(async (destCurrency) => {
@@ -218,42 +190,42 @@ export class ExchangeRateService {
    * Convert amount from one currency to another
    */
   async convertCurrency(
-    amount: number,
-    sourceCurrency: string,
+    amount: Money,
     destinationCurrency: string
   ): Promise<{
-    source_amount: number;
+    source_amount: Money;
     source_currency: string;
-    destination_amount: number;
+    destination_amount: Money;
     destination_currency: string;
-    exchange_rate: number;
+    exchange_rate: string;
     timestamp: string;
   }> {
-    const exchangeRate = await this.getExchangeRate(sourceCurrency, destinationCurrency);
-    const destinationAmount = amount * exchangeRate;
+    const exchangeRate = await this.getExchangeRate(amount.currency, destinationCurrency);
+    const destinationAmount = amount.convert(exchangeRate, destinationCurrency);
 
     return {
       source_amount: amount,
-      source_currency: sourceCurrency,
-      destination_amount: Math.round(destinationAmount * 100) / 100,
-      destination_currency: destinationCurrency,
+      source_currency: amount.currency,
+      destination_amount: destinationAmount,
+      destination_currency: destinationAmount.currency,
       exchange_rate: exchangeRate,
       timestamp: new Date().toISOString()
     };
   }
 
   /**
-   * Get exchange rate history for a currency pair
+   * Get the most recent selected rates for a currency pair (for candles over
+   * a time range see RateHistoryService)
    */
   async getExchangeRateHistory(
     sourceCurrency: string,
     destinationCurrency: string,
     limit: number = 10
-  ): Promise<ExchangeRate[]> {
-    return await this.db.all<ExchangeRate>(
-      `SELECT * FROM exchange_rates 
+  ): Promise<RateObservation[]> {
+    return await this.db.all<RateObservation>(
+      `SELECT * FROM rate_observations 
        WHERE from_currency = ? AND to_currency = ? 
-       ORDER BY created_at DESC 
+       ORDER BY observed_at DESC 
        LIMIT ?`,
       [sourceCurrency, destinationCurrency, limit]
     );
@@ -274,57 +246,85 @@ export class ExchangeRateService {
   }
 
   /**
-   * Update mock exchange rates (for testing/simulation)
-   */
-  updateMockRates(newRates: Record<string, Record<string, number>>): void {
-    this.mockRates = { ...this.mockRates, ...newRates };
-    this.initializeBaseCurrencies();
-  }
-
-  /**
-   * Get current mock rates
-   */
-  getMockRates(): Record<string, Record<string, number>> {
-    return { ...this.mockRates };
-  }
-
-  /**
-   * Simulate market volatility by updating rates
-   */
-  simulateMarketVolatility(): void {
-    Object.keys(this.mockRates).forEach(fromCurrency => {
-      Object.keys(this.mockRates[fromCurrency]).forEach(toCurrency => {
-        const currentRate = this.mockRates[fromCurrency][toCurrency];
-        // Apply random volatility (±5%)
-        const volatility = 1 + ((Math.random() - 0.5) * 0.1);
-        this.mockRates[fromCurrency][toCurrency] = currentRate * volatility;
-      });
-    });
-    
-    this.initializeBaseCurrencies();
-    console.log('Market volatility simulated - exchange rates updated');
-  }
-
-  /**
-   * Get best available rate from multiple providers (placeholder for future enhancement)
+   * Quote the pair from every enabled provider (or only those named) and pick
+   * the best usable rate: the highest, since it gives the payer the most
+   * destination currency. Quotes older than their provider's max age are
+   * stale, and with three or more fresh quotes any further than
+   * RATE_OUTLIER_THRESHOLD_BPS from their median is an outlier; neither can
+   * win. Every quote is recorded with its provider and outcome, and the
+   * winner is what getExchangeRate serves from cache.
    */
   async getBestRate(
     sourceCurrency: string,
     destinationCurrency: string,
-    providers: string[] = ['mock_provider']
+    providers?: string[]
   ): Promise<{
-    rate: number;
+    rate: string;
     provider: string;
     timestamp: string;
+    candidates: RateCandidate[];
   }> {
-    // In a real implementation, this would query multiple providers
-    // For now, just return the mock rate
-    const rate = await this.getExchangeRate(sourceCurrency, destinationCurrency);
-    
+    const queried = providers
+      ? this.providers.filter(provider => providers.includes(provider.name))
+      : this.providers;
+
+    const quotes = await Promise.all(queried.map(async provider => {
+      try {
+        return await provider.getRate(sourceCurrency, destinationCurrency);
+      } catch (error) {
+        console.warn(`Rate provider ${provider.name} failed for ${sourceCurrency}/${destinationCurrency}:`, (error as Error).message);
+        return undefined;
+      }
+    }));
+
+    const now = Date.now();
+    const candidates: RateCandidate[] = [];
+    queried.forEach((provider, i) => {
+      const quote = quotes[i];
+      if (quote) {
+        const ageSeconds = (now - new Date(quote.as_of).getTime()) / 1000;
+        candidates.push({ ...quote, status: ageSeconds > provider.maxAgeSeconds ? 'stale' : 'candidate' });
+      }
+    });
+
+    const fresh = candidates.filter(candidate => candidate.status === 'candidate');
+    if (fresh.length >= 3) {
+      const sorted = fresh.map(candidate => candidate.rate).sort((a, b) => a - b);
+      const middle = Math.floor(sorted.length / 2);
+      const median = sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+
+      for (const candidate of fresh) {
+        if (Math.abs(candidate.rate / median - 1) * 10000 > this.outlierThresholdBps) {
+          candidate.status = 'outlier';
+        }
+      }
+    }
+
+    const best = candidates
+      .filter(candidate => candidate.status === 'candidate')
+      .reduce<RateCandidate | undefined>((top, candidate) => (!top || candidate.rate > top.rate ? candidate : top), undefined);
+
+    if (best) {
+      best.status = 'selected';
+    }
+    if (candidates.length > 0) {
+      await this.recordCandidates(sourceCurrency, destinationCurrency, candidates);
+    }
+
+    if (!best) {
+      throw new ExchangeRateError(
+        `No exchange rate available for ${sourceCurrency} to ${destinationCurrency}`,
+        'EXCHANGE_RATE_UNAVAILABLE',
+        503,
+        { providers: queried.map(provider => provider.name), candidates }
+      );
+    }
+
     return {
-      rate,
-      provider: 'mock_provider',
-      timestamp: new Date().toISOString()
+      rate: normalizeDecimal(best.rate),
+      provider: best.provider,
+      timestamp: best.as_of,
+      candidates
     };
   }
-} 
\ No newline at end of file
+}
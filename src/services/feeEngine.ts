@@ -1,5 +1,6 @@
 import { Database } from '../database/database.js';
-import { FeeConfig, FeeCalculation } from '../types/payment.js';
+import { FeeConfig, FeeCalculation, PaymentAmounts } from '../types/payment.js';
+import { Money } from '../types/money.js';
 
 export class FeeEngine {
   private db: Database;
@@ -13,7 +14,7 @@ export class FeeEngine {
    */
   async calculateFees(
     destinationCurrency: string,
-    destinationAmount: number
+    destinationAmount: Money
   ): Promise<FeeCalculation> {
     const feeConfig = await this.getFeeConfig(destinationCurrency);
     
@@ -21,25 +22,23 @@ export class FeeEngine {
       throw new Error(`Fee configuration not found for currency: ${destinationCurrency}`);
     }
 
-    const baseFee = feeConfig.base_fee;
-    const percentageFeeAmount = destinationAmount * feeConfig.percentage_fee;
-    const rawTotalFee = baseFee + percentageFeeAmount;
+    const currency = destinationAmount.currency;
+    const baseFee = Money.fromMinor(feeConfig.base_fee, currency);
+    const percentageFeeAmount = destinationAmount.multiply(feeConfig.percentage_fee);
+    const rawTotalFee = baseFee.add(percentageFeeAmount);
 
     // Apply minimum and maximum fee constraints
-    let totalFee = Math.max(rawTotalFee, feeConfig.minimum_fee);
+    let totalFee = Money.max(rawTotalFee, Money.fromMinor(feeConfig.minimum_fee, currency));
     
-    if (feeConfig.maximum_fee && totalFee > feeConfig.maximum_fee) {
-      totalFee = feeConfig.maximum_fee;
+    if (feeConfig.maximum_fee !== null && feeConfig.maximum_fee !== undefined) {
+      totalFee = Money.min(totalFee, Money.fromMinor(feeConfig.maximum_fee, currency));
     }
 
-    // Round to 2 decimal places
-    totalFee = Math.round(totalFee * 100) / 100;
-
     return {
       base_fee: baseFee,
       percentage_fee: percentageFeeAmount,
       total_fee: totalFee,
-      currency: destinationCurrency
+      currency
     };
   }
 
@@ -67,35 +66,49 @@ export class FeeEngine {
    */
   async updateFeeConfig(
     currency: string,
-    baseFee: number,
+    baseFee: Money,
     percentageFee: number,
-    minimumFee: number,
-    maximumFee?: number
+    minimumFee: Money,
+    maximumFee?: Money
   ): Promise<void> {
     await this.db.run(
       `INSERT OR REPLACE INTO fee_configs 
        (currency, base_fee, percentage_fee, minimum_fee, maximum_fee) 
        VALUES (?, ?, ?, ?, ?)`,
-      [currency.toUpperCase(), baseFee, percentageFee, minimumFee, maximumFee]
+      [
+        currency.toUpperCase(),
+        baseFee.toMinorNumber(),
+        percentageFee,
+        minimumFee.toMinorNumber(),
+        maximumFee ? maximumFee.toMinorNumber() : null
+      ]
     );
   }
 
   /**
-   * Calculate total amount including fees (for display purposes)
+   * Price a transfer: convert the source amount, apply destination currency
+   * fees and charge them in the source currency on top of the source amount
    */
   async calculateTotalAmount(
-    sourceAmount: number,
-    sourceCurrency: string,
+    sourceAmount: Money,
     destinationCurrency: string,
-    exchangeRate: number
-  ): Promise<{ destinationAmount: number; feeAmount: number; totalAmount: number }> {
-    const destinationAmount = sourceAmount * exchangeRate;
+    exchangeRate: string
+  ): Promise<PaymentAmounts> {
+    const destinationAmount = sourceAmount.convert(exchangeRate, destinationCurrency);
     const feeCalculation = await this.calculateFees(destinationCurrency, destinationAmount);
-    
+
+    // Round the fee once, in the source currency, then add it: the total is
+    // never rounded on its own so source + fee = total holds exactly
+    const feeAmount = feeCalculation.total_fee.convertInverse(exchangeRate, sourceAmount.currency);
+    const totalAmount = sourceAmount.add(feeAmount);
+
     return {
-      destinationAmount: Math.round(destinationAmount * 100) / 100,
-      feeAmount: feeCalculation.total_fee,
-      totalAmount: Math.round((sourceAmount + (feeCalculation.total_fee / exchangeRate)) * 100) / 100
+      source_amount: sourceAmount,
+      destination_amount: destinationAmount,
+      exchange_rate: exchangeRate,
+      fee_breakdown: feeCalculation,
+      fee_amount: feeAmount,
+      total_amount: totalAmount
     };
   }
 
@@ -111,34 +124,30 @@ export class FeeEngine {
    * Get fee estimate for display purposes
    */
   async getFeeEstimate(
-    sourceAmount: number,
-    sourceCurrency: string,
+    sourceAmount: Money,
     destinationCurrency: string,
-    exchangeRate: number
+    exchangeRate: string
   ): Promise<{
-    source_amount: number;
+    source_amount: Money;
     source_currency: string;
-    destination_amount: number;
+    destination_amount: Money;
     destination_currency: string;
-    exchange_rate: number;
+    exchange_rate: string;
     fee_breakdown: FeeCalculation;
-    total_cost: number;
+    fee_amount: Money;
+    total_cost: Money;
   }> {
-    const destinationAmount = sourceAmount * exchangeRate;
-    const feeCalculation = await this.calculateFees(destinationCurrency, destinationAmount);
-    
-    // Calculate total cost in source currency (including fees converted back)
-    const feeInSourceCurrency = feeCalculation.total_fee / exchangeRate;
-    const totalCost = sourceAmount + feeInSourceCurrency;
+    const amounts = await this.calculateTotalAmount(sourceAmount, destinationCurrency, exchangeRate);
 
     return {
-      source_amount: sourceAmount,
-      source_currency: sourceCurrency,
-      destination_amount: Math.round(destinationAmount * 100) / 100,
-      destination_currency: destinationCurrency,
-      exchange_rate: exchangeRate,
-      fee_breakdown: feeCalculation,
-      total_cost: Math.round(totalCost * 100) / 100
+      source_amount: amounts.source_amount,
+      source_currency: sourceAmount.currency,
+      destination_amount: amounts.destination_amount,
+      destination_currency: amounts.destination_amount.currency,
+      exchange_rate: amounts.exchange_rate,
+      fee_breakdown: amounts.fee_breakdown,
+      fee_amount: amounts.fee_amount,
+      total_cost: amounts.total_amount
     };
   }
-} 
\ No newline at end of file
+}
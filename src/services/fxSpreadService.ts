@@ -0,0 +1,184 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Database } from '../database/database.js';
+import { ApiError } from '../types/errors.js';
+import { Money, applySpreadBps } from '../types/money.js';
+import { CreateFxSpreadRequest, FxSpread, UpdateFxSpreadRequest } from '../types/payment.js';
+
+export class FxSpreadError extends ApiError {}
+
+// Tier of users and API keys until an admin assigns another
+export const DEFAULT_TIER = 'standard';
+
+const WILDCARD = '*';
+
+/**
+ * Who is being priced: the owner of the quote or payment, and the API key
+ * acting for them, if any
+ */
+export interface FxCustomer {
+  user_id?: string;
+  api_key_id?: string;
+}
+
+export interface FxPricing {
+  mid_rate: string;
+  exchange_rate: string; // Customer rate: mid_rate less spread_bps
+  spread_bps: number;
+  spread_id?: string; // Configured spread that applied; absent when FX_DEFAULT_SPREAD_BPS did
+  spread_amount: Money; // What the spread earns, in the source currency
+}
+
+/**
+ * FX margin on top of the mid-market rate. Spreads are configured per
+ * currency pair for everyone, for a customer tier or for one API key. The
+ * most specific customer match wins (API key, then tier, then everyone),
+ * then the most specific pair (exact currencies before "*"). Without any
+ * match FX_DEFAULT_SPREAD_BPS applies.
+ */
+export class FxSpreadService {
+  private db: Database;
+  private defaultSpreadBps: number = parseInt(process.env.FX_DEFAULT_SPREAD_BPS || '0', 10);
+
+  constructor() {
+    this.db = Database.getInstance();
+  }
+
+  /**
+   * Price a conversion for a customer: the mid-market rate less their
+   * spread, and what the spread earns on the source amount
+   */
+  async priceRate(
+    sourceAmount: Money,
+    destinationCurrency: string,
+    midRate: string,
+    customer: FxCustomer = {}
+  ): Promise<FxPricing> {
+    if (sourceAmount.currency === destinationCurrency) {
+      return { mid_rate: midRate, exchange_rate: midRate, spread_bps: 0, spread_amount: Money.zero(sourceAmount.currency) };
+    }
+
+    const spread = await this.resolveSpread(sourceAmount.currency, destinationCurrency, customer);
+    const spreadBps = spread ? spread.spread_bps : this.defaultSpreadBps;
+
+    return {
+      mid_rate: midRate,
+      exchange_rate: applySpreadBps(midRate, spreadBps),
+      spread_bps: spreadBps,
+      spread_id: spread?.id,
+      spread_amount: sourceAmount.multiply(spreadBps / 10000)
+    };
+  }
+
+  /**
+   * The configured spread that applies to a customer on a pair, if any
+   */
+  async resolveSpread(
+    sourceCurrency: string,
+    destinationCurrency: string,
+    customer: FxCustomer = {}
+  ): Promise<FxSpread | undefined> {
+    const tier = await this.getCustomerTier(customer);
+
+    const spreads = await this.db.all<FxSpread>(
+      `SELECT * FROM fx_spreads
+       WHERE source_currency IN (?, ?) AND destination_currency IN (?, ?)
+       AND (api_key_id = ? OR (api_key_id IS NULL AND (tier = ? OR tier IS NULL)))`,
+      [sourceCurrency, WILDCARD, destinationCurrency, WILDCARD, customer.api_key_id ?? null, tier]
+    );
+
+    const rank = (spread: FxSpread) =>
+      (spread.api_key_id ? 0 : spread.tier ? 10 : 20)
+      + (spread.source_currency === WILDCARD ? 1 : 0)
+      + (spread.destination_currency === WILDCARD ? 1 : 0);
+
+    return spreads.sort((a, b) => rank(a) - rank(b))[0];
+  }
+
+  /**
+   * Tier of the API key acting, or else of the user
+   */
+  async getCustomerTier(customer: FxCustomer): Promise<string> {
+    let row: { tier: string } | undefined;
+    if (customer.api_key_id) {
+      row = await this.db.get<{ tier: string }>('SELECT tier FROM api_keys WHERE id = ?', [customer.api_key_id]);
+    } else if (customer.user_id) {
+      row = await this.db.get<{ tier: string }>('SELECT tier FROM users WHERE id = ?', [customer.user_id]);
+    }
+    return row?.tier || DEFAULT_TIER;
+  }
+
+  async listSpreads(): Promise<FxSpread[]> {
+    return await this.db.all<FxSpread>(
+      'SELECT * FROM fx_spreads ORDER BY source_currency, destination_currency, api_key_id, tier'
+    );
+  }
+
+  async getSpreadById(spreadId: string): Promise<FxSpread | undefined> {
+    return await this.db.get<FxSpread>('SELECT * FROM fx_spreads WHERE id = ?', [spreadId]);
+  }
+
+  /**
+   * Add a spread. Each pair has at most one spread per scope (everyone, a
+   * tier or an API key).
+   */
+  async createSpread(request: CreateFxSpreadRequest): Promise<FxSpread> {
+    if (request.api_key_id) {
+      const apiKey = await this.db.get('SELECT id FROM api_keys WHERE id = ?', [request.api_key_id]);
+      if (!apiKey) {
+        throw new FxSpreadError('API key not found', 'API_KEY_NOT_FOUND', 404);
+      }
+    }
+
+    const spread = {
+      source_currency: request.source_currency.toUpperCase(),
+      destination_currency: request.destination_currency.toUpperCase(),
+      tier: request.tier || null,
+      api_key_id: request.api_key_id || null
+    };
+
+    const existing = await this.db.get<FxSpread>(
+      `SELECT * FROM fx_spreads
+       WHERE source_currency = ? AND destination_currency = ? AND tier IS ? AND api_key_id IS ?`,
+      [spread.source_currency, spread.destination_currency, spread.tier, spread.api_key_id]
+    );
+    if (existing) {
+      throw new FxSpreadError('A spread already exists for this pair and scope', 'FX_SPREAD_EXISTS', 409, {
+        spread_id: existing.id
+      });
+    }
+
+    const spreadId = uuidv4();
+    await this.db.run(
+      `INSERT INTO fx_spreads (id, source_currency, destination_currency, tier, api_key_id, spread_bps)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [spreadId, spread.source_currency, spread.destination_currency, spread.tier, spread.api_key_id, request.spread_bps]
+    );
+
+    return (await this.getSpreadById(spreadId))!;
+  }
+
+  async updateSpread(spreadId: string, request: UpdateFxSpreadRequest): Promise<FxSpread | undefined> {
+    const result = await this.db.run(
+      'UPDATE fx_spreads SET spread_bps = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+      [request.spread_bps, spreadId]
+    );
+    return result.changes > 0 ? await this.getSpreadById(spreadId) : undefined;
+  }
+
+  async deleteSpread(spreadId: string): Promise<boolean> {
+    const result = await this.db.run('DELETE FROM fx_spreads WHERE id = ?', [spreadId]);
+    return result.changes > 0;
+  }
+
+  /**
+   * Move a user or API key to a pricing tier. Returns false if there is no such principal.
+   */
+  async setTier(principal: 'user' | 'api_key', principalId: string, tier: string): Promise<boolean> {
+    const table = principal === 'user' ? 'users' : 'api_keys';
+    const result = await this.db.run(
+      `UPDATE ${table} SET tier = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
+      [tier, principalId]
+    );
+    return result.changes > 0;
+  }
+}
@@ -0,0 +1,497 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Database } from '../database/database.js';
+import { Money } from '../types/money.js';
+import { ApiError } from '../types/errors.js';
+import {
+  Payment,
+  PaymentStatus,
+  Transaction,
+  TransactionType,
+  TransactionStatus
+} from '../types/payment.js';
+import {
+  LedgerAccount,
+  LedgerAccountCategory,
+  LedgerAccountRef,
+  LedgerAccountType,
+  ProviderDirection,
+  JournalEntry,
+  JournalLine,
+  JournalEntryResponse,
+  PostEntryRequest,
+  AccountBalance,
+  TrialBalance
+} from '../types/ledger.js';
+
+export class LedgerError extends ApiError {}
+
+const ACCOUNT_TYPES: Record<LedgerAccountCategory, LedgerAccountType> = {
+  [LedgerAccountCategory.CUSTOMER_FUNDING]: LedgerAccountType.LIABILITY,
+  [LedgerAccountCategory.FX_SUSPENSE]: LedgerAccountType.LIABILITY,
+  [LedgerAccountCategory.FEE_REVENUE]: LedgerAccountType.REVENUE,
+  [LedgerAccountCategory.FX_SPREAD_REVENUE]: LedgerAccountType.REVENUE,
+  [LedgerAccountCategory.PROVIDER_CLEARING]: LedgerAccountType.ASSET
+};
+
+interface AccountTotalsRow extends LedgerAccount {
+  total_debits: number;
+  total_credits: number;
+}
+
+/**
+ * Double-entry ledger for payment money movements.
+ *
+ * Postings, with S the source and D the destination currency:
+ * - onramp settled:      Dr provider_clearing:onramp (S)   Cr customer_funding (S)          total
+ * - onramp_complete:     Dr customer_funding (S) total      Cr fee_revenue (S) fee, Cr fx_spread_revenue (S) spread,
+ *                                                           Cr fx_suspense (S) source - spread
+ * - offramp settled:     Dr fx_suspense (D)                 Cr provider_clearing:offramp (D) destination
+ * - failed / cancelled:  reversal of onramp_complete, if it was posted
+ * - refund settled:      Dr customer_funding (S)            Cr provider_clearing:onramp (S)  refund
+ *
+ * Other status changes move no money and post nothing. Direct onramp and
+ * offramp transactions post against customer_funding in the transaction currency.
+ * Entries are immutable; every entry has an idempotency key so replays post once.
+ */
+export class LedgerService {
+  private db: Database;
+
+  constructor() {
+    this.db = Database.getInstance();
+  }
+
+  /**
+   * Post a balanced journal entry. Returns the existing entry if one was
+   * already posted with the same idempotency key.
+   */
+  async postEntry(request: PostEntryRequest): Promise<JournalEntry> {
+    this.assertBalanced(request);
+
+    return await this.db.transaction(async () => {
+      const existing = await this.getEntryByIdempotencyKey(request.idempotency_key);
+      if (existing) {
+        return existing;
+      }
+
+      const entryId = uuidv4();
+      await this.db.run(
+        `INSERT INTO journal_entries
+         (id, idempotency_key, payment_id, transaction_id, event_type, description, reverses_entry_id)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [
+          entryId,
+          request.idempotency_key,
+          request.payment_id || null,
+          request.transaction_id || null,
+          request.event_type,
+          request.description || null,
+          request.reverses_entry_id || null
+        ]
+      );
+
+      for (const line of request.lines) {
+        const amount = (line.debit || line.credit)!;
+        const accountId = await this.ensureAccount(line.account);
+
+        await this.db.run(
+          `INSERT INTO journal_lines (entry_id, account_id, currency, debit, credit)
+           VALUES (?, ?, ?, ?, ?)`,
+          [
+            entryId,
+            accountId,
+            amount.currency,
+            line.debit ? line.debit.toMinorNumber() : 0,
+            line.credit ? line.credit.toMinorNumber() : 0
+          ]
+        );
+      }
+
+      return (await this.getEntryByIdempotencyKey(request.idempotency_key))!;
+    });
+  }
+
+  /**
+   * Post the mirror image of an entry, once per entry
+   */
+  async reverseEntry(entry: JournalEntry, eventType: string, description?: string): Promise<JournalEntry> {
+    const lines = await this.getEntryLines(entry.id);
+
+    return await this.postEntry({
+      idempotency_key: `${entry.idempotency_key}:reversal`,
+      event_type: eventType,
+      description: description || `Reversal of ${entry.event_type}`,
+      payment_id: entry.payment_id,
+      transaction_id: entry.transaction_id,
+      reverses_entry_id: entry.id,
+      lines: await Promise.all(lines.map(async line => {
+        const account = await this.getAccountById(line.account_id);
+        const ref = this.accountToRef(account!);
+        return line.debit > 0
+          ? { account: ref, credit: Money.fromMinor(line.debit, line.currency) }
+          : { account: ref, debit: Money.fromMinor(line.credit, line.currency) };
+      }))
+    });
+  }
+
+  /**
+   * Post the entries for a payment status change. `payment` is the row as it
+   * was before the change.
+   */
+  async postPaymentStatusChange(payment: Payment, toStatus: PaymentStatus): Promise<JournalEntry | undefined> {
+    const committedKey = `payment:${payment.id}:funds_committed`;
+
+    switch (toStatus) {
+    case PaymentStatus.ONRAMP_COMPLETE: {
+      const total = Money.fromMinor(payment.total_amount, payment.source_currency);
+      const fee = Money.fromMinor(payment.fee_amount, payment.source_currency);
+      const spread = Money.fromMinor(payment.spread_amount || 0, payment.source_currency);
+      const converted = Money.fromMinor(payment.source_amount, payment.source_currency).subtract(spread);
+
+      return await this.postEntry({
+        idempotency_key: committedKey,
+        event_type: 'payment.onramp_complete',
+        description: `Collected funds committed to payment ${payment.id}`,
+        payment_id: payment.id,
+        lines: [
+          { account: this.account(LedgerAccountCategory.CUSTOMER_FUNDING, total.currency), debit: total },
+          { account: this.account(LedgerAccountCategory.FEE_REVENUE, fee.currency), credit: fee },
+          { account: this.account(LedgerAccountCategory.FX_SPREAD_REVENUE, spread.currency), credit: spread },
+          { account: this.account(LedgerAccountCategory.FX_SUSPENSE, converted.currency), credit: converted }
+        ].filter(line => !(line.debit || line.credit).isZero())
+      });
+    }
+
+    case PaymentStatus.FAILED:
+    case PaymentStatus.CANCELLED: {
+      const committed = await this.getEntryByIdempotencyKey(committedKey);
+      if (!committed) {
+        return undefined;
+      }
+      return await this.reverseEntry(
+        committed,
+        `payment.${toStatus}`,
+        `Payment ${payment.id} ${toStatus}, funds returned to customer funding`
+      );
+    }
+
+    default:
+      return undefined;
+    }
+  }
+
+  /**
+   * Post the entry for a settled provider transaction
+   */
+  async postTransactionSettlement(transactionId: string): Promise<JournalEntry | undefined> {
+    const transaction = await this.db.get<Transaction>(
+      'SELECT * FROM transactions WHERE id = ?',
+      [transactionId]
+    );
+
+    if (!transaction || transaction.status !== TransactionStatus.COMPLETED) {
+      return undefined;
+    }
+
+    const amount = Money.fromMinor(transaction.amount, transaction.currency);
+    const base = {
+      idempotency_key: `transaction:${transaction.id}:settled`,
+      payment_id: transaction.payment_id || undefined,
+      transaction_id: transaction.id
+    };
+
+    if (transaction.type === TransactionType.ONRAMP) {
+      return await this.postEntry({
+        ...base,
+        event_type: 'transaction.onramp_settled',
+        description: `Onramp collection via ${transaction.provider}`,
+        lines: [
+          {
+            account: this.account(LedgerAccountCategory.PROVIDER_CLEARING, amount.currency, transaction.provider, ProviderDirection.ONRAMP),
+            debit: amount
+          },
+          { account: this.account(LedgerAccountCategory.CUSTOMER_FUNDING, amount.currency), credit: amount }
+        ]
+      });
+    }
+
+    if (transaction.type === TransactionType.OFFRAMP) {
+      // Payment payouts are funded from the FX position, direct payouts from customer funds
+      const fundingCategory = transaction.payment_id
+        ? LedgerAccountCategory.FX_SUSPENSE
+        : LedgerAccountCategory.CUSTOMER_FUNDING;
+
+      return await this.postEntry({
+        ...base,
+        event_type: 'transaction.offramp_settled',
+        description: `Offramp payout via ${transaction.provider}`,
+        lines: [
+          { account: this.account(fundingCategory, amount.currency), debit: amount },
+          {
+            account: this.account(LedgerAccountCategory.PROVIDER_CLEARING, amount.currency, transaction.provider, ProviderDirection.OFFRAMP),
+            credit: amount
+          }
+        ]
+      });
+    }
+
+    if (transaction.type === TransactionType.REFUND) {
+      return await this.postEntry({
+        ...base,
+        event_type: 'transaction.refund_settled',
+        description: `Refund to payer via ${transaction.provider}`,
+        lines: [
+          { account: this.account(LedgerAccountCategory.CUSTOMER_FUNDING, amount.currency), debit: amount },
+          {
+            account: this.account(LedgerAccountCategory.PROVIDER_CLEARING, amount.currency, transaction.provider, ProviderDirection.ONRAMP),
+            credit: amount
+          }
+        ]
+      });
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Get balances for all accounts, optionally filtered by currency or category
+   */
+  async getAccountBalances(filters: { currency?: string; category?: string } = {}): Promise<AccountBalance[]> {
+    let query = `
+      SELECT a.*,
+             COALESCE(SUM(l.debit), 0) AS total_debits,
+             COALESCE(SUM(l.credit), 0) AS total_credits
+      FROM ledger_accounts a
+      LEFT JOIN journal_lines l ON l.account_id = a.id
+      WHERE 1=1
+    `;
+    const params: unknown[] = [];
+
+    if (filters.currency) {
+      query += ' AND a.currency = ?';
+      params.push(filters.currency.toUpperCase());
+    }
+    if (filters.category) {
+      query += ' AND a.category = ?';
+      params.push(filters.category);
+    }
+
+    query += ' GROUP BY a.id ORDER BY a.currency, a.id';
+
+    const rows = await this.db.all<AccountTotalsRow>(query, params);
+
+    return rows.map(row => {
+      const debits = Money.fromMinor(row.total_debits, row.currency);
+      const credits = Money.fromMinor(row.total_credits, row.currency);
+      const balance = row.type === LedgerAccountType.ASSET
+        ? debits.subtract(credits)
+        : credits.subtract(debits);
+
+      return {
+        account_id: row.id,
+        name: row.name,
+        category: row.category,
+        type: row.type,
+        currency: row.currency,
+        provider: row.provider || undefined,
+        total_debits: debits.toMajorString(),
+        total_credits: credits.toMajorString(),
+        balance: balance.toMajorString()
+      };
+    });
+  }
+
+  /**
+   * Sum debits and credits per currency; every currency must balance
+   */
+  async getTrialBalance(): Promise<TrialBalance> {
+    const rows = await this.db.all<AccountTotalsRow>(`
+      SELECT a.*,
+             COALESCE(SUM(l.debit), 0) AS total_debits,
+             COALESCE(SUM(l.credit), 0) AS total_credits
+      FROM ledger_accounts a
+      LEFT JOIN journal_lines l ON l.account_id = a.id
+      GROUP BY a.id
+      ORDER BY a.currency, a.id
+    `);
+
+    const totals = new Map<string, { debits: Money; credits: Money }>();
+    const accounts: TrialBalance['accounts'] = [];
+
+    for (const row of rows) {
+      const debits = Money.fromMinor(row.total_debits, row.currency);
+      const credits = Money.fromMinor(row.total_credits, row.currency);
+      const net = debits.subtract(credits);
+      const zero = Money.zero(row.currency);
+
+      const currencyTotals = totals.get(row.currency) || { debits: zero, credits: zero };
+      totals.set(row.currency, {
+        debits: currencyTotals.debits.add(debits),
+        credits: currencyTotals.credits.add(credits)
+      });
+
+      accounts.push({
+        account_id: row.id,
+        name: row.name,
+        currency: row.currency,
+        debit_balance: (net.isPositive() ? net : zero).toMajorString(),
+        credit_balance: (net.isNegative() ? zero.subtract(net) : zero).toMajorString()
+      });
+    }
+
+    const currencies = Array.from(totals.entries()).map(([currency, { debits, credits }]) => ({
+      currency,
+      total_debits: debits.toMajorString(),
+      total_credits: credits.toMajorString(),
+      balanced: debits.equals(credits)
+    }));
+
+    return {
+      balanced: currencies.every(currency => currency.balanced),
+      currencies,
+      accounts,
+      generated_at: new Date().toISOString()
+    };
+  }
+
+  /**
+   * Get all journal entries posted for a payment, including its provider transactions
+   */
+  async getPaymentEntries(paymentId: string): Promise<JournalEntryResponse[]> {
+    const entries = await this.db.all<JournalEntry>(
+      'SELECT * FROM journal_entries WHERE payment_id = ? ORDER BY created_at ASC, rowid ASC',
+      [paymentId]
+    );
+
+    return await Promise.all(entries.map(async entry => this.entryToResponse(
+      entry,
+      await this.getEntryLines(entry.id)
+    )));
+  }
+
+  /**
+   * Get entry by idempotency key
+   */
+  private async getEntryByIdempotencyKey(idempotencyKey: string): Promise<JournalEntry | undefined> {
+    return await this.db.get<JournalEntry>(
+      'SELECT * FROM journal_entries WHERE idempotency_key = ?',
+      [idempotencyKey]
+    );
+  }
+
+  /**
+   * Get the lines of an entry
+   */
+  private async getEntryLines(entryId: string): Promise<JournalLine[]> {
+    return await this.db.all<JournalLine>(
+      'SELECT * FROM journal_lines WHERE entry_id = ? ORDER BY id ASC',
+      [entryId]
+    );
+  }
+
+  /**
+   * Get account by ID
+   */
+  private async getAccountById(accountId: string): Promise<LedgerAccount | undefined> {
+    return await this.db.get<LedgerAccount>(
+      'SELECT * FROM ledger_accounts WHERE id = ?',
+      [accountId]
+    );
+  }
+
+  /**
+   * Create the referenced account if it does not exist yet and return its id
+   */
+  private async ensureAccount(ref: LedgerAccountRef): Promise<string> {
+    const id = this.getAccountId(ref);
+    const owner = ref.provider ? ` - ${ref.direction} ${ref.provider}` : '';
+    const name = `${ref.category.replace(/_/g, ' ')}${owner} (${ref.currency})`;
+
+    await this.db.run(
+      `INSERT OR IGNORE INTO ledger_accounts (id, category, type, currency, provider, name)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [id, ref.category, ACCOUNT_TYPES[ref.category], ref.currency, ref.provider || null, name]
+    );
+
+    return id;
+  }
+
+  private getAccountId(ref: LedgerAccountRef): string {
+    return ref.provider
+      ? `${ref.category}:${ref.direction}:${ref.provider}:${ref.currency}`
+      : `${ref.category}:${ref.currency}`;
+  }
+
+  private account(
+    category: LedgerAccountCategory,
+    currency: string,
+    provider?: string,
+    direction?: ProviderDirection
+  ): LedgerAccountRef {
+    return { category, currency, provider, direction };
+  }
+
+  private accountToRef(account: LedgerAccount): LedgerAccountRef {
+    const direction = account.provider ? account.id.split(':')[1] as ProviderDirection : undefined;
+    return this.account(account.category, account.currency, account.provider || undefined, direction);
+  }
+
+  /**
+   * Reject entries whose debits and credits differ in any currency
+   */
+  private assertBalanced(request: PostEntryRequest): void {
+    if (request.lines.length < 2) {
+      throw new LedgerError(
+        `Journal entry ${request.idempotency_key} needs at least two lines`,
+        'INVALID_JOURNAL_ENTRY',
+        500
+      );
+    }
+
+    const net = new Map<string, Money>();
+
+    for (const line of request.lines) {
+      const amount = line.debit || line.credit;
+      if ((line.debit && line.credit) || !amount || !amount.isPositive() || amount.currency !== line.account.currency) {
+        throw new LedgerError(
+          `Journal entry ${request.idempotency_key} has an invalid line for ${this.getAccountId(line.account)}`,
+          'INVALID_JOURNAL_ENTRY',
+          500
+        );
+      }
+
+      const current = net.get(amount.currency) || Money.zero(amount.currency);
+      net.set(amount.currency, line.debit ? current.add(amount) : current.subtract(amount));
+    }
+
+    const unbalanced = Array.from(net.values()).filter(amount => !amount.isZero());
+    if (unbalanced.length > 0) {
+      throw new LedgerError(
+        `Journal entry ${request.idempotency_key} does not balance`,
+        'UNBALANCED_JOURNAL_ENTRY',
+        500,
+        { differences: unbalanced.map(amount => amount.toString()) }
+      );
+    }
+  }
+
+  /**
+   * Convert entry to response format
+   */
+  private entryToResponse(entry: JournalEntry, lines: JournalLine[]): JournalEntryResponse {
+    return {
+      id: entry.id,
+      payment_id: entry.payment_id || undefined,
+      transaction_id: entry.transaction_id || undefined,
+      event_type: entry.event_type,
+      description: entry.description || undefined,
+      reverses_entry_id: entry.reverses_entry_id || undefined,
+      lines: lines.map(line => ({
+        account_id: line.account_id,
+        currency: line.currency,
+        debit: Money.fromMinor(line.debit, line.currency).toMajorString(),
+        credit: Money.fromMinor(line.credit, line.currency).toMajorString()
+      })),
+      created_at: entry.created_at
+    };
+  }
+}
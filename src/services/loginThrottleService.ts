@@ -0,0 +1,166 @@
+import { Database } from '../database/database.js';
+import { ApiError } from '../types/errors.js';
+
+export class LoginThrottleError extends ApiError {}
+
+export interface LoginFailureResult {
+  email_failures: number;
+  ip_failures: number;
+  locked_until?: string;
+}
+
+interface ThrottleRecord {
+  key: string;
+  failure_count: number;
+  last_failure_at: string;
+  next_attempt_at?: string;
+  locked_until?: string;
+}
+
+/**
+ * Tracks failed logins per email and per IP address. Each failure pushes the
+ * next allowed attempt back exponentially, and too many failures lock the
+ * email (or block the IP) for a while. Emails are tracked whether or not an
+ * account exists, so the responses never reveal which emails are registered.
+ */
+export class LoginThrottleService {
+  private db: Database;
+  private maxEmailFailures: number = parseInt(process.env.LOGIN_MAX_FAILURES || '5', 10);
+  private maxIpFailures: number = parseInt(process.env.LOGIN_MAX_IP_FAILURES || '20', 10);
+  private lockoutMinutes: number = parseInt(process.env.LOGIN_LOCKOUT_MINUTES || '15', 10);
+  private maxBackoffSeconds: number = parseInt(process.env.LOGIN_MAX_BACKOFF_SECONDS || '60', 10);
+  private failureWindowMinutes: number = 15;
+
+  constructor() {
+    this.db = Database.getInstance();
+  }
+
+  /**
+   * Throw ACCOUNT_LOCKED (423) while the email is locked, and LOGIN_THROTTLED
+   * (429) while the email or IP is backing off or the IP is blocked
+   */
+  async assertCanAttempt(email: string, ip: string): Promise<void> {
+    const now = new Date().toISOString();
+    const emailRecord = await this.getRecord(this.emailKey(email));
+    const ipRecord = await this.getRecord(this.ipKey(ip));
+
+    if (emailRecord?.locked_until && emailRecord.locked_until > now) {
+      throw new LoginThrottleError(
+        'Too many failed login attempts. Try again later.',
+        'ACCOUNT_LOCKED',
+        423,
+        { retry_after_seconds: this.secondsUntil(emailRecord.locked_until) }
+      );
+    }
+
+    const retryAt = [ipRecord?.locked_until, emailRecord?.next_attempt_at, ipRecord?.next_attempt_at]
+      .filter(until => until && until > now)
+      .sort()
+      .pop();
+
+    if (retryAt) {
+      throw new LoginThrottleError(
+        'Too many login attempts. Slow down and try again later.',
+        'LOGIN_THROTTLED',
+        429,
+        { retry_after_seconds: this.secondsUntil(retryAt) }
+      );
+    }
+  }
+
+  /**
+   * Count a failed login against the email and the IP
+   */
+  async recordFailure(email: string, ip: string): Promise<LoginFailureResult> {
+    const emailRecord = await this.incrementFailures(this.emailKey(email), this.maxEmailFailures);
+    const ipRecord = await this.incrementFailures(this.ipKey(ip), this.maxIpFailures);
+
+    return {
+      email_failures: emailRecord.failure_count,
+      ip_failures: ipRecord.failure_count,
+      locked_until: emailRecord.locked_until || undefined
+    };
+  }
+
+  /**
+   * Forget the email's failures after a successful login
+   */
+  async recordSuccess(email: string): Promise<void> {
+    await this.db.run('DELETE FROM login_throttles WHERE key = ?', [this.emailKey(email)]);
+  }
+
+  /**
+   * Lift a lockout. Returns false when the email had no recorded failures.
+   */
+  async unlock(email: string): Promise<boolean> {
+    const result = await this.db.run('DELETE FROM login_throttles WHERE key = ?', [this.emailKey(email)]);
+    return result.changes > 0;
+  }
+
+  private async incrementFailures(key: string, maxFailures: number): Promise<ThrottleRecord> {
+    return this.db.transaction(async () => {
+      const now = new Date();
+      const windowStart = new Date(now.getTime() - this.failureWindowMinutes * 60 * 1000).toISOString();
+      const existing = await this.getRecord(key);
+
+      // Failures outside the window, or from before an expired lockout, no longer count
+      const stale = !existing ||
+        existing.last_failure_at < windowStart ||
+        (existing.locked_until && existing.locked_until <= now.toISOString());
+      const failureCount = stale ? 1 : existing.failure_count + 1;
+
+      const record: ThrottleRecord = {
+        key,
+        failure_count: failureCount,
+        last_failure_at: now.toISOString(),
+        next_attempt_at: this.addSeconds(now, this.getBackoffSeconds(failureCount)),
+        locked_until: failureCount >= maxFailures
+          ? this.addSeconds(now, this.lockoutMinutes * 60)
+          : null
+      };
+
+      await this.db.run(
+        `INSERT INTO login_throttles (key, failure_count, last_failure_at, next_attempt_at, locked_until)
+         VALUES (?, ?, ?, ?, ?)
+         ON CONFLICT(key) DO UPDATE SET
+           failure_count = excluded.failure_count,
+           last_failure_at = excluded.last_failure_at,
+           next_attempt_at = excluded.next_attempt_at,
+           locked_until = excluded.locked_until`,
+        [record.key, record.failure_count, record.last_failure_at, record.next_attempt_at, record.locked_until]
+      );
+
+      return record;
+    });
+  }
+
+  /**
+   * The first failure is free; after that the wait doubles with each failure
+   */
+  private getBackoffSeconds(failureCount: number): number {
+    if (failureCount < 2) {
+      return 0;
+    }
+    return Math.min(2 ** (failureCount - 2), this.maxBackoffSeconds);
+  }
+
+  private async getRecord(key: string): Promise<ThrottleRecord | undefined> {
+    return await this.db.get<ThrottleRecord>('SELECT * FROM login_throttles WHERE key = ?', [key]);
+  }
+
+  private emailKey(email: string): string {
+    return `email:${email.trim().toLowerCase()}`;
+  }
+
+  private ipKey(ip: string): string {
+    return `ip:${ip || 'unknown'}`;
+  }
+
+  private addSeconds(date: Date, seconds: number): string {
+    return new Date(date.getTime() + seconds * 1000).toISOString();
+  }
+
+  private secondsUntil(isoTimestamp: string): number {
+    return Math.max(1, Math.ceil((new Date(isoTimestamp).getTime() - Date.now()) / 1000));
+  }
+}
@@ -1,141 +1,194 @@
 import { v4 as uuidv4 } from 'uuid';
 import { Database } from '../database/database.js';
-import { Transaction, TransactionType, TransactionStatus, OnrampTransactionRequest, OnrampTransactionResponse } from '../types/payment.js';
+import {
+  Transaction,
+  TransactionType,
+  TransactionStatus,
+  OnrampTransactionRequest,
+  OnrampTransactionResponse,
+  ProviderComparison,
+  RoutingPreference
+} from '../types/payment.js';
+import { Money } from '../types/money.js';
+import { LedgerService } from './ledgerService.js';
+import { EventStreamService } from './eventStreamService.js';
+import { PaymentProvider, PaymentProviderInfo, getPaymentProviders } from './paymentProviders.js';
+import { ProviderRoutingService } from './providerRoutingService.js';
+import { ProviderHealthService } from './providerHealthService.js';
+import { ProviderDirection } from '../types/ledger.js';
 
 export interface OnrampRequest {
   payment_id: string;
-  amount: number;
-  currency: string;
+  amount: Money;
   user_id: string;
   payment_method?: {
     type: 'card' | 'bank_transfer' | 'wire' | 'digital_wallet';
     details?: Record<string, any>;
   };
+  routing_preference?: RoutingPreference;
+  exclude_providers?: string[]; // Already tried for this payment
 }
 
 export interface OnrampResponse {
   transaction_id: string;
   external_reference: string;
   status: TransactionStatus;
-  amount: number;
-  currency: string;
+  amount: Money;
   provider: string;
   processing_time_estimate?: string;
   metadata?: Record<string, any>;
 }
 
-export interface ProviderInfo {
-  provider: string;
-  name: string;
-  description: string;
+export interface OnrampRefundRequest {
+  refund_id: string;
+  payment_id: string;
+  user_id: string;
+  amount: Money;
+  provider: string; // Provider that collected the funds
+  original_transaction_id?: string;
+}
+
+export interface ProviderInfo extends PaymentProviderInfo {
   limits: { min: number; max: number; currency: string };
-  processing_time: string;
   payment_methods: string[];
-  success_rate: number;
-  fees?: {
-    percentage?: number;
-    fixed?: number;
-    currency: string;
-  };
 }
 
 export class OnrampService {
   private db: Database;
-  private providers: ProviderInfo[] = [
-    {
-      provider: 'stripe',
-      name: 'Stripe',
-      description: 'Credit card and digital wallet payments',
-      limits: { min: 1, max: 10000, currency: 'USD' },
-      processing_time: '5 minutes',
-      payment_methods: ['card', 'digital_wallet'],
-      success_rate: 0.98,
-      fees: { percentage: 0.029, fixed: 0.30, currency: 'USD' }
-    },
-    {
-      provider: 'circle',
-      name: 'Circle',
-      description: 'Stablecoin and bank transfer',
-      limits: { min: 100, max: 100000, currency: 'USD' },
-      processing_time: '30 minutes',
-      payment_methods: ['bank_transfer', 'stablecoin'],
-      success_rate: 0.99,
-      fees: { percentage: 0.001, fixed: 0, currency: 'USD' }
-    },
-    {
-      provider: 'wire_transfer',
-      name: 'Wire Transfer',
-      description: 'Large amount wire transfers',
-      limits: { min: 50000, max: 1000000, currency: 'USD' },
-      processing_time: '24 hours',
-      payment_methods: ['wire'],
-      success_rate: 0.95,
-      fees: { percentage: 0, fixed: 25, currency: 'USD' }
-    }
-  ];
+  private ledgerService: LedgerService;
+  private eventStreamService: EventStreamService;
+  private routingService: ProviderRoutingService;
+  private healthService: ProviderHealthService;
+  private providers: PaymentProvider<ProviderInfo>[];
 
   constructor() {
     this.db = Database.getInstance();
+    this.ledgerService = new LedgerService();
+    this.eventStreamService = new EventStreamService();
+    this.routingService = new ProviderRoutingService();
+    this.healthService = new ProviderHealthService();
+    this.providers = getPaymentProviders<ProviderInfo>(ProviderDirection.ONRAMP);
   }
 
   /**
-   * Process USD collection via mock onramp providers
+   * Process USD collection through an onramp provider
    */
   async processUSDCollection(request: OnrampRequest): Promise<OnrampResponse> {
     // Validate request
     this.validateRequest(request);
     
-    // Select appropriate provider based on amount and payment method
-    const provider = this.selectProvider(request);
+    // Route to the best provider that takes the amount and payment method
+    const route = await this.routingService.route(this.providers, {
+      direction: ProviderDirection.ONRAMP,
+      amount: request.amount,
+      preference: request.routing_preference,
+      payment_method: request.payment_method?.type,
+      exclude: request.exclude_providers
+    });
+    const provider = route.provider;
     
     // Validate amount against provider limits
-    this.validateAmount(request.amount, provider);
+    this.validateAmount(request.amount, provider.info);
     
-    // Generate external reference (simulating provider's transaction ID)
-    const externalReference = this.generateExternalReference(provider.provider);
+    // Start the collection with the provider
+    const transactionId = uuidv4();
+    let initiation;
+    try {
+      initiation = await provider.initiate({ transaction_id: transactionId, amount: request.amount });
+    } catch (error) {
+      await this.healthService.recordOutcome(provider.info.provider, ProviderDirection.ONRAMP, false, (error as Error).message || 'initiation failed');
+      throw error;
+    }
     
     // Calculate fees
-    const fees = this.calculateFees(request.amount, provider);
+    const fees = await this.routingService.quoteFees(provider, request.amount);
     
     // Create transaction record
-    const transactionId = uuidv4();
     const metadata = {
-      provider: provider.provider,
+      provider: provider.info.provider,
       payment_method: request.payment_method,
       fees,
       created_at: new Date().toISOString(),
-      estimated_completion: this.getEstimatedCompletion(provider.provider),
-      success_rate: provider.success_rate
+      estimated_completion: initiation.estimated_completion,
+      success_rate: provider.info.success_rate
     };
 
     await this.db.run(
       `INSERT INTO transactions 
-       (id, payment_id, type, amount, currency, status, external_reference, provider, metadata)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+       (id, payment_id, user_id, type, amount, currency, status, external_reference, provider, metadata)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
       [
         transactionId,
         request.payment_id,
+        request.user_id,
         TransactionType.ONRAMP,
-        request.amount,
-        request.currency,
-        TransactionStatus.PROCESSING,
-        externalReference,
-        provider.provider,
+        request.amount.toMinorNumber(),
+        request.amount.currency,
+        initiation.status,
+        initiation.external_reference,
+        provider.info.provider,
         JSON.stringify(metadata)
       ]
     );
+    await this.routingService.recordDecision(route, transactionId, request.payment_id);
+    await this.eventStreamService.publishTransactionUpdate(transactionId);
 
-    // Simulate async processing
-    this.simulateAsyncProcessing(transactionId, provider);
+    return {
+      transaction_id: transactionId,
+      external_reference: initiation.external_reference,
+      status: initiation.status,
+      amount: request.amount,
+      provider: provider.info.provider,
+      processing_time_estimate: initiation.estimated_completion,
+      metadata
+    };
+  }
+
+  /**
+   * Return collected funds to the payer through the provider that collected them
+   */
+  async processRefund(request: OnrampRefundRequest): Promise<OnrampResponse> {
+    const provider = this.getAdapter(request.provider);
+    if (!provider) {
+      throw new Error(`Onramp provider ${request.provider} not found`);
+    }
+
+    const transactionId = uuidv4();
+    const initiation = await provider.initiate({ transaction_id: transactionId, amount: request.amount });
+    const metadata = {
+      provider: provider.info.provider,
+      refund_id: request.refund_id,
+      original_transaction_id: request.original_transaction_id,
+      created_at: new Date().toISOString(),
+      estimated_completion: initiation.estimated_completion
+    };
+
+    await this.db.run(
+      `INSERT INTO transactions 
+       (id, payment_id, user_id, type, amount, currency, status, external_reference, provider, metadata)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        transactionId,
+        request.payment_id,
+        request.user_id,
+        TransactionType.REFUND,
+        request.amount.toMinorNumber(),
+        request.amount.currency,
+        initiation.status,
+        initiation.external_reference,
+        provider.info.provider,
+        JSON.stringify(metadata)
+      ]
+    );
+    await this.eventStreamService.publishTransactionUpdate(transactionId);
 
     return {
       transaction_id: transactionId,
-      external_reference: externalReference,
-      status: TransactionStatus.PROCESSING,
+      external_reference: initiation.external_reference,
+      status: initiation.status,
       amount: request.amount,
-      currency: request.currency,
-      provider: provider.provider,
-      processing_time_estimate: this.getEstimatedCompletion(provider.provider),
+      provider: provider.info.provider,
+      processing_time_estimate: initiation.estimated_completion,
       metadata
     };
   }
@@ -167,7 +220,7 @@ export class OnrampService {
     return {
       id: transaction.id,
       status: transaction.status,
-      amount: transaction.amount,
+      amount: Money.fromMinor(transaction.amount, transaction.currency).toMajorString(),
       source_currency: metadata.source_currency || 'USD',
       destination_currency: transaction.currency,
       provider: transaction.provider || '',
@@ -179,20 +232,63 @@ export class OnrampService {
   }
 
   /**
-   * Cancel a transaction (if still processing)
+   * Cancel a transaction (if still processing). Returns false if the
+   * provider has already settled it.
    */
   async cancelTransaction(transactionId: string): Promise<boolean> {
-    const transaction = await this.getTransactionStatus(transactionId);
+    const transaction = await this.db.get<Transaction>(
+      'SELECT * FROM transactions WHERE id = ?',
+      [transactionId]
+    );
     
     if (!transaction || transaction.status !== TransactionStatus.PROCESSING) {
       return false;
     }
 
-    await this.db.run(
-      'UPDATE transactions SET status = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
-      [TransactionStatus.FAILED, transactionId]
+    const provider = this.getAdapter(transaction.provider || '');
+    if (provider && transaction.external_reference && !await provider.cancel(transaction.external_reference)) {
+      return false;
+    }
+
+    const result = await this.db.run(
+      'UPDATE transactions SET status = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ? AND status = ?',
+      [TransactionStatus.CANCELLED, transactionId, TransactionStatus.PROCESSING]
+    );
+    if (result.changes > 0) {
+      // A cancelled trial says nothing about the provider; a timed out one is
+      // counted as a failure by the caller
+      if (transaction.provider && transaction.type === TransactionType.ONRAMP) {
+        await this.healthService.releaseTrial(transaction.provider, ProviderDirection.ONRAMP, transaction.created_at);
+      }
+      await this.eventStreamService.publishTransactionUpdate(transactionId);
+    }
+
+    return result.changes > 0;
+  }
+
+  /**
+   * Reconcile a transaction left in processing by a previous process with its
+   * provider, settling it if the provider's callback was missed
+   */
+  async resumeTransaction(transactionId: string): Promise<boolean> {
+    const transaction = await this.db.get<Transaction>(
+      'SELECT * FROM transactions WHERE id = ?',
+      [transactionId]
     );
 
+    if (!transaction || transaction.status !== TransactionStatus.PROCESSING || !transaction.external_reference) {
+      return false;
+    }
+
+    const provider = this.getAdapter(transaction.provider || '');
+    if (!provider) {
+      return false;
+    }
+
+    const result = await provider.getStatus(transaction.external_reference);
+    if (result && result.status !== TransactionStatus.PROCESSING) {
+      await this.settleTransaction(transactionId, result.status);
+    }
     return true;
   }
 
@@ -200,14 +296,30 @@ export class OnrampService {
    * Get all available providers
    */
   getProviders(): ProviderInfo[] {
-    return this.providers;
+    return this.providers.map(provider => provider.info);
   }
 
   /**
    * Get provider by name
    */
   getProvider(providerName: string): ProviderInfo | undefined {
-    return this.providers.find(p => p.provider === providerName);
+    return this.getAdapter(providerName)?.info;
+  }
+
+  /**
+   * Compare the providers able to collect an amount, best first
+   */
+  async compareProviders(
+    amount: Money,
+    paymentMethod?: string,
+    preference?: RoutingPreference
+  ): Promise<ProviderComparison> {
+    return this.routingService.compare(this.providers, {
+      direction: ProviderDirection.ONRAMP,
+      amount,
+      payment_method: paymentMethod,
+      preference
+    });
   }
 
   /**
@@ -215,71 +327,71 @@ export class OnrampService {
    */
   async createTransaction(request: OnrampTransactionRequest): Promise<OnrampTransactionResponse> {
     // Validate request
-    if (!request.amount || request.amount <= 0) {
-      throw new Error('Amount must be positive');
-    }
     if (!request.source_currency || !request.destination_currency) {
       throw new Error('Source and destination currencies are required');
     }
+    const amount = Money.fromMajor(request.amount, request.destination_currency);
+    if (!amount.isPositive()) {
+      throw new Error('Amount must be positive');
+    }
     if (!request.provider || !request.user_id) {
       throw new Error('Provider and user_id are required');
     }
 
-    // Get provider info
-    const provider = this.getProvider(request.provider);
+    // Get provider
+    const provider = this.getAdapter(request.provider);
     if (!provider) {
       throw new Error(`Provider ${request.provider} not found`);
     }
 
     // Validate amount against provider limits
-    this.validateAmount(request.amount, provider);
+    this.validateAmount(amount, provider.info);
 
-    // Generate transaction ID and external reference
+    // Start the transaction with the provider
     const transactionId = uuidv4();
-    const externalReference = this.generateExternalReference(provider.provider);
+    const initiation = await provider.initiate({ transaction_id: transactionId, amount });
 
     // Create transaction record
     const metadata = {
-      provider: provider.provider,
+      provider: provider.info.provider,
       source_currency: request.source_currency,
       destination_currency: request.destination_currency,
       user_id: request.user_id,
       idempotency_key: request.idempotency_key,
       created_at: new Date().toISOString(),
-      estimated_completion: this.getEstimatedCompletion(provider.provider),
-      success_rate: provider.success_rate
+      estimated_completion: initiation.estimated_completion,
+      success_rate: provider.info.success_rate
     };
 
     await this.db.run(
       `INSERT INTO transactions 
-       (id, payment_id, type, amount, currency, status, external_reference, provider, metadata)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+       (id, payment_id, user_id, type, amount, currency, status, external_reference, provider, metadata)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
       [
         transactionId,
         null, // No payment_id for direct onramp transactions
+        request.user_id,
         TransactionType.ONRAMP,
-        request.amount,
-        request.destination_currency,
-        TransactionStatus.PROCESSING,
-        externalReference,
-        provider.provider,
+        amount.toMinorNumber(),
+        amount.currency,
+        initiation.status,
+        initiation.external_reference,
+        provider.info.provider,
         JSON.stringify(metadata)
       ]
     );
-
-    // Simulate async processing
-    this.simulateAsyncProcessing(transactionId, provider);
+    await this.eventStreamService.publishTransactionUpdate(transactionId);
 
     return {
       id: transactionId,
-      status: TransactionStatus.PROCESSING,
-      amount: request.amount,
+      status: initiation.status,
+      amount: amount.toMajorString(),
       source_currency: request.source_currency,
       destination_currency: request.destination_currency,
-      provider: provider.provider,
-      provider_name: provider.name,
-      estimated_completion: this.getEstimatedCompletion(provider.provider),
-      external_reference: externalReference,
+      provider: provider.info.provider,
+      provider_name: provider.info.name,
+      estimated_completion: initiation.estimated_completion,
+      external_reference: initiation.external_reference,
       created_at: new Date().toISOString()
     };
   }
@@ -288,15 +400,15 @@ export class OnrampService {
    * Validate request parameters
    */
   private validateRequest(request: OnrampRequest): void {
-    if (request.amount <= 0) {
+    if (!request.amount.isPositive()) {
       throw new Error('Amount must be positive');
     }
     
-    if (request.currency !== 'USD') {
+    if (request.amount.currency !== 'USD') {
       throw new Error('Only USD is supported for onramp');
     }
     
-    if (request.amount < 1) {
+    if (request.amount.lessThan(Money.fromMajor(1, 'USD'))) {
       throw new Error('Minimum amount is $1');
     }
   }
@@ -304,160 +416,55 @@ export class OnrampService {
   /**
    * Validate amount against provider limits
    */
-  private validateAmount(amount: number, provider: ProviderInfo): void {
-    if (amount < provider.limits.min) {
+  private validateAmount(amount: Money, provider: ProviderInfo): void {
+    if (amount.lessThan(Money.fromMajor(provider.limits.min, amount.currency))) {
       throw new Error(`Amount must be at least $${provider.limits.min} for ${provider.name}`);
     }
     
-    if (amount > provider.limits.max) {
+    if (amount.greaterThan(Money.fromMajor(provider.limits.max, amount.currency))) {
       throw new Error(`Amount cannot exceed $${provider.limits.max} for ${provider.name}`);
     }
   }
 
-  /**
-   * Select appropriate provider based on request parameters
-   */
-  private selectProvider(request: OnrampRequest): ProviderInfo {
-    // Filter providers based on payment method if specified
-    let availableProviders = this.providers;
-    
-    if (request.payment_method) {
-      availableProviders = this.providers.filter(p => 
-        p.payment_methods.includes(request.payment_method!.type)
-      );
-    }
-    
-    if (availableProviders.length === 0) {
-      throw new Error(`No providers available for payment method: ${request.payment_method?.type}`);
-    }
-    
-    // Select provider based on amount
-    for (const provider of availableProviders) {
-      if (request.amount >= provider.limits.min && request.amount <= provider.limits.max) {
-        return provider;
-      }
-    }
-    
-    // If no exact match, find the best fit
-    const bestProvider = availableProviders.reduce((best, current) => {
-      if (request.amount >= current.limits.min && request.amount <= current.limits.max) {
-        return current;
-      }
-      if (request.amount >= best.limits.min && request.amount <= best.limits.max) {
-        return best;
-      }
-      // Prefer providers with higher limits for large amounts
-      return current.limits.max > best.limits.max ? current : best;
-    });
-    
-    return bestProvider;
+  private getAdapter(providerName: string): PaymentProvider<ProviderInfo> | undefined {
+    return this.providers.find(provider => provider.info.provider === providerName);
   }
 
   /**
-   * Calculate fees for the transaction
+   * Record a final status reported by the provider. Only transactions still
+   * processing are settled (not ones cancelled meanwhile); returns false if
+   * the transaction had already moved on.
    */
-  private calculateFees(amount: number, provider: ProviderInfo): { amount: number; currency: string; breakdown: any } {
-    if (!provider.fees) {
-      return { amount: 0, currency: 'USD', breakdown: {} };
+  async settleTransaction(transactionId: string, status: TransactionStatus): Promise<boolean> {
+    if (status === TransactionStatus.PROCESSING) {
+      return false;
     }
-    
-    const { percentage = 0, fixed = 0 } = provider.fees;
-    const percentageFee = amount * percentage;
-    const totalFee = percentageFee + fixed;
-    
-    return {
-      amount: Math.round(totalFee * 100) / 100,
-      currency: provider.fees.currency,
-      breakdown: {
-        percentage_fee: percentageFee,
-        fixed_fee: fixed,
-        percentage_rate: percentage
-      }
-    };
-  }
 
-  /**
-   * Generate mock external reference for provider
-   */
-  private generateExternalReference(provider: string): string {
-    const timestamp = Date.now();
-    const random = Math.random().toString(36).substring(7);
-    
-    switch (provider) {
-      case 'stripe':
-        return `pi_${random}${timestamp}`;
-      case 'circle':
-        return `circle_${random}_${timestamp}`;
-      case 'wire_transfer':
-        return `wire_${timestamp}_${random}`;
-      default:
-        return `txn_${random}_${timestamp}`;
+    const update = await this.db.run(
+      'UPDATE transactions SET status = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ? AND status = ?',
+      [status, transactionId, TransactionStatus.PROCESSING]
+    );
+    if (update.changes === 0) {
+      return false;
     }
-  }
 
-  /**
-   * Get estimated completion time based on provider
-   */
-  private getEstimatedCompletion(provider: string): string {
-    const now = new Date();
-    let estimatedMinutes: number;
-
-    switch (provider) {
-      case 'stripe':
-        estimatedMinutes = 5; // 5 minutes for card payments
-        break;
-      case 'circle':
-        estimatedMinutes = 30; // 30 minutes for stablecoin
-        break;
-      case 'wire_transfer':
-        estimatedMinutes = 1440; // 24 hours for wire
-        break;
-      default:
-        estimatedMinutes = 15;
+    if (status === TransactionStatus.COMPLETED) {
+      await this.ledgerService.postTransactionSettlement(transactionId);
     }
-
-    const estimatedTime = new Date(now.getTime() + estimatedMinutes * 60000);
-    return estimatedTime.toISOString();
-  }
-
-  /**
-   * Simulate async processing with realistic delays
-   */
-  private simulateAsyncProcessing(transactionId: string, provider: ProviderInfo): void {
-    const delay = this.getProcessingDelay(provider.provider);
-    
-    setTimeout(async () => {
-      // Use provider's success rate for realistic simulation
-      const isSuccess = Math.random() < provider.success_rate;
-      const status = isSuccess ? TransactionStatus.COMPLETED : TransactionStatus.FAILED;
-      
-      try {
-        await this.db.run(
-          'UPDATE transactions SET status = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
-          [status, transactionId]
-        );
-        
-        console.log(`Onramp transaction ${transactionId} ${status} via ${provider.name} (${provider.provider})`);
-      } catch (error) {
-        console.error(`Failed to update transaction ${transactionId}:`, error);
-      }
-    }, delay);
-  }
-
-  /**
-   * Get processing delay for simulation
-   */
-  private getProcessingDelay(provider: string): number {
-    switch (provider) {
-      case 'stripe':
-        return 5000; // 5 seconds
-      case 'circle':
-        return 30000; // 30 seconds
-      case 'wire_transfer':
-        return 60000; // 1 minute
-      default:
-        return 15000; // 15 seconds
+    await this.eventStreamService.publishTransactionUpdate(transactionId);
+
+    // Refunds say nothing about how the provider handles new transactions
+    const transaction = await this.db.get<Transaction>('SELECT * FROM transactions WHERE id = ?', [transactionId]);
+    if (transaction?.provider && transaction.type === TransactionType.ONRAMP) {
+      await this.healthService.recordOutcome(
+        transaction.provider,
+        ProviderDirection.ONRAMP,
+        status === TransactionStatus.COMPLETED
+      );
     }
+
+    console.log(`Onramp transaction ${transactionId} ${status}`);
+    return true;
   }
 
   /**
@@ -475,4 +482,4 @@ export class OnrampService {
     const providerInfo = this.getProvider(provider);
     return providerInfo?.limits || { min: 0, max: 0, currency: 'USD' };
   }
-} 
\ No newline at end of file
+}
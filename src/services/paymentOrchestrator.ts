@@ -5,15 +5,44 @@ import { OnrampService, OnrampRequest } from './onrampService.js';
 import { OfframpService, OfframpRequest } from './offrampService.js';
 import { WebhookService } from './webhookService.js';
 import { ExchangeRateService } from './exchangeRateService.js';
+import { QuoteService, QuoteError } from './quoteService.js';
+import { LedgerService } from './ledgerService.js';
+import { EventStreamService } from './eventStreamService.js';
+import { RecipientService } from './recipientService.js';
+import { FxSpreadService, FxCustomer } from './fxSpreadService.js';
+import { RoutingError } from './providerRoutingService.js';
+import { ProviderHealthService } from './providerHealthService.js';
+import { Money } from '../types/money.js';
+import { ApiError } from '../types/errors.js';
+import { ProviderDirection } from '../types/ledger.js';
+import {
+  assertTransition,
+  InvalidPaymentTransitionError,
+  IN_FLIGHT_PAYMENT_STATUSES
+} from './paymentStateMachine.js';
 import {
   Payment,
+  PaymentEvent,
   PaymentStatus,
+  PaymentListQuery,
+  PaymentListResponse,
+  PaymentOwnerScope,
   CreatePaymentRequest,
+  Quote,
   PaymentResponse,
   WebhookEventType,
+  Transaction,
+  TransactionType,
   TransactionStatus
 } from '../types/payment.js';
 
+const ONRAMP_SETTLEMENT_TIMEOUT_MS = 30 * 60 * 1000;
+const OFFRAMP_SETTLEMENT_TIMEOUT_MS = 2 * 60 * 60 * 1000;
+
+// Timers for provider transactions that have not settled yet, by transaction id.
+// Shared by every orchestrator so whichever handles the callback can clear them.
+const settlementTimeouts = new Map<string, NodeJS.Timeout>();
+
 export class PaymentOrchestrator {
   private db: Database;
   private feeEngine: FeeEngine;
@@ -21,6 +50,13 @@ export class PaymentOrchestrator {
   private offrampService: OfframpService;
   private webhookService: WebhookService;
   private exchangeRateService: ExchangeRateService;
+  private quoteService: QuoteService;
+  private ledgerService: LedgerService;
+  private eventStreamService: EventStreamService;
+  private recipientService: RecipientService;
+  private fxSpreadService: FxSpreadService;
+  private providerHealthService: ProviderHealthService;
+  private maxRoutingAttempts: number = parseInt(process.env.ROUTING_MAX_ATTEMPTS || '3', 10);
 
   constructor() {
     this.db = Database.getInstance();
@@ -29,91 +65,235 @@ export class PaymentOrchestrator {
     this.offrampService = new OfframpService();
     this.webhookService = new WebhookService();
     this.exchangeRateService = new ExchangeRateService();
+    this.quoteService = new QuoteService();
+    this.ledgerService = new LedgerService();
+    this.eventStreamService = new EventStreamService();
+    this.recipientService = new RecipientService();
+    this.fxSpreadService = new FxSpreadService();
+    this.providerHealthService = new ProviderHealthService();
   }
 
   /**
    * Create a new cross-border payment
    */
   async createPayment(request: CreatePaymentRequest): Promise<PaymentResponse> {
-    // Check for existing payment with same idempotency key
-    const existingPayment = await this.getPaymentByIdempotencyKey(request.idempotency_key);
+    // Check for the caller's existing payment with the same idempotency key
+    const existingPayment = await this.getPaymentByIdempotencyKey(request.idempotency_key, request.user_id);
     if (existingPayment) {
       return this.paymentToResponse(existingPayment);
     }
+    if (await this.isIdempotencyKeyTaken(request.idempotency_key)) {
+      throw new ApiError(
+        'Idempotency-Key has already been used by another customer',
+        'IDEMPOTENCY_KEY_CONFLICT',
+        409
+      );
+    }
+
+    const paymentId = uuidv4();
+    const payment = request.quote_id
+      ? await this.buildPaymentFromQuote(paymentId, request)
+      : await this.buildPaymentAtCurrentRate(paymentId, request);
+
+    try {
+      if (request.recipient_id) {
+        await this.assertRecipientUsable(request.recipient_id, payment);
+      }
+
+      await this.db.run(
+        `INSERT INTO payments 
+         (id, user_id, idempotency_key, source_amount, source_currency, 
+          destination_amount, destination_currency, exchange_rate, mid_exchange_rate, spread_bps, spread_amount,
+          status, fee_amount, total_amount, quote_id, api_key_id, webhook_url, recipient_id, routing_preference)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          payment.id,
+          payment.user_id,
+          payment.idempotency_key,
+          payment.source_amount,
+          payment.source_currency,
+          payment.destination_amount,
+          payment.destination_currency,
+          payment.exchange_rate,
+          payment.mid_exchange_rate || null,
+          payment.spread_bps,
+          payment.spread_amount,
+          payment.status,
+          payment.fee_amount,
+          payment.total_amount,
+          payment.quote_id || null,
+          request.api_key_id || null,
+          request.webhook_url || null,
+          request.recipient_id || null,
+          request.routing_preference || null
+        ]
+      );
+    } catch (error) {
+      // Let the quote be used again if the payment was never stored
+      if (payment.quote_id) {
+        await this.quoteService.releaseQuote(payment.quote_id, paymentId);
+      }
+      throw error;
+    }
+
+    await this.recordPaymentEvent(paymentId, null, PaymentStatus.PENDING, 'payment_created');
+
+    const createdPayment = await this.getPaymentById(paymentId);
+
+    // Trigger webhook for payment creation
+    await this.webhookService.scheduleWebhook(
+      paymentId,
+      WebhookEventType.PAYMENT_CREATED,
+      { payment: this.paymentToResponse(createdPayment!) }
+    );
+
+    // Start payment processing
+    this.processPayment(paymentId);
+
+    return this.paymentToResponse(createdPayment!);
+  }
+
+  /**
+   * A payment may only pay out to a live recipient of its owner that is paid
+   * in the payment's destination currency
+   */
+  private async assertRecipientUsable(
+    recipientId: string,
+    payment: Omit<Payment, 'created_at' | 'updated_at'>
+  ): Promise<void> {
+    const recipient = await this.recipientService.getRecipientById(recipientId);
+    if (!recipient || recipient.deleted_at || recipient.owner_id !== payment.user_id) {
+      throw new ApiError('Recipient not found', 'RECIPIENT_NOT_FOUND', 404);
+    }
+
+    if (recipient.currency !== payment.destination_currency) {
+      throw new ApiError(
+        `Recipient is paid in ${recipient.currency}, not ${payment.destination_currency}`,
+        'RECIPIENT_CURRENCY_MISMATCH',
+        400,
+        { recipient_currency: recipient.currency, destination_currency: payment.destination_currency }
+      );
+    }
+  }
 
+  /**
+   * Price a new payment at the current exchange rate, less the customer's FX spread
+   */
+  private async buildPaymentAtCurrentRate(
+    paymentId: string,
+    request: CreatePaymentRequest
+  ): Promise<Omit<Payment, 'created_at' | 'updated_at'>> {
     // Validate currency support
     if (!await this.feeEngine.isCurrencySupported(request.destination_currency)) {
       throw new Error(`Destination currency ${request.destination_currency} is not supported`);
     }
 
-    // Get current exchange rate
-    const exchangeRate = await this.exchangeRateService.getExchangeRate(
-      request.source_currency,
+    // Rejects amounts more precise than the source currency allows
+    const sourceAmount = Money.fromMajor(request.source_amount, request.source_currency);
+
+    // Get current exchange rate and apply the spread
+    const midRate = await this.exchangeRateService.getExchangeRate(
+      sourceAmount.currency,
       request.destination_currency
     );
+    const pricing = await this.fxSpreadService.priceRate(sourceAmount, request.destination_currency, midRate, {
+      user_id: request.user_id,
+      api_key_id: request.api_key_id
+    });
 
-    // Calculate amounts and fees
-    const destinationAmount = request.source_amount * exchangeRate;
-    const feeCalculation = await this.feeEngine.calculateFees(
+    // Calculate amounts and fees (fees are charged in the source currency)
+    const amounts = await this.feeEngine.calculateTotalAmount(
+      sourceAmount,
       request.destination_currency,
-      destinationAmount
+      pricing.exchange_rate
     );
 
-    // Calculate total amount (source amount + fees converted back to source currency)
-    const feeInSourceCurrency = feeCalculation.total_fee / exchangeRate;
-    const totalAmount = request.source_amount + feeInSourceCurrency;
+    return {
+      id: paymentId,
+      user_id: request.user_id,
+      idempotency_key: request.idempotency_key,
+      source_amount: amounts.source_amount.toMinorNumber(),
+      source_currency: amounts.source_amount.currency,
+      destination_amount: amounts.destination_amount.toMinorNumber(),
+      destination_currency: amounts.destination_amount.currency,
+      exchange_rate: amounts.exchange_rate,
+      mid_exchange_rate: pricing.mid_rate,
+      spread_bps: pricing.spread_bps,
+      spread_amount: pricing.spread_amount.toMinorNumber(),
+      status: PaymentStatus.PENDING,
+      fee_amount: amounts.fee_amount.toMinorNumber(),
+      total_amount: amounts.total_amount.toMinorNumber()
+    };
+  }
+
+  /**
+   * Execute a payment at exactly the terms of a locked quote.
+   * Any amount or currency sent alongside the quote must match it.
+   */
+  private async buildPaymentFromQuote(
+    paymentId: string,
+    request: CreatePaymentRequest
+  ): Promise<Omit<Payment, 'created_at' | 'updated_at'>> {
+    const existingQuote = await this.quoteService.getQuoteById(request.quote_id!);
+    if (existingQuote) {
+      this.assertQuoteMatchesRequest(existingQuote, request);
+    }
 
-    // Create payment record
-    const paymentId = uuidv4();
-    const payment: Omit<Payment, 'created_at' | 'updated_at'> = {
+    const quote = await this.quoteService.consumeQuote(request.quote_id!, paymentId);
+
+    return {
       id: paymentId,
       user_id: request.user_id,
       idempotency_key: request.idempotency_key,
-      source_amount: request.source_amount,
-      source_currency: request.source_currency,
-      destination_amount: Math.round(destinationAmount * 100) / 100,
-      destination_currency: request.destination_currency,
-      exchange_rate: exchangeRate,
+      source_amount: quote.source_amount,
+      source_currency: quote.source_currency,
+      destination_amount: quote.destination_amount,
+      destination_currency: quote.destination_currency,
+      exchange_rate: quote.exchange_rate,
+      mid_exchange_rate: quote.mid_exchange_rate,
+      spread_bps: quote.spread_bps,
+      spread_amount: quote.spread_amount,
       status: PaymentStatus.PENDING,
-      fee_amount: feeCalculation.total_fee,
-      total_amount: Math.round(totalAmount * 100) / 100
+      fee_amount: quote.fee_amount,
+      total_amount: quote.total_amount,
+      quote_id: quote.id
     };
+  }
 
-    await this.db.run(
-      `INSERT INTO payments 
-       (id, user_id, idempotency_key, source_amount, source_currency, 
-        destination_amount, destination_currency, exchange_rate, status, 
-        fee_amount, total_amount)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-      [
-        payment.id,
-        payment.user_id,
-        payment.idempotency_key,
-        payment.source_amount,
-        payment.source_currency,
-        payment.destination_amount,
-        payment.destination_currency,
-        payment.exchange_rate,
-        payment.status,
-        payment.fee_amount,
-        payment.total_amount
-      ]
-    );
+  /**
+   * Reject a payment whose explicit terms differ from the quote it references
+   */
+  private assertQuoteMatchesRequest(quote: Quote, request: CreatePaymentRequest): void {
+    const mismatches: string[] = [];
 
-    // Trigger webhook for payment creation
-    if (request.webhook_url) {
-      await this.webhookService.scheduleWebhook(
-        paymentId,
-        WebhookEventType.PAYMENT_CREATED,
-        { payment, webhook_url: request.webhook_url }
-      );
+    if (quote.user_id && quote.user_id !== request.user_id) {
+      mismatches.push('user_id');
+    }
+    if (quote.api_key_id && quote.api_key_id !== request.api_key_id) {
+      mismatches.push('api_key_id'); // Priced with the key's spread
+    }
+    if (request.source_currency && request.source_currency.toUpperCase() !== quote.source_currency) {
+      mismatches.push('source_currency');
+    }
+    if (request.destination_currency && request.destination_currency.toUpperCase() !== quote.destination_currency) {
+      mismatches.push('destination_currency');
+    }
+    if (
+      request.source_amount !== undefined &&
+      !Money.fromMajor(request.source_amount, quote.source_currency)
+        .equals(Money.fromMinor(quote.source_amount, quote.source_currency))
+    ) {
+      mismatches.push('source_amount');
     }
 
-    // Start payment processing
-    this.processPayment(paymentId);
-
-    const createdPayment = await this.getPaymentById(paymentId);
-    return this.paymentToResponse(createdPayment!);
+    if (mismatches.length > 0) {
+      throw new QuoteError(
+        `Payment does not match quote ${quote.id}: ${mismatches.join(', ')}`,
+        'QUOTE_MISMATCH',
+        400,
+        { quote_id: quote.id, fields: mismatches }
+      );
+    }
   }
 
   /**
@@ -127,133 +307,337 @@ export class PaymentOrchestrator {
   }
 
   /**
-   * Get payment by idempotency key
+   * Get one of a customer's payments by the idempotency key it was created with
    */
-  async getPaymentByIdempotencyKey(idempotencyKey: string): Promise<Payment | undefined> {
+  async getPaymentByIdempotencyKey(idempotencyKey: string, userId: string): Promise<Payment | undefined> {
     return await this.db.get<Payment>(
-      'SELECT * FROM payments WHERE idempotency_key = ?',
+      'SELECT * FROM payments WHERE idempotency_key = ? AND user_id = ?',
+      [idempotencyKey, userId]
+    );
+  }
+
+  /**
+   * Whether any customer's payment was created with the key
+   */
+  private async isIdempotencyKeyTaken(idempotencyKey: string): Promise<boolean> {
+    const payment = await this.db.get<{ id: string }>(
+      'SELECT id FROM payments WHERE idempotency_key = ? LIMIT 1',
       [idempotencyKey]
     );
+    return !!payment;
   }
 
   /**
-   * Get payments for a user with pagination
+   * List payments visible to the caller, newest first, with cursor pagination.
+   * The cursor is opaque to clients and encodes the last payment returned.
    */
-  async getUserPayments(
-    userId: string,
-    page: number = 1,
-    limit: number = 20
-  ): Promise<{ payments: PaymentResponse[]; total: number; hasMore: boolean }> {
-    const offset = (page - 1) * limit;
-    
+  async listPayments(query: PaymentListQuery): Promise<PaymentListResponse> {
+    const limit = Math.min(Math.max(query.limit || 20, 1), 100);
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (!query.scope.all) {
+      if (query.scope.user_id) {
+        conditions.push('user_id = ?');
+        params.push(query.scope.user_id);
+      } else if (query.scope.api_key_id) {
+        conditions.push('api_key_id = ?');
+        params.push(query.scope.api_key_id);
+      } else {
+        // No principal means nothing is visible
+        return { payments: [], pagination: { limit, has_more: false } };
+      }
+    }
+
+    if (query.status && query.status.length > 0) {
+      conditions.push(`status IN (${query.status.map(() => '?').join(', ')})`);
+      params.push(...query.status);
+    }
+
+    if (query.currency) {
+      conditions.push('(source_currency = ? OR destination_currency = ?)');
+      params.push(query.currency.toUpperCase(), query.currency.toUpperCase());
+    }
+
+    if (query.source_currency) {
+      conditions.push('source_currency = ?');
+      params.push(query.source_currency.toUpperCase());
+    }
+
+    if (query.destination_currency) {
+      conditions.push('destination_currency = ?');
+      params.push(query.destination_currency.toUpperCase());
+    }
+
+    if (query.created_from) {
+      conditions.push('created_at >= ?');
+      params.push(this.toSqlTimestamp(query.created_from));
+    }
+
+    if (query.created_to) {
+      conditions.push('created_at <= ?');
+      params.push(this.toSqlTimestamp(query.created_to));
+    }
+
+    if (query.min_amount !== undefined || query.max_amount !== undefined) {
+      // Minor units only compare within one currency
+      if (!query.source_currency) {
+        throw new ApiError(
+          'source_currency is required when filtering by amount',
+          'AMOUNT_FILTER_REQUIRES_CURRENCY',
+          400
+        );
+      }
+      if (query.min_amount !== undefined) {
+        conditions.push('source_amount >= ?');
+        params.push(Money.fromMajor(query.min_amount, query.source_currency).toMinorNumber());
+      }
+      if (query.max_amount !== undefined) {
+        conditions.push('source_amount <= ?');
+        params.push(Money.fromMajor(query.max_amount, query.source_currency).toMinorNumber());
+      }
+    }
+
+    if (query.idempotency_key) {
+      conditions.push('idempotency_key = ?');
+      params.push(query.idempotency_key);
+    }
+
+    if (query.cursor) {
+      const cursor = this.decodeCursor(query.cursor);
+      conditions.push('(created_at < ? OR (created_at = ? AND id < ?))');
+      params.push(cursor.created_at, cursor.created_at, cursor.id);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
     const payments = await this.db.all<Payment>(
-      `SELECT * FROM payments 
-       WHERE user_id = ? 
-       ORDER BY created_at DESC 
-       LIMIT ? OFFSET ?`,
-      [userId, limit + 1, offset]
+      `SELECT * FROM payments
+       ${where}
+       ORDER BY created_at DESC, id DESC
+       LIMIT ?`,
+      [...params, limit + 1]
     );
 
     const hasMore = payments.length > limit;
-    const resultPayments = hasMore ? payments.slice(0, -1) : payments;
-
-    const totalResult = await this.db.get<{ count: number }>(
-      'SELECT COUNT(*) as count FROM payments WHERE user_id = ?',
-      [userId]
-    );
+    const page = hasMore ? payments.slice(0, limit) : payments;
+    const last = page[page.length - 1];
 
     return {
-      payments: resultPayments.map(p => this.paymentToResponse(p)),
-      total: totalResult?.count || 0,
-      hasMore
+      payments: page.map(p => this.paymentToResponse(p)),
+      pagination: {
+        limit,
+        has_more: hasMore,
+        next_cursor: hasMore ? this.encodeCursor(last) : undefined
+      }
     };
   }
 
   /**
-   * Process payment through onramp and offramp
+   * Whether a payment belongs to the given caller
    */
-  private async processPayment(paymentId: string): Promise<void> {
-    try {
-      // Update status to processing
-      await this.updatePaymentStatus(paymentId, PaymentStatus.PROCESSING);
+  isPaymentVisibleTo(payment: Payment, scope: PaymentOwnerScope): boolean {
+    if (scope.all) {
+      return true;
+    }
+    if (scope.user_id) {
+      return payment.user_id === scope.user_id;
+    }
+    return !!scope.api_key_id && payment.api_key_id === scope.api_key_id;
+  }
+
+  /**
+   * Get a provider transaction by ID
+   */
+  async getTransactionById(transactionId: string): Promise<Transaction | undefined> {
+    return await this.db.get<Transaction>(
+      'SELECT * FROM transactions WHERE id = ?',
+      [transactionId]
+    );
+  }
+
+  /**
+   * Whether a provider transaction belongs to the given caller
+   */
+  isTransactionVisibleTo(transaction: Transaction, scope: PaymentOwnerScope): boolean {
+    if (scope.all) {
+      return true;
+    }
+    const owner = scope.user_id || scope.api_key_id;
+    return !!owner && transaction.user_id === owner;
+  }
+
+  private encodeCursor(payment: Payment): string {
+    return Buffer.from(JSON.stringify({ created_at: payment.created_at, id: payment.id })).toString('base64url');
+  }
 
-      const payment = await this.getPaymentById(paymentId);
-      if (!payment) {
-        throw new Error(`Payment ${paymentId} not found`);
+  private decodeCursor(cursor: string): { created_at: string; id: string } {
+    try {
+      const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+      if (typeof decoded.created_at === 'string' && typeof decoded.id === 'string') {
+        return decoded;
       }
+    } catch {
+      // Fall through to the error below
+    }
+    throw new ApiError('Invalid pagination cursor', 'INVALID_CURSOR', 400);
+  }
+
+  /**
+   * Convert an ISO date into the format SQLite uses for CURRENT_TIMESTAMP
+   */
+  private toSqlTimestamp(value: string): string {
+    return new Date(value).toISOString().replace('T', ' ').slice(0, 19);
+  }
+
 
-      // Step 1: Process USD collection (onramp)
-      const onrampRequest: OnrampRequest = {
-        payment_id: paymentId,
-        amount: payment.total_amount,
-        currency: payment.source_currency,
-        user_id: payment.user_id,
-        payment_method: {
-          type: 'card', // Default for simulation
-          details: {}
+  /**
+   * Get the status history of a payment, oldest first
+   */
+  async getPaymentEvents(paymentId: string): Promise<PaymentEvent[]> {
+    const events = await this.db.all<PaymentEvent>(
+      'SELECT * FROM payment_events WHERE payment_id = ? ORDER BY id ASC',
+      [paymentId]
+    );
+
+    return events.map(event => {
+      if (event.metadata) {
+        try {
+          event.metadata = JSON.parse(event.metadata as unknown as string);
+        } catch {
+          // Keep original if parsing fails
         }
-      };
+      }
+      return event;
+    });
+  }
 
-      const onrampResponse = await this.onrampService.processUSDCollection(onrampRequest);
-      
-      // Update payment with onramp reference
-      await this.db.run(
-        'UPDATE payments SET onramp_reference = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
-        [onrampResponse.external_reference, paymentId]
-      );
+  /**
+   * Resume every payment left in flight by a previous process.
+   * Called once on startup; returns the number of payments resumed.
+   */
+  async resumeInFlightPayments(): Promise<number> {
+    const placeholders = IN_FLIGHT_PAYMENT_STATUSES.map(() => '?').join(', ');
+    const payments = await this.db.all<Payment>(
+      `SELECT * FROM payments WHERE status IN (${placeholders}) ORDER BY created_at ASC`,
+      IN_FLIGHT_PAYMENT_STATUSES
+    );
 
-      // Monitor onramp completion
-      this.monitorOnrampCompletion(paymentId, onrampResponse.transaction_id);
+    for (const payment of payments) {
+      try {
+        await this.resumePayment(payment);
+      } catch (error) {
+        console.error(`Failed to resume payment ${payment.id}:`, error);
+      }
+    }
 
-    } catch (error) {
-      console.error(`Payment processing failed for ${paymentId}:`, error);
-      await this.updatePaymentStatus(paymentId, PaymentStatus.FAILED);
+    if (payments.length > 0) {
+      console.log(`Resumed ${payments.length} in-flight payment(s)`);
     }
+
+    return payments.length;
   }
 
   /**
-   * Monitor onramp completion and trigger offramp
+   * Pick a payment back up from its persisted status
    */
-  private async monitorOnrampCompletion(paymentId: string, onrampTransactionId: string): Promise<void> {
-    const checkInterval = setInterval(async () => {
-      try {
-        const onrampTransaction = await this.onrampService.getTransactionStatus(onrampTransactionId);
-        
+  private async resumePayment(payment: Payment): Promise<void> {
+    switch (payment.status) {
+      case PaymentStatus.PENDING:
+        await this.processPayment(payment.id);
+        return;
+
+      case PaymentStatus.PROCESSING: {
+        const onrampTransaction = await this.getLatestTransaction(payment.id, TransactionType.ONRAMP);
         if (!onrampTransaction) {
-          clearInterval(checkInterval);
-          await this.updatePaymentStatus(paymentId, PaymentStatus.FAILED);
+          await this.initiateOnramp(payment.id);
           return;
         }
+        // The provider may have settled while nobody was listening for its callback
+        this.scheduleSettlementTimeout(payment.id, onrampTransaction);
+        await this.onrampService.resumeTransaction(onrampTransaction.id);
+        await this.handleTransactionUpdate(onrampTransaction.id);
+        return;
+      }
 
-        if (onrampTransaction.status === TransactionStatus.COMPLETED) {
-          clearInterval(checkInterval);
-          await this.updatePaymentStatus(paymentId, PaymentStatus.ONRAMP_COMPLETE);
-          
-          // Trigger webhook for onramp completion
-          await this.webhookService.scheduleWebhook(
-            paymentId,
-            WebhookEventType.ONRAMP_COMPLETED,
-            { transaction: onrampTransaction }
-          );
-
-          // Start offramp process
-          await this.processOfframp(paymentId);
+      case PaymentStatus.ONRAMP_COMPLETE:
+        await this.processOfframp(payment.id);
+        return;
 
-        } else if (onrampTransaction.status === TransactionStatus.FAILED) {
-          clearInterval(checkInterval);
-          await this.updatePaymentStatus(paymentId, PaymentStatus.FAILED);
+      case PaymentStatus.OFFRAMP_PROCESSING: {
+        const offrampTransaction = await this.getLatestTransaction(payment.id, TransactionType.OFFRAMP);
+        if (!offrampTransaction) {
+          await this.initiateOfframp(payment.id);
+          return;
         }
-      } catch (error) {
-        console.error(`Error monitoring onramp for payment ${paymentId}:`, error);
-        clearInterval(checkInterval);
-        await this.updatePaymentStatus(paymentId, PaymentStatus.FAILED);
+        this.scheduleSettlementTimeout(payment.id, offrampTransaction);
+        await this.offrampService.resumeTransaction(offrampTransaction.id);
+        await this.handleTransactionUpdate(offrampTransaction.id);
+        return;
       }
-    }, 5000); // Check every 5 seconds
+    }
+  }
 
-    // Timeout after 30 minutes
-    setTimeout(() => {
-      clearInterval(checkInterval);
-    }, 30 * 60 * 1000);
+  /**
+   * Get the most recent provider transaction of a type for a payment
+   */
+  private async getLatestTransaction(paymentId: string, type: TransactionType): Promise<Transaction | undefined> {
+    return await this.db.get<Transaction>(
+      `SELECT * FROM transactions
+       WHERE payment_id = ? AND type = ?
+       ORDER BY created_at DESC, rowid DESC
+       LIMIT 1`,
+      [paymentId, type]
+    );
+  }
+
+  /**
+   * Process payment through onramp and offramp
+   */
+  private async processPayment(paymentId: string): Promise<void> {
+    try {
+      // Update status to processing
+      await this.updatePaymentStatus(paymentId, PaymentStatus.PROCESSING);
+      await this.initiateOnramp(paymentId);
+    } catch (error) {
+      console.error(`Payment processing failed for ${paymentId}:`, error);
+      await this.failPayment(paymentId, 'onramp_initiation_failed');
+    }
+  }
+
+  /**
+   * Start USD collection (onramp) for a payment in processing, with the best
+   * provider not already tried
+   */
+  private async initiateOnramp(paymentId: string, excludeProviders: string[] = []): Promise<void> {
+    const payment = await this.getPaymentById(paymentId);
+    if (!payment) {
+      throw new Error(`Payment ${paymentId} not found`);
+    }
+
+    const onrampRequest: OnrampRequest = {
+      payment_id: paymentId,
+      amount: Money.fromMinor(payment.total_amount, payment.source_currency),
+      user_id: payment.user_id,
+      payment_method: {
+        type: 'card', // Default for simulation
+        details: {}
+      },
+      routing_preference: payment.routing_preference,
+      exclude_providers: excludeProviders
+    };
+
+    const onrampResponse = await this.onrampService.processUSDCollection(onrampRequest);
+
+    // Update payment with onramp reference
+    await this.db.run(
+      'UPDATE payments SET onramp_reference = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+      [onrampResponse.external_reference, paymentId]
+    );
+
+    const onrampTransaction = await this.getTransactionById(onrampResponse.transaction_id);
+    if (onrampTransaction) {
+      this.scheduleSettlementTimeout(paymentId, onrampTransaction);
+    }
   }
 
   /**
@@ -262,98 +646,267 @@ export class PaymentOrchestrator {
   private async processOfframp(paymentId: string): Promise<void> {
     try {
       await this.updatePaymentStatus(paymentId, PaymentStatus.OFFRAMP_PROCESSING);
+      await this.initiateOfframp(paymentId);
+    } catch (error) {
+      console.error(`Offramp processing failed for ${paymentId}:`, error);
+      await this.failPayment(paymentId, 'offramp_initiation_failed');
+    }
+  }
 
-      const payment = await this.getPaymentById(paymentId);
-      if (!payment) {
-        throw new Error(`Payment ${paymentId} not found`);
-      }
+  /**
+   * Start the local currency payout for a payment in offramp_processing, with
+   * the best provider not already tried
+   */
+  private async initiateOfframp(paymentId: string, excludeProviders: string[] = []): Promise<void> {
+    const payment = await this.getPaymentById(paymentId);
+    if (!payment) {
+      throw new Error(`Payment ${paymentId} not found`);
+    }
 
-      // Mock recipient details (in real system, would be provided by user)
-      const recipientDetails = {
+    // Payments created without a recipient still pay out to a mock account
+    const recipient = payment.recipient_id
+      ? await this.recipientService.getRecipientById(payment.recipient_id)
+      : undefined;
+    const recipientDetails = recipient
+      ? this.recipientService.getPayoutDetails(recipient)
+      : {
         name: `User ${payment.user_id}`,
         country: this.getCurrencyCountry(payment.destination_currency),
         account_number: 'MOCK_ACCOUNT_123',
         bank_name: 'Mock Bank'
       };
 
-      const offrampRequest: OfframpRequest = {
-        payment_id: paymentId,
-        amount: payment.destination_amount,
-        source_currency: 'USDC', // Simulating stablecoin
-        destination_currency: payment.destination_currency,
-        exchange_rate: 1, // Already converted
-        user_id: payment.user_id,
-        recipient_details: recipientDetails
-      };
+    const offrampRequest: OfframpRequest = {
+      payment_id: paymentId,
+      amount: Money.fromMinor(payment.destination_amount, payment.destination_currency),
+      source_currency: 'USDC', // Simulating stablecoin
+      destination_currency: payment.destination_currency,
+      exchange_rate: '1', // Already converted
+      user_id: payment.user_id,
+      recipient_details: recipientDetails,
+      routing_preference: payment.routing_preference,
+      exclude_providers: excludeProviders
+    };
 
-      const offrampResponse = await this.offrampService.processLocalCurrencyPayout(offrampRequest);
-      
-      // Update payment with offramp reference
-      await this.db.run(
-        'UPDATE payments SET offramp_reference = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
-        [offrampResponse.external_reference, paymentId]
-      );
+    const offrampResponse = await this.offrampService.processLocalCurrencyPayout(offrampRequest);
+
+    // Update payment with offramp reference
+    await this.db.run(
+      'UPDATE payments SET offramp_reference = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+      [offrampResponse.external_reference, paymentId]
+    );
 
-      // Monitor offramp completion
-      this.monitorOfframpCompletion(paymentId, offrampResponse.transaction_id);
+    const offrampTransaction = await this.getTransactionById(offrampResponse.transaction_id);
+    if (offrampTransaction) {
+      this.scheduleSettlementTimeout(paymentId, offrampTransaction);
+    }
+  }
 
+  /**
+   * Move a payment on once one of its provider transactions has settled.
+   * Called for every provider callback; does nothing unless the payment is
+   * waiting on that transaction.
+   */
+  async handleTransactionUpdate(transactionId: string): Promise<void> {
+    const transaction = await this.getTransactionById(transactionId);
+    if (!transaction?.payment_id || transaction.status === TransactionStatus.PROCESSING) {
+      return;
+    }
+    this.clearSettlementTimeout(transactionId);
+
+    const payment = await this.getPaymentById(transaction.payment_id);
+    if (!payment) {
+      return;
+    }
+
+    // A late callback from an attempt the payment has failed over from must
+    // not fail it over again or collect or pay out twice
+    const current = await this.getLatestTransaction(payment.id, transaction.type);
+    if (current?.id !== transaction.id) {
+      return;
+    }
+
+    try {
+      if (transaction.type === TransactionType.ONRAMP && payment.status === PaymentStatus.PROCESSING) {
+        await this.handleOnrampSettled(payment.id, transaction);
+      } else if (transaction.type === TransactionType.OFFRAMP && payment.status === PaymentStatus.OFFRAMP_PROCESSING) {
+        await this.handleOfframpSettled(payment.id, transaction);
+      }
     } catch (error) {
-      console.error(`Offramp processing failed for ${paymentId}:`, error);
-      await this.updatePaymentStatus(paymentId, PaymentStatus.FAILED);
+      // A concurrent callback for the same transaction moved the payment first
+      if (error instanceof InvalidPaymentTransitionError) {
+        return;
+      }
+      throw error;
     }
   }
 
   /**
-   * Monitor offramp completion
+   * Trigger the offramp once USD collection completes, or fail the payment
    */
-  private async monitorOfframpCompletion(paymentId: string, offrampTransactionId: string): Promise<void> {
-    const checkInterval = setInterval(async () => {
-      try {
-        const offrampTransaction = await this.offrampService.getTransactionStatus(offrampTransactionId);
-        
-        if (!offrampTransaction) {
-          clearInterval(checkInterval);
-          await this.updatePaymentStatus(paymentId, PaymentStatus.FAILED);
-          return;
-        }
+  private async handleOnrampSettled(paymentId: string, transaction: Transaction): Promise<void> {
+    if (transaction.status === TransactionStatus.FAILED) {
+      if (!await this.failOver(paymentId, transaction)) {
+        await this.failPayment(paymentId, 'onramp_failed', { transaction_id: transaction.id });
+      }
+      return;
+    }
 
-        if (offrampTransaction.status === TransactionStatus.COMPLETED) {
-          clearInterval(checkInterval);
-          await this.updatePaymentStatus(paymentId, PaymentStatus.COMPLETED);
-          
-          // Trigger webhook for completion
-          await this.webhookService.scheduleWebhook(
-            paymentId,
-            WebhookEventType.PAYMENT_COMPLETED,
-            { transaction: offrampTransaction }
-          );
+    const onrampTransaction = await this.onrampService.getTransactionStatus(transaction.id);
+    await this.updatePaymentStatus(paymentId, PaymentStatus.ONRAMP_COMPLETE, 'onramp_completed', {
+      transaction_id: transaction.id
+    });
+
+    // Trigger webhook for onramp completion
+    await this.webhookService.scheduleWebhook(
+      paymentId,
+      WebhookEventType.ONRAMP_COMPLETED,
+      { transaction: onrampTransaction }
+    );
+
+    // Start offramp process
+    await this.processOfframp(paymentId);
+  }
+
+  /**
+   * Complete the payment once the payout completes, or fail it
+   */
+  private async handleOfframpSettled(paymentId: string, transaction: Transaction): Promise<void> {
+    if (transaction.status === TransactionStatus.FAILED) {
+      if (!await this.failOver(paymentId, transaction)) {
+        await this.failPayment(paymentId, 'offramp_failed', { transaction_id: transaction.id });
+      }
+      return;
+    }
 
-        } else if (offrampTransaction.status === TransactionStatus.FAILED) {
-          clearInterval(checkInterval);
-          await this.updatePaymentStatus(paymentId, PaymentStatus.FAILED);
+    const offrampTransaction = await this.offrampService.getTransactionStatus(transaction.id);
+    await this.updatePaymentStatus(paymentId, PaymentStatus.COMPLETED, 'offramp_completed', {
+      transaction_id: transaction.id
+    });
+
+    // Trigger webhook for completion
+    await this.webhookService.scheduleWebhook(
+      paymentId,
+      WebhookEventType.PAYMENT_COMPLETED,
+      { transaction: offrampTransaction }
+    );
+  }
+
+  /**
+   * Give up on a provider transaction whose callback has not arrived in time
+   * (30 minutes for collection, 2 hours for payout): cancel it and fail the
+   * payment rather than leaving it stuck in processing
+   */
+  private scheduleSettlementTimeout(paymentId: string, transaction: Transaction): void {
+    const isOnramp = transaction.type === TransactionType.ONRAMP;
+    this.clearSettlementTimeout(transaction.id);
+
+    settlementTimeouts.set(transaction.id, setTimeout(async () => {
+      settlementTimeouts.delete(transaction.id);
+      try {
+        // A transaction the provider has already settled is left to its callback
+        const cancelled = isOnramp
+          ? await this.onrampService.cancelTransaction(transaction.id)
+          : await this.offrampService.cancelTransaction(transaction.id);
+        if (cancelled && transaction.provider) {
+          // Counted before failing over so an opened circuit steers the retry
+          await this.providerHealthService.recordTimeout(
+            transaction.provider,
+            isOnramp ? ProviderDirection.ONRAMP : ProviderDirection.OFFRAMP
+          );
+        }
+        if (cancelled && !await this.failOver(paymentId, transaction)) {
+          await this.failPayment(paymentId, isOnramp ? 'onramp_timeout' : 'offramp_timeout', {
+            transaction_id: transaction.id
+          });
         }
       } catch (error) {
-        console.error(`Error monitoring offramp for payment ${paymentId}:`, error);
-        clearInterval(checkInterval);
-        await this.updatePaymentStatus(paymentId, PaymentStatus.FAILED);
+        console.error(`Failed to time out transaction ${transaction.id} for payment ${paymentId}:`, error);
       }
-    }, 5000); // Check every 5 seconds
+    }, isOnramp ? ONRAMP_SETTLEMENT_TIMEOUT_MS : OFFRAMP_SETTLEMENT_TIMEOUT_MS));
+  }
+
+  /**
+   * Retry a failed onramp or offramp with the next-best provider, trying at
+   * most ROUTING_MAX_ATTEMPTS providers per payment and leg. Returns false
+   * when there is none left to try.
+   */
+  private async failOver(paymentId: string, transaction: Transaction): Promise<boolean> {
+    const isOnramp = transaction.type === TransactionType.ONRAMP;
+    const payment = await this.getPaymentById(paymentId);
+    if (payment?.status !== (isOnramp ? PaymentStatus.PROCESSING : PaymentStatus.OFFRAMP_PROCESSING)) {
+      return false;
+    }
+
+    const tried = await this.db.all<{ provider: string }>(
+      'SELECT DISTINCT provider FROM transactions WHERE payment_id = ? AND type = ? AND provider IS NOT NULL',
+      [paymentId, transaction.type]
+    );
+    const excludeProviders = tried.map(row => row.provider);
+    if (excludeProviders.length >= this.maxRoutingAttempts) {
+      return false;
+    }
+
+    try {
+      if (isOnramp) {
+        await this.initiateOnramp(paymentId, excludeProviders);
+      } else {
+        await this.initiateOfframp(paymentId, excludeProviders);
+      }
+    } catch (error) {
+      if (!(error instanceof RoutingError)) {
+        console.error(`Failover failed for payment ${paymentId}:`, error);
+      }
+      return false;
+    }
 
-    // Timeout after 2 hours
-    setTimeout(() => {
-      clearInterval(checkInterval);
-    }, 2 * 60 * 60 * 1000);
+    console.log(`Payment ${paymentId} failed over from ${transaction.provider} after ${transaction.type} failure`);
+    return true;
+  }
+
+  private clearSettlementTimeout(transactionId: string): void {
+    clearTimeout(settlementTimeouts.get(transactionId));
+    settlementTimeouts.delete(transactionId);
   }
 
   /**
-   * Update payment status
+   * Update payment status through the state machine.
+   * Throws InvalidPaymentTransitionError if the transition is not allowed or
+   * the payment changed status concurrently.
    */
-  private async updatePaymentStatus(paymentId: string, status: PaymentStatus): Promise<void> {
-    await this.db.run(
-      'UPDATE payments SET status = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
-      [status, paymentId]
+  private async updatePaymentStatus(
+    paymentId: string,
+    status: PaymentStatus,
+    reason?: string,
+    metadata?: Record<string, unknown>
+  ): Promise<void> {
+    const payment = await this.getPaymentById(paymentId);
+    if (!payment) {
+      throw new Error(`Payment ${paymentId} not found`);
+    }
+
+    assertTransition(paymentId, payment.status, status);
+
+    // Only apply the update if nobody else moved the payment in the meantime
+    const result = await this.db.run(
+      'UPDATE payments SET status = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ? AND status = ?',
+      [status, paymentId, payment.status]
     );
 
+    if (result.changes === 0) {
+      const current = await this.getPaymentById(paymentId);
+      throw new InvalidPaymentTransitionError(paymentId, current?.status || payment.status, status);
+    }
+
+    await this.recordPaymentEvent(paymentId, payment.status, status, reason, metadata);
+
+    // The status change has happened; a posting failure must not undo it
+    try {
+      await this.ledgerService.postPaymentStatusChange(payment, status);
+    } catch (error) {
+      console.error(`Failed to post ledger entry for payment ${paymentId} (${status}):`, error);
+    }
+
     // Trigger status webhook
     await this.webhookService.scheduleWebhook(
       paymentId,
@@ -362,6 +915,40 @@ export class PaymentOrchestrator {
     );
   }
 
+  /**
+   * Move a payment to failed, ignoring payments that already reached a terminal status
+   */
+  private async failPayment(paymentId: string, reason: string, metadata?: Record<string, unknown>): Promise<void> {
+    try {
+      await this.updatePaymentStatus(paymentId, PaymentStatus.FAILED, reason, metadata);
+    } catch (error) {
+      if (error instanceof InvalidPaymentTransitionError) {
+        console.warn(`Not failing payment ${paymentId}: ${error.message}`);
+        return;
+      }
+      console.error(`Failed to mark payment ${paymentId} as failed:`, error);
+    }
+  }
+
+  /**
+   * Append a status transition to the payment history and push it to open event streams
+   */
+  private async recordPaymentEvent(
+    paymentId: string,
+    fromStatus: PaymentStatus | null,
+    toStatus: PaymentStatus,
+    reason?: string,
+    metadata?: Record<string, unknown>
+  ): Promise<void> {
+    await this.db.run(
+      `INSERT INTO payment_events (payment_id, from_status, to_status, reason, metadata)
+       VALUES (?, ?, ?, ?, ?)`,
+      [paymentId, fromStatus, toStatus, reason || null, metadata ? JSON.stringify(metadata) : null]
+    );
+
+    await this.eventStreamService.publishPaymentStatusChange(paymentId, fromStatus, toStatus, reason, metadata);
+  }
+
   /**
    * Get webhook event type for payment status
    */
@@ -387,13 +974,19 @@ export class PaymentOrchestrator {
     return {
       id: payment.id,
       status: payment.status,
-      source_amount: payment.source_amount,
+      source_amount: Money.fromMinor(payment.source_amount, payment.source_currency).toMajorString(),
       source_currency: payment.source_currency,
-      destination_amount: payment.destination_amount,
+      destination_amount: Money.fromMinor(payment.destination_amount, payment.destination_currency).toMajorString(),
       destination_currency: payment.destination_currency,
-      exchange_rate: payment.exchange_rate,
-      fee_amount: payment.fee_amount,
-      total_amount: payment.total_amount,
+      exchange_rate: String(payment.exchange_rate),
+      mid_exchange_rate: payment.mid_exchange_rate || undefined,
+      spread_bps: payment.spread_bps,
+      spread_amount: Money.fromMinor(payment.spread_amount, payment.source_currency).toMajorString(),
+      fee_amount: Money.fromMinor(payment.fee_amount, payment.source_currency).toMajorString(),
+      total_amount: Money.fromMinor(payment.total_amount, payment.source_currency).toMajorString(),
+      quote_id: payment.quote_id || undefined,
+      recipient_id: payment.recipient_id || undefined,
+      routing_preference: payment.routing_preference || undefined,
       estimated_completion: estimatedCompletion.toISOString(),
       created_at: payment.created_at
     };
@@ -418,37 +1011,57 @@ export class PaymentOrchestrator {
   }
 
   /**
-   * Cancel payment (if still processing)
+   * Cancel payment (if the state machine allows it).
+   * Returns false if the payment does not exist and throws
+   * InvalidPaymentTransitionError if it can no longer be cancelled.
    */
   async cancelPayment(paymentId: string): Promise<boolean> {
     const payment = await this.getPaymentById(paymentId);
-    
-    if (!payment || payment.status === PaymentStatus.COMPLETED || payment.status === PaymentStatus.FAILED) {
+
+    if (!payment) {
       return false;
     }
 
-    await this.updatePaymentStatus(paymentId, PaymentStatus.CANCELLED);
+    await this.updatePaymentStatus(paymentId, PaymentStatus.CANCELLED, 'cancelled_by_client', {
+      previous_status: payment.status
+    });
+
+    // Stop collection that has not settled yet
+    const onrampTransaction = await this.getLatestTransaction(paymentId, TransactionType.ONRAMP);
+    if (onrampTransaction) {
+      await this.onrampService.cancelTransaction(onrampTransaction.id);
+    }
+
     return true;
   }
 
   /**
-   * Get fee estimate for a potential payment
+   * Get fee estimate for a potential payment, at the customer's rate
    */
   async getFeeEstimate(
-    sourceAmount: number,
+    sourceAmount: number | string,
     sourceCurrency: string,
-    destinationCurrency: string
+    destinationCurrency: string,
+    customer: FxCustomer = {}
   ): Promise<any> {
-    const exchangeRate = await this.exchangeRateService.getExchangeRate(
-      sourceCurrency,
+    const amount = Money.fromMajor(sourceAmount, sourceCurrency);
+    const midRate = await this.exchangeRateService.getExchangeRate(
+      amount.currency,
       destinationCurrency
     );
+    const pricing = await this.fxSpreadService.priceRate(amount, destinationCurrency, midRate, customer);
 
-    return await this.feeEngine.getFeeEstimate(
-      sourceAmount,
-      sourceCurrency,
+    const estimate = await this.feeEngine.getFeeEstimate(
+      amount,
       destinationCurrency,
-      exchangeRate
+      pricing.exchange_rate
     );
+
+    return {
+      ...estimate,
+      mid_exchange_rate: pricing.mid_rate,
+      spread_bps: pricing.spread_bps,
+      spread_amount: pricing.spread_amount
+    };
   }
 } 
\ No newline at end of file
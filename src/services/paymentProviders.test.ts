@@ -0,0 +1,62 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Money } from '../types/money.js';
+import { ProviderDirection } from '../types/ledger.js';
+import { DEFAULT_PAYMENT_PROVIDERS, createPaymentProvider, quoteProviderFees } from './paymentProviders.js';
+
+describe('quoteProviderFees', () => {
+  test('charges the percentage as a fraction of the amount plus the fixed fee', () => {
+    const quote = quoteProviderFees(Money.fromMajor('100', 'USD'), { percentage: 0.029, fixed: 0.3, currency: 'USD' });
+
+    assert.equal(quote.amount.toMajorString(), '3.20');
+    assert.equal(quote.currency, 'USD');
+    assert.equal(quote.breakdown.percentage_fee.toMajorString(), '2.90');
+    assert.equal(quote.breakdown.fixed_fee.toMajorString(), '0.30');
+    assert.equal(quote.breakdown.percentage_rate, 0.029);
+  });
+
+  test('rounds the percentage fee to the minor unit', () => {
+    const quote = quoteProviderFees(Money.fromMajor('10.01', 'USD'), { percentage: 0.029, currency: 'USD' });
+    assert.equal(quote.amount.toMajorString(), '0.29');
+  });
+
+  test('converts a fixed fee from its own currency', () => {
+    const quote = quoteProviderFees(Money.fromMajor('1000', 'EUR'), { percentage: 0.005, fixed: 2, currency: 'USD' }, '0.85');
+
+    assert.equal(quote.breakdown.fixed_fee.toMajorString(), '1.70');
+    assert.equal(quote.amount.toMajorString(), '6.70');
+    assert.equal(quote.currency, 'EUR');
+  });
+
+  test('needs a rate only when there is a fixed fee in another currency', () => {
+    assert.throws(
+      () => quoteProviderFees(Money.fromMajor('1000', 'EUR'), { percentage: 0.005, fixed: 2, currency: 'USD' }),
+      { code: 'FEE_RATE_UNAVAILABLE' }
+    );
+
+    const quote = quoteProviderFees(Money.fromMajor('1000', 'EUR'), { percentage: 0.005, fixed: 0, currency: 'USD' });
+    assert.equal(quote.amount.toMajorString(), '5.00');
+  });
+
+  test('charges nothing without fees', () => {
+    assert.equal(quoteProviderFees(Money.fromMajor('50', 'GBP')).amount.toMajorString(), '0.00');
+  });
+});
+
+describe('default offramp fees', () => {
+  test('quote a small share of a 1000 EUR payout', () => {
+    const amount = Money.fromMajor('1000', 'EUR');
+    const fees = Object.fromEntries(
+      DEFAULT_PAYMENT_PROVIDERS
+        .filter(config => config.direction === ProviderDirection.OFFRAMP && config.supported_currencies.includes('EUR'))
+        .map(config => [config.provider, createPaymentProvider(config).quoteFees(amount, '0.85').amount.toMajorString()])
+    );
+
+    assert.deepEqual(fees, {
+      local_bank_network: '6.70',
+      swift_wire: '22.25',
+      neobank_partner: '3.85',
+      instant_payout: '10.21'
+    });
+  });
+});
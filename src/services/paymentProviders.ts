@@ -0,0 +1,560 @@
+import type { IncomingHttpHeaders } from 'http';
+import { ApiError } from '../types/errors.js';
+import { Money } from '../types/money.js';
+import { ProviderDirection } from '../types/ledger.js';
+import { TransactionStatus } from '../types/payment.js';
+import { ProviderWebhookSettings, hasConfiguredSecret, signProviderCallback, verifyProviderCallback } from './providerSignatures.js';
+
+/**
+ * Adapters for the onramp and offramp providers that move the money. Each
+ * provider type has one adapter class; OnrampService and OfframpService pick
+ * between the configured instances and talk to them only through
+ * PaymentProvider.
+ *
+ * PAYMENT_PROVIDERS configures them as a JSON array replacing the built-in
+ * list below, for example
+ *
+ *   [{"type":"simulated","provider":"stripe","direction":"onramp","name":"Stripe",
+ *     "description":"Cards","limits":{"min":1,"max":10000,"currency":"USD"},
+ *     "processing_time":"5 minutes","payment_methods":["card"],"success_rate":0.98,
+ *     "simulation":{"reference_format":"pi_{random}{timestamp}","completion_minutes":5,
+ *     "processing_delay_ms":5000},"webhook":{"scheme":"stripe","secret_env":"STRIPE_WEBHOOK_SECRET"}}]
+ *
+ * Providers report settlement by calling POST /api/v1/provider-callbacks/:provider,
+ * signed with the scheme in their webhook settings (see providerSignatures.ts).
+ */
+
+export class PaymentProviderError extends ApiError {}
+
+export type PaymentProviderType = 'simulated';
+
+export interface ProviderFees {
+  percentage?: number; // Fraction of the amount, e.g. 0.029 for 2.9%
+  fixed?: number; // In currency, converted to the amount's currency
+  currency: string;
+}
+
+export interface PaymentProviderInfo {
+  provider: string; // Id, recorded on transactions
+  direction: ProviderDirection;
+  name: string;
+  description: string;
+  limits: { min: number; max: number; currency?: string };
+  processing_time: string;
+  success_rate: number;
+  fees?: ProviderFees;
+  payment_methods?: string[]; // onramp
+  supported_currencies?: string[]; // offramp
+  features?: string[];
+}
+
+export interface ProviderTrackingInfo {
+  network?: string;
+  confirmation_blocks?: number;
+  estimated_arrival?: string;
+}
+
+export interface ProviderInitiateRequest {
+  transaction_id: string;
+  amount: Money; // In the currency the provider moves
+}
+
+export interface ProviderInitiation {
+  external_reference: string;
+  status: TransactionStatus;
+  estimated_completion: string;
+  tracking_info?: ProviderTrackingInfo;
+}
+
+export interface ProviderStatusResult {
+  external_reference: string;
+  status: TransactionStatus;
+}
+
+/**
+ * A status change reported by a provider callback
+ */
+export interface ProviderWebhookEvent {
+  event_id: string;
+  external_reference: string;
+  status: TransactionStatus;
+  occurred_at: string;
+}
+
+export interface ProviderFeeQuote {
+  amount: Money;
+  currency: string;
+  breakdown: {
+    percentage_fee?: Money;
+    fixed_fee?: Money;
+    percentage_rate?: number;
+  };
+}
+
+export interface PaymentProvider<TInfo extends PaymentProviderInfo = PaymentProviderInfo> {
+  readonly info: TInfo;
+  readonly webhook: ProviderWebhookSettings; // How its callbacks are signed
+  initiate(request: ProviderInitiateRequest): Promise<ProviderInitiation>;
+  getStatus(externalReference: string): Promise<ProviderStatusResult | undefined>;
+  cancel(externalReference: string): Promise<boolean>; // False once the provider has settled it
+  parseWebhook(rawBody: string, headers: IncomingHttpHeaders): ProviderWebhookEvent;
+  quoteFees(amount: Money, feeRate?: string): ProviderFeeQuote;
+}
+
+/**
+ * How a simulated provider behaves. Values keyed by currency fall back to "*".
+ */
+export interface SimulationSettings {
+  reference_format?: string; // {random}, {timestamp} and {currency} are filled in
+  completion_minutes?: number | Record<string, number>;
+  processing_delay_ms?: number;
+  network?: string | Record<string, string>; // Reported in tracking info when set
+  confirmation_blocks?: number;
+}
+
+export interface PaymentProviderConfig extends PaymentProviderInfo {
+  type: PaymentProviderType;
+  enabled?: boolean;
+  simulation?: SimulationSettings;
+  webhook?: ProviderWebhookSettings; // Defaults to the stripe scheme
+}
+
+/**
+ * Receives the signed callbacks simulated providers send, standing in for
+ * their HTTP delivery
+ */
+export type SimulatedCallbackHandler = (provider: string, rawBody: string, headers: IncomingHttpHeaders) => Promise<void>;
+
+let simulatedCallbackHandler: SimulatedCallbackHandler | undefined;
+
+export function setSimulatedCallbackHandler(handler: SimulatedCallbackHandler): void {
+  simulatedCallbackHandler = handler;
+}
+
+const perCurrency = <T>(setting: T | Record<string, T> | undefined, currency: string): T | undefined =>
+  setting !== null && typeof setting === 'object'
+    ? (setting as Record<string, T>)[currency] ?? (setting as Record<string, T>)['*']
+    : setting as T | undefined;
+
+/**
+ * Fees a provider charges on an amount, from its configured percentage and
+ * fixed fee. A fixed fee in another currency is converted at feeRate, the
+ * rate from the fee currency to the amount's.
+ */
+export function quoteProviderFees(amount: Money, fees?: ProviderFees, feeRate?: string): ProviderFeeQuote {
+  if (!fees) {
+    return { amount: Money.zero(amount.currency), currency: amount.currency, breakdown: {} };
+  }
+
+  const { percentage = 0, fixed = 0 } = fees;
+  const percentageFee = amount.multiply(percentage);
+  let fixedFee = Money.fromMajor(fixed, fees.currency || amount.currency);
+  if (fixedFee.currency !== amount.currency) {
+    if (fixedFee.isZero()) {
+      fixedFee = Money.zero(amount.currency);
+    } else if (feeRate) {
+      fixedFee = fixedFee.convert(feeRate, amount.currency);
+    } else {
+      throw new PaymentProviderError(
+        `A ${fees.currency} to ${amount.currency} rate is needed to quote the fixed fee`,
+        'FEE_RATE_UNAVAILABLE',
+        500
+      );
+    }
+  }
+  const totalFee = percentageFee.add(fixedFee);
+
+  return {
+    amount: totalFee,
+    currency: totalFee.currency,
+    breakdown: {
+      percentage_fee: percentageFee,
+      fixed_fee: fixedFee,
+      percentage_rate: percentage
+    }
+  };
+}
+
+interface SimulatedTransaction {
+  outcome: TransactionStatus;
+  settles_at: number;
+}
+
+/**
+ * In-process stand-in for a provider. Each transaction settles after
+ * processing_delay_ms, completing with the provider's success_rate, and the
+ * outcome is sent as a signed callback. Callbacks are plain JSON:
+ * {"id", "external_reference", "status", "occurred_at"}.
+ */
+export class SimulatedProvider<TInfo extends PaymentProviderInfo = PaymentProviderInfo> implements PaymentProvider<TInfo> {
+  private transactions = new Map<string, SimulatedTransaction>();
+  private callbackAttempts: number = parseInt(process.env.SIMULATED_CALLBACK_ATTEMPTS || '3', 10);
+  private callbackRetryMs: number = parseInt(process.env.SIMULATED_CALLBACK_RETRY_MS || '5000', 10);
+
+  constructor(
+    readonly info: TInfo,
+    private simulation: SimulationSettings = {},
+    readonly webhook: ProviderWebhookSettings = { scheme: 'stripe' }
+  ) {}
+
+  async initiate(request: ProviderInitiateRequest): Promise<ProviderInitiation> {
+    const currency = request.amount.currency;
+    const externalReference = this.generateReference(currency);
+    this.simulate(externalReference);
+
+    const estimatedCompletion = this.getEstimatedCompletion(currency);
+    const network = perCurrency(this.simulation.network, currency);
+
+    return {
+      external_reference: externalReference,
+      status: TransactionStatus.PROCESSING,
+      estimated_completion: estimatedCompletion,
+      tracking_info: network
+        ? {
+          network,
+          confirmation_blocks: this.simulation.confirmation_blocks ?? 1,
+          estimated_arrival: estimatedCompletion
+        }
+        : undefined
+    };
+  }
+
+  async getStatus(externalReference: string): Promise<ProviderStatusResult | undefined> {
+    // Unknown references were issued before a restart; settle them afresh
+    const transaction = this.transactions.get(externalReference) || this.simulate(externalReference);
+
+    return {
+      external_reference: externalReference,
+      status: Date.now() >= transaction.settles_at ? transaction.outcome : TransactionStatus.PROCESSING
+    };
+  }
+
+  async cancel(externalReference: string): Promise<boolean> {
+    const transaction = this.transactions.get(externalReference);
+    if (transaction && Date.now() >= transaction.settles_at) {
+      return false;
+    }
+
+    this.transactions.set(externalReference, { outcome: TransactionStatus.FAILED, settles_at: 0 });
+    return true;
+  }
+
+  parseWebhook(rawBody: string, headers: IncomingHttpHeaders): ProviderWebhookEvent {
+    if (!verifyProviderCallback(this.webhook, rawBody, headers)) {
+      throw new PaymentProviderError('Callback signature is missing or invalid', 'INVALID_PROVIDER_SIGNATURE', 401);
+    }
+
+    let event: { id?: unknown; external_reference?: unknown; status?: TransactionStatus; occurred_at?: string } | null;
+    try {
+      event = JSON.parse(rawBody);
+    } catch {
+      throw new PaymentProviderError('Callback body must be JSON', 'INVALID_PROVIDER_CALLBACK', 400);
+    }
+
+    const statuses: string[] = [TransactionStatus.PROCESSING, TransactionStatus.COMPLETED, TransactionStatus.FAILED];
+    if (!event || typeof event.id !== 'string' || typeof event.external_reference !== 'string' || !statuses.includes(event.status)) {
+      throw new PaymentProviderError(
+        'Callback needs id, external_reference and a processing, completed or failed status',
+        'INVALID_PROVIDER_CALLBACK',
+        400
+      );
+    }
+
+    return {
+      event_id: event.id,
+      external_reference: event.external_reference,
+      status: event.status,
+      occurred_at: event.occurred_at || new Date().toISOString()
+    };
+  }
+
+  quoteFees(amount: Money, feeRate?: string): ProviderFeeQuote {
+    return quoteProviderFees(amount, this.info.fees, feeRate);
+  }
+
+  private simulate(externalReference: string): SimulatedTransaction {
+    const delay = this.simulation.processing_delay_ms ?? 15000;
+    const transaction = {
+      outcome: Math.random() < this.info.success_rate ? TransactionStatus.COMPLETED : TransactionStatus.FAILED,
+      settles_at: Date.now() + delay
+    };
+    this.transactions.set(externalReference, transaction);
+
+    setTimeout(() => {
+      // Cancelled transactions are replaced in the map and never called back
+      if (this.transactions.get(externalReference) === transaction) {
+        this.sendCallback(externalReference, transaction);
+      }
+    }, delay);
+
+    return transaction;
+  }
+
+  /**
+   * Report a settled transaction, retrying while the receiver fails
+   */
+  private async sendCallback(externalReference: string, transaction: SimulatedTransaction, attempt: number = 1): Promise<void> {
+    if (!simulatedCallbackHandler) {
+      return;
+    }
+
+    const body = JSON.stringify({
+      id: `evt_${Math.random().toString(36).substring(2, 12)}${Date.now()}`,
+      external_reference: externalReference,
+      status: transaction.outcome,
+      occurred_at: new Date(transaction.settles_at).toISOString()
+    });
+    const headers: IncomingHttpHeaders = {};
+    for (const [name, value] of Object.entries(signProviderCallback(this.webhook, body))) {
+      headers[name.toLowerCase()] = value;
+    }
+
+    try {
+      await simulatedCallbackHandler(this.info.provider, body, headers);
+    } catch (error) {
+      if (attempt >= this.callbackAttempts) {
+        console.error(`Giving up on ${this.info.provider} callback for ${externalReference}:`, error);
+        return;
+      }
+      setTimeout(() => this.sendCallback(externalReference, transaction, attempt + 1), this.callbackRetryMs);
+    }
+  }
+
+  private generateReference(currency: string): string {
+    const format = this.simulation.reference_format
+      || (this.info.direction === ProviderDirection.ONRAMP ? 'txn_{random}_{timestamp}' : 'OFF{timestamp}_{random}');
+
+    return format
+      .replace('{random}', Math.random().toString(36).substring(7))
+      .replace('{timestamp}', String(Date.now()))
+      .replace('{currency}', currency);
+  }
+
+  private getEstimatedCompletion(currency: string): string {
+    const minutes = perCurrency(this.simulation.completion_minutes, currency) ?? 1440;
+    return new Date(Date.now() + minutes * 60000).toISOString();
+  }
+}
+
+// Providers used unless PAYMENT_PROVIDERS is set
+export const DEFAULT_PAYMENT_PROVIDERS: PaymentProviderConfig[] = [
+  {
+    type: 'simulated',
+    provider: 'stripe',
+    direction: ProviderDirection.ONRAMP,
+    name: 'Stripe',
+    description: 'Credit card and digital wallet payments',
+    limits: { min: 1, max: 10000, currency: 'USD' },
+    processing_time: '5 minutes',
+    payment_methods: ['card', 'digital_wallet'],
+    success_rate: 0.98,
+    fees: { percentage: 0.029, fixed: 0.30, currency: 'USD' },
+    simulation: { reference_format: 'pi_{random}{timestamp}', completion_minutes: 5, processing_delay_ms: 5000 },
+    webhook: { scheme: 'stripe', secret_env: 'STRIPE_WEBHOOK_SECRET' }
+  },
+  {
+    type: 'simulated',
+    provider: 'circle',
+    direction: ProviderDirection.ONRAMP,
+    name: 'Circle',
+    description: 'Stablecoin and bank transfer',
+    limits: { min: 100, max: 100000, currency: 'USD' },
+    processing_time: '30 minutes',
+    payment_methods: ['bank_transfer', 'stablecoin'],
+    success_rate: 0.99,
+    fees: { percentage: 0.001, fixed: 0, currency: 'USD' },
+    simulation: { reference_format: 'circle_{random}_{timestamp}', completion_minutes: 30, processing_delay_ms: 30000 },
+    webhook: { scheme: 'circle', secret_env: 'CIRCLE_WEBHOOK_SECRET' }
+  },
+  {
+    type: 'simulated',
+    provider: 'wire_transfer',
+    direction: ProviderDirection.ONRAMP,
+    name: 'Wire Transfer',
+    description: 'Large amount wire transfers',
+    limits: { min: 50000, max: 1000000, currency: 'USD' },
+    processing_time: '24 hours',
+    payment_methods: ['wire'],
+    success_rate: 0.95,
+    fees: { percentage: 0, fixed: 25, currency: 'USD' },
+    simulation: { reference_format: 'wire_{timestamp}_{random}', completion_minutes: 1440, processing_delay_ms: 60000 }
+  },
+  {
+    type: 'simulated',
+    provider: 'local_bank_network',
+    direction: ProviderDirection.OFFRAMP,
+    name: 'Local Bank Network',
+    description: 'Direct bank transfers within local networks',
+    supported_currencies: ['EUR', 'GBP', 'CAD', 'AUD', 'JPY', 'CHF', 'NOK', 'SEK'],
+    processing_time: '1-2 business days',
+    limits: { min: 10, max: 50000 },
+    success_rate: 0.99,
+    fees: { percentage: 0.005, fixed: 2, currency: 'USD' },
+    features: ['local_network', 'low_fees', 'fast_settlement'],
+    simulation: {
+      reference_format: 'LBN{currency}{timestamp}{random}',
+      completion_minutes: { JPY: 2880, '*': 1440 }, // Next business day, two in Japan
+      processing_delay_ms: 30000,
+      network: { EUR: 'SEPA', GBP: 'BACS/FPS', JPY: 'Zengin', CAD: 'Interac', AUD: 'NPP', '*': 'Local Network' }
+    }
+  },
+  {
+    type: 'simulated',
+    provider: 'swift_wire',
+    direction: ProviderDirection.OFFRAMP,
+    name: 'SWIFT Wire Transfer',
+    description: 'International wire transfers',
+    supported_currencies: ['EUR', 'GBP', 'USD', 'CHF'],
+    processing_time: '2-3 business days',
+    limits: { min: 1000, max: 1000000 },
+    success_rate: 0.98,
+    fees: { percentage: 0.001, fixed: 25, currency: 'USD' },
+    features: ['global_reach', 'high_limits', 'secure_transfer'],
+    simulation: { reference_format: 'SW{timestamp}{random}', completion_minutes: 2880, processing_delay_ms: 60000, network: 'SWIFT' }
+  },
+  {
+    type: 'simulated',
+    provider: 'digital_wallet',
+    direction: ProviderDirection.OFFRAMP,
+    name: 'Digital Wallet',
+    description: 'Mobile and digital wallet payouts',
+    supported_currencies: ['INR', 'MXN', 'BRL'],
+    processing_time: 'Instant to 24 hours',
+    limits: { min: 1, max: 10000 },
+    success_rate: 0.97,
+    fees: { percentage: 0.015, fixed: 0.5, currency: 'USD' },
+    features: ['instant_payout', 'mobile_friendly', 'low_limits'],
+    simulation: {
+      reference_format: 'DW_{currency}_{random}_{timestamp}',
+      completion_minutes: 60,
+      processing_delay_ms: 15000,
+      network: { INR: 'UPI', MXN: 'SPEI', BRL: 'PIX', '*': 'Digital Wallet' }
+    }
+  },
+  {
+    type: 'simulated',
+    provider: 'neobank_partner',
+    direction: ProviderDirection.OFFRAMP,
+    name: 'Neobank Partner',
+    description: 'Modern banking solutions',
+    supported_currencies: ['EUR', 'GBP', 'BRL'],
+    processing_time: 'Same day',
+    limits: { min: 10, max: 100000 },
+    success_rate: 0.99,
+    fees: { percentage: 0.003, fixed: 1, currency: 'USD' },
+    features: ['modern_ui', 'instant_settlement', 'api_integration'],
+    simulation: { reference_format: 'NEO_{currency}_{timestamp}_{random}', completion_minutes: 480, processing_delay_ms: 25000, network: 'Neobank API' }
+  },
+  {
+    type: 'simulated',
+    provider: 'instant_payout',
+    direction: ProviderDirection.OFFRAMP,
+    name: 'Instant Payout',
+    description: 'Real-time payment processing',
+    supported_currencies: ['EUR', 'GBP', 'USD'],
+    processing_time: 'Instant',
+    limits: { min: 1, max: 25000 },
+    success_rate: 0.96,
+    fees: { percentage: 0.01, fixed: 0.25, currency: 'USD' },
+    features: ['instant_settlement', '24_7_availability', 'real_time_tracking'],
+    simulation: { reference_format: 'IP_{currency}_{timestamp}_{random}', completion_minutes: 5, processing_delay_ms: 30000, network: 'Instant Network' }
+  },
+  {
+    type: 'simulated',
+    provider: 'crypto_payout',
+    direction: ProviderDirection.OFFRAMP,
+    name: 'Crypto Payout',
+    description: 'Cryptocurrency payouts',
+    supported_currencies: ['BTC', 'ETH', 'USDC', 'USDT'],
+    processing_time: '5-30 minutes',
+    limits: { min: 10, max: 100000 },
+    success_rate: 0.94,
+    fees: { percentage: 0.005, fixed: 0, currency: 'USD' },
+    features: ['crypto_support', 'global_access', 'low_fees'],
+    simulation: {
+      reference_format: 'CP_{currency}_{timestamp}_{random}',
+      completion_minutes: 30,
+      processing_delay_ms: 30000,
+      network: 'Blockchain',
+      confirmation_blocks: 6
+    }
+  }
+];
+
+/**
+ * Build a provider adapter from its configuration
+ */
+export function createPaymentProvider(config: PaymentProviderConfig): PaymentProvider {
+  const { type, simulation, webhook, ...info } = config;
+  delete info.enabled;
+
+  if (!info.provider || !Object.values(ProviderDirection).includes(info.direction)) {
+    throw new PaymentProviderError(
+      'Payment providers need a provider id and an onramp or offramp direction',
+      'PAYMENT_PROVIDER_CONFIG_INVALID',
+      500
+    );
+  }
+
+  switch (type) {
+  case 'simulated':
+    return new SimulatedProvider(info, simulation, webhook);
+  default:
+    throw new PaymentProviderError(`Unknown payment provider type: ${type}`, 'PAYMENT_PROVIDER_CONFIG_INVALID', 500);
+  }
+}
+
+let configuredProviders: PaymentProvider[] | undefined;
+
+/**
+ * Enabled providers from PAYMENT_PROVIDERS (or the built-in list), created
+ * once per process so every service sees the same provider state
+ */
+export function getConfiguredPaymentProviders(): PaymentProvider[] {
+  if (configuredProviders) {
+    return configuredProviders;
+  }
+
+  let configs = DEFAULT_PAYMENT_PROVIDERS;
+  if (process.env.PAYMENT_PROVIDERS) {
+    try {
+      configs = JSON.parse(process.env.PAYMENT_PROVIDERS);
+    } catch {
+      throw new PaymentProviderError('PAYMENT_PROVIDERS must be a JSON array', 'PAYMENT_PROVIDER_CONFIG_INVALID', 500);
+    }
+    if (!Array.isArray(configs)) {
+      throw new PaymentProviderError('PAYMENT_PROVIDERS must be a JSON array', 'PAYMENT_PROVIDER_CONFIG_INVALID', 500);
+    }
+  }
+
+  configuredProviders = configs.filter(config => config.enabled !== false).map(createPaymentProvider);
+  return configuredProviders;
+}
+
+/**
+ * Check at startup that callbacks from every provider are verified with a
+ * configured secret. On the built-in demo secret anyone could forge them, so
+ * that is refused in production and warned about elsewhere.
+ */
+export function checkProviderWebhookSecrets(): void {
+  const unconfigured = getConfiguredPaymentProviders()
+    .filter(provider => !hasConfiguredSecret(provider.webhook))
+    .map(provider => provider.info.provider);
+  if (unconfigured.length === 0) {
+    return;
+  }
+
+  const message = `No webhook secret configured for provider(s) ${unconfigured.join(', ')}; set PROVIDER_WEBHOOK_SECRET or the provider's secret_env`;
+  if (process.env.NODE_ENV === 'production') {
+    throw new PaymentProviderError(message, 'PAYMENT_PROVIDER_CONFIG_INVALID', 500);
+  }
+  console.warn(`⚠️  ${message}. Their callbacks are verified with a built-in demo secret. Do not use this outside development.`);
+}
+
+/**
+ * Configured providers for one direction, in configuration order
+ */
+export function getPaymentProviders<TInfo extends PaymentProviderInfo>(direction: ProviderDirection): PaymentProvider<TInfo>[] {
+  return getConfiguredPaymentProviders()
+    .filter(provider => provider.info.direction === direction) as PaymentProvider<TInfo>[];
+}
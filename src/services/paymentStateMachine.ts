@@ -0,0 +1,59 @@
+import { PaymentStatus } from '../types/payment.js';
+import { ApiError } from '../types/errors.js';
+
+/**
+ * Allowed payment status transitions. Terminal statuses have no outgoing edges.
+ */
+export const PAYMENT_STATUS_TRANSITIONS: Record<PaymentStatus, PaymentStatus[]> = {
+  [PaymentStatus.PENDING]: [PaymentStatus.PROCESSING, PaymentStatus.FAILED, PaymentStatus.CANCELLED],
+  [PaymentStatus.PROCESSING]: [PaymentStatus.ONRAMP_COMPLETE, PaymentStatus.FAILED, PaymentStatus.CANCELLED],
+  [PaymentStatus.ONRAMP_COMPLETE]: [PaymentStatus.OFFRAMP_PROCESSING, PaymentStatus.FAILED, PaymentStatus.CANCELLED],
+  [PaymentStatus.OFFRAMP_PROCESSING]: [PaymentStatus.COMPLETED, PaymentStatus.FAILED],
+  [PaymentStatus.COMPLETED]: [],
+  [PaymentStatus.FAILED]: [],
+  [PaymentStatus.CANCELLED]: []
+};
+
+/**
+ * Statuses a payment can be left in when the process stops; these are resumed on startup
+ */
+export const IN_FLIGHT_PAYMENT_STATUSES: PaymentStatus[] = [
+  PaymentStatus.PENDING,
+  PaymentStatus.PROCESSING,
+  PaymentStatus.ONRAMP_COMPLETE,
+  PaymentStatus.OFFRAMP_PROCESSING
+];
+
+export class InvalidPaymentTransitionError extends ApiError {
+  constructor(paymentId: string, from: PaymentStatus, to: PaymentStatus) {
+    super(
+      `Payment ${paymentId} cannot move from '${from}' to '${to}'`,
+      'INVALID_STATE_TRANSITION',
+      409,
+      { payment_id: paymentId, from_status: from, to_status: to }
+    );
+  }
+}
+
+/**
+ * Check whether a status transition is allowed
+ */
+export function canTransition(from: PaymentStatus, to: PaymentStatus): boolean {
+  return PAYMENT_STATUS_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+/**
+ * Throw an InvalidPaymentTransitionError if the transition is not allowed
+ */
+export function assertTransition(paymentId: string, from: PaymentStatus, to: PaymentStatus): void {
+  if (!canTransition(from, to)) {
+    throw new InvalidPaymentTransitionError(paymentId, from, to);
+  }
+}
+
+/**
+ * Check whether a status is terminal
+ */
+export function isTerminalStatus(status: PaymentStatus): boolean {
+  return PAYMENT_STATUS_TRANSITIONS[status]?.length === 0;
+}
@@ -0,0 +1,236 @@
+import crypto from 'crypto';
+import { ApiError } from '../types/errors.js';
+import { BankDetails } from '../types/payment.js';
+import { maskBankDetails } from './bankDetails.js';
+
+/**
+ * Envelope encryption for personal data at rest. Every value gets its own
+ * random data key (DEK); the value is encrypted with the DEK and the DEK is
+ * wrapped with a key-encryption key (KEK) from PII_ENCRYPTION_KEYS, both
+ * with AES-256-GCM. Stored values look like
+ *
+ *   enc:<kek version>:<wrapped DEK>:<encrypted value>
+ *
+ * where both parts are base64 of IV, auth tag and ciphertext. Rotating the
+ * KEK only re-wraps the DEKs; see PiiReencryptionService.
+ *
+ * PII_ENCRYPTION_KEYS lists the KEKs as "version:base64 32-byte key" pairs,
+ * comma separated. New values are wrapped with PII_ENCRYPTION_KEY_VERSION,
+ * or the last key listed. Older versions stay listed until re-encrypted.
+ */
+
+export class PiiEncryptionError extends ApiError {}
+
+const PREFIX = 'enc';
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const DEMO_KEY_VERSION = 'demo';
+
+interface PiiKeyring {
+  currentVersion: string;
+  keys: Map<string, Buffer>;
+}
+
+let keyring: PiiKeyring | undefined;
+
+function getKeyring(): PiiKeyring {
+  if (keyring) {
+    return keyring;
+  }
+
+  const keys = new Map<string, Buffer>();
+  const configured = process.env.PII_ENCRYPTION_KEYS;
+
+  if (!configured) {
+    keys.set(DEMO_KEY_VERSION, crypto.createHash('sha256').update('demo-pii-encryption-key').digest());
+  }
+
+  for (const entry of (configured || '').split(',').map(part => part.trim()).filter(Boolean)) {
+    const [version, encodedKey] = entry.split(':', 2);
+    const key = Buffer.from(encodedKey || '', 'base64');
+    if (!/^[A-Za-z0-9_-]+$/.test(version) || key.length !== 32) {
+      throw new PiiEncryptionError(
+        'PII_ENCRYPTION_KEYS entries must be "version:base64 32-byte key"',
+        'PII_KEY_CONFIG_INVALID',
+        500
+      );
+    }
+    keys.set(version, key);
+  }
+
+  const currentVersion = process.env.PII_ENCRYPTION_KEY_VERSION || [...keys.keys()].pop()!;
+  if (!keys.has(currentVersion)) {
+    throw new PiiEncryptionError(
+      `PII key version ${currentVersion} is not in PII_ENCRYPTION_KEYS`,
+      'PII_KEY_CONFIG_INVALID',
+      500
+    );
+  }
+
+  keyring = { currentVersion, keys };
+  return keyring;
+}
+
+function getKey(version: string): Buffer {
+  const key = getKeyring().keys.get(version);
+  if (!key) {
+    throw new PiiEncryptionError(`PII key version ${version} is not configured`, 'PII_KEY_UNAVAILABLE', 500);
+  }
+  return key;
+}
+
+function seal(plaintext: Buffer, key: Buffer): string {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64');
+}
+
+function unseal(sealed: string, key: Buffer): Buffer {
+  const data = Buffer.from(sealed, 'base64');
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, data.subarray(0, IV_LENGTH));
+  decipher.setAuthTag(data.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+  return Buffer.concat([decipher.update(data.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]);
+}
+
+function unwrapDataKey(version: string, wrappedKey: string): Buffer {
+  const key = getKey(version);
+  try {
+    return unseal(wrappedKey, key);
+  } catch {
+    throw new PiiEncryptionError(`Data key could not be unwrapped with PII key version ${version}`, 'PII_DECRYPTION_FAILED', 500);
+  }
+}
+
+function parse(value: string): { version: string; wrappedKey: string; payload: string } {
+  const [, version, wrappedKey, payload] = value.split(':');
+  return { version, wrappedKey, payload };
+}
+
+/**
+ * Check the KEK configuration at startup. Without PII_ENCRYPTION_KEYS values
+ * are wrapped with a demo key anyone with the source can derive, so that is
+ * refused in production and warned about elsewhere.
+ */
+export function checkPiiEncryptionKeys(): void {
+  if (!process.env.PII_ENCRYPTION_KEYS) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new PiiEncryptionError(
+        'PII_ENCRYPTION_KEYS must be set in production',
+        'PII_KEY_CONFIG_INVALID',
+        500
+      );
+    }
+    console.warn('⚠️  PII_ENCRYPTION_KEYS is not set: recipient PII is encrypted with a built-in demo key. Do not use this outside development.');
+  }
+
+  getKeyring();
+}
+
+/**
+ * Version of the KEK that new values are wrapped with
+ */
+export function getCurrentPiiKeyVersion(): string {
+  return getKeyring().currentVersion;
+}
+
+/**
+ * Whether a stored value is encrypted (values written before encryption are plaintext)
+ */
+export function isEncryptedPii(value: string): boolean {
+  return value.startsWith(`${PREFIX}:`) && value.split(':').length === 4;
+}
+
+/**
+ * KEK version a stored value is wrapped with, or null for plaintext
+ */
+export function getPiiKeyVersion(value: string): string | null {
+  return isEncryptedPii(value) ? parse(value).version : null;
+}
+
+export function encryptPii(plaintext: string): string {
+  const dataKey = crypto.randomBytes(32);
+  const version = getCurrentPiiKeyVersion();
+  return [PREFIX, version, seal(dataKey, getKey(version)), seal(Buffer.from(plaintext, 'utf8'), dataKey)].join(':');
+}
+
+/**
+ * Decrypt a stored value; plaintext values are returned unchanged
+ */
+export function decryptPii(value: string): string {
+  if (!isEncryptedPii(value)) {
+    return value;
+  }
+
+  const { version, wrappedKey, payload } = parse(value);
+  const dataKey = unwrapDataKey(version, wrappedKey);
+  try {
+    return unseal(payload, dataKey).toString('utf8');
+  } catch {
+    throw new PiiEncryptionError('Encrypted value could not be decrypted', 'PII_DECRYPTION_FAILED', 500);
+  }
+}
+
+/**
+ * Bring a stored value onto the current KEK: plaintext is encrypted, values
+ * under an older KEK get their data key re-wrapped, current values are
+ * returned as they are
+ */
+export function rewrapPii(value: string): string {
+  if (!isEncryptedPii(value)) {
+    return encryptPii(value);
+  }
+
+  const { version, wrappedKey, payload } = parse(value);
+  const currentVersion = getCurrentPiiKeyVersion();
+  if (version === currentVersion) {
+    return value;
+  }
+
+  const dataKey = unwrapDataKey(version, wrappedKey);
+  return [PREFIX, currentVersion, seal(dataKey, getKey(currentVersion)), payload].join(':');
+}
+
+export function encryptOptionalPii(value?: string | null): string | null {
+  return value ? encryptPii(value) : null;
+}
+
+export function decryptOptionalPii(value?: string | null): string | undefined {
+  return value ? decryptPii(value) : undefined;
+}
+
+/**
+ * Payout recipient details as kept in transaction metadata: a masked copy
+ * that is safe to show, and the full details encrypted
+ */
+export function sealRecipientDetails(details: BankDetails & { name: string; country: string }): {
+  recipient_details: BankDetails & { country: string };
+  recipient_details_encrypted: string;
+} {
+  return {
+    recipient_details: { ...maskBankDetails(details), country: details.country },
+    recipient_details_encrypted: encryptPii(JSON.stringify(details))
+  };
+}
+
+/**
+ * Transaction metadata as shown in API responses and webhooks: the encrypted
+ * recipient details are dropped and the rest masked, including recipient
+ * details stored in plaintext before encryption
+ */
+export function redactRecipientDetails<T extends { recipient_details?: BankDetails & { country?: string } }>(metadata: T): T {
+  if (!metadata || typeof metadata !== 'object' || !metadata.recipient_details) {
+    return metadata;
+  }
+
+  const redacted: Record<string, unknown> = {
+    ...metadata,
+    recipient_details: {
+      ...maskBankDetails(metadata.recipient_details),
+      country: metadata.recipient_details.country
+    }
+  };
+  delete redacted.recipient_details_encrypted;
+  return redacted as T;
+}
@@ -0,0 +1,209 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Database } from '../database/database.js';
+import { ApiError } from '../types/errors.js';
+import { BankDetails, Recipient } from '../types/payment.js';
+import { RECIPIENT_PII_COLUMNS } from './recipientService.js';
+import { getCurrentPiiKeyVersion, rewrapPii, sealRecipientDetails } from './piiEncryption.js';
+
+export class PiiReencryptionError extends ApiError {}
+
+// The parts of a transaction's metadata that hold recipient details
+interface RecipientMetadata {
+  recipient_details_encrypted?: string;
+  recipient_details?: BankDetails & { name: string; country: string };
+}
+
+export interface PiiReencryptionJob {
+  id: string;
+  status: 'running' | 'completed' | 'failed';
+  key_version: string; // KEK every value is moved onto
+  recipients_scanned: number;
+  recipients_updated: number;
+  transactions_scanned: number;
+  transactions_updated: number;
+  skipped: number; // Rows changed while the job ran; the next run picks them up
+  error?: string;
+  started_at: string;
+  finished_at?: string;
+}
+
+const BATCH_SIZE = 100;
+
+// One job at a time per process; the last one is kept for status checks
+let currentJob: PiiReencryptionJob | undefined;
+
+/**
+ * Moves stored PII onto the current key-encryption key: values under an
+ * older key get their data keys re-wrapped, and values written before
+ * encryption (plaintext recipient columns and transaction recipient details)
+ * are encrypted. Run it after changing PII_ENCRYPTION_KEY_VERSION, then
+ * drop the old key from PII_ENCRYPTION_KEYS once a run finishes with
+ * nothing skipped.
+ */
+export class PiiReencryptionService {
+  private db: Database;
+
+  constructor() {
+    this.db = Database.getInstance();
+  }
+
+  /**
+   * Start a re-encryption run in the background
+   */
+  startJob(): PiiReencryptionJob {
+    if (currentJob?.status === 'running') {
+      throw new PiiReencryptionError('A re-encryption job is already running', 'PII_REENCRYPTION_RUNNING', 409, { job: currentJob });
+    }
+
+    const job: PiiReencryptionJob = {
+      id: uuidv4(),
+      status: 'running',
+      key_version: getCurrentPiiKeyVersion(),
+      recipients_scanned: 0,
+      recipients_updated: 0,
+      transactions_scanned: 0,
+      transactions_updated: 0,
+      skipped: 0,
+      started_at: new Date().toISOString()
+    };
+    currentJob = job;
+
+    this.runJob(job);
+    return { ...job };
+  }
+
+  /**
+   * The running or most recent job, if any
+   */
+  getJob(): PiiReencryptionJob | undefined {
+    return currentJob && { ...currentJob };
+  }
+
+  private async runJob(job: PiiReencryptionJob): Promise<void> {
+    try {
+      await this.reencryptRecipients(job);
+      await this.reencryptTransactions(job);
+      job.status = 'completed';
+    } catch (error) {
+      console.error('PII re-encryption failed:', error);
+      job.status = 'failed';
+      job.error = (error as Error).message;
+    }
+    job.finished_at = new Date().toISOString();
+  }
+
+  private async reencryptRecipients(job: PiiReencryptionJob): Promise<void> {
+    let lastId = '';
+
+    for (;;) {
+      const recipients = await this.db.all<Recipient>(
+        'SELECT * FROM recipients WHERE id > ? ORDER BY id LIMIT ?',
+        [lastId, BATCH_SIZE]
+      );
+      if (recipients.length === 0) {
+        return;
+      }
+
+      for (const recipient of recipients) {
+        job.recipients_scanned++;
+
+        const rewrapped = new Map<string, string>();
+        for (const column of RECIPIENT_PII_COLUMNS) {
+          const value = recipient[column];
+          const next = value && rewrapPii(value);
+          if (next && next !== value) {
+            rewrapped.set(column, next);
+          }
+        }
+        if (rewrapped.size === 0) {
+          continue;
+        }
+
+        // Only write if no column changed since it was read
+        const result = await this.db.run(
+          `UPDATE recipients SET ${[...rewrapped.keys()].map(column => `${column} = ?`).join(', ')}
+           WHERE id = ? AND ${RECIPIENT_PII_COLUMNS.map(column => `${column} IS ?`).join(' AND ')}`,
+          [
+            ...rewrapped.values(),
+            recipient.id,
+            ...RECIPIENT_PII_COLUMNS.map(column => recipient[column] ?? null)
+          ]
+        );
+
+        if (result.changes > 0) {
+          job.recipients_updated++;
+        } else {
+          job.skipped++;
+        }
+      }
+
+      lastId = recipients[recipients.length - 1].id;
+    }
+  }
+
+  private async reencryptTransactions(job: PiiReencryptionJob): Promise<void> {
+    let lastId = '';
+
+    for (;;) {
+      const transactions = await this.db.all<{ id: string; metadata: string }>(
+        `SELECT id, metadata FROM transactions
+         WHERE id > ? AND metadata LIKE '%"recipient_details"%'
+         ORDER BY id LIMIT ?`,
+        [lastId, BATCH_SIZE]
+      );
+      if (transactions.length === 0) {
+        return;
+      }
+
+      for (const transaction of transactions) {
+        job.transactions_scanned++;
+
+        const metadata = this.reencryptMetadata(transaction.metadata);
+        if (!metadata) {
+          continue;
+        }
+
+        const result = await this.db.run(
+          'UPDATE transactions SET metadata = ? WHERE id = ? AND metadata = ?',
+          [metadata, transaction.id, transaction.metadata]
+        );
+
+        if (result.changes > 0) {
+          job.transactions_updated++;
+        } else {
+          job.skipped++;
+        }
+      }
+
+      lastId = transactions[transactions.length - 1].id;
+    }
+  }
+
+  /**
+   * Metadata with its recipient details on the current key, or null when
+   * nothing needs to change
+   */
+  private reencryptMetadata(raw: string): string | null {
+    let metadata: RecipientMetadata;
+    try {
+      metadata = JSON.parse(raw);
+    } catch {
+      return null;
+    }
+
+    if (metadata.recipient_details_encrypted) {
+      const rewrapped = rewrapPii(metadata.recipient_details_encrypted);
+      if (rewrapped === metadata.recipient_details_encrypted) {
+        return null;
+      }
+      return JSON.stringify({ ...metadata, recipient_details_encrypted: rewrapped });
+    }
+
+    // Written before encryption: the plaintext details become the sealed pair
+    if (metadata.recipient_details && typeof metadata.recipient_details === 'object') {
+      return JSON.stringify({ ...metadata, ...sealRecipientDetails(metadata.recipient_details) });
+    }
+
+    return null;
+  }
+}
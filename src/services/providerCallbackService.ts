@@ -0,0 +1,112 @@
+import type { IncomingHttpHeaders } from 'http';
+import { v4 as uuidv4 } from 'uuid';
+import { Database } from '../database/database.js';
+import { OnrampService } from './onrampService.js';
+import { OfframpService } from './offrampService.js';
+import { PaymentOrchestrator } from './paymentOrchestrator.js';
+import { RefundService } from './refundService.js';
+import { getConfiguredPaymentProviders, setSimulatedCallbackHandler, PaymentProviderError } from './paymentProviders.js';
+import { ProviderDirection } from '../types/ledger.js';
+import { Transaction, TransactionType, TransactionStatus } from '../types/payment.js';
+
+export interface ProviderCallbackResult {
+  event_id: string;
+  transaction_id: string;
+  status: TransactionStatus;
+  duplicate: boolean; // The event was already processed
+}
+
+/**
+ * Applies the status callbacks payment providers send. Each callback is
+ * verified with the provider's signature scheme, recorded once per provider
+ * event id, settles the transaction and moves on the payment or refund
+ * waiting on it.
+ */
+export class ProviderCallbackService {
+  private db: Database;
+  private onrampService: OnrampService;
+  private offrampService: OfframpService;
+  private paymentOrchestrator: PaymentOrchestrator;
+  private refundService: RefundService;
+
+  constructor() {
+    this.db = Database.getInstance();
+    this.onrampService = new OnrampService();
+    this.offrampService = new OfframpService();
+    this.paymentOrchestrator = new PaymentOrchestrator();
+    this.refundService = new RefundService();
+  }
+
+  /**
+   * Process a callback. rawBody must be the request body exactly as received.
+   * Throws 404 for unknown providers and transactions so the provider retries,
+   * 401 for bad signatures and 400 for malformed bodies.
+   */
+  async handleCallback(providerId: string, rawBody: string, headers: IncomingHttpHeaders): Promise<ProviderCallbackResult> {
+    const provider = getConfiguredPaymentProviders().find(candidate => candidate.info.provider === providerId);
+    if (!provider) {
+      throw new PaymentProviderError(`Payment provider ${providerId} not found`, 'PROVIDER_NOT_FOUND', 404);
+    }
+
+    const event = provider.parseWebhook(rawBody, headers);
+
+    const transaction = await this.db.get<Transaction>(
+      'SELECT * FROM transactions WHERE provider = ? AND external_reference = ?',
+      [providerId, event.external_reference]
+    );
+    if (!transaction) {
+      throw new PaymentProviderError(
+        `No ${providerId} transaction with reference ${event.external_reference}`,
+        'TRANSACTION_NOT_FOUND',
+        404
+      );
+    }
+
+    const result = {
+      event_id: event.event_id,
+      transaction_id: transaction.id,
+      status: event.status,
+      duplicate: false
+    };
+
+    const existing = await this.db.get<{ id: string }>(
+      'SELECT id FROM provider_events WHERE provider = ? AND event_id = ?',
+      [providerId, event.event_id]
+    );
+    if (existing) {
+      return { ...result, duplicate: true };
+    }
+
+    // Settling is safe to repeat, so the event is only recorded once it has been
+    // applied. Only the callback that settles the transaction moves the payment
+    // or refund on; one that fails after settling is left to the resume on
+    // startup.
+    const service = provider.info.direction === ProviderDirection.ONRAMP ? this.onrampService : this.offrampService;
+    if (await service.settleTransaction(transaction.id, event.status)) {
+      if (transaction.type === TransactionType.REFUND) {
+        await this.refundService.handleTransactionUpdate(transaction.id);
+      } else if (transaction.payment_id) {
+        await this.paymentOrchestrator.handleTransactionUpdate(transaction.id);
+      }
+    }
+
+    const recorded = await this.db.run(
+      `INSERT OR IGNORE INTO provider_events
+       (id, provider, event_id, transaction_id, status, payload, occurred_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [uuidv4(), providerId, event.event_id, transaction.id, event.status, rawBody, event.occurred_at]
+    );
+
+    return { ...result, duplicate: recorded.changes === 0 };
+  }
+
+  /**
+   * Route callbacks from simulated providers through the same handling as
+   * ones received over HTTP
+   */
+  listenForSimulatedCallbacks(): void {
+    setSimulatedCallbackHandler(async (providerId, rawBody, headers) => {
+      await this.handleCallback(providerId, rawBody, headers);
+    });
+  }
+}
@@ -0,0 +1,53 @@
+import { describe, test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { v4 as uuidv4 } from 'uuid';
+import { Database } from '../database/database.js';
+import { ProviderDirection } from '../types/ledger.js';
+import { TransactionStatus, TransactionType } from '../types/payment.js';
+import { ProviderHealthService } from './providerHealthService.js';
+import { OnrampService } from './onrampService.js';
+
+describe('ProviderHealthService', () => {
+  const cwd = process.cwd();
+  const dir = mkdtempSync(path.join(tmpdir(), 'payments-db-'));
+
+  before(async () => {
+    // One failure opens a circuit, which goes half-open straight away
+    process.env.CIRCUIT_BREAKER_FAILURE_THRESHOLD = '1';
+    process.env.CIRCUIT_BREAKER_COOLDOWN_SECONDS = '0';
+    process.chdir(dir);
+    await Database.getInstance().initialize();
+  });
+
+  after(async () => {
+    await Database.getInstance().close();
+    process.chdir(cwd);
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('release the half-open trial of a cancelled transaction', async () => {
+    const db = Database.getInstance();
+    const health = new ProviderHealthService();
+
+    await health.recordOutcome('stripe', ProviderDirection.ONRAMP, false);
+    assert.equal((await health.getUnavailableProviders(ProviderDirection.ONRAMP)).has('stripe'), false);
+
+    const transactionId = uuidv4();
+    await db.run(
+      'INSERT INTO transactions (id, type, amount, currency, status, provider) VALUES (?, ?, ?, ?, ?, ?)',
+      [transactionId, TransactionType.ONRAMP, 10000, 'USD', TransactionStatus.PROCESSING, 'stripe']
+    );
+    await health.recordTrial('stripe', ProviderDirection.ONRAMP);
+    assert.equal(
+      (await health.getUnavailableProviders(ProviderDirection.ONRAMP)).get('stripe'),
+      'circuit half-open with a trial in progress'
+    );
+
+    assert.equal(await new OnrampService().cancelTransaction(transactionId), true);
+    assert.equal((await health.getUnavailableProviders(ProviderDirection.ONRAMP)).has('stripe'), false);
+    assert.equal((await health.getHealth('stripe')).half_open_trials, 0);
+  });
+});
@@ -0,0 +1,294 @@
+import { Database } from '../database/database.js';
+import { ApiError } from '../types/errors.js';
+import { ProviderDirection } from '../types/ledger.js';
+import { CircuitState, ProviderHealth } from '../types/payment.js';
+import { PaymentProviderInfo, getConfiguredPaymentProviders } from './paymentProviders.js';
+
+export class ProviderHealthError extends ApiError {}
+
+interface ProviderHealthRow {
+  provider: string;
+  direction: string;
+  state: CircuitState;
+  forced_state: CircuitState | null;
+  forced_reason: string | null;
+  forced_by: string | null;
+  consecutive_failures: number;
+  successes: number;
+  failures: number;
+  timeouts: number;
+  half_open_trials: number;
+  last_success_at: string | null;
+  last_failure_at: string | null;
+  last_failure_reason: string | null;
+  state_changed_at: string | null;
+  updated_at: string | null;
+  retry_at: string | null;
+}
+
+// A failure opens the circuit when it is half-open, or when it takes a closed
+// circuit to the failure threshold (bound as the one parameter)
+const FAILURE_OPENS_CIRCUIT =
+  `forced_state IS NULL AND (state = '${CircuitState.HALF_OPEN}' OR ` +
+  `(state = '${CircuitState.CLOSED}' AND consecutive_failures + 1 >= ?))`;
+
+const SUCCESS_CLOSES_CIRCUIT = `forced_state IS NULL AND state = '${CircuitState.HALF_OPEN}'`;
+
+/**
+ * Per-provider circuit breakers fed by transaction outcomes. A provider's
+ * circuit opens after CIRCUIT_BREAKER_FAILURE_THRESHOLD consecutive failures
+ * or timeouts and it gets no new transactions. After
+ * CIRCUIT_BREAKER_COOLDOWN_SECONDS it goes half-open and takes up to
+ * CIRCUIT_BREAKER_HALF_OPEN_TRIALS transactions: a success closes the
+ * circuit, a failure opens it again. Admins can force a circuit open or
+ * closed, which holds until released.
+ */
+export class ProviderHealthService {
+  private db: Database;
+  private failureThreshold: number = parseInt(process.env.CIRCUIT_BREAKER_FAILURE_THRESHOLD || '5', 10);
+  private cooldownSeconds: number = parseInt(process.env.CIRCUIT_BREAKER_COOLDOWN_SECONDS || '300', 10);
+  private halfOpenTrials: number = parseInt(process.env.CIRCUIT_BREAKER_HALF_OPEN_TRIALS || '1', 10);
+
+  constructor() {
+    this.db = Database.getInstance();
+  }
+
+  /**
+   * Count a settled transaction toward the provider's circuit
+   */
+  async recordOutcome(provider: string, direction: ProviderDirection, succeeded: boolean, reason = 'failed'): Promise<void> {
+    // Settles from concurrent callbacks must not interleave between the reads
+    // and the update, or an opened circuit goes unreported
+    await this.db.transaction(async () => {
+      await this.ensureRow(provider, direction);
+      await this.promoteCooledDown();
+
+      const before = await this.getRow(provider, direction);
+      if (succeeded) {
+        await this.db.run(
+          `UPDATE provider_health SET
+             state = CASE WHEN ${SUCCESS_CLOSES_CIRCUIT} THEN '${CircuitState.CLOSED}' ELSE state END,
+             state_changed_at = CASE WHEN ${SUCCESS_CLOSES_CIRCUIT} THEN CURRENT_TIMESTAMP ELSE state_changed_at END,
+             consecutive_failures = 0,
+             successes = successes + 1,
+             last_success_at = CURRENT_TIMESTAMP,
+             updated_at = CURRENT_TIMESTAMP
+           WHERE provider = ? AND direction = ?`,
+          [provider, direction]
+        );
+      } else {
+        await this.db.run(
+          `UPDATE provider_health SET
+             state = CASE WHEN ${FAILURE_OPENS_CIRCUIT} THEN '${CircuitState.OPEN}' ELSE state END,
+             state_changed_at = CASE WHEN ${FAILURE_OPENS_CIRCUIT} THEN CURRENT_TIMESTAMP ELSE state_changed_at END,
+             consecutive_failures = consecutive_failures + 1,
+             failures = failures + 1,
+             timeouts = timeouts + ?,
+             last_failure_at = CURRENT_TIMESTAMP,
+             last_failure_reason = ?,
+             updated_at = CURRENT_TIMESTAMP
+           WHERE provider = ? AND direction = ?`,
+          [this.failureThreshold, this.failureThreshold, reason === 'timeout' ? 1 : 0, reason, provider, direction]
+        );
+      }
+      const after = await this.getRow(provider, direction);
+
+      if (before?.state !== CircuitState.OPEN && after?.state === CircuitState.OPEN) {
+        console.warn(
+          `Circuit for provider ${provider} opened after ${after.consecutive_failures} consecutive failures (last: ${reason})`
+        );
+      }
+    });
+  }
+
+  /**
+   * Count a transaction the provider never settled as a failure
+   */
+  async recordTimeout(provider: string, direction: ProviderDirection): Promise<void> {
+    await this.recordOutcome(provider, direction, false, 'timeout');
+  }
+
+  /**
+   * Count a transaction routed to the provider, using up a trial while its
+   * circuit is half-open
+   */
+  async recordTrial(provider: string, direction: ProviderDirection): Promise<void> {
+    await this.db.run(
+      `UPDATE provider_health SET half_open_trials = half_open_trials + 1, updated_at = CURRENT_TIMESTAMP
+       WHERE provider = ? AND direction = ? AND state = ? AND forced_state IS NULL`,
+      [provider, direction, CircuitState.HALF_OPEN]
+    );
+  }
+
+  /**
+   * Give back the trial of a transaction that was cancelled before it settled,
+   * so the half-open circuit can be tried again. Only a transaction routed
+   * since the circuit went half-open holds one of its trials.
+   */
+  async releaseTrial(provider: string, direction: ProviderDirection, routedAt: string): Promise<void> {
+    await this.db.run(
+      `UPDATE provider_health SET half_open_trials = half_open_trials - 1, updated_at = CURRENT_TIMESTAMP
+       WHERE provider = ? AND direction = ? AND state = ? AND forced_state IS NULL
+         AND half_open_trials > 0 AND state_changed_at <= ?`,
+      [provider, direction, CircuitState.HALF_OPEN, routedAt]
+    );
+  }
+
+  /**
+   * Providers of a direction that should get no new transactions, with why
+   */
+  async getUnavailableProviders(direction: ProviderDirection): Promise<Map<string, string>> {
+    await this.promoteCooledDown();
+
+    const rows = await this.db.all<ProviderHealthRow>(
+      `SELECT *, ${this.retryAtColumn()} FROM provider_health
+       WHERE direction = ? AND (forced_state = ? OR (forced_state IS NULL AND state != ?))`,
+      [direction, CircuitState.OPEN, CircuitState.CLOSED]
+    );
+
+    const unavailable = new Map<string, string>();
+    for (const row of rows) {
+      if (row.forced_state === CircuitState.OPEN) {
+        unavailable.set(row.provider, `circuit forced open${row.forced_reason ? `: ${row.forced_reason}` : ''}`);
+      } else if (row.state === CircuitState.OPEN) {
+        unavailable.set(row.provider, `circuit open until ${row.retry_at}`);
+      } else if (row.half_open_trials >= this.halfOpenTrials) {
+        unavailable.set(row.provider, 'circuit half-open with a trial in progress');
+      }
+    }
+    return unavailable;
+  }
+
+  /**
+   * Breaker state of every configured provider
+   */
+  async listHealth(): Promise<ProviderHealth[]> {
+    await this.promoteCooledDown();
+
+    const rows = await this.db.all<ProviderHealthRow>(`SELECT *, ${this.retryAtColumn()} FROM provider_health`);
+    const rowsByProvider = new Map(rows.map(row => [row.provider, row]));
+
+    return getConfiguredPaymentProviders().map(provider =>
+      this.toHealth(provider.info, rowsByProvider.get(provider.info.provider))
+    );
+  }
+
+  /**
+   * Breaker state of one configured provider
+   */
+  async getHealth(providerId: string): Promise<ProviderHealth> {
+    const info = this.requireProvider(providerId);
+    await this.promoteCooledDown();
+    return this.toHealth(info, await this.getRow(providerId, info.direction));
+  }
+
+  /**
+   * Hold a provider's circuit open (for maintenance) or closed, whatever its
+   * outcomes, until released
+   */
+  async forceState(
+    providerId: string,
+    state: CircuitState.OPEN | CircuitState.CLOSED,
+    reason: string | undefined,
+    forcedBy: string | undefined
+  ): Promise<ProviderHealth> {
+    const info = this.requireProvider(providerId);
+    await this.ensureRow(providerId, info.direction);
+
+    await this.db.run(
+      `UPDATE provider_health SET
+         forced_state = ?, forced_reason = ?, forced_by = ?,
+         state_changed_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+       WHERE provider = ? AND direction = ?`,
+      [state, reason || null, forcedBy || null, providerId, info.direction]
+    );
+    console.log(`Circuit for provider ${providerId} forced ${state}${forcedBy ? ` by ${forcedBy}` : ''}`);
+
+    return this.getHealth(providerId);
+  }
+
+  /**
+   * Hand a forced circuit back to its outcomes, starting closed
+   */
+  async release(providerId: string): Promise<ProviderHealth> {
+    const info = this.requireProvider(providerId);
+    await this.ensureRow(providerId, info.direction);
+
+    await this.db.run(
+      `UPDATE provider_health SET
+         state = ?, forced_state = NULL, forced_reason = NULL, forced_by = NULL,
+         consecutive_failures = 0, half_open_trials = 0,
+         state_changed_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+       WHERE provider = ? AND direction = ?`,
+      [CircuitState.CLOSED, providerId, info.direction]
+    );
+    console.log(`Circuit for provider ${providerId} released`);
+
+    return this.getHealth(providerId);
+  }
+
+  /**
+   * Move open circuits whose cooldown has passed to half-open
+   */
+  private async promoteCooledDown(): Promise<void> {
+    const promoted = await this.db.run(
+      `UPDATE provider_health SET
+         state = ?, half_open_trials = 0, state_changed_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+       WHERE state = ? AND forced_state IS NULL AND state_changed_at <= datetime('now', ?)`,
+      [CircuitState.HALF_OPEN, CircuitState.OPEN, `-${this.cooldownSeconds} seconds`]
+    );
+    if (promoted.changes > 0) {
+      console.log(`${promoted.changes} provider circuit(s) half-open after cooldown`);
+    }
+  }
+
+  private async ensureRow(provider: string, direction: string): Promise<void> {
+    await this.db.run(
+      'INSERT OR IGNORE INTO provider_health (provider, direction) VALUES (?, ?)',
+      [provider, direction]
+    );
+  }
+
+  private async getRow(provider: string, direction: string): Promise<ProviderHealthRow | undefined> {
+    return this.db.get<ProviderHealthRow>(
+      `SELECT *, ${this.retryAtColumn()} FROM provider_health WHERE provider = ? AND direction = ?`,
+      [provider, direction]
+    );
+  }
+
+  private retryAtColumn(): string {
+    return `CASE WHEN state = '${CircuitState.OPEN}' AND forced_state IS NULL
+      THEN datetime(state_changed_at, '+${this.cooldownSeconds} seconds') END AS retry_at`;
+  }
+
+  private requireProvider(providerId: string): PaymentProviderInfo {
+    const provider = getConfiguredPaymentProviders().find(candidate => candidate.info.provider === providerId);
+    if (!provider) {
+      throw new ProviderHealthError(`Payment provider ${providerId} not found`, 'PROVIDER_NOT_FOUND', 404);
+    }
+    return provider.info;
+  }
+
+  private toHealth(info: PaymentProviderInfo, row?: ProviderHealthRow): ProviderHealth {
+    return {
+      provider: info.provider,
+      name: info.name,
+      direction: info.direction,
+      state: row?.forced_state || row?.state || CircuitState.CLOSED,
+      forced: Boolean(row?.forced_state),
+      forced_reason: row?.forced_reason || undefined,
+      forced_by: row?.forced_by || undefined,
+      consecutive_failures: row?.consecutive_failures || 0,
+      successes: row?.successes || 0,
+      failures: row?.failures || 0,
+      timeouts: row?.timeouts || 0,
+      half_open_trials: row?.half_open_trials || 0,
+      last_success_at: row?.last_success_at || undefined,
+      last_failure_at: row?.last_failure_at || undefined,
+      last_failure_reason: row?.last_failure_reason || undefined,
+      state_changed_at: row?.state_changed_at || undefined,
+      retry_at: row?.retry_at || undefined,
+      updated_at: row?.updated_at || undefined
+    };
+  }
+}
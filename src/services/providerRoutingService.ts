@@ -0,0 +1,445 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Database } from '../database/database.js';
+import { Money } from '../types/money.js';
+import { ApiError } from '../types/errors.js';
+import { ProviderDirection } from '../types/ledger.js';
+import {
+  ProviderComparison,
+  ProviderRouteScore,
+  RoutingDecision,
+  RoutingExclusion,
+  RoutingPreference,
+  TransactionStatus
+} from '../types/payment.js';
+import { PaymentProvider, PaymentProviderInfo, ProviderFeeQuote } from './paymentProviders.js';
+import { ProviderHealthService } from './providerHealthService.js';
+import { ExchangeRateService } from './exchangeRateService.js';
+
+export class RoutingError extends ApiError {}
+
+export interface RouteRequest {
+  direction: ProviderDirection;
+  amount: Money; // In the currency the provider moves
+  preference?: RoutingPreference;
+  payment_method?: string; // Onramp only
+  exclude?: string[]; // Providers already tried for this payment
+}
+
+export interface RankedProviders<TInfo extends PaymentProviderInfo> {
+  preference: RoutingPreference;
+  ranked: { provider: PaymentProvider<TInfo>; score: ProviderRouteScore }[]; // Best first
+  excluded: RoutingExclusion[];
+}
+
+export interface ProviderRoute<TInfo extends PaymentProviderInfo> {
+  provider: PaymentProvider<TInfo>;
+  request: RouteRequest;
+  preference: RoutingPreference;
+  attempt: number;
+  reason: string;
+  candidates: ProviderRouteScore[];
+  excluded: RoutingExclusion[];
+}
+
+interface ProviderStats {
+  provider: string;
+  completed: number;
+  failed: number;
+  avg_latency_seconds: number | null; // Of completed transactions
+  recent_completed: number;
+  recent_failed: number;
+}
+
+interface RoutingDecisionRow {
+  id: string;
+  payment_id: string | null;
+  transaction_id: string | null;
+  direction: string;
+  amount: number;
+  currency: string;
+  preference: RoutingPreference;
+  attempt: number;
+  selected_provider: string;
+  reason: string;
+  candidates: string;
+  excluded: string | null;
+  created_at: string;
+}
+
+type ScoreComponents = ProviderRouteScore['components'];
+
+// How much each component counts for each preference
+const PREFERENCE_WEIGHTS: Record<RoutingPreference, ScoreComponents> = {
+  [RoutingPreference.BALANCED]: { cost: 0.35, reliability: 0.35, speed: 0.2, health: 0.1 },
+  [RoutingPreference.CHEAPEST]: { cost: 0.7, reliability: 0.15, speed: 0.1, health: 0.05 },
+  [RoutingPreference.FASTEST]: { cost: 0.1, reliability: 0.15, speed: 0.7, health: 0.05 },
+  [RoutingPreference.MOST_RELIABLE]: { cost: 0.1, reliability: 0.7, speed: 0.1, health: 0.1 }
+};
+
+const SECONDS_PER_UNIT: Record<string, number> = {
+  minute: 60,
+  hour: 3600,
+  day: 86400,
+  'business day': 86400
+};
+
+/**
+ * Seconds a provider advertises for processing_time, such as "5-30 minutes"
+ * or "1-2 business days" (the upper bound is used)
+ */
+function parseProcessingTime(processingTime: string): number {
+  const text = processingTime.toLowerCase();
+  if (text.startsWith('instant')) {
+    return 0;
+  }
+  if (text.includes('same day')) {
+    return 8 * 3600;
+  }
+
+  const match = text.match(/(\d+)(?:\s*-\s*(\d+))?\s*(minute|hour|business day|day)/);
+  if (!match) {
+    return 86400;
+  }
+  return Number(match[2] || match[1]) * SECONDS_PER_UNIT[match[3]];
+}
+
+const round = (value: number, places: number = 4): number => Number(value.toFixed(places));
+
+const formatDuration = (seconds: number): string => {
+  if (seconds < 60) return `${Math.round(seconds)}s`;
+  if (seconds < 3600) return `${Math.round(seconds / 60)}m`;
+  return `${round(seconds / 3600, 1)}h`;
+};
+
+/**
+ * Ranks the onramp or offramp providers that can take a transaction and
+ * records why the winner was chosen. Each eligible provider is scored on
+ * its fee for the amount, its success rate and latency observed in
+ * transaction history (smoothed toward its configured success_rate and
+ * processing_time while there is little history), and its health over the
+ * last few minutes, weighted by the customer's preference. Providers whose
+ * circuit breaker is open are left out.
+ */
+export class ProviderRoutingService {
+  private db: Database;
+  private healthService: ProviderHealthService;
+  private exchangeRateService: ExchangeRateService;
+  private statsWindowHours: number = parseInt(process.env.ROUTING_STATS_WINDOW_HOURS || '168', 10);
+  private healthWindowMinutes: number = parseInt(process.env.ROUTING_HEALTH_WINDOW_MINUTES || '15', 10);
+  private priorWeight: number = parseInt(process.env.ROUTING_PRIOR_WEIGHT || '20', 10);
+  private defaultPreference: RoutingPreference =
+    (process.env.ROUTING_DEFAULT_PREFERENCE as RoutingPreference) || RoutingPreference.BALANCED;
+
+  constructor() {
+    this.db = Database.getInstance();
+    this.healthService = new ProviderHealthService();
+    this.exchangeRateService = new ExchangeRateService();
+  }
+
+  /**
+   * A provider's fees on an amount, with a fixed fee set in another currency
+   * converted at the current exchange rate
+   */
+  async quoteFees(provider: PaymentProvider, amount: Money): Promise<ProviderFeeQuote> {
+    const fees = provider.info.fees;
+    const feeRate = fees?.fixed && fees.currency && fees.currency !== amount.currency
+      ? await this.exchangeRateService.getExchangeRate(fees.currency, amount.currency)
+      : undefined;
+    return provider.quoteFees(amount, feeRate);
+  }
+
+  /**
+   * Score every provider that can take the transaction, best first, and give
+   * the reason each of the others was left out
+   */
+  async rank<TInfo extends PaymentProviderInfo>(
+    providers: PaymentProvider<TInfo>[],
+    request: RouteRequest
+  ): Promise<RankedProviders<TInfo>> {
+    const preference = request.preference || this.defaultPreference;
+    const unavailable = await this.healthService.getUnavailableProviders(request.direction);
+    const excluded: RoutingExclusion[] = [];
+    const eligible = providers.filter(provider => {
+      const reason = unavailable.get(provider.info.provider) || this.getExclusionReason(provider.info, request);
+      if (reason) {
+        excluded.push({ provider: provider.info.provider, reason });
+      }
+      return !reason;
+    });
+
+    if (eligible.length === 0) {
+      return { preference, ranked: [], excluded };
+    }
+
+    const scores = await this.scoreProviders(eligible, request.amount, preference);
+    const ranked = eligible
+      .map((provider, index) => ({ provider, score: scores[index] }))
+      .sort((a, b) => b.score.score - a.score.score); // Stable, so ties keep configuration order
+
+    return { preference, ranked, excluded };
+  }
+
+  /**
+   * Pick the best provider for a transaction. Throws NO_ELIGIBLE_PROVIDER
+   * when none supports it, with the reason each was left out.
+   */
+  async route<TInfo extends PaymentProviderInfo>(
+    providers: PaymentProvider<TInfo>[],
+    request: RouteRequest
+  ): Promise<ProviderRoute<TInfo>> {
+    const { preference, ranked, excluded } = await this.rank(providers, request);
+
+    if (ranked.length === 0) {
+      throw new RoutingError(
+        `No ${request.direction} provider can handle ${request.amount.toMajorString()} ${request.amount.currency}`,
+        'NO_ELIGIBLE_PROVIDER',
+        422,
+        { excluded }
+      );
+    }
+
+    // Uses up the trial when the provider's circuit is half-open
+    await this.healthService.recordTrial(ranked[0].provider.info.provider, request.direction);
+
+    return {
+      provider: ranked[0].provider,
+      request,
+      preference,
+      attempt: (request.exclude?.length || 0) + 1,
+      reason: this.explain(ranked.map(entry => entry.score), preference, request),
+      candidates: ranked.map(entry => entry.score),
+      excluded
+    };
+  }
+
+  /**
+   * Each eligible provider's terms and score for an amount, best first
+   */
+  async compare<TInfo extends PaymentProviderInfo>(
+    providers: PaymentProvider<TInfo>[],
+    request: RouteRequest
+  ): Promise<ProviderComparison> {
+    const { preference, ranked, excluded } = await this.rank(providers, request);
+
+    const comparison = await Promise.all(ranked.map(async ({ provider, score }) => {
+      const fees = await this.quoteFees(provider, request.amount);
+      return {
+        ...score,
+        name: provider.info.name,
+        total_cost: request.amount.add(fees.amount).toMajorString(),
+        processing_time: provider.info.processing_time,
+        limits: provider.info.limits,
+        fee_breakdown: {
+          percentage_fee: fees.breakdown.percentage_fee?.toMajorString(),
+          fixed_fee: fees.breakdown.fixed_fee?.toMajorString(),
+          percentage_rate: fees.breakdown.percentage_rate
+        },
+        payment_methods: provider.info.payment_methods,
+        supported_currencies: provider.info.supported_currencies,
+        features: provider.info.features
+      };
+    }));
+
+    return {
+      comparison,
+      recommendation: comparison[0] || null,
+      excluded,
+      criteria: {
+        amount: request.amount.toMajorString(),
+        currency: request.amount.currency,
+        payment_method: request.payment_method,
+        routing_preference: preference
+      }
+    };
+  }
+
+  /**
+   * Store the decision behind a provider transaction
+   */
+  async recordDecision<TInfo extends PaymentProviderInfo>(
+    route: ProviderRoute<TInfo>,
+    transactionId: string,
+    paymentId?: string
+  ): Promise<void> {
+    await this.db.run(
+      `INSERT INTO routing_decisions
+       (id, payment_id, transaction_id, direction, amount, currency, preference, attempt,
+        selected_provider, reason, candidates, excluded)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        uuidv4(),
+        paymentId || null,
+        transactionId,
+        route.request.direction,
+        route.request.amount.toMinorNumber(),
+        route.request.amount.currency,
+        route.preference,
+        route.attempt,
+        route.provider.info.provider,
+        route.reason,
+        JSON.stringify(route.candidates),
+        JSON.stringify(route.excluded)
+      ]
+    );
+  }
+
+  /**
+   * Routing decisions for a payment's transactions, oldest first
+   */
+  async getDecisionsForPayment(paymentId: string): Promise<RoutingDecision[]> {
+    const rows = await this.db.all<RoutingDecisionRow>(
+      'SELECT * FROM routing_decisions WHERE payment_id = ? ORDER BY created_at ASC, rowid ASC',
+      [paymentId]
+    );
+
+    return rows.map(row => ({
+      id: row.id,
+      payment_id: row.payment_id || undefined,
+      transaction_id: row.transaction_id || undefined,
+      direction: row.direction,
+      amount: Money.fromMinor(row.amount, row.currency).toMajorString(),
+      currency: row.currency,
+      preference: row.preference,
+      attempt: row.attempt,
+      selected_provider: row.selected_provider,
+      reason: row.reason,
+      candidates: JSON.parse(row.candidates),
+      excluded: row.excluded ? JSON.parse(row.excluded) : [],
+      created_at: row.created_at
+    }));
+  }
+
+  private getExclusionReason(info: PaymentProviderInfo, request: RouteRequest): string | undefined {
+    const { amount } = request;
+
+    if (request.exclude?.includes(info.provider)) {
+      return 'already tried for this payment';
+    }
+    if ((info.supported_currencies && !info.supported_currencies.includes(amount.currency)) ||
+      (info.limits.currency && info.limits.currency !== amount.currency)) {
+      return `does not support ${amount.currency}`;
+    }
+    if (request.payment_method && info.payment_methods && !info.payment_methods.includes(request.payment_method)) {
+      return `does not accept ${request.payment_method}`;
+    }
+    if (amount.lessThan(Money.fromMajor(info.limits.min, amount.currency)) ||
+      amount.greaterThan(Money.fromMajor(info.limits.max, amount.currency))) {
+      return `amount outside limits ${info.limits.min}-${info.limits.max}`;
+    }
+    return undefined;
+  }
+
+  private async scoreProviders(
+    providers: PaymentProvider[],
+    amount: Money,
+    preference: RoutingPreference
+  ): Promise<ProviderRouteScore[]> {
+    const stats = await this.getProviderStats(providers[0].info.direction);
+    const fees = await Promise.all(providers.map(provider => this.quoteFees(provider, amount)));
+
+    const measured = providers.map((provider, index) => {
+      const observed = stats.get(provider.info.provider);
+      const completed = observed?.completed || 0;
+      const settled = completed + (observed?.failed || 0);
+      const recentSettled = (observed?.recent_completed || 0) + (observed?.recent_failed || 0);
+      const advertisedLatency = parseProcessingTime(provider.info.processing_time);
+
+      return {
+        provider: provider.info.provider,
+        fee: fees[index].amount,
+        samples: settled,
+        // Configured figures count as priorWeight transactions of history
+        success_rate: (completed + provider.info.success_rate * this.priorWeight) / (settled + this.priorWeight),
+        expected_latency_seconds: observed?.avg_latency_seconds != null
+          ? (observed.avg_latency_seconds * completed + advertisedLatency * this.priorWeight) / (completed + this.priorWeight)
+          : advertisedLatency,
+        health: recentSettled > 0 ? (observed?.recent_completed || 0) / recentSettled : 1
+      };
+    });
+
+    const lowestFee = Math.min(...measured.map(entry => entry.fee.toNumber()));
+    const lowestFailureRate = Math.min(...measured.map(entry => 1 - entry.success_rate));
+    const lowestLatency = Math.min(...measured.map(entry => entry.expected_latency_seconds));
+    const weights = PREFERENCE_WEIGHTS[preference];
+
+    return measured.map(entry => {
+      const fee = entry.fee.toNumber();
+      const components: ScoreComponents = {
+        cost: fee > 0 ? lowestFee / fee : 1,
+        reliability: (lowestFailureRate + 0.01) / (1 - entry.success_rate + 0.01),
+        speed: (lowestLatency + 60) / (entry.expected_latency_seconds + 60),
+        health: entry.health
+      };
+      const score = weights.cost * components.cost +
+        weights.reliability * components.reliability +
+        weights.speed * components.speed +
+        weights.health * components.health;
+
+      return {
+        provider: entry.provider,
+        score: round(score),
+        fee: entry.fee.toMajorString(),
+        success_rate: round(entry.success_rate),
+        expected_latency_seconds: Math.round(entry.expected_latency_seconds),
+        health: round(entry.health),
+        samples: entry.samples,
+        components: {
+          cost: round(components.cost),
+          reliability: round(components.reliability),
+          speed: round(components.speed),
+          health: round(components.health)
+        }
+      };
+    });
+  }
+
+  /**
+   * Settled transactions per provider over the stats window, and over the
+   * shorter health window. Cancelled transactions are left out: a client
+   * cancelling says nothing about the provider, and timeouts already reach
+   * the circuit breaker.
+   */
+  private async getProviderStats(direction: ProviderDirection): Promise<Map<string, ProviderStats>> {
+    const rows = await this.db.all<ProviderStats>(
+      `SELECT provider,
+         SUM(CASE WHEN status = ? THEN 1 ELSE 0 END) AS completed,
+         SUM(CASE WHEN status = ? THEN 1 ELSE 0 END) AS failed,
+         AVG(CASE WHEN status = ? THEN (julianday(updated_at) - julianday(created_at)) * 86400 END) AS avg_latency_seconds,
+         SUM(CASE WHEN status = ? AND updated_at >= datetime('now', ?) THEN 1 ELSE 0 END) AS recent_completed,
+         SUM(CASE WHEN status = ? AND updated_at >= datetime('now', ?) THEN 1 ELSE 0 END) AS recent_failed
+       FROM transactions
+       WHERE type = ? AND provider IS NOT NULL AND created_at >= datetime('now', ?)
+       GROUP BY provider`,
+      [
+        TransactionStatus.COMPLETED,
+        TransactionStatus.FAILED,
+        TransactionStatus.COMPLETED,
+        TransactionStatus.COMPLETED,
+        `-${this.healthWindowMinutes} minutes`,
+        TransactionStatus.FAILED,
+        `-${this.healthWindowMinutes} minutes`,
+        direction, // Transaction types share the direction names
+        `-${this.statsWindowHours} hours`
+      ]
+    );
+
+    return new Map(rows.map(row => [row.provider, row]));
+  }
+
+  private explain(ranked: ProviderRouteScore[], preference: RoutingPreference, request: RouteRequest): string {
+    const [best, runnerUp] = ranked;
+    const parts: string[] = [];
+
+    if (request.exclude?.length) {
+      parts.push(`Failover after ${request.exclude.join(', ')}.`);
+    }
+    parts.push(
+      `${best.provider} scored ${best.score} for ${preference}: fee ${best.fee} ${request.amount.currency}, ` +
+      `${round(best.success_rate * 100, 1)}% success (${best.samples} settled), ` +
+      `about ${formatDuration(best.expected_latency_seconds)}, health ${round(best.health * 100, 1)}%.`
+    );
+    parts.push(runnerUp ? `Next best ${runnerUp.provider} scored ${runnerUp.score}.` : 'Only eligible provider.');
+
+    return parts.join(' ');
+  }
+}
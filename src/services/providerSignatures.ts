@@ -0,0 +1,98 @@
+import crypto from 'crypto';
+import type { IncomingHttpHeaders } from 'http';
+import { buildWebhookSignatureHeader, verifyWebhookSignature, DEFAULT_SIGNATURE_TOLERANCE_SECONDS } from './webhookSignature.js';
+
+/**
+ * Signatures on callbacks from payment providers. Each provider signs with
+ * its own scheme:
+ *
+ *   stripe  Stripe-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<raw body>">
+ *   circle  X-Circle-Signature: <base64 HMAC-SHA256 of the raw body>
+ *
+ * Secrets come from the provider's configuration, the environment variable
+ * it names, or PROVIDER_WEBHOOK_SECRET, with a demo secret for development.
+ */
+
+export type ProviderSignatureScheme = 'stripe' | 'circle';
+
+export interface ProviderWebhookSettings {
+  scheme: ProviderSignatureScheme;
+  secret?: string;
+  secret_env?: string; // Environment variable holding the secret
+  tolerance_seconds?: number; // stripe only
+}
+
+export const STRIPE_SIGNATURE_HEADER = 'Stripe-Signature';
+export const CIRCLE_SIGNATURE_HEADER = 'X-Circle-Signature';
+
+const DEMO_SECRET = 'demo-provider-webhook-secret';
+
+function getConfiguredSecret(settings: ProviderWebhookSettings): string | undefined {
+  return settings.secret || (settings.secret_env && process.env[settings.secret_env]) || process.env.PROVIDER_WEBHOOK_SECRET;
+}
+
+function getSecret(settings: ProviderWebhookSettings): string {
+  return getConfiguredSecret(settings) || DEMO_SECRET;
+}
+
+/**
+ * Whether callbacks are signed with a configured secret rather than the
+ * built-in demo one
+ */
+export function hasConfiguredSecret(settings: ProviderWebhookSettings): boolean {
+  return Boolean(getConfiguredSecret(settings));
+}
+
+function computeCircleSignature(body: string, secret: string): string {
+  return crypto.createHmac('sha256', secret).update(body).digest('base64');
+}
+
+/**
+ * Headers a provider using these settings sends with a callback body
+ */
+export function signProviderCallback(settings: ProviderWebhookSettings, body: string): Record<string, string> {
+  const secret = getSecret(settings);
+
+  switch (settings.scheme) {
+  case 'stripe':
+    return { [STRIPE_SIGNATURE_HEADER]: buildWebhookSignatureHeader(body, [secret]) };
+  case 'circle':
+    return { [CIRCLE_SIGNATURE_HEADER]: computeCircleSignature(body, secret) };
+  }
+}
+
+/**
+ * Check a callback's signature. body must be the raw request body exactly as
+ * received. Returns false for missing or malformed headers, stale timestamps
+ * and signature mismatches.
+ */
+export function verifyProviderCallback(
+  settings: ProviderWebhookSettings,
+  body: string,
+  headers: IncomingHttpHeaders
+): boolean {
+  const secret = getSecret(settings);
+
+  switch (settings.scheme) {
+  case 'stripe': {
+    const header = headers[STRIPE_SIGNATURE_HEADER.toLowerCase()];
+    return typeof header === 'string' && verifyWebhookSignature(
+      body,
+      header,
+      secret,
+      settings.tolerance_seconds ?? DEFAULT_SIGNATURE_TOLERANCE_SECONDS
+    );
+  }
+  case 'circle': {
+    const header = headers[CIRCLE_SIGNATURE_HEADER.toLowerCase()];
+    if (typeof header !== 'string') {
+      return false;
+    }
+    const actual = Buffer.from(header);
+    const expected = Buffer.from(computeCircleSignature(body, secret));
+    return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+  }
+  default:
+    return false;
+  }
+}
@@ -0,0 +1,53 @@
+import { describe, test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { v4 as uuidv4 } from 'uuid';
+import { Database } from '../database/database.js';
+import { ProviderDirection } from '../types/ledger.js';
+import { TransactionStatus, TransactionType } from '../types/payment.js';
+import { ProviderStatsService } from './providerStatsService.js';
+
+describe('ProviderStatsService', () => {
+  const cwd = process.cwd();
+  const dir = mkdtempSync(path.join(tmpdir(), 'payments-db-'));
+
+  before(async () => {
+    process.chdir(dir);
+    await Database.getInstance().initialize();
+  });
+
+  after(async () => {
+    await Database.getInstance().close();
+    process.chdir(cwd);
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('leave cancelled transactions out of the success rate', async () => {
+    const db = Database.getInstance();
+    const statuses = [
+      TransactionStatus.COMPLETED,
+      TransactionStatus.COMPLETED,
+      TransactionStatus.COMPLETED,
+      TransactionStatus.FAILED,
+      TransactionStatus.CANCELLED,
+      TransactionStatus.CANCELLED
+    ];
+    for (const status of statuses) {
+      await db.run(
+        'INSERT INTO transactions (id, type, amount, currency, status, provider) VALUES (?, ?, ?, ?, ?, ?)',
+        [uuidv4(), TransactionType.OFFRAMP, 10000, 'EUR', status, 'swift_wire']
+      );
+    }
+
+    const report = await new ProviderStatsService().getStatusReport(ProviderDirection.OFFRAMP, []);
+    const [swift] = report.providers;
+
+    assert.equal(swift.total_transactions, 6);
+    assert.equal(swift.failed, 1);
+    assert.equal(swift.cancelled, 2);
+    assert.equal(swift.success_rate, 0.75);
+    assert.deepEqual(swift.recent, { completed: 3, failed: 1 });
+  });
+});
@@ -0,0 +1,198 @@
+import { Database } from '../database/database.js';
+import { Money } from '../types/money.js';
+import { ApiError } from '../types/errors.js';
+import { ProviderDirection } from '../types/ledger.js';
+import {
+  CircuitState,
+  CompletionTimes,
+  ProviderActivity,
+  ProviderOperationalStatus,
+  ProviderStatusEntry,
+  ProviderStatusReport,
+  TransactionStatus
+} from '../types/payment.js';
+import { PaymentProviderInfo } from './paymentProviders.js';
+import { ProviderHealthService } from './providerHealthService.js';
+
+export class ProviderStatsError extends ApiError {}
+
+interface TransactionOutcomeRow {
+  provider: string;
+  status: TransactionStatus;
+  amount: number;
+  currency: string;
+  duration_seconds: number; // created_at to the last update
+  recent: number; // 1 when last updated within the status window
+}
+
+const WINDOW_UNIT_SECONDS: Record<string, number> = { m: 60, h: 3600, d: 86400 };
+const MAX_WINDOW_SECONDS = 90 * 86400;
+
+// Recent success ratios below these make a provider degraded or down
+const DEGRADED_SUCCESS_RATE = 0.9;
+const DOWN_SUCCESS_RATE = 0.5;
+
+/**
+ * Nearest-rank percentile of values sorted ascending
+ */
+const percentile = (sorted: number[], fraction: number): number =>
+  sorted[Math.max(0, Math.ceil(fraction * sorted.length) - 1)];
+
+/**
+ * Onramp and offramp provider figures computed from the transactions table:
+ * volume, success rate and p50/p95 completion time over a window, and a live
+ * status from the outcomes of the last few minutes and the circuit breakers
+ */
+export class ProviderStatsService {
+  private db: Database;
+  private healthService: ProviderHealthService;
+  private defaultWindow: string = process.env.PROVIDER_STATS_DEFAULT_WINDOW || '24h';
+  private statusWindowMinutes: number = parseInt(process.env.PROVIDER_STATUS_WINDOW_MINUTES || '15', 10);
+  private statusMinSamples: number = parseInt(process.env.PROVIDER_STATUS_MIN_SAMPLES || '3', 10);
+
+  constructor() {
+    this.db = Database.getInstance();
+    this.healthService = new ProviderHealthService();
+  }
+
+  /**
+   * Figures for every configured provider of a direction, and any other
+   * provider with transactions in the window. window is a number of minutes,
+   * hours or days such as 15m, 24h or 7d, up to 90d.
+   */
+  async getStatusReport(
+    direction: ProviderDirection,
+    providers: PaymentProviderInfo[],
+    window: string = this.defaultWindow
+  ): Promise<ProviderStatusReport> {
+    const windowSeconds = this.parseWindow(window);
+    const now = new Date();
+
+    // Transaction types share the direction names
+    const rows = await this.db.all<TransactionOutcomeRow>(
+      `SELECT provider, status, amount, currency,
+         (julianday(updated_at) - julianday(created_at)) * 86400 AS duration_seconds,
+         updated_at >= datetime('now', ?) AS recent
+       FROM transactions
+       WHERE type = ? AND provider IS NOT NULL AND created_at >= datetime('now', ?)`,
+      [`-${this.statusWindowMinutes} minutes`, direction, `-${windowSeconds} seconds`]
+    );
+
+    const rowsByProvider = new Map<string, TransactionOutcomeRow[]>();
+    for (const row of rows) {
+      rowsByProvider.set(row.provider, [...(rowsByProvider.get(row.provider) || []), row]);
+    }
+
+    const circuits = new Map((await this.healthService.listHealth()).map(health => [health.provider, health.state]));
+    const names = new Map(providers.map(provider => [provider.provider, provider.name]));
+    const providerIds = [...names.keys(), ...[...rowsByProvider.keys()].filter(id => !names.has(id))];
+
+    const entries: ProviderStatusEntry[] = providerIds.map(id => {
+      const providerRows = rowsByProvider.get(id) || [];
+      const recentCompleted = providerRows.filter(row => row.recent && row.status === TransactionStatus.COMPLETED).length;
+      const recentFailed = providerRows.filter(row => row.recent && row.status === TransactionStatus.FAILED).length;
+      const circuitState = circuits.get(id) || CircuitState.CLOSED;
+
+      return {
+        provider: id,
+        name: names.get(id) || id,
+        status: this.getOperationalStatus(recentCompleted, recentFailed, circuitState),
+        circuit_state: circuitState,
+        recent: { completed: recentCompleted, failed: recentFailed },
+        ...this.summarize(providerRows)
+      };
+    });
+
+    const configured = entries.filter(entry => names.has(entry.provider));
+
+    return {
+      direction,
+      window,
+      from: new Date(now.getTime() - windowSeconds * 1000).toISOString(),
+      to: now.toISOString(),
+      system_status: this.getSystemStatus(configured),
+      status_window_minutes: this.statusWindowMinutes,
+      active_providers: configured.filter(entry => entry.status !== 'down').length,
+      ...this.summarize(rows),
+      providers: entries,
+      last_updated: now.toISOString()
+    };
+  }
+
+  private parseWindow(window: string): number {
+    const match = /^(\d+)([mhd])$/.exec(window);
+    const seconds = match ? Number(match[1]) * WINDOW_UNIT_SECONDS[match[2]] : 0;
+
+    if (seconds <= 0 || seconds > MAX_WINDOW_SECONDS) {
+      throw new ProviderStatsError(
+        'window must be a number of minutes, hours or days such as 15m, 24h or 7d, up to 90d',
+        'INVALID_WINDOW',
+        400
+      );
+    }
+    return seconds;
+  }
+
+  private summarize(rows: TransactionOutcomeRow[]): ProviderActivity {
+    // Cancelled transactions never settled, so they count toward neither
+    // success nor failure
+    const completed = rows.filter(row => row.status === TransactionStatus.COMPLETED);
+    const failed = rows.filter(row => row.status === TransactionStatus.FAILED).length;
+    const settled = completed.length + failed;
+
+    const volume = new Map<string, Money>();
+    for (const row of completed) {
+      const amount = Money.fromMinor(row.amount, row.currency);
+      volume.set(row.currency, volume.has(row.currency) ? volume.get(row.currency)!.add(amount) : amount);
+    }
+
+    const durations = completed.map(row => row.duration_seconds).sort((a, b) => a - b);
+    const completionTime: CompletionTimes | null = durations.length > 0
+      ? {
+        p50_seconds: Math.round(percentile(durations, 0.5)),
+        p95_seconds: Math.round(percentile(durations, 0.95))
+      }
+      : null;
+
+    return {
+      total_transactions: rows.length,
+      completed: completed.length,
+      failed,
+      processing: rows.filter(row => row.status === TransactionStatus.PROCESSING).length,
+      cancelled: rows.filter(row => row.status === TransactionStatus.CANCELLED).length,
+      success_rate: settled > 0 ? Number((completed.length / settled).toFixed(4)) : null,
+      completion_time: completionTime,
+      volume: [...volume.values()].map(amount => ({ currency: amount.currency, amount: amount.toMajorString() }))
+    };
+  }
+
+  /**
+   * Down while the provider's circuit is open and at best degraded while it
+   * is half-open. Otherwise down or degraded when too many recent
+   * transactions failed; providers with fewer than
+   * PROVIDER_STATUS_MIN_SAMPLES recent outcomes count as operational.
+   */
+  private getOperationalStatus(
+    recentCompleted: number,
+    recentFailed: number,
+    circuitState: CircuitState
+  ): ProviderOperationalStatus {
+    if (circuitState === CircuitState.OPEN) {
+      return 'down';
+    }
+
+    const settled = recentCompleted + recentFailed;
+    const successRate = settled >= this.statusMinSamples ? recentCompleted / settled : 1;
+    if (successRate < DOWN_SUCCESS_RATE) {
+      return 'down';
+    }
+    return successRate < DEGRADED_SUCCESS_RATE || circuitState === CircuitState.HALF_OPEN ? 'degraded' : 'operational';
+  }
+
+  private getSystemStatus(entries: ProviderStatusEntry[]): ProviderOperationalStatus {
+    if (entries.length > 0 && entries.every(entry => entry.status === 'down')) {
+      return 'down';
+    }
+    return entries.some(entry => entry.status !== 'operational') ? 'degraded' : 'operational';
+  }
+}
@@ -0,0 +1,204 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Database } from '../database/database.js';
+import { FeeEngine } from './feeEngine.js';
+import { ExchangeRateService } from './exchangeRateService.js';
+import { FxSpreadService } from './fxSpreadService.js';
+import { Money } from '../types/money.js';
+import { ApiError } from '../types/errors.js';
+import {
+  Quote,
+  QuoteStatus,
+  QuoteResponse,
+  CreateQuoteRequest,
+  PaymentOwnerScope
+} from '../types/payment.js';
+
+export class QuoteError extends ApiError {}
+
+export class QuoteService {
+  private db: Database;
+  private feeEngine: FeeEngine;
+  private exchangeRateService: ExchangeRateService;
+  private fxSpreadService: FxSpreadService;
+  private quoteTtlSeconds: number = parseInt(process.env.QUOTE_TTL_SECONDS || '300', 10);
+
+  constructor() {
+    this.db = Database.getInstance();
+    this.feeEngine = new FeeEngine();
+    this.exchangeRateService = new ExchangeRateService();
+    this.fxSpreadService = new FxSpreadService();
+  }
+
+  /**
+   * Price a transfer at the current rate, less the customer's FX spread, and
+   * lock the terms until the quote expires
+   */
+  async createQuote(request: CreateQuoteRequest): Promise<QuoteResponse> {
+    if (!await this.feeEngine.isCurrencySupported(request.destination_currency)) {
+      throw new ApiError(
+        `Destination currency ${request.destination_currency} is not supported`,
+        'UNSUPPORTED_CURRENCY',
+        400
+      );
+    }
+
+    const sourceAmount = Money.fromMajor(request.source_amount, request.source_currency);
+    const midRate = await this.exchangeRateService.getExchangeRate(
+      sourceAmount.currency,
+      request.destination_currency
+    );
+    const pricing = await this.fxSpreadService.priceRate(sourceAmount, request.destination_currency, midRate, {
+      user_id: request.user_id,
+      api_key_id: request.api_key_id
+    });
+    const amounts = await this.feeEngine.calculateTotalAmount(
+      sourceAmount,
+      request.destination_currency,
+      pricing.exchange_rate
+    );
+
+    const quoteId = uuidv4();
+    const expiresAt = new Date(Date.now() + this.quoteTtlSeconds * 1000);
+
+    await this.db.run(
+      `INSERT INTO quotes
+       (id, user_id, api_key_id, source_amount, source_currency, destination_amount, destination_currency,
+        exchange_rate, mid_exchange_rate, spread_bps, spread_amount, fee_breakdown, fee_amount, total_amount, expires_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        quoteId,
+        request.user_id || null,
+        request.api_key_id || null,
+        amounts.source_amount.toMinorNumber(),
+        amounts.source_amount.currency,
+        amounts.destination_amount.toMinorNumber(),
+        amounts.destination_amount.currency,
+        amounts.exchange_rate,
+        pricing.mid_rate,
+        pricing.spread_bps,
+        pricing.spread_amount.toMinorNumber(),
+        JSON.stringify(amounts.fee_breakdown),
+        amounts.fee_amount.toMinorNumber(),
+        amounts.total_amount.toMinorNumber(),
+        expiresAt.toISOString()
+      ]
+    );
+
+    const quote = await this.getQuoteById(quoteId);
+    return this.quoteToResponse(quote!);
+  }
+
+  /**
+   * Get quote by ID
+   */
+  async getQuoteById(quoteId: string): Promise<Quote | undefined> {
+    return await this.db.get<Quote>(
+      'SELECT * FROM quotes WHERE id = ?',
+      [quoteId]
+    );
+  }
+
+  /**
+   * Whether a caller may see a quote: users those priced for them, API keys
+   * those they created, admins all of them
+   */
+  isQuoteVisibleTo(quote: Quote, scope: PaymentOwnerScope): boolean {
+    if (scope.all) {
+      return true;
+    }
+    if (scope.user_id) {
+      return quote.user_id === scope.user_id;
+    }
+    return !!scope.api_key_id && quote.api_key_id === scope.api_key_id;
+  }
+
+  /**
+   * Claim a quote for a payment. The update only succeeds while the quote is
+   * unused and unexpired, so two payments can never execute the same quote.
+   * Throws QUOTE_NOT_FOUND, QUOTE_EXPIRED or QUOTE_ALREADY_USED otherwise.
+   */
+  async consumeQuote(quoteId: string, paymentId: string): Promise<Quote> {
+    const now = new Date().toISOString();
+
+    const result = await this.db.run(
+      `UPDATE quotes SET payment_id = ?, used_at = CURRENT_TIMESTAMP
+       WHERE id = ? AND payment_id IS NULL AND expires_at > ?`,
+      [paymentId, quoteId, now]
+    );
+
+    const quote = await this.getQuoteById(quoteId);
+
+    if (result.changes === 0) {
+      if (!quote) {
+        throw new QuoteError(`Quote ${quoteId} not found`, 'QUOTE_NOT_FOUND', 404);
+      }
+      if (quote.payment_id) {
+        throw new QuoteError(
+          `Quote ${quoteId} has already been used`,
+          'QUOTE_ALREADY_USED',
+          409,
+          { quote_id: quoteId, payment_id: quote.payment_id }
+        );
+      }
+      throw new QuoteError(
+        `Quote ${quoteId} expired at ${quote.expires_at}`,
+        'QUOTE_EXPIRED',
+        410,
+        { quote_id: quoteId, expires_at: quote.expires_at }
+      );
+    }
+
+    return quote!;
+  }
+
+  /**
+   * Give a claimed quote back, e.g. when the payment could not be stored
+   */
+  async releaseQuote(quoteId: string, paymentId: string): Promise<void> {
+    await this.db.run(
+      'UPDATE quotes SET payment_id = NULL, used_at = NULL WHERE id = ? AND payment_id = ?',
+      [quoteId, paymentId]
+    );
+  }
+
+  /**
+   * Convert quote to response format
+   */
+  quoteToResponse(quote: Quote): QuoteResponse {
+    let feeBreakdown: Record<string, string> = {};
+    try {
+      feeBreakdown = JSON.parse(quote.fee_breakdown);
+    } catch {
+      // Keep empty breakdown if parsing fails
+    }
+
+    return {
+      id: quote.id,
+      status: this.getQuoteStatus(quote),
+      source_amount: Money.fromMinor(quote.source_amount, quote.source_currency).toMajorString(),
+      source_currency: quote.source_currency,
+      destination_amount: Money.fromMinor(quote.destination_amount, quote.destination_currency).toMajorString(),
+      destination_currency: quote.destination_currency,
+      exchange_rate: quote.exchange_rate,
+      mid_exchange_rate: quote.mid_exchange_rate || undefined,
+      spread_bps: quote.spread_bps,
+      spread_amount: Money.fromMinor(quote.spread_amount, quote.source_currency).toMajorString(),
+      fee_breakdown: feeBreakdown,
+      fee_amount: Money.fromMinor(quote.fee_amount, quote.source_currency).toMajorString(),
+      total_amount: Money.fromMinor(quote.total_amount, quote.source_currency).toMajorString(),
+      payment_id: quote.payment_id || undefined,
+      expires_at: quote.expires_at,
+      created_at: quote.created_at
+    };
+  }
+
+  /**
+   * Derive the quote status from its usage and expiry
+   */
+  private getQuoteStatus(quote: Quote): QuoteStatus {
+    if (quote.payment_id) {
+      return QuoteStatus.USED;
+    }
+    return quote.expires_at > new Date().toISOString() ? QuoteStatus.ACTIVE : QuoteStatus.EXPIRED;
+  }
+}
@@ -0,0 +1,336 @@
+import cron, { ScheduledTask } from 'node-cron';
+import { Database } from '../database/database.js';
+import { ApiError } from '../types/errors.js';
+import { normalizeDecimal } from '../types/money.js';
+import { RateCandle, RateHistoryResponse, RateObservation } from '../types/payment.js';
+import { ExchangeRateService } from './exchangeRateService.js';
+
+export class RateHistoryError extends ApiError {}
+
+/**
+ * Candle widths the history offers, in seconds
+ */
+export const RATE_HISTORY_INTERVALS: Record<string, number> = {
+  '1m': 60,
+  '5m': 300,
+  '15m': 900,
+  '1h': 3600,
+  '4h': 4 * 3600,
+  '1d': 86400
+};
+
+const MAX_CANDLES = 1000;
+const DEFAULT_CANDLES = 100;
+const DEFAULT_SAMPLED_PAIRS = 'USD-EUR,USD-GBP,USD-CAD,USD-AUD,USD-JPY,USD-INR,USD-BRL,USD-MXN';
+
+// OHLC over one bucket; a single observation is a bucket with all four equal
+interface Bucket {
+  start: number; // epoch ms
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  samples: number;
+}
+
+interface StoredCandle {
+  from_currency: string;
+  to_currency: string;
+  interval: string;
+  bucket_start: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  samples: number;
+}
+
+// One sampler per process
+let sampler: ScheduledTask | undefined;
+let retention: ScheduledTask | undefined;
+
+/**
+ * Split "USD-EUR", "USD_EUR", "USD/EUR" or "USDEUR" into its currencies
+ */
+export function parseCurrencyPair(pair: string): { from: string; to: string } | undefined {
+  const match = /^([A-Za-z]{3})[-_/]?([A-Za-z]{3})$/.exec(pair);
+  return match ? { from: match[1].toUpperCase(), to: match[2].toUpperCase() } : undefined;
+}
+
+/**
+ * Fold time-ordered points into buckets of the given width, aligned to the
+ * Unix epoch (so daily buckets start at midnight UTC)
+ */
+function aggregate(points: Bucket[], intervalSeconds: number): Bucket[] {
+  const width = intervalSeconds * 1000;
+  const buckets: Bucket[] = [];
+
+  for (const point of points) {
+    const start = Math.floor(point.start / width) * width;
+    const current = buckets[buckets.length - 1];
+
+    if (current && current.start === start) {
+      current.high = Math.max(current.high, point.high);
+      current.low = Math.min(current.low, point.low);
+      current.close = point.close;
+      current.samples += point.samples;
+    } else {
+      buckets.push({ ...point, start });
+    }
+  }
+
+  return buckets;
+}
+
+function observationToPoint(observation: Pick<RateObservation, 'rate' | 'observed_at'>): Bucket {
+  const rate = Number(observation.rate);
+  return { start: Date.parse(observation.observed_at), open: rate, high: rate, low: rate, close: rate, samples: 1 };
+}
+
+function candleToPoint(candle: StoredCandle): Bucket {
+  return {
+    start: Date.parse(candle.bucket_start),
+    open: Number(candle.open),
+    high: Number(candle.high),
+    low: Number(candle.low),
+    close: Number(candle.close),
+    samples: candle.samples
+  };
+}
+
+/**
+ * Time series of the selected exchange rate per pair. Every rate
+ * ExchangeRateService picks is appended to rate_observations, and a cron
+ * sampler asks for the configured pairs regularly so the series has no gaps
+ * when nobody is quoting. Retention keeps raw observations for
+ * RATE_HISTORY_RAW_DAYS, then hourly candles for RATE_HISTORY_HOURLY_DAYS,
+ * then daily candles for RATE_HISTORY_DAILY_DAYS.
+ */
+export class RateHistoryService {
+  private db: Database;
+  private exchangeRateService: ExchangeRateService;
+  private samplerEnabled: boolean = process.env.RATE_SAMPLER_ENABLED !== 'false';
+  private samplerSchedule: string = process.env.RATE_SAMPLER_CRON || '*/5 * * * *';
+  private retentionSchedule: string = process.env.RATE_HISTORY_RETENTION_CRON || '7 * * * *';
+  private rawRetentionDays: number = parseInt(process.env.RATE_HISTORY_RAW_DAYS || '7', 10);
+  private hourlyRetentionDays: number = parseInt(process.env.RATE_HISTORY_HOURLY_DAYS || '90', 10);
+  private dailyRetentionDays: number = parseInt(process.env.RATE_HISTORY_DAILY_DAYS || '730', 10);
+
+  constructor() {
+    this.db = Database.getInstance();
+    this.exchangeRateService = new ExchangeRateService();
+  }
+
+  /**
+   * Schedule rate sampling and retention. Only one sampler runs per process.
+   */
+  startSampler(): void {
+    if (sampler || !this.samplerEnabled) {
+      return;
+    }
+
+    for (const schedule of [this.samplerSchedule, this.retentionSchedule]) {
+      if (!cron.validate(schedule)) {
+        throw new RateHistoryError(`Invalid cron expression: ${schedule}`, 'RATE_SAMPLER_CONFIG_INVALID', 500);
+      }
+    }
+
+    sampler = cron.schedule(this.samplerSchedule, () => this.sampleRates(), { name: 'rate-sampler', noOverlap: true });
+    retention = cron.schedule(this.retentionSchedule, () => this.applyRetention(), { name: 'rate-history-retention', noOverlap: true });
+  }
+
+  stopSampler(): void {
+    sampler?.stop();
+    retention?.stop();
+    sampler = undefined;
+    retention = undefined;
+  }
+
+  /**
+   * Pairs the sampler asks for, from RATE_SAMPLER_PAIRS
+   */
+  getSampledPairs(): { from: string; to: string }[] {
+    return (process.env.RATE_SAMPLER_PAIRS || DEFAULT_SAMPLED_PAIRS)
+      .split(',')
+      .map(pair => parseCurrencyPair(pair.trim()))
+      .filter((pair): pair is { from: string; to: string } => !!pair);
+  }
+
+  /**
+   * Ask the providers for every sampled pair; each selected rate becomes an
+   * observation. Returns how many pairs got a rate.
+   */
+  async sampleRates(): Promise<number> {
+    let sampled = 0;
+
+    for (const { from, to } of this.getSampledPairs()) {
+      try {
+        await this.exchangeRateService.getBestRate(from, to);
+        sampled++;
+      } catch (error) {
+        console.warn(`Rate sample for ${from}-${to} failed:`, (error as Error).message);
+      }
+    }
+
+    return sampled;
+  }
+
+  /**
+   * Downsample observations past their retention into hourly candles, hourly
+   * candles past theirs into daily ones, and drop expired daily candles.
+   * Only whole buckets are rolled up, so each is written once.
+   */
+  async applyRetention(): Promise<void> {
+    try {
+      const now = Date.now();
+      const hourlyCutoff = Math.floor((now - this.rawRetentionDays * 86400000) / 3600000) * 3600000;
+      const dailyCutoff = Math.floor((now - this.hourlyRetentionDays * 86400000) / 86400000) * 86400000;
+
+      await this.downsampleObservations(new Date(hourlyCutoff).toISOString());
+      await this.downsampleCandles('1h', '1d', new Date(dailyCutoff).toISOString());
+      await this.db.run(
+        'DELETE FROM rate_candles WHERE interval = ? AND bucket_start < ?',
+        ['1d', new Date(now - this.dailyRetentionDays * 86400000).toISOString()]
+      );
+    } catch (error) {
+      console.error('Rate history retention failed:', error);
+    }
+  }
+
+  /**
+   * OHLC candles for a pair. Raw observations and stored candles no wider
+   * than the interval are combined, so intervals under an hour only reach
+   * back as far as raw observations are kept. Buckets without observations
+   * are left out.
+   */
+  async getHistory(pair: string, interval: string = '1h', from?: string, to?: string): Promise<RateHistoryResponse> {
+    const currencies = parseCurrencyPair(pair);
+    if (!currencies) {
+      throw new RateHistoryError(`Invalid currency pair: ${pair}`, 'INVALID_CURRENCY_PAIR', 400);
+    }
+
+    const intervalSeconds = RATE_HISTORY_INTERVALS[interval];
+    if (!intervalSeconds) {
+      throw new RateHistoryError(`Unsupported interval: ${interval}`, 'INVALID_INTERVAL', 400, {
+        supported_intervals: Object.keys(RATE_HISTORY_INTERVALS)
+      });
+    }
+
+    const width = intervalSeconds * 1000;
+    const until = to ? Date.parse(to) : Date.now();
+    const since = Math.floor((from ? Date.parse(from) : until - DEFAULT_CANDLES * width) / width) * width;
+
+    if (since >= until) {
+      throw new RateHistoryError('from must be before to', 'INVALID_TIME_RANGE', 400);
+    }
+    if ((until - since) / width > MAX_CANDLES) {
+      throw new RateHistoryError(
+        `At most ${MAX_CANDLES} candles can be returned; narrow the range or widen the interval`,
+        'RATE_HISTORY_RANGE_TOO_LARGE',
+        400
+      );
+    }
+
+    const range = [currencies.from, currencies.to, new Date(since).toISOString(), new Date(until).toISOString()];
+    const storedIntervals = ['1h', '1d'].filter(stored => intervalSeconds % RATE_HISTORY_INTERVALS[stored] === 0);
+
+    const observations = await this.db.all<Pick<RateObservation, 'rate' | 'observed_at'>>(
+      `SELECT rate, observed_at FROM rate_observations
+       WHERE from_currency = ? AND to_currency = ? AND observed_at >= ? AND observed_at < ?`,
+      range
+    );
+    const candles = storedIntervals.length === 0 ? [] : await this.db.all<StoredCandle>(
+      `SELECT * FROM rate_candles
+       WHERE from_currency = ? AND to_currency = ? AND bucket_start >= ? AND bucket_start < ?
+       AND interval IN (${storedIntervals.map(() => '?').join(', ')})`,
+      [...range, ...storedIntervals]
+    );
+
+    const points = [...observations.map(observationToPoint), ...candles.map(candleToPoint)]
+      .sort((a, b) => a.start - b.start);
+
+    return {
+      pair: `${currencies.from}-${currencies.to}`,
+      interval,
+      from: new Date(since).toISOString(),
+      to: new Date(until).toISOString(),
+      candles: aggregate(points, intervalSeconds).map(bucket => this.bucketToCandle(bucket))
+    };
+  }
+
+  private async downsampleObservations(cutoff: string): Promise<void> {
+    await this.db.transaction(async () => {
+      const observations = await this.db.all<RateObservation>(
+        'SELECT * FROM rate_observations WHERE observed_at < ? ORDER BY from_currency, to_currency, observed_at',
+        [cutoff]
+      );
+      if (observations.length === 0) {
+        return;
+      }
+
+      await this.storeCandles<RateObservation>(observations, '1h', observationToPoint);
+      await this.db.run('DELETE FROM rate_observations WHERE observed_at < ?', [cutoff]);
+    });
+  }
+
+  private async downsampleCandles(fromInterval: string, toInterval: string, cutoff: string): Promise<void> {
+    await this.db.transaction(async () => {
+      const candles = await this.db.all<StoredCandle>(
+        `SELECT * FROM rate_candles WHERE interval = ? AND bucket_start < ?
+         ORDER BY from_currency, to_currency, bucket_start`,
+        [fromInterval, cutoff]
+      );
+      if (candles.length === 0) {
+        return;
+      }
+
+      await this.storeCandles(candles, toInterval, candleToPoint);
+      await this.db.run('DELETE FROM rate_candles WHERE interval = ? AND bucket_start < ?', [fromInterval, cutoff]);
+    });
+  }
+
+  /**
+   * Aggregate rows (ordered by pair, then time) into candles of the interval
+   * and merge them into rate_candles
+   */
+  private async storeCandles<T extends { from_currency: string; to_currency: string }>(
+    rows: T[],
+    interval: string,
+    toPoint: (row: T) => Bucket
+  ): Promise<void> {
+    const byPair = new Map<string, { from: string; to: string; points: Bucket[] }>();
+    for (const row of rows) {
+      const key = `${row.from_currency}-${row.to_currency}`;
+      if (!byPair.has(key)) {
+        byPair.set(key, { from: row.from_currency, to: row.to_currency, points: [] });
+      }
+      byPair.get(key)!.points.push(toPoint(row));
+    }
+
+    for (const { from, to, points } of byPair.values()) {
+      for (const bucket of aggregate(points, RATE_HISTORY_INTERVALS[interval])) {
+        await this.db.run(
+          `INSERT INTO rate_candles (from_currency, to_currency, interval, bucket_start, open, high, low, close, samples)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+           ON CONFLICT (from_currency, to_currency, interval, bucket_start) DO UPDATE SET
+             high = MAX(high, excluded.high),
+             low = MIN(low, excluded.low),
+             close = excluded.close,
+             samples = samples + excluded.samples`,
+          [from, to, interval, new Date(bucket.start).toISOString(), bucket.open, bucket.high, bucket.low, bucket.close, bucket.samples]
+        );
+      }
+    }
+  }
+
+  private bucketToCandle(bucket: Bucket): RateCandle {
+    return {
+      bucket_start: new Date(bucket.start).toISOString(),
+      open: normalizeDecimal(bucket.open),
+      high: normalizeDecimal(bucket.high),
+      low: normalizeDecimal(bucket.low),
+      close: normalizeDecimal(bucket.close),
+      samples: bucket.samples
+    };
+  }
+}
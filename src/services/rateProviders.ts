@@ -0,0 +1,363 @@
+import fs from 'fs/promises';
+import path from 'path';
+import axios from 'axios';
+import { ApiError } from '../types/errors.js';
+
+/**
+ * Sources of exchange rates. Each provider holds a table of rates against one
+ * base currency and answers any pair it has both sides of, crossing through
+ * the base when neither side is it. ExchangeRateService asks every enabled
+ * provider and picks between their quotes (see getBestRate).
+ *
+ * RATE_PROVIDERS configures them as a JSON array, for example
+ *
+ *   [{"type":"ecb","path":"./data/eurofxref-daily.xml"},
+ *    {"type":"http","name":"fx_stub","url":"http://localhost:4010/rates"}]
+ *
+ * and defaults to the mock provider alone.
+ */
+
+export class RateProviderError extends ApiError {}
+
+export type RateProviderType = 'mock' | 'file' | 'ecb' | 'http';
+
+export interface RateProviderConfig {
+  type: RateProviderType;
+  name?: string; // Recorded with each rate; defaults to the type
+  enabled?: boolean;
+  max_age_seconds?: number; // Quotes older than this are treated as stale
+  path?: string; // file, ecb
+  format?: 'json' | 'csv'; // file; taken from the extension when omitted
+  base?: string; // file (csv only), currency the rates are quoted against
+  url?: string; // http
+  timeout_ms?: number; // http
+  cache_seconds?: number; // http, how long a response is reused
+  headers?: Record<string, string>; // http
+}
+
+export interface ProviderRate {
+  provider: string;
+  rate: number;
+  as_of: string; // When the provider published the rate
+}
+
+export interface RateProvider {
+  readonly name: string;
+  readonly maxAgeSeconds: number;
+  getRate(sourceCurrency: string, destinationCurrency: string): Promise<ProviderRate | undefined>;
+  getSupportedCurrencies(): Promise<string[]>;
+}
+
+// Units of each currency per one unit of the base
+interface RateTable {
+  base: string;
+  rates: Record<string, number>;
+  as_of: string;
+}
+
+// How long a provider's rates stay usable unless max_age_seconds says otherwise
+const DEFAULT_MAX_AGE_SECONDS: Record<RateProviderType, number> = {
+  mock: 300,
+  file: 86400,
+  ecb: 4 * 86400, // Published on TARGET business days only, so allow for long weekends
+  http: 3600
+};
+
+abstract class TableRateProvider implements RateProvider {
+  constructor(readonly name: string, readonly maxAgeSeconds: number) {}
+
+  protected abstract loadTable(): Promise<RateTable>;
+
+  async getRate(sourceCurrency: string, destinationCurrency: string): Promise<ProviderRate | undefined> {
+    const table = await this.loadTable();
+    const sourceRate = sourceCurrency === table.base ? 1 : table.rates[sourceCurrency];
+    const destinationRate = destinationCurrency === table.base ? 1 : table.rates[destinationCurrency];
+
+    if (!sourceRate || !destinationRate) {
+      return undefined;
+    }
+
+    return {
+      provider: this.name,
+      rate: Math.round((destinationRate / sourceRate) * 1e8) / 1e8, // exchange_rates keeps 8 decimal places
+      as_of: table.as_of
+    };
+  }
+
+  async getSupportedCurrencies(): Promise<string[]> {
+    const table = await this.loadTable();
+    return [table.base, ...Object.keys(table.rates)].sort();
+  }
+}
+
+/**
+ * Built-in USD rates with ±2% noise on every read to simulate market movement
+ */
+export class MockRateProvider extends TableRateProvider {
+  private rates: Record<string, number> = {
+    EUR: 0.85,
+    GBP: 0.73,
+    CAD: 1.25,
+    AUD: 1.35,
+    JPY: 110.0,
+    INR: 74.5,
+    BRL: 5.2,
+    MXN: 20.1,
+    CHF: 0.92,
+    SEK: 8.7,
+    NOK: 8.9
+  };
+
+  protected async loadTable(): Promise<RateTable> {
+    const rates: Record<string, number> = {};
+    for (const [currency, rate] of Object.entries(this.rates)) {
+      rates[currency] = rate * (1 + (Math.random() - 0.5) * 0.04);
+    }
+    return { base: 'USD', rates, as_of: new Date().toISOString() };
+  }
+
+  /**
+   * Replace some of the USD rates (for testing/simulation)
+   */
+  updateRates(rates: Record<string, number>): void {
+    this.rates = { ...this.rates, ...rates };
+  }
+
+  getRates(): Record<string, number> {
+    return { ...this.rates };
+  }
+
+  /**
+   * Move every rate by up to ±5%
+   */
+  simulateMarketVolatility(): void {
+    for (const currency of Object.keys(this.rates)) {
+      this.rates[currency] *= 1 + (Math.random() - 0.5) * 0.1;
+    }
+    console.log('Market volatility simulated - exchange rates updated');
+  }
+}
+
+// A JSON rate table as served, checked field by field before use
+interface JsonRateTable {
+  base?: unknown;
+  rates?: unknown;
+  as_of?: string;
+  date?: string;
+  timestamp?: unknown;
+}
+
+/**
+ * Read a JSON rate table: {"base": "USD", "rates": {"EUR": 0.92}} with the
+ * publication time in as_of, date or timestamp (Unix seconds)
+ */
+function parseJsonTable(body: unknown, fallbackAsOf: string): RateTable {
+  const data = body as JsonRateTable | null;
+  if (!data || typeof data.base !== 'string' || !data.rates || typeof data.rates !== 'object') {
+    throw new Error('expected an object with base and rates');
+  }
+
+  const rates: Record<string, number> = {};
+  for (const [currency, value] of Object.entries(data.rates)) {
+    const rate = Number(value);
+    if (Number.isFinite(rate) && rate > 0) {
+      rates[currency.toUpperCase()] = rate;
+    }
+  }
+
+  let asOf = fallbackAsOf;
+  if (typeof data.timestamp === 'number') {
+    asOf = new Date(data.timestamp * 1000).toISOString();
+  } else if (data.as_of || data.date) {
+    asOf = new Date(data.as_of || data.date).toISOString();
+  }
+
+  return { base: data.base.toUpperCase(), rates, as_of: asOf };
+}
+
+/**
+ * Read a CSV rate table of "currency,rate" lines, with an optional header
+ */
+function parseCsvTable(text: string, base: string, asOf: string): RateTable {
+  const rates: Record<string, number> = {};
+  for (const line of text.split(/\r?\n/)) {
+    const [currency, value] = line.split(',').map(cell => cell.trim());
+    const rate = Number(value);
+    if (/^[A-Za-z]{3}$/.test(currency || '') && Number.isFinite(rate) && rate > 0) {
+      rates[currency.toUpperCase()] = rate;
+    }
+  }
+  return { base: base.toUpperCase(), rates, as_of: asOf };
+}
+
+/**
+ * Read the newest day of an ECB eurofxref file (daily, 90-day or full
+ * history), whose rates are per euro
+ */
+export function parseEcbXml(xml: string): RateTable {
+  const day = /<Cube\s+time=["'](\d{4}-\d{2}-\d{2})["']\s*>([\s\S]*?)<\/Cube>/.exec(xml);
+  if (!day) {
+    throw new Error('no dated Cube element found');
+  }
+
+  const rates: Record<string, number> = {};
+  const entry = /<Cube\s+currency=["']([A-Z]{3})["']\s+rate=["']([\d.]+)["']\s*\/>/g;
+  for (let match = entry.exec(day[2]); match; match = entry.exec(day[2])) {
+    rates[match[1]] = Number(match[2]);
+  }
+
+  // Reference rates are set around 16:00 CET
+  return { base: 'EUR', rates, as_of: `${day[1]}T15:00:00.000Z` };
+}
+
+/**
+ * Parses a file again whenever its modification time changes
+ */
+abstract class FileBackedRateProvider extends TableRateProvider {
+  private table?: RateTable;
+  private loadedMtime = 0;
+
+  constructor(name: string, maxAgeSeconds: number, protected filePath: string) {
+    super(name, maxAgeSeconds);
+  }
+
+  protected abstract parse(contents: string, modifiedAt: string): RateTable;
+
+  protected async loadTable(): Promise<RateTable> {
+    const stats = await fs.stat(this.filePath);
+    if (!this.table || stats.mtimeMs !== this.loadedMtime) {
+      const contents = await fs.readFile(this.filePath, 'utf8');
+      try {
+        this.table = this.parse(contents, stats.mtime.toISOString());
+      } catch (error) {
+        throw new RateProviderError(`${this.filePath}: ${(error as Error).message}`, 'RATE_SOURCE_INVALID', 502);
+      }
+      this.loadedMtime = stats.mtimeMs;
+    }
+    return this.table;
+  }
+}
+
+/**
+ * Static rates from a JSON or CSV file. Files without a publication time are
+ * dated by their modification time.
+ */
+export class FileRateProvider extends FileBackedRateProvider {
+  constructor(name: string, maxAgeSeconds: number, filePath: string, private format: 'json' | 'csv', private base: string) {
+    super(name, maxAgeSeconds, filePath);
+  }
+
+  protected parse(contents: string, modifiedAt: string): RateTable {
+    return this.format === 'csv'
+      ? parseCsvTable(contents, this.base, modifiedAt)
+      : parseJsonTable(JSON.parse(contents), modifiedAt);
+  }
+}
+
+/**
+ * ECB euro foreign exchange reference rates from a downloaded eurofxref XML file
+ */
+export class EcbRateProvider extends FileBackedRateProvider {
+  protected parse(contents: string): RateTable {
+    return parseEcbXml(contents);
+  }
+}
+
+/**
+ * Rates from an HTTP endpoint returning a JSON rate table (see
+ * parseJsonTable). Responses are reused for cache_seconds.
+ */
+export class HttpRateProvider extends TableRateProvider {
+  private table?: RateTable;
+  private fetchedAt = 0;
+
+  constructor(
+    name: string,
+    maxAgeSeconds: number,
+    private url: string,
+    private timeoutMs: number,
+    private cacheSeconds: number,
+    private headers: Record<string, string> = {}
+  ) {
+    super(name, maxAgeSeconds);
+  }
+
+  protected async loadTable(): Promise<RateTable> {
+    if (this.table && Date.now() - this.fetchedAt < this.cacheSeconds * 1000) {
+      return this.table;
+    }
+
+    const response = await axios.get(this.url, { timeout: this.timeoutMs, headers: this.headers });
+    try {
+      this.table = parseJsonTable(response.data, new Date().toISOString());
+    } catch (error) {
+      throw new RateProviderError(`${this.url}: ${(error as Error).message}`, 'RATE_SOURCE_INVALID', 502);
+    }
+    this.fetchedAt = Date.now();
+    return this.table;
+  }
+}
+
+/**
+ * Build a provider from its configuration
+ */
+export function createRateProvider(config: RateProviderConfig): RateProvider {
+  const name = config.name || config.type;
+  const maxAgeSeconds = config.max_age_seconds ?? DEFAULT_MAX_AGE_SECONDS[config.type];
+  const requireSetting = (setting: 'path' | 'url') => {
+    if (!config[setting]) {
+      throw new RateProviderError(`Rate provider ${name} needs a ${setting}`, 'RATE_PROVIDER_CONFIG_INVALID', 500);
+    }
+    return config[setting]!;
+  };
+
+  switch (config.type) {
+  case 'mock':
+    return new MockRateProvider(name, maxAgeSeconds);
+  case 'file': {
+    const filePath = requireSetting('path');
+    const format = config.format || (path.extname(filePath).toLowerCase() === '.csv' ? 'csv' : 'json');
+    return new FileRateProvider(name, maxAgeSeconds, filePath, format, config.base || 'USD');
+  }
+  case 'ecb':
+    return new EcbRateProvider(name, maxAgeSeconds, requireSetting('path'));
+  case 'http':
+    return new HttpRateProvider(
+      name,
+      maxAgeSeconds,
+      requireSetting('url'),
+      config.timeout_ms ?? 5000,
+      config.cache_seconds ?? 60,
+      config.headers
+    );
+  default:
+    throw new RateProviderError(`Unknown rate provider type: ${config.type}`, 'RATE_PROVIDER_CONFIG_INVALID', 500);
+  }
+}
+
+let configuredProviders: RateProvider[] | undefined;
+
+/**
+ * Enabled providers from RATE_PROVIDERS, created once per process so file
+ * and HTTP caches are shared
+ */
+export function getConfiguredRateProviders(): RateProvider[] {
+  if (configuredProviders) {
+    return configuredProviders;
+  }
+
+  let configs: RateProviderConfig[] = [{ type: 'mock' }];
+  if (process.env.RATE_PROVIDERS) {
+    try {
+      configs = JSON.parse(process.env.RATE_PROVIDERS);
+    } catch {
+      throw new RateProviderError('RATE_PROVIDERS must be a JSON array', 'RATE_PROVIDER_CONFIG_INVALID', 500);
+    }
+    if (!Array.isArray(configs)) {
+      throw new RateProviderError('RATE_PROVIDERS must be a JSON array', 'RATE_PROVIDER_CONFIG_INVALID', 500);
+    }
+  }
+
+  configuredProviders = configs.filter(config => config.enabled !== false).map(createRateProvider);
+  return configuredProviders;
+}
@@ -0,0 +1,207 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Database } from '../database/database.js';
+import { ApiError } from '../types/errors.js';
+import {
+  BankDetails,
+  CreateRecipientRequest,
+  Recipient,
+  RecipientResponse,
+  UpdateRecipientRequest
+} from '../types/payment.js';
+import { COUNTRY_BANK_REQUIREMENTS, maskBankDetails, normalizeBankDetails, validateBankDetails } from './bankDetails.js';
+import { decryptOptionalPii, decryptPii, encryptOptionalPii, encryptPii } from './piiEncryption.js';
+
+export class RecipientError extends ApiError {}
+
+/**
+ * Recipient columns stored encrypted (see piiEncryption.ts)
+ */
+export const RECIPIENT_PII_COLUMNS = ['name', 'email', 'address', 'account_number', 'iban', 'pix_key', 'clabe'] as const;
+
+export class RecipientService {
+  private db: Database;
+
+  constructor() {
+    this.db = Database.getInstance();
+  }
+
+  /**
+   * Save a recipient for the owner. The payout currency follows from the
+   * country, and the bank details must satisfy that country's requirements.
+   */
+  async createRecipient(ownerId: string, request: CreateRecipientRequest): Promise<RecipientResponse> {
+    const country = request.country.toUpperCase();
+    const details = this.validateDetails(country, request);
+    const recipientId = uuidv4();
+
+    await this.db.run(
+      `INSERT INTO recipients (
+        id, owner_id, name, email, country, currency, account_number, routing_number,
+        iban, swift_code, ifsc_code, pix_key, clabe, bank_name, address
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        recipientId,
+        ownerId,
+        encryptPii(request.name.trim()),
+        encryptOptionalPii(request.email),
+        country,
+        COUNTRY_BANK_REQUIREMENTS[country].currency,
+        ...this.detailValues(details)
+      ]
+    );
+
+    return this.recipientToResponse((await this.getRecipientById(recipientId))!);
+  }
+
+  /**
+   * Get a recipient by ID, including deleted ones so past payments can still
+   * resolve theirs
+   */
+  async getRecipientById(recipientId: string): Promise<Recipient | undefined> {
+    const recipient = await this.db.get<Recipient>('SELECT * FROM recipients WHERE id = ?', [recipientId]);
+    return recipient && this.decryptRecipient(recipient);
+  }
+
+  /**
+   * Recipients of a user or API key, or every recipient when ownerId is omitted (admins)
+   */
+  async listRecipients(ownerId?: string): Promise<Recipient[]> {
+    const recipients = ownerId
+      ? await this.db.all<Recipient>(
+        'SELECT * FROM recipients WHERE owner_id = ? AND deleted_at IS NULL ORDER BY created_at DESC',
+        [ownerId]
+      )
+      : await this.db.all<Recipient>(
+        'SELECT * FROM recipients WHERE deleted_at IS NULL ORDER BY created_at DESC'
+      );
+
+    return recipients.map(recipient => this.decryptRecipient(recipient));
+  }
+
+  /**
+   * Change a recipient's name, email or bank details. The country (and so
+   * the currency) is fixed; the merged details are validated again.
+   */
+  async updateRecipient(recipientId: string, request: UpdateRecipientRequest): Promise<RecipientResponse> {
+    const recipient = await this.getRecipientById(recipientId);
+    if (!recipient || recipient.deleted_at) {
+      throw new RecipientError('Recipient not found', 'RECIPIENT_NOT_FOUND', 404);
+    }
+
+    const details = this.validateDetails(recipient.country, { ...this.pickDetails(recipient), ...request });
+
+    await this.db.run(
+      `UPDATE recipients
+       SET name = ?, email = ?, account_number = ?, routing_number = ?, iban = ?, swift_code = ?,
+           ifsc_code = ?, pix_key = ?, clabe = ?, bank_name = ?, address = ?, updated_at = CURRENT_TIMESTAMP
+       WHERE id = ?`,
+      [
+        encryptPii(request.name?.trim() ?? recipient.name),
+        encryptOptionalPii(request.email ?? recipient.email),
+        ...this.detailValues(details),
+        recipientId
+      ]
+    );
+
+    return this.recipientToResponse((await this.getRecipientById(recipientId))!);
+  }
+
+  /**
+   * Delete a recipient. The row is kept so payments made to it still show
+   * where they went, but it can no longer be used for new payments.
+   */
+  async deleteRecipient(recipientId: string): Promise<boolean> {
+    const result = await this.db.run(
+      'UPDATE recipients SET deleted_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP WHERE id = ? AND deleted_at IS NULL',
+      [recipientId]
+    );
+    return result.changes > 0;
+  }
+
+  /**
+   * Bank details of a recipient, as the offramp expects them
+   */
+  getPayoutDetails(recipient: Recipient): BankDetails & { name: string; country: string } {
+    return {
+      name: recipient.name,
+      country: recipient.country,
+      ...this.pickDetails(recipient)
+    };
+  }
+
+  /**
+   * Convert recipient to response format, with account identifiers masked
+   */
+  recipientToResponse(recipient: Recipient): RecipientResponse {
+    return {
+      id: recipient.id,
+      name: recipient.name,
+      email: recipient.email || undefined,
+      country: recipient.country,
+      currency: recipient.currency,
+      ...maskBankDetails(recipient),
+      address: recipient.address || undefined,
+      created_at: recipient.created_at,
+      updated_at: recipient.updated_at
+    };
+  }
+
+  /**
+   * Normalize the bank details and reject them unless they are complete and
+   * well-formed for the country
+   */
+  private validateDetails(country: string, details: BankDetails): BankDetails {
+    const normalized = normalizeBankDetails(details);
+    const issues = validateBankDetails(country, normalized);
+
+    if (issues.length > 0) {
+      throw new RecipientError('Invalid bank details', 'INVALID_BANK_DETAILS', 400, {
+        issues,
+        supported_countries: issues.some(issue => issue.field === 'country')
+          ? Object.keys(COUNTRY_BANK_REQUIREMENTS)
+          : undefined
+      });
+    }
+
+    return normalized;
+  }
+
+  private pickDetails(details: BankDetails): BankDetails {
+    return {
+      account_number: details.account_number || undefined,
+      routing_number: details.routing_number || undefined,
+      iban: details.iban || undefined,
+      swift_code: details.swift_code || undefined,
+      ifsc_code: details.ifsc_code || undefined,
+      pix_key: details.pix_key || undefined,
+      clabe: details.clabe || undefined,
+      bank_name: details.bank_name || undefined,
+      address: details.address || undefined
+    };
+  }
+
+  // Column order of account_number through address in the recipients table
+  private detailValues(details: BankDetails): (string | null)[] {
+    return [
+      encryptOptionalPii(details.account_number),
+      details.routing_number || null,
+      encryptOptionalPii(details.iban),
+      details.swift_code || null,
+      details.ifsc_code || null,
+      encryptOptionalPii(details.pix_key),
+      encryptOptionalPii(details.clabe),
+      details.bank_name || null,
+      encryptOptionalPii(details.address)
+    ];
+  }
+
+  private decryptRecipient(recipient: Recipient): Recipient {
+    const decrypted: Recipient = { ...recipient, name: decryptPii(recipient.name) };
+    for (const column of RECIPIENT_PII_COLUMNS) {
+      if (column !== 'name') {
+        decrypted[column] = decryptOptionalPii(recipient[column]);
+      }
+    }
+    return decrypted;
+  }
+}
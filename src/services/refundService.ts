@@ -0,0 +1,409 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Database } from '../database/database.js';
+import { OnrampService } from './onrampService.js';
+import { WebhookService } from './webhookService.js';
+import { Money } from '../types/money.js';
+import { ApiError } from '../types/errors.js';
+import {
+  Payment,
+  PaymentStatus,
+  Refund,
+  RefundStatus,
+  RefundResponse,
+  CreateRefundRequest,
+  Transaction,
+  TransactionType,
+  TransactionStatus,
+  WebhookEventType
+} from '../types/payment.js';
+
+export class RefundError extends ApiError {}
+
+/**
+ * Payments whose collected funds can be returned to the payer
+ */
+const REFUNDABLE_PAYMENT_STATUSES: PaymentStatus[] = [PaymentStatus.FAILED, PaymentStatus.CANCELLED];
+
+const REFUND_SETTLEMENT_TIMEOUT_MS = 30 * 60 * 1000;
+
+// Timers for refund transactions that have not settled yet, by refund id
+const settlementTimeouts = new Map<string, NodeJS.Timeout>();
+
+export class RefundService {
+  private db: Database;
+  private onrampService: OnrampService;
+  private webhookService: WebhookService;
+
+  constructor() {
+    this.db = Database.getInstance();
+    this.onrampService = new OnrampService();
+    this.webhookService = new WebhookService();
+  }
+
+  /**
+   * Refund a failed or cancelled payment, in full or in part, through the
+   * onramp provider that collected the funds. Refunds are capped at what was
+   * collected minus what is already refunded or being refunded.
+   */
+  async createRefund(paymentId: string, request: CreateRefundRequest): Promise<RefundResponse> {
+    if (request.idempotency_key) {
+      const existing = await this.getRefundByIdempotencyKey(request.idempotency_key);
+      if (existing) {
+        if (existing.payment_id !== paymentId) {
+          throw new RefundError(
+            'Idempotency-Key was already used for a refund of another payment',
+            'IDEMPOTENCY_KEY_REUSED',
+            409
+          );
+        }
+        return this.refundToResponse(existing);
+      }
+    }
+
+    const payment = await this.db.get<Payment>('SELECT * FROM payments WHERE id = ?', [paymentId]);
+    if (!payment) {
+      throw new RefundError(`Payment ${paymentId} not found`, 'PAYMENT_NOT_FOUND', 404);
+    }
+
+    if (!REFUNDABLE_PAYMENT_STATUSES.includes(payment.status)) {
+      throw new RefundError(
+        `Payment ${paymentId} is ${payment.status}; only failed or cancelled payments can be refunded`,
+        'PAYMENT_NOT_REFUNDABLE',
+        409,
+        { status: payment.status }
+      );
+    }
+
+    const collection = await this.getCollectionTransaction(paymentId);
+    if (!collection) {
+      throw new RefundError(
+        `No funds were collected for payment ${paymentId}`,
+        'PAYMENT_NOT_REFUNDABLE',
+        409,
+        { status: payment.status }
+      );
+    }
+
+    const refundId = uuidv4();
+
+    // Check the cap and reserve the amount atomically so concurrent refunds cannot exceed it
+    const refund = await this.db.transaction(async () => {
+      const refundable = await this.getRefundableAmount(paymentId, collection.currency);
+
+      const amount = request.amount === undefined
+        ? refundable
+        : Money.fromMajor(request.amount, collection.currency);
+
+      if (!refundable.isPositive()) {
+        throw new RefundError(
+          `Payment ${paymentId} has already been fully refunded`,
+          'PAYMENT_FULLY_REFUNDED',
+          409
+        );
+      }
+
+      if (!amount.isPositive() || amount.greaterThan(refundable)) {
+        throw new RefundError(
+          `Refund amount must be between 0 and ${refundable.toString()}`,
+          'REFUND_AMOUNT_EXCEEDS_REFUNDABLE',
+          400,
+          { requested: amount.toMajorString(), refundable: refundable.toMajorString(), currency: refundable.currency }
+        );
+      }
+
+      await this.db.run(
+        `INSERT INTO refunds
+         (id, payment_id, amount, currency, status, reason, provider, idempotency_key)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          refundId,
+          paymentId,
+          amount.toMinorNumber(),
+          amount.currency,
+          RefundStatus.PENDING,
+          request.reason || null,
+          collection.provider,
+          request.idempotency_key || null
+        ]
+      );
+
+      return (await this.getRefundById(refundId))!;
+    });
+
+    await this.webhookService.scheduleWebhook(
+      paymentId,
+      WebhookEventType.REFUND_CREATED,
+      this.refundToResponse(refund)
+    );
+
+    await this.initiateRefundTransaction(refund, collection);
+
+    return this.refundToResponse((await this.getRefundById(refundId))!);
+  }
+
+  /**
+   * Get refund by ID
+   */
+  async getRefundById(refundId: string): Promise<Refund | undefined> {
+    return await this.db.get<Refund>(
+      'SELECT * FROM refunds WHERE id = ?',
+      [refundId]
+    );
+  }
+
+  /**
+   * Get refund by idempotency key
+   */
+  async getRefundByIdempotencyKey(idempotencyKey: string): Promise<Refund | undefined> {
+    return await this.db.get<Refund>(
+      'SELECT * FROM refunds WHERE idempotency_key = ?',
+      [idempotencyKey]
+    );
+  }
+
+  /**
+   * Get all refunds for a payment, oldest first
+   */
+  async getPaymentRefunds(paymentId: string): Promise<Refund[]> {
+    return await this.db.all<Refund>(
+      'SELECT * FROM refunds WHERE payment_id = ? ORDER BY created_at ASC, rowid ASC',
+      [paymentId]
+    );
+  }
+
+  /**
+   * Collected amount not yet refunded or reserved by a refund in progress
+   */
+  async getRefundableAmount(paymentId: string, currency: string): Promise<Money> {
+    const collected = await this.db.get<{ total: number }>(
+      `SELECT COALESCE(SUM(amount), 0) AS total FROM transactions
+       WHERE payment_id = ? AND type = ? AND status = ? AND currency = ?`,
+      [paymentId, TransactionType.ONRAMP, TransactionStatus.COMPLETED, currency]
+    );
+
+    const refunded = await this.db.get<{ total: number }>(
+      `SELECT COALESCE(SUM(amount), 0) AS total FROM refunds
+       WHERE payment_id = ? AND status != ? AND currency = ?`,
+      [paymentId, RefundStatus.FAILED, currency]
+    );
+
+    return Money.fromMinor(collected!.total, currency).subtract(Money.fromMinor(refunded!.total, currency));
+  }
+
+  /**
+   * Resume every refund left pending or processing by a previous process.
+   * Called once on startup; returns the number of refunds resumed.
+   */
+  async resumeInFlightRefunds(): Promise<number> {
+    const refunds = await this.db.all<Refund>(
+      'SELECT * FROM refunds WHERE status IN (?, ?) ORDER BY created_at ASC',
+      [RefundStatus.PENDING, RefundStatus.PROCESSING]
+    );
+
+    for (const refund of refunds) {
+      try {
+        if (refund.transaction_id) {
+          // The provider may have settled while nobody was listening for its callback
+          this.scheduleSettlementTimeout(refund.id, refund.transaction_id);
+          await this.onrampService.resumeTransaction(refund.transaction_id);
+          await this.handleTransactionUpdate(refund.transaction_id);
+          continue;
+        }
+
+        const collection = await this.getCollectionTransaction(refund.payment_id);
+        if (!collection) {
+          await this.failRefund(refund.id, 'collection_transaction_missing');
+          continue;
+        }
+        await this.initiateRefundTransaction(refund, collection);
+      } catch (error) {
+        console.error(`Failed to resume refund ${refund.id}:`, error);
+      }
+    }
+
+    if (refunds.length > 0) {
+      console.log(`Resumed ${refunds.length} in-flight refund(s)`);
+    }
+
+    return refunds.length;
+  }
+
+  /**
+   * Convert refund to response format
+   */
+  refundToResponse(refund: Refund): RefundResponse {
+    return {
+      id: refund.id,
+      payment_id: refund.payment_id,
+      amount: Money.fromMinor(refund.amount, refund.currency).toMajorString(),
+      currency: refund.currency,
+      status: refund.status,
+      reason: refund.reason || undefined,
+      transaction_id: refund.transaction_id || undefined,
+      provider: refund.provider || undefined,
+      failure_reason: refund.failure_reason || undefined,
+      created_at: refund.created_at,
+      updated_at: refund.updated_at
+    };
+  }
+
+  /**
+   * Send the refund to the collecting provider and wait for its callback
+   */
+  private async initiateRefundTransaction(refund: Refund, collection: Transaction): Promise<void> {
+    let transactionId: string;
+
+    try {
+      const refundTransaction = await this.onrampService.processRefund({
+        refund_id: refund.id,
+        payment_id: refund.payment_id,
+        user_id: collection.user_id,
+        amount: Money.fromMinor(refund.amount, refund.currency),
+        provider: collection.provider!,
+        original_transaction_id: collection.id
+      });
+      transactionId = refundTransaction.transaction_id;
+    } catch (error) {
+      console.error(`Failed to initiate refund ${refund.id}:`, error);
+      await this.failRefund(refund.id, 'refund_initiation_failed');
+      return;
+    }
+
+    const updated = await this.updateRefundStatus(refund.id, RefundStatus.PENDING, RefundStatus.PROCESSING, {
+      transaction_id: transactionId
+    });
+
+    if (updated) {
+      this.scheduleSettlementTimeout(refund.id, transactionId);
+      // In case the callback arrived before the refund recorded its transaction
+      await this.handleTransactionUpdate(transactionId);
+    }
+  }
+
+  /**
+   * Complete or fail the refund a provider transaction belongs to once the
+   * transaction has settled. Called for every refund transaction callback.
+   */
+  async handleTransactionUpdate(transactionId: string): Promise<void> {
+    const transaction = await this.db.get<Transaction>(
+      'SELECT * FROM transactions WHERE id = ?',
+      [transactionId]
+    );
+    if (!transaction || transaction.status === TransactionStatus.PROCESSING) {
+      return;
+    }
+
+    const refund = await this.db.get<Refund>(
+      'SELECT * FROM refunds WHERE transaction_id = ? AND status = ?',
+      [transactionId, RefundStatus.PROCESSING]
+    );
+    if (!refund) {
+      return;
+    }
+    this.clearSettlementTimeout(refund.id);
+
+    if (transaction.status === TransactionStatus.COMPLETED) {
+      await this.updateRefundStatus(refund.id, RefundStatus.PROCESSING, RefundStatus.COMPLETED);
+    } else if (transaction.status === TransactionStatus.FAILED) {
+      await this.failRefund(refund.id, 'provider_refund_failed');
+    }
+  }
+
+  /**
+   * Give up after 30 minutes without a callback: cancel the provider
+   * transaction and fail the refund
+   */
+  private scheduleSettlementTimeout(refundId: string, transactionId: string): void {
+    this.clearSettlementTimeout(refundId);
+
+    settlementTimeouts.set(refundId, setTimeout(async () => {
+      settlementTimeouts.delete(refundId);
+      try {
+        // A transaction the provider has already settled is left to its callback
+        if (await this.onrampService.cancelTransaction(transactionId)) {
+          await this.failRefund(refundId, 'refund_timeout');
+        }
+      } catch (error) {
+        console.error(`Failed to time out refund ${refundId}:`, error);
+      }
+    }, REFUND_SETTLEMENT_TIMEOUT_MS));
+  }
+
+  private clearSettlementTimeout(refundId: string): void {
+    clearTimeout(settlementTimeouts.get(refundId));
+    settlementTimeouts.delete(refundId);
+  }
+
+  /**
+   * Fail a refund that has not settled, releasing its amount for another refund
+   */
+  private async failRefund(refundId: string, reason: string): Promise<void> {
+    try {
+      const refund = await this.getRefundById(refundId);
+      if (!refund || (refund.status !== RefundStatus.PENDING && refund.status !== RefundStatus.PROCESSING)) {
+        return;
+      }
+      await this.updateRefundStatus(refundId, refund.status, RefundStatus.FAILED, { failure_reason: reason });
+    } catch (error) {
+      console.error(`Failed to mark refund ${refundId} as failed:`, error);
+    }
+  }
+
+  /**
+   * Move a refund from one status to the next and notify webhooks.
+   * Returns false if the refund was no longer in the expected status.
+   */
+  private async updateRefundStatus(
+    refundId: string,
+    fromStatus: RefundStatus,
+    toStatus: RefundStatus,
+    fields: { transaction_id?: string; failure_reason?: string } = {}
+  ): Promise<boolean> {
+    const result = await this.db.run(
+      `UPDATE refunds
+       SET status = ?, transaction_id = COALESCE(?, transaction_id), failure_reason = COALESCE(?, failure_reason),
+           updated_at = CURRENT_TIMESTAMP
+       WHERE id = ? AND status = ?`,
+      [toStatus, fields.transaction_id || null, fields.failure_reason || null, refundId, fromStatus]
+    );
+
+    if (result.changes === 0) {
+      return false;
+    }
+
+    const refund = (await this.getRefundById(refundId))!;
+    await this.webhookService.scheduleWebhook(
+      refund.payment_id,
+      this.getWebhookEventForStatus(toStatus),
+      this.refundToResponse(refund)
+    );
+
+    return true;
+  }
+
+  /**
+   * The settled onramp transaction that collected the payment's funds
+   */
+  private async getCollectionTransaction(paymentId: string): Promise<Transaction | undefined> {
+    return await this.db.get<Transaction>(
+      `SELECT * FROM transactions
+       WHERE payment_id = ? AND type = ? AND status = ?
+       ORDER BY created_at DESC
+       LIMIT 1`,
+      [paymentId, TransactionType.ONRAMP, TransactionStatus.COMPLETED]
+    );
+  }
+
+  private getWebhookEventForStatus(status: RefundStatus): WebhookEventType {
+    switch (status) {
+      case RefundStatus.PROCESSING:
+        return WebhookEventType.REFUND_PROCESSING;
+      case RefundStatus.COMPLETED:
+        return WebhookEventType.REFUND_COMPLETED;
+      case RefundStatus.FAILED:
+        return WebhookEventType.REFUND_FAILED;
+      default:
+        return WebhookEventType.REFUND_CREATED;
+    }
+  }
+}
@@ -0,0 +1,215 @@
+import { v4 as uuidv4 } from 'uuid';
+import crypto from 'crypto';
+import { Database } from '../database/database.js';
+import { ApiError } from '../types/errors.js';
+import {
+  WebhookEndpoint,
+  WebhookEndpointResponse,
+  CreateWebhookEndpointRequest,
+  UpdateWebhookEndpointRequest,
+  WebhookEventType
+} from '../types/payment.js';
+
+export class WebhookEndpointError extends ApiError {}
+
+/**
+ * Subscribes to every event type, including ones added later
+ */
+export const ALL_WEBHOOK_EVENTS = '*';
+
+export class WebhookEndpointService {
+  private db: Database;
+  private defaultGracePeriodSeconds: number = parseInt(process.env.WEBHOOK_SECRET_GRACE_SECONDS || '86400', 10);
+
+  constructor() {
+    this.db = Database.getInstance();
+  }
+
+  /**
+   * Register an endpoint for the owner's payment events. The signing secret
+   * is generated here and returned only in this response.
+   */
+  async createEndpoint(ownerId: string, request: CreateWebhookEndpointRequest): Promise<WebhookEndpointResponse> {
+    const endpointId = uuidv4();
+    const secret = this.generateSecret();
+
+    await this.db.run(
+      `INSERT INTO webhook_endpoints (id, owner_id, url, description, event_types, enabled, secret)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [
+        endpointId,
+        ownerId,
+        request.url,
+        request.description || null,
+        JSON.stringify(this.normalizeEventTypes(request.event_types)),
+        request.enabled === false ? 0 : 1,
+        secret
+      ]
+    );
+
+    const endpoint = await this.getEndpointById(endpointId);
+    return { ...this.endpointToResponse(endpoint!), secret };
+  }
+
+  /**
+   * Get endpoint by ID
+   */
+  async getEndpointById(endpointId: string): Promise<WebhookEndpoint | undefined> {
+    return await this.db.get<WebhookEndpoint>(
+      'SELECT * FROM webhook_endpoints WHERE id = ?',
+      [endpointId]
+    );
+  }
+
+  /**
+   * Endpoints owned by a user or API key, or every endpoint when ownerId is omitted (admins)
+   */
+  async listEndpoints(ownerId?: string): Promise<WebhookEndpoint[]> {
+    if (!ownerId) {
+      return await this.db.all<WebhookEndpoint>('SELECT * FROM webhook_endpoints ORDER BY created_at DESC');
+    }
+    return await this.db.all<WebhookEndpoint>(
+      'SELECT * FROM webhook_endpoints WHERE owner_id = ? ORDER BY created_at DESC',
+      [ownerId]
+    );
+  }
+
+  /**
+   * Change an endpoint's URL, description, subscribed events or enabled flag
+   */
+  async updateEndpoint(endpointId: string, request: UpdateWebhookEndpointRequest): Promise<WebhookEndpointResponse> {
+    const endpoint = await this.getEndpointById(endpointId);
+    if (!endpoint) {
+      throw new WebhookEndpointError('Webhook endpoint not found', 'WEBHOOK_ENDPOINT_NOT_FOUND', 404);
+    }
+
+    await this.db.run(
+      `UPDATE webhook_endpoints
+       SET url = ?, description = ?, event_types = ?, enabled = ?, updated_at = CURRENT_TIMESTAMP
+       WHERE id = ?`,
+      [
+        request.url ?? endpoint.url,
+        request.description ?? endpoint.description ?? null,
+        request.event_types
+          ? JSON.stringify(this.normalizeEventTypes(request.event_types))
+          : endpoint.event_types,
+        (request.enabled ?? !!endpoint.enabled) ? 1 : 0,
+        endpointId
+      ]
+    );
+
+    return this.endpointToResponse((await this.getEndpointById(endpointId))!);
+  }
+
+  /**
+   * Replace an endpoint's signing secret. The old secret keeps signing
+   * deliveries alongside the new one for the grace period, so receivers can
+   * switch over without rejecting anything.
+   */
+  async rotateSecret(endpointId: string, gracePeriodSeconds: number = this.defaultGracePeriodSeconds): Promise<WebhookEndpointResponse> {
+    const endpoint = await this.getEndpointById(endpointId);
+    if (!endpoint) {
+      throw new WebhookEndpointError('Webhook endpoint not found', 'WEBHOOK_ENDPOINT_NOT_FOUND', 404);
+    }
+
+    const secret = this.generateSecret();
+    const previousSecretExpiresAt = new Date(Date.now() + gracePeriodSeconds * 1000).toISOString();
+
+    await this.db.run(
+      `UPDATE webhook_endpoints
+       SET secret = ?, previous_secret = ?, previous_secret_expires_at = ?, updated_at = CURRENT_TIMESTAMP
+       WHERE id = ?`,
+      [
+        secret,
+        gracePeriodSeconds > 0 ? endpoint.secret : null,
+        gracePeriodSeconds > 0 ? previousSecretExpiresAt : null,
+        endpointId
+      ]
+    );
+
+    return { ...this.endpointToResponse((await this.getEndpointById(endpointId))!), secret };
+  }
+
+  /**
+   * Secrets deliveries to this endpoint are signed with, newest first
+   */
+  getSigningSecrets(endpoint: WebhookEndpoint): string[] {
+    return this.isInGracePeriod(endpoint) ? [endpoint.secret, endpoint.previous_secret!] : [endpoint.secret];
+  }
+
+  /**
+   * Delete an endpoint. Past deliveries keep the URL they were sent to.
+   */
+  async deleteEndpoint(endpointId: string): Promise<boolean> {
+    const result = await this.db.run('DELETE FROM webhook_endpoints WHERE id = ?', [endpointId]);
+    return result.changes > 0;
+  }
+
+  /**
+   * Enabled endpoints of an owner that subscribe to the event type
+   */
+  async getMatchingEndpoints(ownerId: string, eventType: WebhookEventType): Promise<WebhookEndpoint[]> {
+    const endpoints = await this.db.all<WebhookEndpoint>(
+      'SELECT * FROM webhook_endpoints WHERE owner_id = ? AND enabled = 1 ORDER BY created_at',
+      [ownerId]
+    );
+
+    return endpoints.filter(endpoint => {
+      const eventTypes = this.parseEventTypes(endpoint);
+      return eventTypes.includes(ALL_WEBHOOK_EVENTS) || eventTypes.includes(eventType);
+    });
+  }
+
+  /**
+   * Convert endpoint to response format; the secret is never included
+   */
+  endpointToResponse(endpoint: WebhookEndpoint): WebhookEndpointResponse {
+    return {
+      id: endpoint.id,
+      url: endpoint.url,
+      description: endpoint.description || undefined,
+      event_types: this.parseEventTypes(endpoint),
+      enabled: !!endpoint.enabled,
+      previous_secret_expires_at: this.isInGracePeriod(endpoint) ? endpoint.previous_secret_expires_at : undefined,
+      created_at: endpoint.created_at,
+      updated_at: endpoint.updated_at
+    };
+  }
+
+  /**
+   * Reject unknown event types and drop duplicates
+   */
+  private normalizeEventTypes(eventTypes: string[]): string[] {
+    const known = Object.values(WebhookEventType) as string[];
+    const unknown = eventTypes.filter(eventType => eventType !== ALL_WEBHOOK_EVENTS && !known.includes(eventType));
+
+    if (unknown.length > 0) {
+      throw new WebhookEndpointError(
+        `Unknown event types: ${unknown.join(', ')}`,
+        'INVALID_EVENT_TYPES',
+        400,
+        { unknown, supported: [ALL_WEBHOOK_EVENTS, ...known] }
+      );
+    }
+
+    return [...new Set(eventTypes)];
+  }
+
+  private isInGracePeriod(endpoint: WebhookEndpoint): boolean {
+    return !!endpoint.previous_secret &&
+      !!endpoint.previous_secret_expires_at &&
+      endpoint.previous_secret_expires_at > new Date().toISOString();
+  }
+
+  private parseEventTypes(endpoint: WebhookEndpoint): string[] {
+    try {
+      return JSON.parse(endpoint.event_types);
+    } catch {
+      return [];
+    }
+  }
+
+  private generateSecret(): string {
+    return `whsec_${crypto.randomBytes(24).toString('hex')}`;
+  }
+}
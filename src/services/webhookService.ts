@@ -1,95 +1,291 @@
 import { v4 as uuidv4 } from 'uuid';
-import axios from 'axios';
-import crypto from 'crypto';
+import axios, { RawAxiosResponseHeaders, AxiosResponseHeaders } from 'axios';
 import { Database } from '../database/database.js';
-import { Webhook, WebhookEventType, WebhookStatus } from '../types/payment.js';
-
+import { ApiError } from '../types/errors.js';
+import { WebhookEndpointService } from './webhookEndpointService.js';
+import { buildWebhookSignatureHeader, WEBHOOK_SIGNATURE_HEADER } from './webhookSignature.js';
+import {
+  PaymentOwnerScope,
+  Webhook,
+  WebhookAttempt,
+  WebhookEventType,
+  WebhookListQuery,
+  WebhookListResponse,
+  WebhookReplayRequest,
+  WebhookStatus
+} from '../types/payment.js';
+
+export class WebhookError extends ApiError {}
+
+interface WebhookTarget {
+  endpoint_id?: string; // Unset for targets signed with WEBHOOK_SECRET
+  url: string;
+}
+
+interface WebhookResponse {
+  status: number;
+  headers: RawAxiosResponseHeaders | AxiosResponseHeaders;
+  data: unknown;
+}
+
+// Why a request failed, with the receiver's status and body when it answered
+interface RequestFailure {
+  message: string;
+  status?: number;
+  data?: unknown;
+}
+
+function describeRequestFailure(error: unknown): RequestFailure {
+  if (axios.isAxiosError(error)) {
+    return { message: error.message, status: error.response?.status, data: error.response?.data };
+  }
+  return { message: error instanceof Error ? error.message : String(error) };
+}
+
+export interface RedriveFilter {
+  webhook_ids?: string[];
+  endpoint_id?: string;
+  event_type?: string;
+  limit?: number;
+}
+
+const MAX_ATTEMPT_BODY_LENGTH = 1024;
+const MAX_REPLAY_DELIVERIES = 1000;
+
+// A claimed delivery is not picked up again until this passes, so a crash mid-request only delays it
+const DELIVERY_LEASE_MS = 2 * 60 * 1000;
+
+let deliveryWorker: NodeJS.Timeout | undefined;
+
+/**
+ * Deliveries are queued in the webhooks table. Each is attempted as soon as
+ * it is scheduled, and failed attempts are retried by a worker loop with
+ * exponential backoff, so pending retries survive a restart. A delivery that
+ * runs out of attempts moves to dead_letter until an admin redrives it.
+ */
 export class WebhookService {
   private db: Database;
-  private maxRetries: number = 3;
-  private retryDelays: number[] = [5000, 15000, 60000]; // 5s, 15s, 1min
+  private webhookEndpointService: WebhookEndpointService;
+  private maxAttempts: number = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '12', 10);
+  private retryBaseSeconds: number = parseInt(process.env.WEBHOOK_RETRY_BASE_SECONDS || '30', 10);
+  private retryMaxSeconds: number = parseInt(process.env.WEBHOOK_RETRY_MAX_SECONDS || '86400', 10);
+  private workerIntervalSeconds: number = parseInt(process.env.WEBHOOK_WORKER_INTERVAL_SECONDS || '5', 10);
+  private workerBatchSize: number = 20;
+  private defaultSecret: string = process.env.WEBHOOK_SECRET || 'demo-secret-key';
+  private workerRunning: boolean = false;
 
   constructor() {
     this.db = Database.getInstance();
+    this.webhookEndpointService = new WebhookEndpointService();
   }
 
   /**
-   * Schedule a webhook to be sent
+   * Fan an event out to every enabled endpoint of the payment's owner that
+   * subscribes to it, plus the webhook_url given when the payment was created.
+   * Each target gets its own delivery record and is retried on its own.
    */
   async scheduleWebhook(
     paymentId: string,
     eventType: WebhookEventType,
-    payload: Record<string, any>
-  ): Promise<string> {
-    const webhookId = uuidv4();
-    
-    const webhookPayload = {
-      id: webhookId,
-      payment_id: paymentId,
-      event_type: eventType,
-      timestamp: new Date().toISOString(),
-      data: payload
-    };
+    payload: object
+  ): Promise<string[]> {
+    const targets = await this.getTargets(paymentId, eventType);
+    const eventId = uuidv4();
+    const timestamp = new Date().toISOString();
+    const webhookIds: string[] = [];
+
+    for (const target of targets) {
+      const webhookId = uuidv4();
+
+      const webhookPayload = {
+        id: webhookId,
+        event_id: eventId, // Shared by every delivery of this event
+        payment_id: paymentId,
+        event_type: eventType,
+        timestamp,
+        data: payload
+      };
 
-    await this.db.run(
-      `INSERT INTO webhooks 
-       (id, payment_id, event_type, status, payload, retry_count)
-       VALUES (?, ?, ?, ?, ?, ?)`,
-      [
-        webhookId,
-        paymentId,
-        eventType,
-        WebhookStatus.PENDING,
-        JSON.stringify(webhookPayload),
-        0
-      ]
+      await this.db.run(
+        `INSERT INTO webhooks 
+         (id, payment_id, endpoint_id, url, event_type, status, payload, retry_count, next_attempt_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          webhookId,
+          paymentId,
+          target.endpoint_id || null,
+          target.url,
+          eventType,
+          WebhookStatus.PENDING,
+          JSON.stringify(webhookPayload),
+          0,
+          timestamp
+        ]
+      );
+
+      // First attempt right away; the worker takes over if it fails
+      this.deliverWebhook(webhookId);
+      webhookIds.push(webhookId);
+    }
+
+    return webhookIds;
+  }
+
+  /**
+   * Where an event for a payment goes. DEFAULT_WEBHOOK_URL only receives
+   * events that have no other target.
+   */
+  private async getTargets(paymentId: string, eventType: WebhookEventType): Promise<WebhookTarget[]> {
+    const targets: WebhookTarget[] = [];
+    const payment = await this.db.get<{ user_id: string; webhook_url?: string }>(
+      'SELECT user_id, webhook_url FROM payments WHERE id = ?',
+      [paymentId]
     );
 
-    // Get webhook URL from payload if provided, otherwise use default test URL
-    const webhookUrl = payload.webhook_url || process.env.DEFAULT_WEBHOOK_URL || 'https://webhook.site/test';
-    
-    // Send webhook asynchronously
-    this.sendWebhookAsync(webhookId, webhookUrl, webhookPayload);
+    if (payment) {
+      const endpoints = await this.webhookEndpointService.getMatchingEndpoints(payment.user_id, eventType);
+      endpoints.forEach(endpoint => targets.push({ endpoint_id: endpoint.id, url: endpoint.url }));
 
-    return webhookId;
+      if (payment.webhook_url) {
+        targets.push({ url: payment.webhook_url });
+      }
+    }
+
+    if (targets.length === 0 && process.env.DEFAULT_WEBHOOK_URL) {
+      targets.push({ url: process.env.DEFAULT_WEBHOOK_URL });
+    }
+
+    return targets;
   }
 
   /**
-   * Send webhook asynchronously with retry logic
+   * Poll for deliveries that are due. Only one worker runs per process.
    */
-  private async sendWebhookAsync(
-    webhookId: string,
-    url: string,
-    payload: Record<string, any>
-  ): Promise<void> {
+  startDeliveryWorker(): void {
+    if (deliveryWorker) {
+      return;
+    }
+
+    deliveryWorker = setInterval(() => this.processDueWebhooks(), this.workerIntervalSeconds * 1000);
+    deliveryWorker.unref();
+    this.processDueWebhooks();
+  }
+
+  stopDeliveryWorker(): void {
+    if (deliveryWorker) {
+      clearInterval(deliveryWorker);
+      deliveryWorker = undefined;
+    }
+  }
+
+  /**
+   * Attempt every pending delivery whose next attempt is due
+   */
+  async processDueWebhooks(): Promise<number> {
+    if (this.workerRunning) {
+      return 0;
+    }
+    this.workerRunning = true;
+
     try {
-      const response = await this.sendWebhookRequest(url, payload);
-      
-      await this.db.run(
-        `UPDATE webhooks 
-         SET status = ?, response = ?, sent_at = CURRENT_TIMESTAMP 
-         WHERE id = ?`,
-        [WebhookStatus.SENT, JSON.stringify(response), webhookId]
+      let processed = 0;
+      let due: { id: string }[];
+
+      do {
+        due = await this.db.all<{ id: string }>(
+          `SELECT id FROM webhooks
+           WHERE status = ? AND (next_attempt_at IS NULL OR next_attempt_at <= ?)
+           ORDER BY next_attempt_at
+           LIMIT ?`,
+          [WebhookStatus.PENDING, new Date().toISOString(), this.workerBatchSize]
+        );
+
+        for (const { id } of due) {
+          await this.deliverWebhook(id);
+          processed++;
+        }
+      } while (due.length === this.workerBatchSize);
+
+      return processed;
+    } catch (error) {
+      console.error('Webhook delivery worker failed:', error);
+      return 0;
+    } finally {
+      this.workerRunning = false;
+    }
+  }
+
+  /**
+   * Make one delivery attempt, if the webhook is due and no one else has
+   * claimed it, and record the outcome
+   */
+  private async deliverWebhook(webhookId: string): Promise<void> {
+    try {
+      const now = new Date();
+      const claimed = await this.db.run(
+        `UPDATE webhooks SET next_attempt_at = ?
+         WHERE id = ? AND status = ? AND (next_attempt_at IS NULL OR next_attempt_at <= ?)`,
+        [new Date(now.getTime() + DELIVERY_LEASE_MS).toISOString(), webhookId, WebhookStatus.PENDING, now.toISOString()]
       );
+      if (claimed.changes === 0) {
+        return;
+      }
+
+      const webhook = await this.db.get<Webhook>('SELECT * FROM webhooks WHERE id = ?', [webhookId]);
+
+      // Looked up on every attempt so retries pick up a rotated secret
+      const endpoint = webhook.endpoint_id
+        ? await this.webhookEndpointService.getEndpointById(webhook.endpoint_id)
+        : undefined;
+      if (webhook.endpoint_id && !endpoint) {
+        await this.db.run(
+          'UPDATE webhooks SET status = ?, response = ?, next_attempt_at = NULL WHERE id = ?',
+          [WebhookStatus.FAILED, JSON.stringify({ error: 'Webhook endpoint was deleted' }), webhookId]
+        );
+        return;
+      }
 
-      console.log(`Webhook ${webhookId} sent successfully to ${url}`);
+      const secrets = endpoint ? this.webhookEndpointService.getSigningSecrets(endpoint) : [this.defaultSecret];
 
+      const payload = JSON.parse(webhook.payload as unknown as string);
+      const startTime = Date.now();
+
+      try {
+        const response = await this.sendWebhookRequest(webhook.url, payload, secrets);
+        await this.recordAttempt(webhook, Date.now() - startTime, response.status, response.data);
+
+        await this.db.run(
+          `UPDATE webhooks 
+           SET status = ?, response = ?, next_attempt_at = NULL, sent_at = CURRENT_TIMESTAMP 
+           WHERE id = ?`,
+          [WebhookStatus.SENT, JSON.stringify(response), webhookId]
+        );
+
+        console.log(`Webhook ${webhookId} sent successfully to ${webhook.url}`);
+      } catch (error) {
+        const failure = describeRequestFailure(error);
+        console.error(`Webhook ${webhookId} failed:`, failure.message);
+        await this.recordAttempt(webhook, Date.now() - startTime, failure.status, failure.data, failure.message);
+        await this.handleWebhookFailure(webhook, failure);
+      }
     } catch (error) {
-      console.error(`Webhook ${webhookId} failed:`, error);
-      await this.handleWebhookFailure(webhookId, url, payload, error);
+      console.error(`Webhook ${webhookId} could not be processed:`, error);
     }
   }
 
   /**
    * Send webhook HTTP request
    */
-  private async sendWebhookRequest(url: string, payload: Record<string, any>): Promise<any> {
-    const response = await axios.post(url, payload, {
+  private async sendWebhookRequest(url: string, payload: Record<string, unknown>, secrets: string[]): Promise<WebhookResponse> {
+    // Sign and send the same serialized body, so receivers can verify the raw bytes
+    const body = JSON.stringify(payload);
+
+    const response = await axios.post(url, body, {
       headers: {
         'Content-Type': 'application/json',
         'User-Agent': 'CrossBorderPaymentAPI/1.0',
-        'X-Webhook-Signature': this.generateSignature(payload),
-        'X-Webhook-Event': payload.event_type
+        [WEBHOOK_SIGNATURE_HEADER]: buildWebhookSignatureHeader(body, secrets),
+        'X-Webhook-Event': payload.event_type as string
       },
       timeout: 10000, // 10 second timeout
       validateStatus: (status) => status >= 200 && status < 300
@@ -103,67 +299,73 @@ export class WebhookService {
   }
 
   /**
-   * Handle webhook failure with retry logic
+   * Schedule the next attempt, or dead-letter the delivery once it is out of attempts
    */
-  private async handleWebhookFailure(
-    webhookId: string,
-    url: string,
-    payload: Record<string, any>,
-    error: any
-  ): Promise<void> {
-    // Get current webhook record
-    const webhook = await this.db.get<Webhook>(
-      'SELECT * FROM webhooks WHERE id = ?',
-      [webhookId]
-    );
-
-    if (!webhook) {
-      console.error(`Webhook ${webhookId} not found for retry`);
-      return;
-    }
-
+  private async handleWebhookFailure(webhook: Webhook, failure: RequestFailure): Promise<void> {
     const retryCount = webhook.retry_count + 1;
+    const exhausted = retryCount >= this.maxAttempts;
 
-    // Update webhook with failure details
     await this.db.run(
       `UPDATE webhooks 
-       SET status = ?, response = ?, retry_count = ? 
+       SET status = ?, response = ?, retry_count = ?, next_attempt_at = ? 
        WHERE id = ?`,
       [
-        retryCount <= this.maxRetries ? WebhookStatus.PENDING : WebhookStatus.FAILED,
+        exhausted ? WebhookStatus.DEAD_LETTER : WebhookStatus.PENDING,
         JSON.stringify({
-          error: error.message,
-          status: error.response?.status,
-          data: error.response?.data
+          error: failure.message,
+          status: failure.status,
+          data: failure.data
         }),
         retryCount,
-        webhookId
+        exhausted ? null : new Date(Date.now() + this.getRetryDelayMs(retryCount)).toISOString(),
+        webhook.id
       ]
     );
 
-    // Schedule retry if within retry limit
-    if (retryCount <= this.maxRetries) {
-      const retryDelay = this.retryDelays[retryCount - 1] || 60000;
-      
-      setTimeout(() => {
-        console.log(`Retrying webhook ${webhookId} (attempt ${retryCount}/${this.maxRetries})`);
-        this.sendWebhookAsync(webhookId, url, payload);
-      }, retryDelay);
-    } else {
-      console.error(`Webhook ${webhookId} failed permanently after ${this.maxRetries} retries`);
+    if (exhausted) {
+      console.error(`Webhook ${webhook.id} moved to dead letter after ${retryCount} attempts`);
     }
   }
 
   /**
-   * Generate webhook signature for security
+   * Doubles from WEBHOOK_RETRY_BASE_SECONDS up to WEBHOOK_RETRY_MAX_SECONDS,
+   * with up to 20% jitter either way so failed deliveries don't retry in lockstep
    */
-  private generateSignature(payload: Record<string, any>): string {
-    // In a real implementation, this would use HMAC with a secret key
-    // For demo purposes, we'll use a simple hash
-    const secret = process.env.WEBHOOK_SECRET || 'demo-secret-key';
-    const hmac = crypto.createHmac('sha256', secret);
-    hmac.update(JSON.stringify(payload));
-    return `sha256=${hmac.digest('hex')}`;
+  private getRetryDelayMs(retryCount: number): number {
+    const delaySeconds = Math.min(this.retryBaseSeconds * 2 ** (retryCount - 1), this.retryMaxSeconds);
+    const jitter = 0.8 + Math.random() * 0.4;
+    return Math.round(Math.min(delaySeconds * jitter, this.retryMaxSeconds) * 1000);
+  }
+
+  private async recordAttempt(
+    webhook: Webhook,
+    latencyMs: number,
+    statusCode?: number,
+    responseBody?: unknown,
+    error?: string
+  ): Promise<void> {
+    const previous = await this.db.get<{ count: number }>(
+      'SELECT COUNT(*) as count FROM webhook_attempts WHERE webhook_id = ?',
+      [webhook.id]
+    );
+    // JSON.stringify leaves an undefined body undefined
+    const body = typeof responseBody === 'string' ? responseBody : JSON.stringify(responseBody);
+
+    await this.db.run(
+      `INSERT INTO webhook_attempts
+       (id, webhook_id, attempt_number, url, status_code, latency_ms, response_body, error)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        uuidv4(),
+        webhook.id,
+        (previous?.count || 0) + 1,
+        webhook.url,
+        statusCode ?? null,
+        latencyMs,
+        body ? body.slice(0, MAX_ATTEMPT_BODY_LENGTH) : null,
+        error || null
+      ]
+    );
   }
 
   /**
@@ -181,14 +383,267 @@ export class WebhookService {
         if (webhook.response) {
           webhook.response = JSON.parse(webhook.response as unknown as string);
         }
-      } catch (error) {
+      } catch {
         // Keep original if parsing fails
       }
+      webhook.attempts = await this.getWebhookAttempts(webhookId);
     }
 
     return webhook;
   }
 
+  /**
+   * Every attempt made for a delivery, oldest first
+   */
+  async getWebhookAttempts(webhookId: string): Promise<WebhookAttempt[]> {
+    return await this.db.all<WebhookAttempt>(
+      'SELECT * FROM webhook_attempts WHERE webhook_id = ? ORDER BY attempt_number',
+      [webhookId]
+    );
+  }
+
+  /**
+   * Dead-lettered deliveries, oldest first
+   */
+  async getDeadLetterWebhooks(limit: number = 50, offset: number = 0): Promise<Webhook[]> {
+    const webhooks = await this.db.all<Webhook>(
+      'SELECT * FROM webhooks WHERE status = ? ORDER BY created_at LIMIT ? OFFSET ?',
+      [WebhookStatus.DEAD_LETTER, limit, offset]
+    );
+
+    return webhooks.map(webhook => {
+      try {
+        webhook.payload = JSON.parse(webhook.payload as unknown as string);
+        if (webhook.response) {
+          webhook.response = JSON.parse(webhook.response as unknown as string);
+        }
+      } catch {
+        // Keep original if parsing fails
+      }
+      return webhook;
+    });
+  }
+
+  /**
+   * Put dead-lettered deliveries back in the queue with a fresh set of
+   * attempts. Returns the IDs that were requeued.
+   */
+  async redriveDeadLetters(filter: RedriveFilter = {}): Promise<string[]> {
+    const conditions = ['status = ?'];
+    const params: unknown[] = [WebhookStatus.DEAD_LETTER];
+
+    if (filter.webhook_ids?.length) {
+      conditions.push(`id IN (${filter.webhook_ids.map(() => '?').join(', ')})`);
+      params.push(...filter.webhook_ids);
+    }
+    if (filter.endpoint_id) {
+      conditions.push('endpoint_id = ?');
+      params.push(filter.endpoint_id);
+    }
+    if (filter.event_type) {
+      conditions.push('event_type = ?');
+      params.push(filter.event_type);
+    }
+
+    return this.db.transaction(async () => {
+      const webhooks = await this.db.all<{ id: string }>(
+        `SELECT id FROM webhooks WHERE ${conditions.join(' AND ')} ORDER BY created_at LIMIT ?`,
+        [...params, filter.limit || 1000]
+      );
+      const ids = webhooks.map(webhook => webhook.id);
+
+      await this.requeueWebhooks(ids);
+      return ids;
+    });
+  }
+
+  /**
+   * Queue deliveries for another round of attempts. Endpoint deliveries go
+   * to the endpoint's current URL, so a fixed URL takes effect.
+   */
+  private async requeueWebhooks(ids: string[]): Promise<void> {
+    if (ids.length === 0) {
+      return;
+    }
+
+    await this.db.run(
+      `UPDATE webhooks
+       SET status = ?, retry_count = 0, next_attempt_at = ?,
+           url = COALESCE((SELECT url FROM webhook_endpoints WHERE webhook_endpoints.id = webhooks.endpoint_id), url)
+       WHERE id IN (${ids.map(() => '?').join(', ')})`,
+      [WebhookStatus.PENDING, new Date().toISOString(), ...ids]
+    );
+  }
+
+  /**
+   * Deliveries visible to the caller, newest first
+   */
+  async listWebhooks(query: WebhookListQuery): Promise<WebhookListResponse> {
+    const limit = Math.min(Math.max(query.limit || 20, 1), 100);
+    const filter = this.buildWebhookFilter(query.scope, query);
+    if (!filter) {
+      return { webhooks: [], pagination: { limit, has_more: false } };
+    }
+
+    if (query.status && query.status.length > 0) {
+      filter.conditions.push(`w.status IN (${query.status.map(() => '?').join(', ')})`);
+      filter.params.push(...query.status);
+    }
+
+    if (query.cursor) {
+      const cursor = this.decodeCursor(query.cursor);
+      filter.conditions.push('(w.created_at < ? OR (w.created_at = ? AND w.id < ?))');
+      filter.params.push(cursor.created_at, cursor.created_at, cursor.id);
+    }
+
+    const where = filter.conditions.length > 0 ? `WHERE ${filter.conditions.join(' AND ')}` : '';
+    const webhooks = await this.db.all<Webhook>(
+      `SELECT w.* FROM webhooks w
+       JOIN payments p ON p.id = w.payment_id
+       ${where}
+       ORDER BY w.created_at DESC, w.id DESC
+       LIMIT ?`,
+      [...filter.params, limit + 1]
+    );
+
+    const hasMore = webhooks.length > limit;
+    const page = hasMore ? webhooks.slice(0, limit) : webhooks;
+    const last = page[page.length - 1];
+
+    return {
+      webhooks: page.map(webhook => {
+        try {
+          webhook.payload = JSON.parse(webhook.payload as unknown as string);
+          if (webhook.response) {
+            webhook.response = JSON.parse(webhook.response as unknown as string);
+          }
+        } catch {
+          // Keep original if parsing fails
+        }
+        return webhook;
+      }),
+      pagination: {
+        limit,
+        has_more: hasMore,
+        next_cursor: hasMore ? this.encodeCursor(last) : undefined
+      }
+    };
+  }
+
+  /**
+   * Send a payment's deliveries, or those created in a time window, again.
+   * Deliveries still queued and those to deleted or disabled endpoints are
+   * skipped. Returns the IDs that were requeued.
+   */
+  async replayWebhooks(scope: PaymentOwnerScope, request: WebhookReplayRequest): Promise<string[]> {
+    const filter = this.buildWebhookFilter(scope, request);
+    if (!filter) {
+      return [];
+    }
+
+    filter.conditions.push('w.status != ?');
+    filter.params.push(WebhookStatus.PENDING);
+    filter.conditions.push(
+      '(w.endpoint_id IS NULL OR EXISTS (SELECT 1 FROM webhook_endpoints e WHERE e.id = w.endpoint_id AND e.enabled = 1))'
+    );
+
+    const ids = await this.db.transaction(async () => {
+      const webhooks = await this.db.all<{ id: string }>(
+        `SELECT w.id FROM webhooks w
+         JOIN payments p ON p.id = w.payment_id
+         WHERE ${filter.conditions.join(' AND ')}
+         ORDER BY w.created_at
+         LIMIT ?`,
+        [...filter.params, MAX_REPLAY_DELIVERIES + 1]
+      );
+
+      if (webhooks.length > MAX_REPLAY_DELIVERIES) {
+        throw new WebhookError(
+          `More than ${MAX_REPLAY_DELIVERIES} deliveries match; narrow the time window`,
+          'TOO_MANY_WEBHOOKS',
+          400
+        );
+      }
+
+      const matched = webhooks.map(webhook => webhook.id);
+      await this.requeueWebhooks(matched);
+      return matched;
+    });
+
+    this.processDueWebhooks();
+    return ids;
+  }
+
+  /**
+   * Conditions shared by listing and replay, on webhooks w joined to payments p.
+   * Undefined when the scope can see nothing.
+   */
+  private buildWebhookFilter(
+    scope: PaymentOwnerScope,
+    query: { payment_id?: string; event_type?: string; created_from?: string; created_to?: string }
+  ): { conditions: string[]; params: unknown[] } | undefined {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (!scope.all) {
+      if (scope.user_id) {
+        conditions.push('p.user_id = ?');
+        params.push(scope.user_id);
+      } else if (scope.api_key_id) {
+        conditions.push('p.api_key_id = ?');
+        params.push(scope.api_key_id);
+      } else {
+        // No principal means nothing is visible
+        return undefined;
+      }
+    }
+
+    if (query.payment_id) {
+      conditions.push('w.payment_id = ?');
+      params.push(query.payment_id);
+    }
+
+    if (query.event_type) {
+      conditions.push('w.event_type = ?');
+      params.push(query.event_type);
+    }
+
+    if (query.created_from) {
+      conditions.push('w.created_at >= ?');
+      params.push(this.toSqlTimestamp(query.created_from));
+    }
+
+    if (query.created_to) {
+      conditions.push('w.created_at <= ?');
+      params.push(this.toSqlTimestamp(query.created_to));
+    }
+
+    return { conditions, params };
+  }
+
+  private encodeCursor(webhook: Webhook): string {
+    return Buffer.from(JSON.stringify({ created_at: webhook.created_at, id: webhook.id })).toString('base64url');
+  }
+
+  private decodeCursor(cursor: string): { created_at: string; id: string } {
+    try {
+      const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+      if (typeof decoded.created_at === 'string' && typeof decoded.id === 'string') {
+        return decoded;
+      }
+    } catch {
+      // Fall through to the error below
+    }
+    throw new WebhookError('Invalid pagination cursor', 'INVALID_CURSOR', 400);
+  }
+
+  /**
+   * Convert an ISO date into the format SQLite uses for CURRENT_TIMESTAMP
+   */
+  private toSqlTimestamp(value: string): string {
+    return new Date(value).toISOString().replace('T', ' ').slice(0, 19);
+  }
+
   /**
    * Get webhooks for a payment
    */
@@ -204,7 +659,7 @@ export class WebhookService {
         if (webhook.response) {
           webhook.response = JSON.parse(webhook.response as unknown as string);
         }
-      } catch (error) {
+      } catch {
         // Keep original if parsing fails
       }
       return webhook;
@@ -212,27 +667,32 @@ export class WebhookService {
   }
 
   /**
-   * Retry failed webhook
+   * Send a delivery again, whatever its status, with a fresh set of attempts.
+   * newUrl replaces the URL for this and later attempts of this delivery only;
+   * otherwise endpoint deliveries go to the endpoint's current URL.
    */
   async retryWebhook(webhookId: string, newUrl?: string): Promise<boolean> {
-    const webhook = await this.getWebhookStatus(webhookId);
-    
-    if (!webhook || webhook.status === WebhookStatus.SENT) {
+    const webhook = await this.db.get<Webhook>('SELECT * FROM webhooks WHERE id = ?', [webhookId]);
+    if (!webhook) {
       return false;
     }
 
-    // Reset retry count and status
-    await this.db.run(
-      'UPDATE webhooks SET status = ?, retry_count = 0 WHERE id = ?',
-      [WebhookStatus.PENDING, webhookId]
-    );
+    if (webhook.endpoint_id && !await this.webhookEndpointService.getEndpointById(webhook.endpoint_id)) {
+      throw new WebhookError('The endpoint this webhook was sent to has been deleted', 'WEBHOOK_ENDPOINT_DELETED', 409);
+    }
+    if (!newUrl && !webhook.url) {
+      throw new WebhookError('Webhook has no URL; pass one to redeliver it', 'WEBHOOK_URL_REQUIRED', 400);
+    }
+
+    await this.db.transaction(async () => {
+      await this.requeueWebhooks([webhookId]);
+      if (newUrl) {
+        await this.db.run('UPDATE webhooks SET url = ? WHERE id = ?', [newUrl, webhookId]);
+      }
+    });
+
+    this.deliverWebhook(webhookId);
 
-    // Use new URL or extract from original payload
-    const url = newUrl || (webhook.payload as any)?.webhook_url || 'https://webhook.site/test';
-    
-    // Send webhook
-    this.sendWebhookAsync(webhookId, url, webhook.payload as Record<string, any>);
-    
     return true;
   }
 
@@ -244,6 +704,7 @@ export class WebhookService {
     sent: number;
     failed: number;
     pending: number;
+    dead_letter: number;
     by_event_type: Record<string, number>;
   }> {
     const totalResult = await this.db.get<{ count: number }>(
@@ -265,6 +726,11 @@ export class WebhookService {
       [WebhookStatus.PENDING]
     );
 
+    const deadLetterResult = await this.db.get<{ count: number }>(
+      'SELECT COUNT(*) as count FROM webhooks WHERE status = ?',
+      [WebhookStatus.DEAD_LETTER]
+    );
+
     const eventTypeResults = await this.db.all<{ event_type: string; count: number }>(
       'SELECT event_type, COUNT(*) as count FROM webhooks GROUP BY event_type'
     );
@@ -279,6 +745,7 @@ export class WebhookService {
       sent: sentResult?.count || 0,
       failed: failedResult?.count || 0,
       pending: pendingResult?.count || 0,
+      dead_letter: deadLetterResult?.count || 0,
       by_event_type: byEventType
     };
   }
@@ -290,6 +757,13 @@ export class WebhookService {
     const cutoffDate = new Date();
     cutoffDate.setDate(cutoffDate.getDate() - daysOld);
 
+    await this.db.run(
+      `DELETE FROM webhook_attempts WHERE webhook_id IN (
+         SELECT id FROM webhooks WHERE created_at < ? AND status IN (?, ?)
+       )`,
+      [cutoffDate.toISOString(), WebhookStatus.SENT, WebhookStatus.FAILED]
+    );
+
     const result = await this.db.run(
       'DELETE FROM webhooks WHERE created_at < ? AND status IN (?, ?)',
       [cutoffDate.toISOString(), WebhookStatus.SENT, WebhookStatus.FAILED]
@@ -319,7 +793,7 @@ export class WebhookService {
         }
       };
 
-      const response = await this.sendWebhookRequest(url, testPayload);
+      const response = await this.sendWebhookRequest(url, testPayload, [this.defaultSecret]);
       const responseTime = Date.now() - startTime;
 
       return {
@@ -328,14 +802,15 @@ export class WebhookService {
         status: response.status
       };
 
-    } catch (error: any) {
+    } catch (error) {
       const responseTime = Date.now() - startTime;
+      const failure = describeRequestFailure(error);
       
       return {
         success: false,
         response_time: responseTime,
-        status: error.response?.status,
-        error: error.message
+        status: failure.status,
+        error: failure.message
       };
     }
   }
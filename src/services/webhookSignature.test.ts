@@ -0,0 +1,40 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildWebhookSignatureHeader, computeWebhookSignature, verifyWebhookSignature } from './webhookSignature.js';
+
+// The test vectors published in the README
+const TIMESTAMP = 1700000000;
+const BODY = '{"id":"evt_1","event_type":"payment.completed"}';
+const OLD_SIGNATURE = '7b1ed4a0926c582dd7f8995547d6195ec31ca169fad48d84babba7ec2f0105a9';
+const NEW_SIGNATURE = '4fdb1e71153eb40f98d43baefad5f170a93a8129583729709fba2b07669658fc';
+
+describe('webhook signatures', () => {
+  test('match the README vectors', () => {
+    assert.equal(computeWebhookSignature(BODY, 'whsec_test', TIMESTAMP), OLD_SIGNATURE);
+    assert.equal(computeWebhookSignature(BODY, 'whsec_new', TIMESTAMP), NEW_SIGNATURE);
+  });
+
+  test('sign with every secret during a rotation, newest first', () => {
+    assert.equal(
+      buildWebhookSignatureHeader(BODY, ['whsec_new', 'whsec_test'], TIMESTAMP),
+      `t=${TIMESTAMP},v1=${NEW_SIGNATURE},v1=${OLD_SIGNATURE}`
+    );
+  });
+
+  test('verify with either secret of a rotation', () => {
+    const header = `t=${TIMESTAMP},v1=${NEW_SIGNATURE},v1=${OLD_SIGNATURE}`;
+    assert.equal(verifyWebhookSignature(BODY, header, 'whsec_test', 300, TIMESTAMP), true);
+    assert.equal(verifyWebhookSignature(BODY, header, 'whsec_new', 300, TIMESTAMP + 299), true);
+    assert.equal(verifyWebhookSignature(BODY, header, 'whsec_other', 300, TIMESTAMP), false);
+  });
+
+  test('reject stale timestamps, altered bodies and malformed headers', () => {
+    const header = `t=${TIMESTAMP},v1=${OLD_SIGNATURE}`;
+    assert.equal(verifyWebhookSignature(BODY, header, 'whsec_test', 300, TIMESTAMP + 301), false);
+    assert.equal(verifyWebhookSignature(BODY.replace('evt_1', 'evt_2'), header, 'whsec_test', 300, TIMESTAMP), false);
+    assert.equal(verifyWebhookSignature(` ${BODY}`, header, 'whsec_test', 300, TIMESTAMP), false);
+    assert.equal(verifyWebhookSignature(BODY, `v1=${OLD_SIGNATURE}`, 'whsec_test', 300, TIMESTAMP), false);
+    assert.equal(verifyWebhookSignature(BODY, `t=${TIMESTAMP}`, 'whsec_test', 300, TIMESTAMP), false);
+    assert.equal(verifyWebhookSignature(BODY, undefined, 'whsec_test', 300, TIMESTAMP), false);
+  });
+});
@@ -0,0 +1,68 @@
+import crypto from 'crypto';
+
+/**
+ * Webhook signatures are sent in the X-Webhook-Signature header as
+ *
+ *   t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<raw body>">
+ *
+ * While an endpoint's secret is being rotated the header carries one v1 per
+ * secret, newest first. A receiver accepts the delivery when any v1 matches
+ * its secret and t is recent, which also stops old deliveries being replayed.
+ */
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Webhook-Signature';
+export const DEFAULT_SIGNATURE_TOLERANCE_SECONDS = 300;
+
+/**
+ * HMAC of the timestamp and raw body under one secret
+ */
+export function computeWebhookSignature(body: string, secret: string, timestamp: number): string {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * Header value signing the body with every given secret
+ */
+export function buildWebhookSignatureHeader(
+  body: string,
+  secrets: string[],
+  timestamp: number = Math.floor(Date.now() / 1000)
+): string {
+  const signatures = secrets.map(secret => `v1=${computeWebhookSignature(body, secret, timestamp)}`);
+  return [`t=${timestamp}`, ...signatures].join(',');
+}
+
+/**
+ * Check a delivery against the receiver's secret. body must be the raw
+ * request body exactly as received, before any JSON parsing. Returns false
+ * for malformed headers, stale timestamps and signature mismatches.
+ */
+export function verifyWebhookSignature(
+  body: string,
+  header: string,
+  secret: string,
+  toleranceSeconds: number = DEFAULT_SIGNATURE_TOLERANCE_SECONDS,
+  now: number = Math.floor(Date.now() / 1000)
+): boolean {
+  let timestamp: number | undefined;
+  const signatures: string[] = [];
+
+  for (const part of (header || '').split(',')) {
+    const [key, value] = part.trim().split('=', 2);
+    if (key === 't' && /^\d+$/.test(value || '')) {
+      timestamp = Number(value);
+    } else if (key === 'v1' && value) {
+      signatures.push(value);
+    }
+  }
+
+  if (timestamp === undefined || signatures.length === 0 || Math.abs(now - timestamp) > toleranceSeconds) {
+    return false;
+  }
+
+  const expected = Buffer.from(computeWebhookSignature(body, secret, timestamp));
+  return signatures.some(signature => {
+    const actual = Buffer.from(signature);
+    return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+  });
+}
@@ -0,0 +1,17 @@
+/**
+ * Base class for errors that map directly onto an API error response.
+ * The error handler and route handlers read `code` and `status` from it.
+ */
+export class ApiError extends Error {
+  code: string;
+  status: number;
+  details?: Record<string, unknown>;
+
+  constructor(message: string, code: string, status: number = 400, details?: Record<string, unknown>) {
+    super(message);
+    this.name = this.constructor.name;
+    this.code = code;
+    this.status = status;
+    this.details = details;
+  }
+}
@@ -0,0 +1,123 @@
+import { Money } from './money.js';
+
+export enum LedgerAccountCategory {
+  CUSTOMER_FUNDING = 'customer_funding',
+  FX_SUSPENSE = 'fx_suspense',
+  FEE_REVENUE = 'fee_revenue',
+  FX_SPREAD_REVENUE = 'fx_spread_revenue',
+  PROVIDER_CLEARING = 'provider_clearing'
+}
+
+export enum LedgerAccountType {
+  ASSET = 'asset',
+  LIABILITY = 'liability',
+  REVENUE = 'revenue'
+}
+
+export enum ProviderDirection {
+  ONRAMP = 'onramp',
+  OFFRAMP = 'offramp'
+}
+
+export interface LedgerAccount {
+  id: string; // e.g. customer_funding:USD, provider_clearing:onramp:stripe:USD
+  category: LedgerAccountCategory;
+  type: LedgerAccountType;
+  currency: string;
+  provider?: string;
+  name: string;
+  created_at: string;
+}
+
+export interface JournalEntry {
+  id: string;
+  idempotency_key: string;
+  payment_id?: string;
+  transaction_id?: string;
+  event_type: string;
+  description?: string;
+  reverses_entry_id?: string;
+  created_at: string;
+  lines?: JournalLine[];
+}
+
+export interface JournalLine {
+  id: number;
+  entry_id: string;
+  account_id: string;
+  currency: string;
+  debit: number; // Minor units
+  credit: number; // Minor units
+}
+
+/**
+ * Reference to an account by what it is rather than by id; accounts are created on first use
+ */
+export interface LedgerAccountRef {
+  category: LedgerAccountCategory;
+  currency: string;
+  provider?: string;
+  direction?: ProviderDirection;
+}
+
+export interface PostingLine {
+  account: LedgerAccountRef;
+  debit?: Money;
+  credit?: Money;
+}
+
+export interface PostEntryRequest {
+  idempotency_key: string;
+  event_type: string;
+  description?: string;
+  payment_id?: string;
+  transaction_id?: string;
+  reverses_entry_id?: string;
+  lines: PostingLine[];
+}
+
+export interface AccountBalance {
+  account_id: string;
+  name: string;
+  category: LedgerAccountCategory;
+  type: LedgerAccountType;
+  currency: string;
+  provider?: string;
+  total_debits: string;
+  total_credits: string;
+  balance: string; // Signed in the account's normal direction
+}
+
+export interface TrialBalance {
+  balanced: boolean;
+  currencies: {
+    currency: string;
+    total_debits: string;
+    total_credits: string;
+    balanced: boolean;
+  }[];
+  accounts: {
+    account_id: string;
+    name: string;
+    currency: string;
+    debit_balance: string;
+    credit_balance: string;
+  }[];
+  generated_at: string;
+}
+
+export interface JournalEntryResponse {
+  id: string;
+  payment_id?: string;
+  transaction_id?: string;
+  event_type: string;
+  description?: string;
+  reverses_entry_id?: string;
+  lines: {
+    account_id: string;
+    currency: string;
+    debit: string;
+    credit: string;
+  }[];
+  created_at: string;
+}
@@ -0,0 +1,63 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Money, RoundingMode, applySpreadBps, normalizeDecimal } from './money.js';
+
+describe('Money', () => {
+  test('keeps major amounts exact in minor units', () => {
+    assert.equal(Money.fromMajor('10.5', 'USD').toMajorString(), '10.50');
+    assert.equal(Money.fromMajor(0.1, 'USD').add(Money.fromMajor(0.2, 'USD')).toMajorString(), '0.30');
+    assert.equal(Money.fromMajor('1500', 'JPY').minor, 1500n);
+    assert.equal(Money.fromMinor(12345, 'USD').toMajorString(), '123.45');
+  });
+
+  test('rejects amounts more precise than the currency without a rounding mode', () => {
+    assert.throws(() => Money.fromMajor('1.005', 'USD'), { code: 'INVALID_AMOUNT_PRECISION' });
+    assert.throws(() => Money.fromMajor('1.5', 'JPY'), { code: 'INVALID_AMOUNT_PRECISION' });
+  });
+
+  test('rounds half to even or half up when asked', () => {
+    assert.equal(Money.fromMajor('1.005', 'USD', RoundingMode.HALF_EVEN).toMajorString(), '1.00');
+    assert.equal(Money.fromMajor('1.015', 'USD', RoundingMode.HALF_EVEN).toMajorString(), '1.02');
+    assert.equal(Money.fromMajor('1.005', 'USD', RoundingMode.HALF_UP).toMajorString(), '1.01');
+    assert.equal(Money.fromMajor('-1.005', 'USD', RoundingMode.HALF_UP).toMajorString(), '-1.01');
+  });
+
+  test('rounds products with the given mode', () => {
+    const amount = Money.fromMajor('0.25', 'USD');
+    assert.equal(amount.multiply('0.5', RoundingMode.HALF_EVEN).toMajorString(), '0.12');
+    assert.equal(amount.multiply('0.5', RoundingMode.HALF_UP).toMajorString(), '0.13');
+    assert.equal(Money.fromMajor('100', 'USD').multiply(0.029).toMajorString(), '2.90');
+  });
+
+  test('converts between currencies of different exponents', () => {
+    const amount = Money.fromMajor('100', 'USD');
+    assert.equal(amount.convert('0.85', 'EUR').toMajorString(), '85.00');
+    assert.equal(amount.convert('110.5', 'JPY').toMajorString(), '11050');
+    assert.equal(Money.fromMajor('85', 'EUR').convertInverse('0.85', 'USD').toMajorString(), '100.00');
+  });
+
+  test('refuses to combine different currencies', () => {
+    assert.throws(() => Money.fromMajor('1', 'USD').add(Money.fromMajor('1', 'EUR')));
+  });
+
+  test('rejects unknown currencies and malformed amounts', () => {
+    assert.throws(() => Money.fromMajor('1', 'XXX'));
+    assert.throws(() => Money.fromMajor('1.2.3', 'USD'), { code: 'INVALID_AMOUNT' });
+    assert.throws(() => Money.fromMinor(1.5, 'USD'), { code: 'INVALID_AMOUNT' });
+  });
+});
+
+describe('normalizeDecimal', () => {
+  test('drops trailing zeros and exponents', () => {
+    assert.equal(normalizeDecimal('1.2300'), '1.23');
+    assert.equal(normalizeDecimal(1e-7), '0.0000001');
+    assert.equal(normalizeDecimal('110.0'), '110');
+  });
+});
+
+describe('applySpreadBps', () => {
+  test('takes the spread off the rate', () => {
+    assert.equal(applySpreadBps('0.85', 50), '0.84575');
+    assert.equal(applySpreadBps('110', 0), '110');
+  });
+});
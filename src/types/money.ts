@@ -0,0 +1,346 @@
+import { getCurrency } from '../config/currencies.js';
+import { ApiError } from './errors.js';
+
+export enum RoundingMode {
+  HALF_EVEN = 'half_even',
+  HALF_UP = 'half_up'
+}
+
+/**
+ * Rounding mode used when a calculation does not ask for one explicitly.
+ * Configured with MONEY_ROUNDING_MODE (half_even or half_up), defaults to half_even.
+ */
+export function getDefaultRoundingMode(): RoundingMode {
+  const configured = (process.env.MONEY_ROUNDING_MODE || '').toLowerCase().replace('-', '_');
+  return configured === RoundingMode.HALF_UP ? RoundingMode.HALF_UP : RoundingMode.HALF_EVEN;
+}
+
+interface Decimal {
+  units: bigint; // value = units / 10^scale
+  scale: number;
+}
+
+const DECIMAL_PATTERN = /^(-?)(\d+)(?:\.(\d*))?(?:e([+-]?\d+))?$/i;
+
+/**
+ * Parse a decimal string or number into an exact scaled integer.
+ * Numbers go through their shortest string form, so 0.1 parses as exactly 1/10.
+ */
+function parseDecimal(value: string | number): Decimal | undefined {
+  if (typeof value === 'number' && !Number.isFinite(value)) {
+    return undefined;
+  }
+
+  const match = DECIMAL_PATTERN.exec(String(value).trim());
+  if (!match) {
+    return undefined;
+  }
+
+  const [, sign, whole, fraction = '', exponentText] = match;
+  let digits = whole + fraction;
+  let scale = fraction.length - (exponentText ? parseInt(exponentText, 10) : 0);
+
+  if (scale < 0) {
+    digits += '0'.repeat(-scale);
+    scale = 0;
+  }
+
+  const units = BigInt(digits);
+  return { units: sign === '-' ? -units : units, scale };
+}
+
+function pow10(exponent: number): bigint {
+  return 10n ** BigInt(exponent);
+}
+
+/**
+ * Integer division that rounds the quotient with the given mode (denominator must be positive)
+ */
+function divideRounded(numerator: bigint, denominator: bigint, mode: RoundingMode): bigint {
+  const quotient = numerator / denominator;
+  const remainder = numerator % denominator;
+
+  if (remainder === 0n) {
+    return quotient;
+  }
+
+  const doubled = (remainder < 0n ? -remainder : remainder) * 2n;
+  const awayFromZero = quotient + (numerator < 0n ? -1n : 1n);
+
+  if (doubled > denominator) {
+    return awayFromZero;
+  }
+  if (doubled < denominator) {
+    return quotient;
+  }
+
+  // Exactly half way
+  if (mode === RoundingMode.HALF_UP) {
+    return awayFromZero;
+  }
+  return quotient % 2n === 0n ? quotient : awayFromZero;
+}
+
+function formatScaled(units: bigint, scale: number): string {
+  const negative = units < 0n;
+  const digits = (negative ? -units : units).toString().padStart(scale + 1, '0');
+  const whole = digits.slice(0, digits.length - scale);
+  const fraction = scale > 0 ? `.${digits.slice(digits.length - scale)}` : '';
+  return `${negative ? '-' : ''}${whole}${fraction}`;
+}
+
+/**
+ * Normalize a decimal (e.g. an exchange rate) into a plain decimal string
+ * without exponent notation or trailing zeros
+ */
+export function normalizeDecimal(value: string | number): string {
+  const decimal = parseDecimal(value);
+  if (!decimal) {
+    throw new ApiError(`Invalid decimal value: ${value}`, 'INVALID_DECIMAL', 400);
+  }
+
+  return formatScaled(decimal.units, decimal.scale).replace(/(\.\d*?)0+$/, '$1').replace(/\.$/, '');
+}
+
+/**
+ * A rate reduced by a spread in basis points (1 bp = 0.01%), kept to at
+ * least 8 decimal places
+ */
+export function applySpreadBps(
+  rate: string | number,
+  spreadBps: number,
+  rounding: RoundingMode = getDefaultRoundingMode()
+): string {
+  const decimal = parseDecimal(rate);
+  if (!decimal || !Number.isInteger(spreadBps)) {
+    throw new ApiError(`Invalid rate or spread: ${rate}, ${spreadBps} bps`, 'INVALID_DECIMAL', 400);
+  }
+
+  const scale = Math.max(decimal.scale, 8);
+  const units = divideRounded(
+    decimal.units * pow10(scale - decimal.scale) * BigInt(10000 - spreadBps),
+    10000n,
+    rounding
+  );
+  return normalizeDecimal(formatScaled(units, scale));
+}
+
+/**
+ * Immutable monetary amount held as an integer number of minor units
+ * (cents, pence, yen...) of an ISO 4217 currency. All arithmetic is exact;
+ * rounding only happens when multiplying by a decimal factor or rate.
+ */
+export class Money {
+  readonly minor: bigint;
+  readonly currency: string;
+
+  private constructor(minor: bigint, currency: string) {
+    this.minor = minor;
+    this.currency = currency;
+  }
+
+  /**
+   * Create from an integer amount of minor units
+   */
+  static fromMinor(minor: bigint | number | string, currency: string): Money {
+    const code = Money.requireCurrency(currency).code;
+
+    if (typeof minor === 'bigint') {
+      return new Money(minor, code);
+    }
+    if (typeof minor === 'number' && !Number.isSafeInteger(minor)) {
+      throw new ApiError(`Minor unit amount must be an integer: ${minor}`, 'INVALID_AMOUNT', 400);
+    }
+    if (typeof minor === 'string' && !/^-?\d+$/.test(minor)) {
+      throw new ApiError(`Minor unit amount must be an integer: ${minor}`, 'INVALID_AMOUNT', 400);
+    }
+
+    return new Money(BigInt(minor), code);
+  }
+
+  /**
+   * Create from a major unit amount such as "10.50" or 10.5.
+   * Without a rounding mode, amounts more precise than the currency allows are rejected.
+   */
+  static fromMajor(amount: string | number, currency: string, rounding?: RoundingMode): Money {
+    const info = Money.requireCurrency(currency);
+    const decimal = parseDecimal(amount);
+
+    if (!decimal) {
+      throw new ApiError(`Invalid amount: ${amount}`, 'INVALID_AMOUNT', 400);
+    }
+
+    if (decimal.scale <= info.exponent) {
+      return new Money(decimal.units * pow10(info.exponent - decimal.scale), info.code);
+    }
+
+    const minor = divideRounded(decimal.units, pow10(decimal.scale - info.exponent), rounding || RoundingMode.HALF_EVEN);
+    if (!rounding && minor * pow10(decimal.scale - info.exponent) !== decimal.units) {
+      throw new ApiError(
+        `${info.code} amounts support at most ${info.exponent} decimal places`,
+        'INVALID_AMOUNT_PRECISION',
+        400,
+        { amount: String(amount), currency: info.code, exponent: info.exponent }
+      );
+    }
+
+    return new Money(minor, info.code);
+  }
+
+  static zero(currency: string): Money {
+    return Money.fromMinor(0n, currency);
+  }
+
+  get exponent(): number {
+    return getCurrency(this.currency)!.exponent;
+  }
+
+  add(other: Money): Money {
+    this.assertSameCurrency(other);
+    return new Money(this.minor + other.minor, this.currency);
+  }
+
+  subtract(other: Money): Money {
+    this.assertSameCurrency(other);
+    return new Money(this.minor - other.minor, this.currency);
+  }
+
+  /**
+   * Multiply by a decimal factor (e.g. a fee percentage), rounding to the nearest minor unit
+   */
+  multiply(factor: string | number, rounding: RoundingMode = getDefaultRoundingMode()): Money {
+    const decimal = Money.requireDecimal(factor);
+    return new Money(divideRounded(this.minor * decimal.units, pow10(decimal.scale), rounding), this.currency);
+  }
+
+  /**
+   * Convert into another currency at the given rate (units of target per unit of this currency)
+   */
+  convert(rate: string | number, targetCurrency: string, rounding: RoundingMode = getDefaultRoundingMode()): Money {
+    const target = Money.requireCurrency(targetCurrency);
+    const decimal = Money.requireDecimal(rate);
+
+    const numerator = this.minor * decimal.units * pow10(target.exponent);
+    const denominator = pow10(decimal.scale + this.exponent);
+
+    return new Money(divideRounded(numerator, denominator, rounding), target.code);
+  }
+
+  /**
+   * Convert into another currency using a rate quoted the other way round
+   * (units of this currency per unit of target), e.g. to bring a destination
+   * currency fee back into the source currency
+   */
+  convertInverse(rate: string | number, targetCurrency: string, rounding: RoundingMode = getDefaultRoundingMode()): Money {
+    const target = Money.requireCurrency(targetCurrency);
+    const decimal = Money.requireDecimal(rate);
+
+    if (decimal.units <= 0n) {
+      throw new ApiError(`Exchange rate must be positive: ${rate}`, 'INVALID_DECIMAL', 400);
+    }
+
+    const numerator = this.minor * pow10(decimal.scale + target.exponent);
+    const denominator = decimal.units * pow10(this.exponent);
+
+    return new Money(divideRounded(numerator, denominator, rounding), target.code);
+  }
+
+  compare(other: Money): number {
+    this.assertSameCurrency(other);
+    if (this.minor === other.minor) {
+      return 0;
+    }
+    return this.minor < other.minor ? -1 : 1;
+  }
+
+  equals(other: Money): boolean {
+    return this.currency === other.currency && this.minor === other.minor;
+  }
+
+  greaterThan(other: Money): boolean {
+    return this.compare(other) > 0;
+  }
+
+  lessThan(other: Money): boolean {
+    return this.compare(other) < 0;
+  }
+
+  isZero(): boolean {
+    return this.minor === 0n;
+  }
+
+  isPositive(): boolean {
+    return this.minor > 0n;
+  }
+
+  isNegative(): boolean {
+    return this.minor < 0n;
+  }
+
+  static max(a: Money, b: Money): Money {
+    return a.compare(b) >= 0 ? a : b;
+  }
+
+  static min(a: Money, b: Money): Money {
+    return a.compare(b) <= 0 ? a : b;
+  }
+
+  /**
+   * Exact major unit representation, e.g. "10.50" for EUR or "1050" for JPY
+   */
+  toMajorString(): string {
+    return formatScaled(this.minor, this.exponent);
+  }
+
+  /**
+   * Minor units as a JS number for persistence; throws if it would lose precision
+   */
+  toMinorNumber(): number {
+    const value = Number(this.minor);
+    if (!Number.isSafeInteger(value)) {
+      throw new ApiError(`Amount ${this.toString()} is too large to store`, 'AMOUNT_OUT_OF_RANGE', 400);
+    }
+    return value;
+  }
+
+  /**
+   * Approximate major unit value, only for display and coarse comparisons
+   */
+  toNumber(): number {
+    return Number(this.toMajorString());
+  }
+
+  toJSON(): string {
+    return this.toMajorString();
+  }
+
+  toString(): string {
+    return `${this.toMajorString()} ${this.currency}`;
+  }
+
+  private assertSameCurrency(other: Money): void {
+    if (this.currency !== other.currency) {
+      throw new ApiError(
+        `Currency mismatch: ${this.currency} and ${other.currency}`,
+        'CURRENCY_MISMATCH',
+        400
+      );
+    }
+  }
+
+  private static requireCurrency(currency: string) {
+    const info = getCurrency(currency);
+    if (!info) {
+      throw new ApiError(`Unsupported currency: ${currency}`, 'UNSUPPORTED_CURRENCY', 400);
+    }
+    return info;
+  }
+
+  private static requireDecimal(value: string | number): Decimal {
+    const decimal = parseDecimal(value);
+    if (!decimal) {
+      throw new ApiError(`Invalid decimal value: ${value}`, 'INVALID_DECIMAL', 400);
+    }
+    return decimal;
+  }
+}
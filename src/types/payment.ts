@@ -1,3 +1,7 @@
+import { Money } from './money.js';
+
+// Persisted amounts are integer minor units of their currency; amounts in
+// API requests and responses are exact major unit decimal strings.
 export interface Payment {
   id: string;
   user_id: string;
@@ -6,12 +10,20 @@ export interface Payment {
   source_currency: string;
   destination_amount: number;
   destination_currency: string;
-  exchange_rate: number;
+  exchange_rate: string; // Customer rate: the mid-market rate less the spread
+  mid_exchange_rate?: string; // Absent on payments made before spreads
+  spread_bps: number;
+  spread_amount: number; // In source_currency; FX revenue, not part of fee_amount or total_amount
   status: PaymentStatus;
   onramp_reference?: string;
   offramp_reference?: string;
-  fee_amount: number;
-  total_amount: number;
+  fee_amount: number; // In source_currency
+  total_amount: number; // source_amount + fee_amount
+  quote_id?: string;
+  api_key_id?: string; // API key that created the payment, if any
+  webhook_url?: string; // Receives every event for this payment, alongside the owner's endpoints
+  recipient_id?: string; // Saved recipient the payout goes to
+  routing_preference?: RoutingPreference; // How providers are chosen; the server default when unset
   created_at: string;
   updated_at: string;
 }
@@ -26,51 +38,336 @@ export enum PaymentStatus {
   CANCELLED = 'cancelled'
 }
 
+export interface PaymentEvent {
+  id: number;
+  payment_id: string;
+  from_status?: PaymentStatus;
+  to_status: PaymentStatus;
+  reason?: string;
+  metadata?: Record<string, unknown>;
+  created_at: string;
+}
+
 export interface CreatePaymentRequest {
   user_id: string;
   idempotency_key: string;
-  source_amount: number;
-  source_currency: string;
-  destination_currency: string;
+  source_amount?: number | string; // Optional when quote_id is given
+  source_currency?: string;
+  destination_currency?: string;
+  quote_id?: string;
   webhook_url?: string;
+  api_key_id?: string;
+  recipient_id?: string;
+  routing_preference?: RoutingPreference;
 }
 
 export interface PaymentResponse {
   id: string;
   status: PaymentStatus;
+  source_amount: string;
+  source_currency: string;
+  destination_amount: string;
+  destination_currency: string;
+  exchange_rate: string;
+  mid_exchange_rate?: string;
+  spread_bps: number;
+  spread_amount: string;
+  fee_amount: string;
+  total_amount: string;
+  quote_id?: string;
+  recipient_id?: string;
+  routing_preference?: RoutingPreference;
+  estimated_completion: string;
+  created_at: string;
+}
+
+/**
+ * What provider routing optimises for
+ */
+export enum RoutingPreference {
+  BALANCED = 'balanced',
+  CHEAPEST = 'cheapest',
+  FASTEST = 'fastest',
+  MOST_RELIABLE = 'most_reliable'
+}
+
+/**
+ * How one candidate provider scored. Component scores are relative to the
+ * best candidate, which scores 1.
+ */
+export interface ProviderRouteScore {
+  provider: string;
+  score: number; // Components weighted by the preference
+  fee: string; // In the routed amount's currency
+  success_rate: number; // Observed, smoothed toward the configured rate
+  expected_latency_seconds: number;
+  health: number; // Share of recent transactions that succeeded
+  samples: number; // Settled transactions behind the observed figures
+  components: { cost: number; reliability: number; speed: number; health: number };
+}
+
+/**
+ * Live state of a provider, from the outcomes of its recent transactions
+ */
+/**
+ * Provider circuit breaker state. Open providers get no new transactions;
+ * half-open ones get a trial transaction after the cooldown.
+ */
+export enum CircuitState {
+  CLOSED = 'closed',
+  OPEN = 'open',
+  HALF_OPEN = 'half_open'
+}
+
+export interface ProviderHealth {
+  provider: string;
+  name: string;
+  direction: string; // onramp or offramp
+  state: CircuitState; // The forced state while forced
+  forced: boolean; // Set by an admin rather than by outcomes
+  forced_reason?: string;
+  forced_by?: string;
+  consecutive_failures: number;
+  successes: number;
+  failures: number; // Including timeouts
+  timeouts: number;
+  half_open_trials: number;
+  last_success_at?: string;
+  last_failure_at?: string;
+  last_failure_reason?: string;
+  state_changed_at?: string;
+  retry_at?: string; // When an open circuit goes half-open
+  updated_at?: string;
+}
+
+export type ProviderOperationalStatus = 'operational' | 'degraded' | 'down';
+
+export interface CompletionTimes {
+  p50_seconds: number;
+  p95_seconds: number;
+}
+
+export interface ProviderVolume {
+  currency: string;
+  amount: string;
+}
+
+/**
+ * Transaction figures for one provider, or all of a direction's providers
+ */
+export interface ProviderActivity {
+  total_transactions: number;
+  completed: number;
+  failed: number;
+  processing: number;
+  cancelled: number; // By the client or for want of a callback; not settled
+  success_rate: number | null; // Of settled transactions; null until one settles
+  completion_time: CompletionTimes | null; // Of completed transactions
+  volume: ProviderVolume[]; // Completed, per currency
+}
+
+export interface ProviderStatusEntry extends ProviderActivity {
+  provider: string;
+  name: string;
+  status: ProviderOperationalStatus;
+  circuit_state: CircuitState;
+  recent: { completed: number; failed: number }; // Settled within the status window
+}
+
+export interface ProviderStatusReport extends ProviderActivity {
+  direction: string; // onramp or offramp
+  window: string; // e.g. 24h
+  from: string;
+  to: string;
+  system_status: ProviderOperationalStatus;
+  status_window_minutes: number;
+  active_providers: number; // Configured providers that are not down
+  providers: ProviderStatusEntry[];
+  last_updated: string;
+}
+
+/**
+ * One provider's terms for an amount, as compared by the compare endpoints
+ */
+export interface ProviderComparisonEntry extends ProviderRouteScore {
+  name: string;
+  total_cost: string; // Amount plus fee
+  processing_time: string;
+  limits: { min: number; max: number; currency?: string };
+  fee_breakdown: { percentage_fee?: string; fixed_fee?: string; percentage_rate?: number };
+  payment_methods?: string[];
+  supported_currencies?: string[];
+  features?: string[];
+}
+
+export interface ProviderComparison {
+  comparison: ProviderComparisonEntry[]; // Best first
+  recommendation: ProviderComparisonEntry | null;
+  excluded: RoutingExclusion[];
+  criteria: {
+    amount: string;
+    currency: string;
+    payment_method?: string;
+    routing_preference: RoutingPreference;
+  };
+}
+
+export interface RoutingExclusion {
+  provider: string;
+  reason: string;
+}
+
+/**
+ * Why a provider was chosen for a transaction
+ */
+export interface RoutingDecision {
+  id: string;
+  payment_id?: string;
+  transaction_id?: string;
+  direction: string; // onramp or offramp
+  amount: string;
+  currency: string;
+  preference: RoutingPreference;
+  attempt: number; // 2 and up are failovers
+  selected_provider: string;
+  reason: string;
+  candidates: ProviderRouteScore[]; // Best first
+  excluded: RoutingExclusion[];
+  created_at: string;
+}
+
+export interface Quote {
+  id: string;
+  user_id?: string;
+  api_key_id?: string;
   source_amount: number;
   source_currency: string;
   destination_amount: number;
   destination_currency: string;
-  exchange_rate: number;
+  exchange_rate: string; // Customer rate
+  mid_exchange_rate?: string;
+  spread_bps: number;
+  spread_amount: number; // In source_currency
+  fee_breakdown: string; // JSON string
   fee_amount: number;
   total_amount: number;
-  estimated_completion: string;
+  payment_id?: string;
+  used_at?: string;
+  expires_at: string;
+  created_at: string;
+}
+
+export enum QuoteStatus {
+  ACTIVE = 'active',
+  USED = 'used',
+  EXPIRED = 'expired'
+}
+
+export interface CreateQuoteRequest {
+  user_id?: string;
+  api_key_id?: string; // Set when an API key asks for the quote; its spread override applies
+  source_amount: number | string;
+  source_currency: string;
+  destination_currency: string;
+}
+
+export interface QuoteResponse {
+  id: string;
+  status: QuoteStatus;
+  source_amount: string;
+  source_currency: string;
+  destination_amount: string;
+  destination_currency: string;
+  exchange_rate: string;
+  mid_exchange_rate?: string;
+  spread_bps: number;
+  spread_amount: string;
+  fee_breakdown: Record<string, string>;
+  fee_amount: string;
+  total_amount: string;
+  payment_id?: string;
+  expires_at: string;
+  created_at: string;
+}
+
+export interface Refund {
+  id: string;
+  payment_id: string;
+  amount: number; // Minor units of the payment source currency
+  currency: string;
+  status: RefundStatus;
+  reason?: string;
+  transaction_id?: string;
+  provider?: string;
+  idempotency_key?: string;
+  failure_reason?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export enum RefundStatus {
+  PENDING = 'pending',
+  PROCESSING = 'processing',
+  COMPLETED = 'completed',
+  FAILED = 'failed'
+}
+
+export interface CreateRefundRequest {
+  amount?: number | string; // Major units; omitted for a full refund of what is left
+  reason?: string;
+  idempotency_key?: string;
+}
+
+export interface RefundResponse {
+  id: string;
+  payment_id: string;
+  amount: string;
+  currency: string;
+  status: RefundStatus;
+  reason?: string;
+  transaction_id?: string;
+  provider?: string;
+  failure_reason?: string;
   created_at: string;
+  updated_at: string;
 }
 
 export interface FeeConfig {
   id: number;
   currency: string;
-  base_fee: number;
+  base_fee: number; // Minor units of currency
   percentage_fee: number;
-  minimum_fee: number;
-  maximum_fee?: number;
+  minimum_fee: number; // Minor units of currency
+  maximum_fee?: number; // Minor units of currency
   created_at: string;
 }
 
 export interface FeeCalculation {
-  base_fee: number;
-  percentage_fee: number;
-  total_fee: number;
+  base_fee: Money;
+  percentage_fee: Money;
+  total_fee: Money;
   currency: string;
 }
 
+/**
+ * Amounts for a transfer priced at a given exchange rate.
+ * The fee is charged in the source currency, so source_amount + fee_amount = total_amount exactly.
+ */
+export interface PaymentAmounts {
+  source_amount: Money;
+  destination_amount: Money;
+  exchange_rate: string;
+  fee_breakdown: FeeCalculation; // In the destination currency
+  fee_amount: Money;
+  total_amount: Money;
+}
+
 export interface Transaction {
   id: string;
   payment_id: string;
+  user_id?: string; // Owner: the payment's user, or the principal of a direct transaction
   type: TransactionType;
-  amount: number;
+  amount: number; // Minor units of currency
   currency: string;
   status: TransactionStatus;
   external_reference?: string;
@@ -83,26 +380,90 @@ export interface Transaction {
 export enum TransactionType {
   ONRAMP = 'onramp',
   OFFRAMP = 'offramp',
-  FEE = 'fee'
+  FEE = 'fee',
+  REFUND = 'refund'
 }
 
 export enum TransactionStatus {
   PENDING = 'pending',
   PROCESSING = 'processing',
   COMPLETED = 'completed',
-  FAILED = 'failed'
+  FAILED = 'failed',
+  CANCELLED = 'cancelled' // Stopped before it settled, by the client or for want of a callback
 }
 
 export interface Webhook {
   id: string;
   payment_id: string;
+  endpoint_id?: string; // Unset for deliveries to the payment's own webhook_url
+  url?: string;
   event_type: WebhookEventType;
   status: WebhookStatus;
   payload: Record<string, any>;
   response?: Record<string, any>;
-  retry_count: number;
+  retry_count: number; // Failed attempts since it was queued or last redriven
+  next_attempt_at?: string; // When the delivery worker picks it up next
   created_at: string;
   sent_at?: string;
+  attempts?: WebhookAttempt[];
+}
+
+/**
+ * One HTTP request made for a webhook delivery
+ */
+export interface WebhookAttempt {
+  id: string;
+  webhook_id: string;
+  attempt_number: number;
+  url: string;
+  status_code?: number; // Unset when no response was received
+  latency_ms: number;
+  response_body?: string; // Truncated
+  error?: string;
+  created_at: string;
+}
+
+/**
+ * A URL a merchant registered to receive events for their payments
+ */
+export interface WebhookEndpoint {
+  id: string;
+  owner_id: string; // User id or API key id, like payments.user_id
+  url: string;
+  description?: string;
+  event_types: string; // JSON array of WebhookEventType values, or ["*"] for all
+  enabled: boolean;
+  secret: string;
+  previous_secret?: string; // Still signs deliveries until previous_secret_expires_at
+  previous_secret_expires_at?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreateWebhookEndpointRequest {
+  url: string;
+  description?: string;
+  event_types: string[];
+  enabled?: boolean;
+}
+
+export interface UpdateWebhookEndpointRequest {
+  url?: string;
+  description?: string;
+  event_types?: string[];
+  enabled?: boolean;
+}
+
+export interface WebhookEndpointResponse {
+  id: string;
+  url: string;
+  description?: string;
+  event_types: string[];
+  enabled: boolean;
+  secret?: string; // Only returned when the endpoint is created or its secret rotated
+  previous_secret_expires_at?: string; // Set while the previous secret still signs deliveries
+  created_at: string;
+  updated_at: string;
 }
 
 export enum WebhookEventType {
@@ -111,25 +472,90 @@ export enum WebhookEventType {
   PAYMENT_COMPLETED = 'payment.completed',
   PAYMENT_FAILED = 'payment.failed',
   ONRAMP_COMPLETED = 'onramp.completed',
-  OFFRAMP_COMPLETED = 'offramp.completed'
+  OFFRAMP_COMPLETED = 'offramp.completed',
+  REFUND_CREATED = 'refund.created',
+  REFUND_PROCESSING = 'refund.processing',
+  REFUND_COMPLETED = 'refund.completed',
+  REFUND_FAILED = 'refund.failed'
 }
 
 export enum WebhookStatus {
   PENDING = 'pending',
   SENT = 'sent',
-  FAILED = 'failed'
+  FAILED = 'failed', // Cannot be delivered, e.g. its endpoint was deleted
+  DEAD_LETTER = 'dead_letter' // Ran out of retries; can be redriven
 }
 
+// What became of a provider's quote when the best rate for a pair was picked
+export type RateQuoteStatus = 'selected' | 'candidate' | 'stale' | 'outlier';
+
 export interface ExchangeRate {
   id: number;
   from_currency: string;
   to_currency: string;
   rate: number;
   provider: string;
+  as_of?: string; // When the provider published the rate
+  status: RateQuoteStatus;
   created_at: string;
   expires_at: string;
 }
 
+// A selected exchange rate as it was picked, kept for the rate history
+export interface RateObservation {
+  id: number;
+  from_currency: string;
+  to_currency: string;
+  rate: number;
+  provider: string;
+  observed_at: string;
+}
+
+export interface RateCandle {
+  bucket_start: string;
+  open: string;
+  high: string;
+  low: string;
+  close: string;
+  samples: number; // Observations the candle was built from
+}
+
+export interface RateHistoryResponse {
+  pair: string; // e.g. USD-EUR
+  interval: string;
+  from: string;
+  to: string;
+  candles: RateCandle[];
+}
+
+/**
+ * FX spread in basis points charged on a currency pair. A spread applies to
+ * every customer, to customers of a tier, or to one API key; "*" matches any
+ * currency. See FxSpreadService for how one is picked.
+ */
+export interface FxSpread {
+  id: string;
+  source_currency: string;
+  destination_currency: string;
+  tier?: string;
+  api_key_id?: string;
+  spread_bps: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreateFxSpreadRequest {
+  source_currency: string;
+  destination_currency: string;
+  tier?: string;
+  api_key_id?: string;
+  spread_bps: number;
+}
+
+export interface UpdateFxSpreadRequest {
+  spread_bps: number;
+}
+
 export interface ApiResponse<T> {
   success: boolean;
   data?: T;
@@ -149,15 +575,140 @@ export interface PaginationParams {
 export interface PaymentListResponse {
   payments: PaymentResponse[];
   pagination: {
-    page: number;
     limit: number;
-    total: number;
     has_more: boolean;
+    next_cursor?: string; // Pass as cursor to get the next page
   };
-} 
+}
+
+/**
+ * Whose payments a caller may see: a user's own, an API key's own, or all (admins).
+ * Resources created through an API key are owned by the key id.
+ */
+export interface PaymentOwnerScope {
+  user_id?: string;
+  api_key_id?: string;
+  all?: boolean;
+}
+
+export interface PaymentListQuery {
+  scope: PaymentOwnerScope;
+  limit?: number;
+  cursor?: string;
+  status?: PaymentStatus[];
+  currency?: string; // Matches either side of the payment
+  source_currency?: string;
+  destination_currency?: string;
+  created_from?: string;
+  created_to?: string;
+  min_amount?: string; // Major units of the source currency
+  max_amount?: string;
+  idempotency_key?: string;
+}
+
+export enum StreamEventType {
+  PAYMENT_STATUS_CHANGED = 'payment.status_changed',
+  TRANSACTION_UPDATED = 'transaction.updated'
+}
+
+/**
+ * An entry in the stream_events log; id is the SSE event id
+ */
+export interface StreamEvent {
+  id: number;
+  owner_id?: string; // The payment's or transaction's owner
+  payment_id?: string;
+  transaction_id?: string;
+  event_type: StreamEventType;
+  data: Record<string, unknown>;
+  created_at: string;
+}
+
+export interface WebhookListQuery {
+  scope: PaymentOwnerScope;
+  limit?: number;
+  cursor?: string;
+  payment_id?: string;
+  event_type?: string;
+  status?: WebhookStatus[];
+  created_from?: string;
+  created_to?: string;
+}
+
+export interface WebhookListResponse {
+  webhooks: Webhook[];
+  pagination: {
+    limit: number;
+    has_more: boolean;
+    next_cursor?: string; // Pass as cursor to get the next page
+  };
+}
+
+/**
+ * Which deliveries to send again: those of one payment, or those created in
+ * a time window, optionally narrowed by event type
+ */
+export interface WebhookReplayRequest {
+  payment_id?: string;
+  created_from?: string;
+  created_to?: string;
+  event_type?: string;
+}
+
+/**
+ * Where a payout is sent. Which fields a recipient needs depends on its
+ * country; see COUNTRY_BANK_REQUIREMENTS in services/bankDetails.ts.
+ */
+export interface BankDetails {
+  account_number?: string;
+  routing_number?: string; // US ABA routing number
+  iban?: string;
+  swift_code?: string; // BIC
+  ifsc_code?: string; // India
+  pix_key?: string; // Brazil: CPF, CNPJ, email, +55 phone or random key
+  clabe?: string; // Mexico
+  bank_name?: string;
+  address?: string;
+}
+
+/**
+ * A saved payout beneficiary of a user or API key
+ */
+export interface Recipient extends BankDetails {
+  id: string;
+  owner_id: string; // User id or API key id, like payments.user_id
+  name: string;
+  email?: string;
+  country: string; // ISO 3166-1 alpha-2
+  currency: string; // Payout currency, fixed by the country
+  created_at: string;
+  updated_at: string;
+  deleted_at?: string;
+}
+
+export interface CreateRecipientRequest extends BankDetails {
+  name: string;
+  email?: string;
+  country: string;
+}
+
+export interface UpdateRecipientRequest extends BankDetails {
+  name?: string;
+  email?: string;
+}
+
+export interface RecipientResponse extends BankDetails {
+  id: string;
+  name: string;
+  email?: string;
+  country: string;
+  currency: string;
+  created_at: string;
+  updated_at: string;
+}
 
 export interface OnrampTransactionRequest {
-  amount: number;
+  amount: number | string;
   source_currency: string;
   destination_currency: string;
   provider: string;
@@ -166,7 +717,7 @@ export interface OnrampTransactionRequest {
 }
 
 export interface OfframpTransactionRequest {
-  amount: number;
+  amount: number | string;
   source_currency: string;
   destination_currency: string;
   provider: string;
@@ -177,7 +728,7 @@ export interface OfframpTransactionRequest {
 export interface OnrampTransactionResponse {
   id: string;
   status: TransactionStatus;
-  amount: number;
+  amount: string;
   source_currency: string;
   destination_currency: string;
   provider: string;
@@ -190,12 +741,13 @@ export interface OnrampTransactionResponse {
 export interface OfframpTransactionResponse {
   id: string;
   status: TransactionStatus;
-  amount: number;
+  amount: string;
   source_currency: string;
   destination_currency: string;
   provider: string;
   provider_name: string;
   estimated_completion: string;
   external_reference?: string;
+  recipient_details?: BankDetails & { country: string }; // Masked; account identifiers show their last 4 characters
   created_at: string;
 } 
\ No newline at end of file